@@ -0,0 +1,201 @@
+import process from "node:process";
+import { Client, Databases, ID, Permission, Query, Role, Teams } from 'node-appwrite';
+
+// Mirrors STAFF_ROLES in src/utils/permissions.ts
+const STAFF_ROLES = ['admin', 'dispatcher', 'server'];
+// Mirrors the outcomes with status "completed" in src/utils/serveOutcomes.ts
+const COMPLETED_OUTCOMES = ['personal', 'substituted', 'affix_and_mail', 'corporate', 'served_unspecified'];
+// Mirrors the statuses that may move to "served" in src/utils/caseWorkflow.ts
+const SERVABLE_STATUSES = ['new', 'in_progress', 'unable_to_serve'];
+// Mirrors LEGACY_STATUSES in src/utils/caseWorkflow.ts
+const LEGACY_STATUSES = { Pending: 'new', Active: 'in_progress', Closed: 'closed' };
+// Mirrors getOutcomeLabel in src/utils/serveOutcomes.ts, for the status log note
+const OUTCOME_LABELS = {
+  personal: 'Personal Delivery',
+  substituted: 'Substituted Service',
+  affix_and_mail: 'Affix and Mail',
+  corporate: 'Corporate / Agent',
+  served_unspecified: 'Served (method not recorded)',
+  not_home: 'Not Home',
+  refused: 'Refused',
+  bad_address: 'Bad Address',
+  moved: 'Moved',
+  no_access: 'No Access',
+  other: 'Other',
+  attempted_unspecified: 'Attempted (reason not recorded)',
+};
+
+const normalizeCaseStatus = (status) => LEGACY_STATUSES[status] || status || 'new';
+
+// Mirrors resolveOutcome in src/utils/serveOutcomes.ts
+const resolveOutcome = (serveDoc) =>
+  OUTCOME_LABELS[serveDoc.outcome] ? serveDoc.outcome :
+  serveDoc.status === 'completed' ? 'served_unspecified' : 'attempted_unspecified';
+
+// Mirrors getTransitionForServe in src/utils/caseWorkflow.ts
+const getTransitionForServe = (current, outcome) => {
+  const status = normalizeCaseStatus(current);
+  if (COMPLETED_OUTCOMES.includes(outcome)) {
+    return SERVABLE_STATUSES.includes(status) ? 'served' : null;
+  }
+  return status === 'new' ? 'in_progress' : null;
+};
+
+const parseBody = (req) => {
+  if (!req.body) return {};
+  return typeof req.body === 'string' ? JSON.parse(req.body) : req.body;
+};
+
+// Only signed-in staff may run the function; client accounts are team members too
+const getStaffMembership = async (teams, teamId, userId) => {
+  if (!userId) return null;
+  const response = await teams.listMemberships(teamId, [Query.equal('userId', userId)]);
+  return response.memberships.find(membership =>
+    membership.confirm && membership.roles.some(role => role === 'owner' || STAFF_ROLES.includes(role))
+  ) || null;
+};
+
+// Servers may only advance cases through their own attempts
+const advanceForServe = async ({ databases, env, membership, error }, { serveId }) => {
+  const serveDoc = await databases.getDocument(env.databaseId, env.serveAttemptsCollectionId, serveId);
+  const isServerOnly = !membership.roles.some(role => ['owner', 'admin', 'dispatcher'].includes(role));
+  if (isServerOnly && serveDoc.server_id !== membership.userId) {
+    return { success: false, message: 'Not allowed to update this case' };
+  }
+
+  const response = await databases.listDocuments(env.databaseId, env.casesCollectionId, [
+    Query.equal('client_id', serveDoc.client_id),
+    Query.equal('case_number', serveDoc.case_number),
+  ]);
+  const caseDoc = response.documents[0];
+  if (!caseDoc) return { success: true, case: null };
+
+  const outcome = resolveOutcome(serveDoc);
+  const next = getTransitionForServe(caseDoc.status, outcome);
+  if (!next) return { success: true, case: null };
+
+  const now = new Date().toISOString();
+  const updated = await databases.updateDocument(env.databaseId, env.casesCollectionId, caseDoc.$id, {
+    status: next,
+    updated_at: now,
+  });
+
+  // Mirrors logCaseStatusChange in src/lib/appwrite.js
+  await databases.createDocument(
+    env.databaseId,
+    env.statusLogCollectionId,
+    ID.unique(),
+    {
+      case_id: caseDoc.$id,
+      from_status: normalizeCaseStatus(caseDoc.status),
+      to_status: next,
+      user_id: membership.userId,
+      user_name: membership.userName || membership.userEmail || '',
+      note: `Attempt #${serveDoc.attempt_number}: ${OUTCOME_LABELS[outcome]}`,
+      automatic: true,
+      created_at: now,
+    },
+    ['owner', ...STAFF_ROLES].map(role => Permission.read(Role.team(env.teamId, role)))
+  ).catch(err => error(`Error logging case status change: ${err.message}`));
+
+  return { success: true, case: updated };
+};
+
+// Mirrors parseCaseAddresses in src/utils/caseAddresses.ts, including the legacy columns
+const parseCaseAddresses = (caseDoc) => {
+  if (caseDoc.addresses) {
+    try {
+      const parsed = JSON.parse(caseDoc.addresses);
+      if (Array.isArray(parsed)) {
+        return parsed
+          .filter(entry => entry && typeof entry.address === 'string' && entry.address.trim())
+          .map((entry, index) => ({ ...entry, id: entry.id || `address-${index}` }));
+      }
+    } catch (err) {
+      // Fall through to the legacy columns
+    }
+  }
+
+  const legacy = [];
+  if (caseDoc.home_address) {
+    legacy.push({ id: 'home', label: 'home', address: caseDoc.home_address, status: 'valid', source: 'client' });
+  }
+  if (caseDoc.work_address) {
+    legacy.push({ id: 'work', label: 'work', address: caseDoc.work_address, status: 'valid', source: 'client' });
+  }
+  return legacy;
+};
+
+// Mirrors getAddressLocation in src/utils/caseAddresses.ts: a position only
+// counts for the address text it was looked up for
+const isValidLocation = (location, address) =>
+  !!location &&
+  Number.isFinite(location.latitude) &&
+  Number.isFinite(location.longitude) &&
+  location.query === address.trim();
+
+// Keeps geocoded positions on the case. Only positions are taken from the
+// request; the address list itself can't be changed this way
+const saveCaseAddresses = async ({ databases, env }, { caseId, addresses }) => {
+  const caseDoc = await databases.getDocument(env.databaseId, env.casesCollectionId, caseId);
+  const current = parseCaseAddresses(caseDoc);
+
+  let located = 0;
+  const merged = current.map(entry => {
+    const update = (addresses || []).find(candidate => candidate?.id === entry.id);
+    if (!update || !isValidLocation(update.location, entry.address)) return entry;
+    if (isValidLocation(entry.location, entry.address)) return entry;
+    located++;
+    const { latitude, longitude, query, provider } = update.location;
+    return { ...entry, location: { latitude, longitude, query, provider: String(provider || '') } };
+  });
+
+  if (located === 0) return { success: true, case: null };
+
+  // Mirrors serializeCaseAddresses in src/utils/caseAddresses.ts
+  const updated = await databases.updateDocument(env.databaseId, env.casesCollectionId, caseId, {
+    addresses: JSON.stringify(merged.map(entry => ({ ...entry, address: entry.address.trim() }))),
+  });
+  return { success: true, case: updated };
+};
+
+const ACTIONS = {
+  advance_for_serve: advanceForServe,
+  save_case_addresses: saveCaseAddresses,
+};
+
+export default async ({ req, res, log, error }) => {
+  try {
+    const body = parseBody(req);
+    const action = ACTIONS[body.action];
+    if (!action) {
+      return res.json({ success: false, message: `Unknown action: ${body.action}` });
+    }
+
+    const appwriteClient = new Client()
+      .setEndpoint(process.env.APPWRITE_FUNCTION_API_ENDPOINT)
+      .setProject(process.env.APPWRITE_FUNCTION_PROJECT_ID)
+      .setKey(process.env.APPWRITE_FUNCTION_API_KEY);
+    const databases = new Databases(appwriteClient);
+    const teams = new Teams(appwriteClient);
+
+    const env = {
+      databaseId: process.env.APPWRITE_FUNCTION_DATABASE_ID,
+      casesCollectionId: process.env.APPWRITE_FUNCTION_CASES_COLLECTION_ID,
+      serveAttemptsCollectionId: process.env.APPWRITE_FUNCTION_SERVE_ATTEMPTS_COLLECTION_ID,
+      statusLogCollectionId: process.env.APPWRITE_FUNCTION_CASE_STATUS_LOG_COLLECTION_ID || 'case_status_log',
+      teamId: process.env.APPWRITE_FUNCTION_TEAM_ID || 'serve-tracker-staff',
+    };
+
+    const membership = await getStaffMembership(teams, env.teamId, req.headers['x-appwrite-user-id']);
+    if (!membership) {
+      return res.json({ success: false, message: 'Only staff accounts can update cases' });
+    }
+
+    log(`${body.action} requested by ${membership.userId}`);
+    return res.json(await action({ databases, env, membership, error }, body));
+  } catch (err) {
+    error(`Error applying case update: ${err.message}`);
+    return res.json({ success: false, message: err.message });
+  }
+};
@@ -0,0 +1,179 @@
+import process from "node:process";
+import { Client, Databases, Functions, Query } from 'node-appwrite';
+
+// Mirrors src/utils/caseDeadlines.ts
+const SERVICE_WINDOW_DAYS = 120;
+// Mirrors the terminal statuses in src/utils/caseWorkflow.ts, including the legacy "Closed"
+const CLOSED_STATUSES = ['closed', 'cancelled', 'Closed'];
+// Served and the later steps of the main flow; the service deadline no longer applies
+const SERVED_STATUSES = ['served', 'mailing_sent', 'affidavit_signed', 'filed', 'closed', 'Closed'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 100;
+
+// Pages through the whole collection; a single listDocuments call stops at its limit
+const listAllDocuments = async (databases, databaseId, collectionId) => {
+  const documents = [];
+  let cursor = null;
+  while (true) {
+    const queries = [Query.limit(PAGE_SIZE)];
+    if (cursor) queries.push(Query.cursorAfter(cursor));
+    const response = await databases.listDocuments(databaseId, collectionId, queries);
+    documents.push(...response.documents);
+    if (response.documents.length < PAGE_SIZE) break;
+    cursor = response.documents[response.documents.length - 1].$id;
+  }
+  return documents;
+};
+
+const parseDate = (value) => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const daysUntil = (date, now) => {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  return Math.round((day - today) / DAY_MS);
+};
+
+const getCaseDeadlines = (caseDoc, now) => {
+  const deadlines = [];
+
+  const filed = parseDate(caseDoc.filing_date);
+  const serviceDeadline = parseDate(caseDoc.service_deadline)
+    || (filed ? new Date(filed.getTime() + SERVICE_WINDOW_DAYS * DAY_MS) : null);
+  if (serviceDeadline && !SERVED_STATUSES.includes(caseDoc.status)) {
+    deadlines.push({ label: 'Service deadline', date: serviceDeadline, daysRemaining: daysUntil(serviceDeadline, now) });
+  }
+
+  // A court date can't be overdue; once it has passed there is nothing to remind about
+  const courtDate = parseDate(caseDoc.court_date);
+  const courtDays = courtDate ? daysUntil(courtDate, now) : -1;
+  if (courtDate && courtDays >= 0) {
+    deadlines.push({ label: 'Court date', date: courtDate, daysRemaining: courtDays });
+  }
+
+  return deadlines;
+};
+
+const describeDays = (days) =>
+  days < 0 ? `${Math.abs(days)} days overdue` :
+  days === 0 ? 'today' :
+  `in ${days} days`;
+
+// Client and case names are user input
+const escapeHtml = (value) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const buildEmailBody = (reminders) => {
+  const rows = reminders.map(reminder => `
+    <tr>
+      <td style="padding: 6px; border-bottom: 1px solid #eee;">${escapeHtml(reminder.clientName)}</td>
+      <td style="padding: 6px; border-bottom: 1px solid #eee;">${escapeHtml(reminder.caseName || reminder.caseNumber)}</td>
+      <td style="padding: 6px; border-bottom: 1px solid #eee;">${reminder.label}</td>
+      <td style="padding: 6px; border-bottom: 1px solid #eee;">${reminder.date.toLocaleDateString('en-US', { timeZone: 'UTC' })}</td>
+      <td style="padding: 6px; border-bottom: 1px solid #eee; color: ${reminder.daysRemaining < 0 ? '#b91c1c' : '#333'};">${describeDays(reminder.daysRemaining)}</td>
+    </tr>`).join('');
+
+  return `
+    <div style="font-family: Arial, sans-serif; max-width: 700px; margin: 0 auto;">
+      <h2>Upcoming Case Deadlines</h2>
+      <p>The following open cases have deadlines coming up or already passed.</p>
+      <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+        <thead>
+          <tr style="text-align: left;">
+            <th style="padding: 6px;">Client</th>
+            <th style="padding: 6px;">Case</th>
+            <th style="padding: 6px;">Deadline</th>
+            <th style="padding: 6px;">Date</th>
+            <th style="padding: 6px;">Due</th>
+          </tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+    </div>
+  `;
+};
+
+export default async ({ req, res, log, error }) => {
+  log('Checking case deadlines...');
+
+  try {
+    const appwriteClient = new Client()
+      .setEndpoint(process.env.APPWRITE_FUNCTION_API_ENDPOINT)
+      .setProject(process.env.APPWRITE_FUNCTION_PROJECT_ID)
+      .setKey(process.env.APPWRITE_FUNCTION_API_KEY);
+    const databases = new Databases(appwriteClient);
+    const functions = new Functions(appwriteClient);
+
+    const databaseId = process.env.APPWRITE_FUNCTION_DATABASE_ID;
+    const windowDays = parseInt(process.env.REMINDER_WINDOW_DAYS || '21', 10);
+    const now = new Date();
+
+    const cases = await listAllDocuments(
+      databases,
+      databaseId,
+      process.env.APPWRITE_FUNCTION_CASES_COLLECTION_ID
+    );
+    const openCases = cases.filter(caseDoc => !CLOSED_STATUSES.includes(caseDoc.status));
+
+    const clientNames = {};
+    if (process.env.APPWRITE_FUNCTION_CLIENTS_COLLECTION_ID) {
+      const clients = await listAllDocuments(
+        databases,
+        databaseId,
+        process.env.APPWRITE_FUNCTION_CLIENTS_COLLECTION_ID
+      );
+      clients.forEach(client => {
+        clientNames[client.$id] = client.name;
+      });
+    }
+
+    const reminders = [];
+    for (const caseDoc of openCases) {
+      for (const deadline of getCaseDeadlines(caseDoc, now)) {
+        if (deadline.daysRemaining <= windowDays) {
+          reminders.push({
+            ...deadline,
+            clientName: clientNames[caseDoc.client_id] || 'Unknown Client',
+            caseNumber: caseDoc.case_number,
+            caseName: caseDoc.case_name,
+          });
+        }
+      }
+    }
+
+    if (reminders.length === 0) {
+      log('No deadlines due');
+      return res.json({ success: true, reminders: 0 });
+    }
+
+    reminders.sort((a, b) => a.daysRemaining - b.daysRemaining);
+
+    const overdue = reminders.filter(reminder => reminder.daysRemaining < 0).length;
+    const subject = overdue > 0
+      ? `Case Deadlines: ${overdue} overdue, ${reminders.length - overdue} upcoming`
+      : `Case Deadlines: ${reminders.length} upcoming`;
+
+    await functions.createExecution(
+      process.env.SEND_EMAIL_FUNCTION_ID || 'sendEmail',
+      JSON.stringify({
+        to: process.env.REMINDER_EMAIL || 'info@justlegalsolutions.org',
+        subject,
+        html: buildEmailBody(reminders)
+      })
+    );
+
+    log(`Sent reminder for ${reminders.length} deadlines`);
+    return res.json({ success: true, reminders: reminders.length });
+  } catch (err) {
+    error(`Error sending deadline reminders: ${err.message}`);
+    return res.json({ success: false, message: err.message });
+  }
+};
@@ -1,6 +1,7 @@
 import nodemailer from 'nodemailer';
 import process from "node:process";
-import { Client, Databases } from 'node-appwrite';
+import { Buffer } from "node:buffer";
+import { Client, Databases, Storage } from 'node-appwrite';
 
 export default async ({ req, res, log, error }) => {
   log('Processing request...');
@@ -19,7 +20,7 @@ export default async ({ req, res, log, error }) => {
     log(JSON.stringify(req.bodyJson));
     log(JSON.stringify(req.headers));
 
-    const { to, subject, html, text, serveId, imageData } = payload;
+    const { to, subject, html, text, serveId, imageData, photos } = payload;
 
     if (!to || !subject || (!html && !text)) {
       return res.json({ success: false, message: "Missing required fields (to, subject, and either html or text)" });
@@ -30,6 +31,7 @@ export default async ({ req, res, log, error }) => {
       .setProject(process.env.APPWRITE_FUNCTION_PROJECT_ID)
       .setKey(process.env.APPWRITE_FUNCTION_API_KEY);
     const databases = new Databases(appwriteClient);
+    const storage = new Storage(appwriteClient);
 
     const emailData = {
       from: process.env.SMTP_FROM || 'no-reply@example.com',
@@ -45,9 +47,27 @@ export default async ({ req, res, log, error }) => {
       emailData.to.push('info@justlegalsolutions.org');
     }
 
-    // If serveId is provided, fetch the document to get image_data,
-    // otherwise, if imageData is provided, use it directly.
-    if (serveId) {
+    // A photo gallery is attached from the storage bucket, one file per photo.
+    // Otherwise fall back to the serve document's image_data or inline imageData.
+    if (Array.isArray(photos) && photos.length > 0) {
+      log(`Attaching ${photos.length} photos from storage`);
+      for (const [index, photo] of photos.entries()) {
+        if (!photo.fileId) continue;
+        try {
+          const file = await storage.getFileDownload(
+            process.env.APPWRITE_FUNCTION_STORAGE_BUCKET_ID,
+            photo.fileId
+          );
+          const caption = (photo.caption || 'photo').toLowerCase().replace(/[^a-z0-9]+/g, '_');
+          emailData.attachments.push({
+            filename: `${String(index + 1).padStart(2, '0')}_${caption}.jpeg`,
+            content: Buffer.from(file)
+          });
+        } catch (fileError) {
+          error(`Failed to download photo ${photo.fileId}: ${fileError.message}`);
+        }
+      }
+    } else if (serveId) {
       log(`Fetching serve attempt with ID: ${serveId}`);
       try {
         const serve = await databases.getDocument(
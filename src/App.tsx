@@ -9,8 +9,14 @@ import History from './pages/History';
 import Settings from './pages/Settings';
 import Index from './pages/Index';
 import LoginPage from './pages/LoginPage';
+import ResetPasswordPage from './pages/ResetPassword';
+import AcceptInvitePage from './pages/AcceptInvite';
 import MigrationPage from './pages/Migration';
 import DataExport from './pages/DataExport';
+import Dispatch from './pages/Dispatch';
+import MapPage from './pages/MapPage';
+import RoutePlanner from './pages/RoutePlanner';
+import Mileage from './pages/Mileage';
 import { ServeAttemptData } from './components/ServeAttempt';
 import { ClientData } from './components/ClientForm';
 import { appwrite } from './lib/appwrite';
@@ -28,6 +34,11 @@ import { initializeDebugTools } from '@/utils/debugUtils';
 import { normalizeServeDataArray } from "@/utils/dataNormalization";
 import { createServeEmailBody, createDeleteNotificationEmail } from "@/utils/email";
 import { shouldSkipSync, logMemoryStats } from "@/utils/memoryUtils";
+import { startOutboxSync } from "@/utils/outboxSync";
+import { startTrailTracking } from "@/utils/dutyTrail";
+import { useAuth } from "@/hooks/use-auth";
+import { AuthProvider } from "@/components/AuthProvider";
+import { PermissionAction } from "@/utils/permissions";
 
 // Initialize debug tools for development
 if (process.env.NODE_ENV !== 'production') {
@@ -86,22 +97,33 @@ const queryClient = new QueryClient({
 });
 
 // Create a protected route wrapper component
-const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
-  const isAuthenticated = localStorage.getItem("serve-tracker-auth") === "authenticated";
-  const navigate = useNavigate();
-  
-  useEffect(() => {
-    if (!isAuthenticated) {
-      navigate('/login');
-    }
-  }, [isAuthenticated, navigate]);
+const ProtectedRoute = ({ children, permission }: { children: React.ReactNode; permission?: PermissionAction }) => {
+  const { user, isLoading, can } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">Checking session...</p>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  // Signed in but not allowed here - send them back to the dashboard
+  if (permission && !can(permission)) {
+    return <Navigate to="/dashboard" replace />;
+  }
 
-  return isAuthenticated ? <>{children}</> : <Navigate to="/login" replace />;
+  return <>{children}</>;
 };
 
 const AnimatedRoutes = () => {
   const location = useLocation();
   const navigate = useNavigate();
+  const { user } = useAuth();
   const [clients, setClients] = useState<ClientData[]>(() => {
     const savedClients = localStorage.getItem("serve-tracker-clients");
     return savedClients ? JSON.parse(savedClients) : [];
@@ -114,6 +136,8 @@ const AnimatedRoutes = () => {
   const [showAppwriteAlert, setShowAppwriteAlert] = useState(false);
 
   useEffect(() => {
+    if (!user) return;
+
     const checkBackend = async () => {
       const isAppwriteConnected = await checkAppwriteConnection();
       if (isAppwriteConnected) {
@@ -130,7 +154,19 @@ const AnimatedRoutes = () => {
       }
     };
     checkBackend();
-  }, []);
+  }, [user]);
+
+  // Upload attempts that were recorded while offline
+  useEffect(() => {
+    if (!user) return;
+    return startOutboxSync();
+  }, [user]);
+
+  // Sample the on-duty trail while a shift is active
+  useEffect(() => {
+    if (!user) return;
+    return startTrailTracking();
+  }, [user]);
 
   const loadAppwriteData = async () => {
     try {
@@ -151,7 +187,7 @@ const AnimatedRoutes = () => {
 
   useEffect(() => {
     const performInitialSync = async () => {
-      if (isInitialSync) {
+      if (isInitialSync && user) {
         setIsSyncing(true);
         try {
           console.log("Performing initial sync from Appwrite");
@@ -165,7 +201,7 @@ const AnimatedRoutes = () => {
       }
     };
     performInitialSync();
-  }, [isInitialSync]);
+  }, [isInitialSync, user]);
 
   // Remove the periodic sync that was causing memory issues
   // Data will be fetched fresh when needed
@@ -340,6 +376,14 @@ const AnimatedRoutes = () => {
       const newServe = await appwrite.createServeAttempt(serveData);
       console.log("Serve attempt saved successfully:", newServe.id);
 
+      if (newServe.queued) {
+        toast({
+          title: "Saved offline",
+          description: "No connection. The attempt is queued and will upload when you're back online.",
+        });
+        return true;
+      }
+
       // Prepare and send email notification
       console.log("Preparing email notification for serve attempt");
       const emailBody = createServeEmailBody(
@@ -349,7 +393,11 @@ const AnimatedRoutes = () => {
         new Date(),
         serveData.coordinates,
         serveData.attemptNumber || 1,
-        serveData.caseNumber || "Unknown Case"
+        serveData.caseNumber || "Unknown Case",
+        undefined,
+        undefined,
+        undefined,
+        serveData.geofence
       );
 
       const emailData = {
@@ -374,6 +422,22 @@ const AnimatedRoutes = () => {
         variant: "success",
       });
 
+      if (newServe.caseUpdateFailed) {
+        toast({
+          title: "Case status not updated",
+          description: "The attempt was saved, but its case could not be moved along. Update the status from the case page.",
+          variant: "warning",
+        });
+      }
+
+      if (newServe.custodyFailed) {
+        toast({
+          title: "Custody log not updated",
+          description: "The attempt was saved, but its chain-of-custody entry could not be written. Tell an admin before relying on its custody report.",
+          variant: "warning",
+        });
+      }
+
       return true;
     } catch (error) {
       console.error("Error creating serve attempt:", error);
@@ -414,6 +478,14 @@ const AnimatedRoutes = () => {
         variant: "success",
       });
 
+      if (updatedServe.caseUpdateFailed) {
+        toast({
+          title: "Case status not updated",
+          description: "The attempt was updated, but its case could not be moved along. Update the status from the case page.",
+          variant: "warning",
+        });
+      }
+
       return true;
     } catch (error) {
       console.error("Error updating serve attempt:", error);
@@ -472,6 +544,8 @@ const AnimatedRoutes = () => {
       )}
       <Routes location={location}>
         <Route path="/login" element={<LoginPage />} />
+        <Route path="/reset-password" element={<ResetPasswordPage />} />
+        <Route path="/accept-invite" element={<AcceptInvitePage />} />
         
         <Route element={
           <ProtectedRoute>
@@ -483,10 +557,14 @@ const AnimatedRoutes = () => {
             <Dashboard clients={clients} serves={[]} />
           } />
           <Route path="/new-serve" element={
-            <NewServe clients={clients} addServe={createServe} />
+            <ProtectedRoute permission="serve:create">
+              <NewServe clients={clients} addServe={createServe} />
+            </ProtectedRoute>
           } />
           <Route path="/new-serve/:clientId" element={
-            <NewServe clients={clients} addServe={createServe} />
+            <ProtectedRoute permission="serve:create">
+              <NewServe clients={clients} addServe={createServe} />
+            </ProtectedRoute>
           } />
           <Route path="/clients" element={
             <Clients 
@@ -504,8 +582,32 @@ const AnimatedRoutes = () => {
               updateServe={updateServe}
             />
           } />
-          <Route path="/migration" element={<MigrationPage />} />
-          <Route path="/export" element={<DataExport />} />
+          <Route path="/map" element={<MapPage clients={clients} />} />
+          <Route path="/route" element={
+            <ProtectedRoute permission="serve:create">
+              <RoutePlanner clients={clients} />
+            </ProtectedRoute>
+          } />
+          <Route path="/mileage" element={
+            <ProtectedRoute permission="serve:create">
+              <Mileage />
+            </ProtectedRoute>
+          } />
+          <Route path="/dispatch" element={
+            <ProtectedRoute permission="case:assign">
+              <Dispatch clients={clients} />
+            </ProtectedRoute>
+          } />
+          <Route path="/migration" element={
+            <ProtectedRoute permission="data:migrate">
+              <MigrationPage />
+            </ProtectedRoute>
+          } />
+          <Route path="/export" element={
+            <ProtectedRoute permission="data:export">
+              <DataExport />
+            </ProtectedRoute>
+          } />
           <Route path="/settings" element={<Settings />} />
         </Route>
       </Routes>
@@ -516,7 +618,9 @@ const AnimatedRoutes = () => {
 export default function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <AnimatedRoutes />
+      <AuthProvider>
+        <AnimatedRoutes />
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -0,0 +1,299 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { FileText, Loader2 } from "lucide-react";
+import { ServeAttemptData } from "@/components/ServeAttempt";
+import { appwrite } from "@/lib/appwrite";
+import { uploadClientDocument } from "@/utils/appwriteStorage";
+import { normalizeServeDataArray } from "@/utils/dataNormalization";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { ServiceMethod, isServiceMethod } from "@/utils/serveOutcomes";
+import {
+  AffidavitDetails,
+  AFFIDAVIT_SERVICE_METHODS,
+  DEFAULT_COURT,
+  generateAffidavitPdf,
+  getAffidavitFileName,
+  parseCaseCaption,
+} from "@/utils/affidavit";
+
+interface AffidavitDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  clientId: string;
+  caseNumber: string;
+  caseName?: string;
+  serve?: ServeAttemptData;
+}
+
+const getTime = (serve: ServeAttemptData) => new Date(serve.timestamp).getTime();
+
+export default function AffidavitDialog({ open, onOpenChange, clientId, caseNumber, caseName, serve }: AffidavitDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [caseServes, setCaseServes] = useState<ServeAttemptData[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [details, setDetails] = useState<AffidavitDetails>({
+    court: DEFAULT_COURT,
+    county: "",
+    plaintiff: "",
+    defendant: "",
+    indexNumber: "",
+    documentsServed: "Summons and Complaint",
+    recipientName: "",
+    serviceMethod: "personal",
+    personServed: "",
+    serverName: "",
+    serverLicense: "",
+    swornCounty: "",
+  });
+
+  // Load every attempt on the case so earlier ones can be listed as due diligence
+  useEffect(() => {
+    if (!open) return;
+
+    const loadAttempts = async () => {
+      setIsLoading(true);
+      try {
+        const serves = await appwrite.getClientServeAttempts(clientId);
+        setCaseServes(normalizeServeDataArray(serves).filter(s => s.caseNumber === caseNumber));
+      } catch (error) {
+        console.error("Error loading serve attempts for affidavit:", error);
+        setCaseServes([]);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadAttempts();
+  }, [open, clientId, caseNumber]);
+
+  const completedServe = serve || caseServes
+    .filter(s => s.status === "completed")
+    .sort((a, b) => getTime(b) - getTime(a))[0];
+
+  const priorAttempts = completedServe
+    ? caseServes
+        .filter(s => s.id !== completedServe.id && getTime(s) < getTime(completedServe))
+        .filter(s => !completedServe.partyId || s.partyId === completedServe.partyId)
+        .sort((a, b) => getTime(a) - getTime(b))
+    : [];
+
+  useEffect(() => {
+    if (!open) return;
+    const caption = parseCaseCaption(caseName || completedServe?.caseName);
+    setDetails(prev => ({
+      ...prev,
+      plaintiff: caption.plaintiff,
+      defendant: caption.defendant,
+      recipientName: completedServe?.partyName || caption.defendant,
+      indexNumber: caseNumber,
+      serverName: completedServe?.serverName || user?.name || "",
+      serviceMethod: isServiceMethod(completedServe?.outcome) ? completedServe.outcome : prev.serviceMethod,
+    }));
+  }, [open, caseNumber, caseName, completedServe, user?.name]);
+
+  const updateDetail = (field: keyof AffidavitDetails, value: string) => {
+    setDetails(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleGenerate = async () => {
+    if (!completedServe) return;
+
+    if (!details.county.trim() || !details.recipientName.trim()) {
+      toast({
+        title: "Missing information",
+        description: "County and recipient are required for the affidavit",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsGenerating(true);
+    try {
+      const pdf = generateAffidavitPdf(details, completedServe, priorAttempts);
+      const fileName = getAffidavitFileName(details.indexNumber, completedServe);
+      const file = new File([pdf], fileName, { type: "application/pdf" });
+
+      const document = await uploadClientDocument(
+        clientId,
+        file,
+        caseNumber,
+        `Affidavit of service on ${details.recipientName}`
+      );
+      if (!document) throw new Error("Failed to store affidavit");
+
+      window.dispatchEvent(new CustomEvent("documents-updated"));
+
+      toast({
+        title: "Affidavit generated",
+        description: `${fileName} has been saved to the case documents`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error generating affidavit:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to generate affidavit",
+        variant: "destructive",
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const needsPersonServed = details.serviceMethod === "substituted" || details.serviceMethod === "corporate";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Generate Affidavit of Service</DialogTitle>
+          <DialogDescription>
+            Case #{caseNumber}. The PDF is saved to this case's documents.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Loading serve attempts...
+          </div>
+        ) : !completedServe ? (
+          <p className="py-4 text-sm text-muted-foreground">
+            This case has no completed serve attempt to build an affidavit from.
+          </p>
+        ) : (
+          <div className="grid gap-4 py-2">
+            <div className="rounded-md bg-muted p-3 text-xs text-muted-foreground">
+              Served {new Date(completedServe.timestamp).toLocaleString()} at {completedServe.address || "unknown address"}.
+              {" "}{priorAttempts.length} prior {priorAttempts.length === 1 ? "attempt" : "attempts"} will be listed.
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="affidavit-court">Court</Label>
+              <Input id="affidavit-court" value={details.court} onChange={(e) => updateDetail("court", e.target.value)} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="affidavit-county">County</Label>
+                <Input id="affidavit-county" value={details.county} onChange={(e) => updateDetail("county", e.target.value)} placeholder="Kings" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="affidavit-index">Index Number</Label>
+                <Input id="affidavit-index" value={details.indexNumber} onChange={(e) => updateDetail("indexNumber", e.target.value)} />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="affidavit-plaintiff">Plaintiff</Label>
+                <Input id="affidavit-plaintiff" value={details.plaintiff} onChange={(e) => updateDetail("plaintiff", e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="affidavit-defendant">Defendant</Label>
+                <Input id="affidavit-defendant" value={details.defendant} onChange={(e) => updateDetail("defendant", e.target.value)} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="affidavit-documents">Documents Served</Label>
+              <Input id="affidavit-documents" value={details.documentsServed} onChange={(e) => updateDetail("documentsServed", e.target.value)} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="affidavit-recipient">Recipient</Label>
+                <Input id="affidavit-recipient" value={details.recipientName} onChange={(e) => updateDetail("recipientName", e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="affidavit-method">Service Method</Label>
+                <Select
+                  value={details.serviceMethod}
+                  onValueChange={(value) => updateDetail("serviceMethod", value as ServiceMethod)}
+                >
+                  <SelectTrigger id="affidavit-method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {AFFIDAVIT_SERVICE_METHODS.map((method) => (
+                      <SelectItem key={method.value} value={method.value}>
+                        {method.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {needsPersonServed && (
+              <div className="space-y-2">
+                <Label htmlFor="affidavit-person">Person Served</Label>
+                <Input
+                  id="affidavit-person"
+                  value={details.personServed}
+                  onChange={(e) => updateDetail("personServed", e.target.value)}
+                  placeholder="Name and relationship or title"
+                />
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="affidavit-server">Server Name</Label>
+                <Input id="affidavit-server" value={details.serverName} onChange={(e) => updateDetail("serverName", e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="affidavit-license">License No.</Label>
+                <Input id="affidavit-license" value={details.serverLicense} onChange={(e) => updateDetail("serverLicense", e.target.value)} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="affidavit-sworn">County Sworn In</Label>
+              <Input
+                id="affidavit-sworn"
+                value={details.swornCounty}
+                onChange={(e) => updateDetail("swornCounty", e.target.value)}
+                placeholder="Defaults to the case county"
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isGenerating}>
+            Cancel
+          </Button>
+          <Button onClick={handleGenerate} disabled={!completedServe || isGenerating}>
+            {isGenerating ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <FileText className="mr-2 h-4 w-4" />
+            )}
+            Generate PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,66 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Models } from "appwrite";
+import { appwrite } from "@/lib/appwrite";
+import { SESSION_CHECK_INTERVAL } from "@/config/backendConfig";
+import { UserRole, PermissionAction, getEffectiveRole, hasPermission } from "@/utils/permissions";
+import { AuthContext } from "@/hooks/use-auth";
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<Models.User<Models.Preferences> | null>(null);
+  const [role, setRole] = useState<UserRole | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Ask Appwrite who we are - the session cookie is the only source of truth
+  const refresh = useCallback(async () => {
+    const currentUser = await appwrite.getCurrentUser();
+    if (currentUser) {
+      const membership = await appwrite.getCurrentMembership(currentUser.$id);
+      setRole(getEffectiveRole(membership?.roles));
+    } else {
+      setRole(null);
+    }
+    setUser(currentUser);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Re-verify periodically so an expired or revoked session signs the user out
+  useEffect(() => {
+    if (!user) return;
+
+    const checkSession = async () => {
+      const session = await appwrite.getCurrentSession();
+      if (!session || new Date(session.expire).getTime() <= Date.now()) {
+        console.log("Session expired, signing out");
+        await appwrite.logout();
+        setUser(null);
+        setRole(null);
+      }
+    };
+
+    const interval = setInterval(checkSession, SESSION_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [user]);
+
+  const login = useCallback(async (email: string, password: string) => {
+    await appwrite.login(email, password);
+    await refresh();
+  }, [refresh]);
+
+  const logout = useCallback(async () => {
+    await appwrite.logout();
+    setUser(null);
+    setRole(null);
+  }, []);
+
+  const can = useCallback((action: PermissionAction) => hasPermission(role, action), [role]);
+
+  return (
+    <AuthContext.Provider value={{ user, role, isLoading, can, login, logout, refresh }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
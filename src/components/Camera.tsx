@@ -1,29 +1,39 @@
 
 import React, { useRef, useState, useEffect } from "react";
-import { Camera, X, Image, MapPin, CheckCircle, AlertCircle, RefreshCw, Upload } from "lucide-react";
+import { Camera, X, Image, MapPin, CheckCircle, AlertCircle, AlertTriangle, RefreshCw, Upload } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { getGpsPosition, getVideoDevices, isIOSDevice, isAndroidDevice } from "@/utils/gps";
+import { GpsFix, createGpsFix, getGpsPosition, getVideoDevices, isIOSDevice, isAndroidDevice, isPoorAccuracy } from "@/utils/gps";
 import { useIsMobile } from "@/hooks/use-mobile";
+import GpsAccuracy from "@/components/GpsAccuracy";
+import { WatermarkInfo, applyWatermark, drawWatermark, getWatermarkLines, getWatermarkSettings } from "@/utils/watermark";
 
 interface CameraComponentProps {
-  onCapture: (imageData: string, location: GeolocationCoordinates) => void;
+  // imageData carries the burned-in overlay; originalImageData is the unmarked photo when an overlay was drawn
+  onCapture: (imageData: string, fix: GpsFix, takenAt: Date, originalImageData?: string) => void;
+  // Position of the next photo in the attempt's gallery, shown on the preview
+  photoNumber?: number;
+  // Case details for the evidence overlay
+  watermark?: Omit<WatermarkInfo, "takenAt" | "coordinates">;
 }
 
-const CameraComponent: React.FC<CameraComponentProps> = ({ onCapture }) => {
+const CameraComponent: React.FC<CameraComponentProps> = ({ onCapture, photoNumber, watermark }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [cameraActive, setCameraActive] = useState(false);
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
-  const [location, setLocation] = useState<GeolocationCoordinates | null>(null);
+  const [originalImage, setOriginalImage] = useState<string | null>(null);
+  const [capturedAt, setCapturedAt] = useState<Date | null>(null);
+  const [position, setPosition] = useState<GeolocationPosition | null>(null);
   const [locationStatus, setLocationStatus] = useState<"loading" | "success" | "error" | null>(null);
   const [cameraStatus, setCameraStatus] = useState<"loading" | "active" | "error" | "inactive">("inactive");
   const [cameraDevices, setCameraDevices] = useState<MediaDeviceInfo[]>([]);
   const [selectedCamera, setSelectedCamera] = useState<string | null>(null);
   const [useNativeCamera, setUseNativeCamera] = useState(false);
   const isMobile = useIsMobile();
+  const location = position?.coords || null;
 
   useEffect(() => {
     const fetchCameraDevices = async () => {
@@ -223,8 +233,8 @@ const CameraComponent: React.FC<CameraComponentProps> = ({ onCapture }) => {
   const getLocation = async () => {
     setLocationStatus("loading");
     try {
-      const position = await getGpsPosition();
-      setLocation(position.coords);
+      const reading = await getGpsPosition();
+      setPosition(reading);
       setLocationStatus("success");
     } catch (error) {
       console.error("Error getting GPS:", error);
@@ -233,6 +243,14 @@ const CameraComponent: React.FC<CameraComponentProps> = ({ onCapture }) => {
     }
   };
 
+  const getOverlayLines = (takenAt: Date) => {
+    const settings = getWatermarkSettings();
+    return {
+      settings,
+      lines: getWatermarkLines({ ...watermark, takenAt, coordinates: location }, settings),
+    };
+  };
+
   const capturePhoto = () => {
     if (videoRef.current && canvasRef.current && location) {
       const video = videoRef.current;
@@ -244,9 +262,19 @@ const CameraComponent: React.FC<CameraComponentProps> = ({ onCapture }) => {
       const context = canvas.getContext("2d");
       if (context) {
         context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const takenAt = new Date();
+        
+        const { settings, lines } = getOverlayLines(takenAt);
+        if (lines.length > 0) {
+          setOriginalImage(canvas.toDataURL("image/jpeg", 0.8));
+          drawWatermark(context, lines, settings);
+        } else {
+          setOriginalImage(null);
+        }
         
         const imageData = canvas.toDataURL("image/jpeg", 0.8);
         setCapturedImage(imageData);
+        setCapturedAt(takenAt);
         stopCamera();
       }
     } else if (!location) {
@@ -275,9 +303,21 @@ const CameraComponent: React.FC<CameraComponentProps> = ({ onCapture }) => {
       }
       
       const reader = new FileReader();
-      reader.onload = () => {
+      reader.onload = async () => {
         const imageData = reader.result as string;
-        setCapturedImage(imageData);
+        const takenAt = new Date();
+        const { settings, lines } = getOverlayLines(takenAt);
+        
+        try {
+          const marked = await applyWatermark(imageData, lines, settings);
+          setCapturedImage(marked);
+          setOriginalImage(marked === imageData ? null : imageData);
+        } catch (error) {
+          console.error("Error applying watermark:", error);
+          setCapturedImage(imageData);
+          setOriginalImage(null);
+        }
+        setCapturedAt(takenAt);
       };
       reader.readAsDataURL(file);
     }
@@ -285,6 +325,8 @@ const CameraComponent: React.FC<CameraComponentProps> = ({ onCapture }) => {
 
   const resetCamera = () => {
     setCapturedImage(null);
+    setOriginalImage(null);
+    setCapturedAt(null);
     if (useNativeCamera) {
       if (fileInputRef.current) {
         fileInputRef.current.value = "";
@@ -295,9 +337,12 @@ const CameraComponent: React.FC<CameraComponentProps> = ({ onCapture }) => {
   };
 
   const confirmCapture = () => {
-    if (capturedImage && location) {
-      onCapture(capturedImage, location);
+    if (capturedImage && position) {
+      const takenAt = capturedAt || new Date();
+      onCapture(capturedImage, createGpsFix(position, takenAt), takenAt, originalImage || undefined);
       setCapturedImage(null);
+      setOriginalImage(null);
+      setCapturedAt(null);
     }
   };
 
@@ -368,6 +413,12 @@ const CameraComponent: React.FC<CameraComponentProps> = ({ onCapture }) => {
               </div>
             )}
             
+            {photoNumber !== undefined && (
+              <div className="absolute bottom-3 left-3 px-3 py-1 rounded-full text-xs bg-black/30 text-white backdrop-blur-sm">
+                Photo {photoNumber}
+              </div>
+            )}
+
             <div className="absolute bottom-3 right-3 flex items-center gap-2">
               {locationStatus && (
                 <div className={cn(
@@ -388,6 +439,9 @@ const CameraComponent: React.FC<CameraComponentProps> = ({ onCapture }) => {
                      locationStatus === "success" ? "GPS Ready" :
                      "GPS Error"}
                   </span>
+                  {locationStatus === "success" && location && (
+                    <GpsAccuracy accuracy={location.accuracy} />
+                  )}
                 </div>
               )}
             </div>
@@ -429,6 +483,19 @@ const CameraComponent: React.FC<CameraComponentProps> = ({ onCapture }) => {
         )}
       </div>
 
+      {locationStatus === "success" && location && isPoorAccuracy(location.accuracy) && (
+        <div className="mx-4 mt-4 p-2 rounded-md bg-amber-500/10 text-amber-700 text-xs flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          <span className="flex-1">
+            Low GPS accuracy (±{Math.round(location.accuracy)} m). Move into open sky and refresh before capturing if you can.
+          </span>
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={getLocation}>
+            <RefreshCw className="w-3 h-3 mr-1" />
+            Refresh
+          </Button>
+        </div>
+      )}
+
       <div className="p-4 flex gap-2 justify-between">
         {!cameraActive && !capturedImage && cameraStatus !== "loading" && !useNativeCamera ? (
           <Button onClick={startCamera} className="w-full" size="lg">
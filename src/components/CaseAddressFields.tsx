@@ -0,0 +1,112 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  ADDRESS_LABELS,
+  ADDRESS_SOURCES,
+  ADDRESS_STATUSES,
+  CaseAddress,
+  createCaseAddress,
+} from "@/utils/caseAddresses";
+
+interface CaseAddressFieldsProps {
+  idPrefix: string;
+  value: CaseAddress[];
+  onChange: (addresses: CaseAddress[]) => void;
+}
+
+const CaseAddressFields: React.FC<CaseAddressFieldsProps> = ({ idPrefix, value, onChange }) => {
+  const update = <K extends keyof CaseAddress>(id: string, field: K, fieldValue: CaseAddress[K]) => {
+    onChange(value.map(entry => (entry.id === id ? { ...entry, [field]: fieldValue } : entry)));
+  };
+
+  const handleAdd = () => {
+    onChange([...value, createCaseAddress(value.length === 0 ? "home" : "other")]);
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(value.filter(entry => entry.id !== id));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Addresses</Label>
+        <Button type="button" variant="outline" size="sm" onClick={handleAdd}>
+          <Plus className="mr-1 h-4 w-4" />
+          Add Address
+        </Button>
+      </div>
+
+      {value.length === 0 && (
+        <p className="text-xs text-muted-foreground">No addresses added yet.</p>
+      )}
+
+      {value.map((entry) => (
+        <div key={entry.id} className="rounded-md border p-3 space-y-2">
+          <div className="flex gap-2">
+            <Input
+              id={`${idPrefix}address-${entry.id}`}
+              value={entry.address}
+              onChange={(e) => update(entry.id, "address", e.target.value)}
+              placeholder="Enter address"
+              className="flex-1"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="text-destructive flex-shrink-0"
+              onClick={() => handleRemove(entry.id)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <Select value={entry.label} onValueChange={(label) => update(entry.id, "label", label as CaseAddress["label"])}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ADDRESS_LABELS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={entry.status} onValueChange={(status) => update(entry.id, "status", status as CaseAddress["status"])}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ADDRESS_STATUSES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={entry.source} onValueChange={(source) => update(entry.id, "source", source as CaseAddress["source"])}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ADDRESS_SOURCES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CaseAddressFields;
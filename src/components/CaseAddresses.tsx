@@ -0,0 +1,83 @@
+import React, { useState } from "react";
+import { MapPin, ChevronDown, ChevronRight } from "lucide-react";
+import { ServeAttemptData } from "@/components/ServeAttempt";
+import { getOutcomeLabel, resolveOutcome } from "@/utils/serveOutcomes";
+import {
+  CaseAddress,
+  getAddressLabel,
+  getAddressServes,
+  getAddressSourceLabel,
+  getAddressStatusClass,
+  getAddressStatusLabel,
+} from "@/utils/caseAddresses";
+
+interface CaseAddressesProps {
+  addresses: CaseAddress[];
+  caseServes: ServeAttemptData[];
+}
+
+const CaseAddresses: React.FC<CaseAddressesProps> = ({ addresses, caseServes }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  if (addresses.length === 0) return null;
+
+  return (
+    <div className="rounded-md border p-4 space-y-3">
+      <p className="font-medium flex items-center gap-2">
+        <MapPin className="h-4 w-4" />
+        Address History
+      </p>
+
+      <div className="space-y-2">
+        {addresses.map((entry) => {
+          const serves = getAddressServes(entry, caseServes)
+            .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+          const isOpen = expanded === entry.id;
+
+          return (
+            <div key={entry.id} className="rounded-md bg-accent/30 p-3">
+              <button
+                type="button"
+                className="w-full text-left flex items-start justify-between gap-2"
+                onClick={() => setExpanded(isOpen ? null : entry.id)}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{entry.address}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {getAddressLabel(entry.label)} · {getAddressSourceLabel(entry.source)} · {serves.length} {serves.length === 1 ? "attempt" : "attempts"}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <span className={`text-xs px-2 py-0.5 rounded-full ${getAddressStatusClass(entry.status)}`}>
+                    {getAddressStatusLabel(entry.status)}
+                  </span>
+                  {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                </div>
+              </button>
+
+              {isOpen && (
+                serves.length === 0 ? (
+                  <p className="mt-2 text-xs text-muted-foreground">No attempts at this address.</p>
+                ) : (
+                  <ul className="mt-2 space-y-1 text-xs">
+                    {serves.map((serve) => (
+                      <li key={serve.id} className="flex justify-between gap-2">
+                        <span>
+                          #{serve.attemptNumber} · {new Date(serve.timestamp).toLocaleString()}
+                          {serve.partyName && ` · ${serve.partyName}`}
+                        </span>
+                        <span className="text-muted-foreground">{getOutcomeLabel(resolveOutcome(serve))}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CaseAddresses;
@@ -0,0 +1,70 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { SERVICE_WINDOW_DAYS, computeServiceDeadline } from "@/utils/caseDeadlines";
+
+interface CaseDeadlineFieldsProps {
+  idPrefix: string;
+  filingDate: string;
+  courtDate: string;
+  serviceDeadline: string;
+  onFilingDateChange: (value: string) => void;
+  onCourtDateChange: (value: string) => void;
+  onServiceDeadlineChange: (value: string) => void;
+}
+
+const CaseDeadlineFields: React.FC<CaseDeadlineFieldsProps> = ({
+  idPrefix,
+  filingDate,
+  courtDate,
+  serviceDeadline,
+  onFilingDateChange,
+  onCourtDateChange,
+  onServiceDeadlineChange,
+}) => {
+  const computedDeadline = computeServiceDeadline(filingDate ? `${filingDate}T12:00:00` : null);
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}filing-date`}>Filing Date</Label>
+          <Input
+            id={`${idPrefix}filing-date`}
+            type="date"
+            value={filingDate}
+            onChange={(e) => onFilingDateChange(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}service-deadline`}>Service Deadline</Label>
+          <Input
+            id={`${idPrefix}service-deadline`}
+            type="date"
+            value={serviceDeadline}
+            onChange={(e) => onServiceDeadlineChange(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}court-date`}>Court Date</Label>
+          <Input
+            id={`${idPrefix}court-date`}
+            type="date"
+            value={courtDate}
+            onChange={(e) => onCourtDateChange(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {computedDeadline && !serviceDeadline && (
+        <p className="text-xs text-muted-foreground">
+          Service deadline defaults to {computedDeadline.toLocaleDateString()} ({SERVICE_WINDOW_DAYS} days after filing). Set a date only for an extension.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CaseDeadlineFields;
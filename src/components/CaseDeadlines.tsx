@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CalendarClock, Loader2 } from "lucide-react";
+import { ClientData } from "@/components/ClientForm";
+import { appwrite } from "@/lib/appwrite";
+import {
+  CaseDeadline,
+  SERVICE_WINDOW_DAYS,
+  formatDaysRemaining,
+  getNextDeadline,
+  getUrgencyClass,
+} from "@/utils/caseDeadlines";
+
+const MAX_DEADLINES = 8;
+
+interface CaseDeadlineEntry {
+  caseId: string;
+  clientId: string;
+  caseNumber: string;
+  caseName?: string;
+  deadline: CaseDeadline;
+}
+
+interface CaseDeadlinesProps {
+  clients: ClientData[];
+}
+
+const CaseDeadlines: React.FC<CaseDeadlinesProps> = ({ clients }) => {
+  const [entries, setEntries] = useState<CaseDeadlineEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchDeadlines = async () => {
+      try {
+        const cases = await appwrite.getOpenCases();
+        const withDeadlines: CaseDeadlineEntry[] = [];
+
+        for (const caseDoc of cases) {
+          const deadline = getNextDeadline(caseDoc);
+          if (!deadline) continue;
+          withDeadlines.push({
+            caseId: caseDoc.$id,
+            clientId: caseDoc.client_id,
+            caseNumber: caseDoc.case_number,
+            caseName: caseDoc.case_name || undefined,
+            deadline,
+          });
+        }
+
+        withDeadlines.sort((a, b) => a.deadline.daysRemaining - b.deadline.daysRemaining);
+        setEntries(withDeadlines.slice(0, MAX_DEADLINES));
+      } catch (error) {
+        console.error("Dashboard: Error fetching case deadlines:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchDeadlines();
+    window.addEventListener("cases-updated", fetchDeadlines);
+
+    return () => {
+      window.removeEventListener("cases-updated", fetchDeadlines);
+    };
+  }, []);
+
+  if (!isLoading && entries.length === 0) return null;
+
+  const getClientName = (clientId: string) =>
+    clients.find(client => client.id === clientId)?.name || "Unknown Client";
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <CalendarClock className="h-4 w-4" />
+          Upcoming Deadlines
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Service is due {SERVICE_WINDOW_DAYS} days after filing unless extended
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Checking deadlines...
+          </div>
+        ) : (
+          entries.map((entry) => (
+            <Link key={entry.caseId} to="/clients" className="block rounded-md p-2 hover:bg-accent transition-colors">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium truncate">{entry.caseName || entry.caseNumber}</span>
+                <span className={`text-xs px-2 py-0.5 rounded-full whitespace-nowrap ${getUrgencyClass(entry.deadline.urgency)}`}>
+                  {formatDaysRemaining(entry.deadline.daysRemaining)}
+                </span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {getClientName(entry.clientId)} · {entry.deadline.label.toLowerCase()} {entry.deadline.date.toLocaleDateString()}
+              </p>
+            </Link>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CaseDeadlines;
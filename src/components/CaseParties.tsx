@@ -0,0 +1,317 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Users, Plus, FileEdit, Trash2, Home, Building, Loader2 } from "lucide-react";
+import { appwrite } from "@/lib/appwrite";
+import { ServeAttemptData } from "@/components/ServeAttempt";
+import {
+  CaseParty,
+  PartyRole,
+  PARTY_ROLES,
+  PARTY_SERVICE_STATUS_LABELS,
+  getPartyRoleLabel,
+  getPartyServes,
+  getPartyServiceStatus,
+  getPartyStatusClass,
+} from "@/utils/caseParties";
+
+interface CasePartiesProps {
+  caseId: string;
+  clientId: string;
+  caseServes: ServeAttemptData[];
+  canEdit: boolean;
+}
+
+interface PartyForm {
+  name: string;
+  role: PartyRole;
+  homeAddress: string;
+  workAddress: string;
+  notes: string;
+}
+
+const EMPTY_PARTY_FORM: PartyForm = {
+  name: "",
+  role: "defendant",
+  homeAddress: "",
+  workAddress: "",
+  notes: "",
+};
+
+const CaseParties: React.FC<CasePartiesProps> = ({ caseId, clientId, caseServes, canEdit }) => {
+  const [parties, setParties] = useState<CaseParty[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingParty, setEditingParty] = useState<CaseParty | null>(null);
+  const [form, setForm] = useState<PartyForm>(EMPTY_PARTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchParties = async () => {
+      setIsLoading(true);
+      const caseParties = await appwrite.getCaseParties(caseId);
+      if (!cancelled) {
+        setParties(caseParties);
+        setIsLoading(false);
+      }
+    };
+
+    fetchParties();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [caseId]);
+
+  const updateForm = (field: keyof PartyForm, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const openAddDialog = () => {
+    setEditingParty(null);
+    setForm(EMPTY_PARTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (party: CaseParty) => {
+    setEditingParty(party);
+    setForm({
+      name: party.name,
+      role: party.role,
+      homeAddress: party.homeAddress || "",
+      workAddress: party.workAddress || "",
+      notes: party.notes || "",
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast.error("Party name is required");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const partyData = {
+        caseId,
+        clientId,
+        name: form.name.trim(),
+        role: form.role,
+        homeAddress: form.homeAddress.trim(),
+        workAddress: form.workAddress.trim(),
+        notes: form.notes.trim(),
+      };
+
+      if (editingParty) {
+        const updated = await appwrite.updateCaseParty(editingParty.id, partyData);
+        setParties(prev => prev.map(p => (p.id === editingParty.id ? updated : p)));
+        toast.success("Party updated");
+      } else {
+        const created = await appwrite.createCaseParty(partyData);
+        setParties(prev => [...prev, created]);
+        toast.success("Party added");
+      }
+
+      setDialogOpen(false);
+    } catch (error) {
+      console.error("Error saving case party:", error);
+      toast.error("Error saving party", {
+        description: "There was a problem saving the party."
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (party: CaseParty) => {
+    if (!window.confirm(`Remove ${party.name} from this case? Existing attempts are kept.`)) return;
+
+    try {
+      await appwrite.deleteCaseParty(party.id);
+      setParties(prev => prev.filter(p => p.id !== party.id));
+      toast.success("Party removed");
+    } catch (error) {
+      console.error("Error deleting case party:", error);
+      toast.error("Error removing party", {
+        description: "There was a problem removing the party."
+      });
+    }
+  };
+
+  return (
+    <div className="rounded-md border p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-medium flex items-center gap-2">
+          <Users className="h-4 w-4" />
+          Parties to Serve
+        </p>
+        {canEdit && (
+          <Button variant="outline" size="sm" onClick={openAddDialog}>
+            <Plus className="mr-1 h-4 w-4" />
+            Add Party
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Loading parties...
+        </div>
+      ) : parties.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No parties added. Attempts are recorded against the case addresses.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {parties.map((party) => {
+            const status = getPartyServiceStatus(party, caseServes);
+            const attempts = getPartyServes(party, caseServes).length;
+            return (
+              <div key={party.id} className="rounded-md bg-accent/30 p-3 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{party.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {getPartyRoleLabel(party.role)} · {attempts} {attempts === 1 ? "attempt" : "attempts"}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <span className={`text-xs px-2 py-0.5 rounded-full whitespace-nowrap ${getPartyStatusClass(status)}`}>
+                      {PARTY_SERVICE_STATUS_LABELS[status]}
+                    </span>
+                    {canEdit && (
+                      <>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => openEditDialog(party)}>
+                          <FileEdit className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" onClick={() => handleDelete(party)}>
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                {party.homeAddress && (
+                  <p className="text-xs text-muted-foreground flex items-center gap-1">
+                    <Home className="h-3 w-3 flex-shrink-0" />
+                    {party.homeAddress}
+                  </p>
+                )}
+                {party.workAddress && (
+                  <p className="text-xs text-muted-foreground flex items-center gap-1">
+                    <Building className="h-3 w-3 flex-shrink-0" />
+                    {party.workAddress}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-h-[95vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingParty ? "Edit Party" : "Add Party"}</DialogTitle>
+            <DialogDescription>
+              Each party is served separately and has its own attempts.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="party-name">Name</Label>
+                <Input
+                  id="party-name"
+                  value={form.name}
+                  onChange={(e) => updateForm("name", e.target.value)}
+                  placeholder="Full name or entity"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="party-role">Role</Label>
+                <Select value={form.role} onValueChange={(value) => updateForm("role", value)}>
+                  <SelectTrigger id="party-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PARTY_ROLES.map((role) => (
+                      <SelectItem key={role.value} value={role.value}>
+                        {role.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="party-home-address">Home Address</Label>
+              <Input
+                id="party-home-address"
+                value={form.homeAddress}
+                onChange={(e) => updateForm("homeAddress", e.target.value)}
+                placeholder="Enter home address"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="party-work-address">Work Address</Label>
+              <Input
+                id="party-work-address"
+                value={form.workAddress}
+                onChange={(e) => updateForm("workAddress", e.target.value)}
+                placeholder="Enter work address"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="party-notes">Notes</Label>
+              <Textarea
+                id="party-notes"
+                value={form.notes}
+                onChange={(e) => updateForm("notes", e.target.value)}
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {editingParty ? "Save Changes" : "Add Party"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CaseParties;
@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
+import { Check, GitBranch, History, Loader2, Zap } from "lucide-react";
+import { appwrite } from "@/lib/appwrite";
+import { ServeAttemptData } from "@/components/ServeAttempt";
+import { MailingFollowUp } from "@/utils/mailingFollowUp";
+import { getStatusForOutcome, resolveOutcome } from "@/utils/serveOutcomes";
+import {
+  CaseStatus,
+  CaseStatusLogEntry,
+  CaseWorkflowContext,
+  MAIN_FLOW,
+  canTransition,
+  getAvailableTransitions,
+  getCaseStatusClass,
+  getCaseStatusLabel,
+  normalizeCaseStatus,
+} from "@/utils/caseWorkflow";
+
+interface CaseWorkflowStepperProps {
+  caseId: string;
+  status: string;
+  caseServes: ServeAttemptData[];
+  followUp: MailingFollowUp;
+  canEdit: boolean;
+}
+
+const CaseWorkflowStepper: React.FC<CaseWorkflowStepperProps> = ({ caseId, status, caseServes, followUp, canEdit }) => {
+  const [log, setLog] = useState<CaseStatusLogEntry[]>([]);
+  const [note, setNote] = useState("");
+  const [pendingStatus, setPendingStatus] = useState<CaseStatus | null>(null);
+  const [showLog, setShowLog] = useState(false);
+
+  const current = normalizeCaseStatus(status);
+  const currentIndex = MAIN_FLOW.indexOf(current);
+
+  const context: CaseWorkflowContext = {
+    attemptCount: caseServes.length,
+    hasCompletedServe: caseServes.some(serve => getStatusForOutcome(resolveOutcome(serve)) === "completed"),
+    requiresMailing: followUp.status !== "not_required",
+    mailingSent: followUp.status === "mailed",
+  };
+
+  useEffect(() => {
+    const fetchLog = async () => {
+      setLog(await appwrite.getCaseStatusLog(caseId));
+    };
+
+    fetchLog();
+    window.addEventListener("cases-updated", fetchLog);
+
+    return () => {
+      window.removeEventListener("cases-updated", fetchLog);
+    };
+  }, [caseId]);
+
+  const handleTransition = async (to: CaseStatus) => {
+    const check = canTransition(current, to, context);
+    if (!check.allowed) {
+      toast.error("Status change not allowed", { description: check.reason });
+      return;
+    }
+
+    setPendingStatus(to);
+    try {
+      await appwrite.updateCaseStatus(caseId, to, { from: current, note: note.trim() });
+      setNote("");
+      window.dispatchEvent(new CustomEvent("cases-updated"));
+      toast.success(`Case moved to ${getCaseStatusLabel(to)}`);
+    } catch (error) {
+      console.error("Error changing case status:", error);
+      toast.error("Error changing status", {
+        description: "There was a problem updating the case status."
+      });
+    } finally {
+      setPendingStatus(null);
+    }
+  };
+
+  return (
+    <div className="rounded-md border p-4 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-medium flex items-center gap-2">
+          <GitBranch className="h-4 w-4" />
+          Case Workflow
+        </p>
+        <span className={`text-xs px-2 py-0.5 rounded-full ${getCaseStatusClass(current)}`}>
+          {getCaseStatusLabel(current)}
+        </span>
+      </div>
+
+      <ol className="flex items-start overflow-x-auto pb-1">
+        {MAIN_FLOW.map((step, index) => {
+          const isDone = currentIndex > index;
+          const isCurrent = currentIndex === index;
+          return (
+            <li key={step} className="flex-1 min-w-[72px] flex flex-col items-center text-center relative">
+              {index > 0 && (
+                <span className={`absolute top-3 right-1/2 w-full h-0.5 -z-0 ${isDone || isCurrent ? "bg-primary" : "bg-muted"}`} />
+              )}
+              <span
+                className={`relative z-10 h-6 w-6 rounded-full flex items-center justify-center text-xs border ${
+                  isDone ? "bg-primary text-primary-foreground border-primary" :
+                  isCurrent ? "bg-background border-primary text-primary" :
+                  "bg-background text-muted-foreground"
+                }`}
+              >
+                {isDone ? <Check className="h-3.5 w-3.5" /> : index + 1}
+              </span>
+              <span className={`mt-1 text-[11px] leading-tight ${isCurrent ? "font-medium" : "text-muted-foreground"}`}>
+                {getCaseStatusLabel(step)}
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+
+      {currentIndex === -1 && (
+        <p className={`text-xs rounded-md p-2 ${getCaseStatusClass(current)}`}>
+          This case is off the main flow: {getCaseStatusLabel(current)}
+        </p>
+      )}
+
+      {canEdit && (
+        <div className="space-y-2">
+          <Input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note for the status change (optional)"
+            className="h-8 text-xs"
+          />
+          <div className="flex flex-wrap gap-2">
+            {getAvailableTransitions(current).map((to) => {
+              const check = canTransition(current, to, context);
+              return (
+                <Button
+                  key={to}
+                  variant="outline"
+                  size="sm"
+                  disabled={!check.allowed || pendingStatus !== null}
+                  title={check.reason}
+                  onClick={() => handleTransition(to)}
+                >
+                  {pendingStatus === to && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                  {getCaseStatusLabel(to)}
+                </Button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {log.length > 0 && (
+        <div>
+          <button
+            type="button"
+            className="text-xs text-muted-foreground flex items-center gap-1 hover:underline"
+            onClick={() => setShowLog(!showLog)}
+          >
+            <History className="h-3 w-3" />
+            {showLog ? "Hide" : "Show"} status history ({log.length})
+          </button>
+          {showLog && (
+            <ul className="mt-2 space-y-1 text-xs">
+              {log.map((entry) => (
+                <li key={entry.id} className="flex items-start justify-between gap-2">
+                  <span>
+                    {entry.fromStatus ? `${getCaseStatusLabel(entry.fromStatus)} → ` : ""}
+                    <span className="font-medium">{getCaseStatusLabel(entry.toStatus)}</span>
+                    {entry.note && <span className="text-muted-foreground"> · {entry.note}</span>}
+                  </span>
+                  <span className="text-muted-foreground whitespace-nowrap flex items-center gap-1">
+                    {entry.automatic && <Zap className="h-3 w-3" />}
+                    {entry.userName || "System"} · {entry.timestamp.toLocaleString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CaseWorkflowStepper;
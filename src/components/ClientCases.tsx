@@ -10,13 +10,6 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Dialog,
@@ -52,13 +45,44 @@ import {
   Home,
   Building,
   MapPin,
-  ExternalLink
+  ExternalLink,
+  FileText,
+  ShieldCheck
 } from "lucide-react";
 import { appwrite } from "@/lib/appwrite";
 import { uploadClientDocument, getClientDocuments, getDocumentUrl, deleteClientDocument } from "@/utils/appwriteStorage";
 import ClientDocuments from "@/components/ClientDocuments";
+import AffidavitDialog from "@/components/AffidavitDialog";
+import CustodyReportDialog from "@/components/CustodyReportDialog";
+import DueDiligenceSummary from "@/components/DueDiligenceSummary";
+import MailingFollowUpCard from "@/components/MailingFollowUpCard";
+import CaseDeadlineFields from "@/components/CaseDeadlineFields";
+import CaseParties from "@/components/CaseParties";
+import CaseAddressFields from "@/components/CaseAddressFields";
+import CaseAddresses from "@/components/CaseAddresses";
+import CaseWorkflowStepper from "@/components/CaseWorkflowStepper";
+import { ServeAttemptData } from "@/components/ServeAttempt";
+import { normalizeServeDataArray } from "@/utils/dataNormalization";
+import {
+  MAILING_STATUS_LABELS,
+  getCaseMailing,
+  getMailingFollowUp,
+  getMailingStatusClass,
+  needsMailingAttention,
+} from "@/utils/mailingFollowUp";
+import {
+  formatDaysRemaining,
+  fromDateInputValue,
+  getNextDeadline,
+  getUrgencyClass,
+  toDateInputValue,
+} from "@/utils/caseDeadlines";
+import { CaseAddress, parseCaseAddresses } from "@/utils/caseAddresses";
+import { getCaseStatusClass, getCaseStatusLabel, isOpenCaseStatus } from "@/utils/caseWorkflow";
+import { getCaseAssignment, getPriorityClass, getPriorityLabel } from "@/utils/caseAssignment";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { UploadedDocument } from "@/types/documentTypes";
+import { useAuth } from "@/hooks/use-auth";
 
 interface ClientCase {
   $id: string;
@@ -71,6 +95,19 @@ interface ClientCase {
   updated_at: string;
   home_address?: string;
   work_address?: string;
+  addresses?: string | null;
+  mailing_date?: string | null;
+  mailing_class?: string;
+  mailing_tracking_number?: string;
+  mailing_receipt_file_id?: string;
+  mailing_receipt_image?: string;
+  filing_date?: string | null;
+  court_date?: string | null;
+  service_deadline?: string | null;
+  assigned_to?: string | null;
+  assigned_to_name?: string | null;
+  assignment_due?: string | null;
+  assignment_priority?: string | null;
 }
 
 interface ClientCasesProps {
@@ -86,13 +123,15 @@ export default function ClientCases({ clientId, clientName }: ClientCasesProps)
   const [activeTab, setActiveTab] = useState("cases");
   const [activeCase, setActiveCase] = useState<string | null>(null);
   const isMobile = useIsMobile();
+  const { can } = useAuth();
   
   const [caseNumber, setCaseNumber] = useState("");
   const [caseName, setCaseName] = useState("");
   const [description, setDescription] = useState("");
-  const [homeAddress, setHomeAddress] = useState("");
-  const [workAddress, setWorkAddress] = useState("");
-  const [status, setStatus] = useState("Active");
+  const [addresses, setAddresses] = useState<CaseAddress[]>([]);
+  const [filingDate, setFilingDate] = useState("");
+  const [courtDate, setCourtDate] = useState("");
+  const [serviceDeadline, setServiceDeadline] = useState("");
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [selectedCase, setSelectedCase] = useState<ClientCase | null>(null);
@@ -108,6 +147,9 @@ export default function ClientCases({ clientId, clientName }: ClientCasesProps)
   const [deleteDocumentId, setDeleteDocumentId] = useState<string | null>(null);
   const [deleteDocumentPath, setDeleteDocumentPath] = useState<string | null>(null);
   const [deleteDocumentDialogOpen, setDeleteDocumentDialogOpen] = useState(false);
+  const [affidavitCase, setAffidavitCase] = useState<ClientCase | null>(null);
+  const [custodyCase, setCustodyCase] = useState<ClientCase | null>(null);
+  const [clientServes, setClientServes] = useState<ServeAttemptData[]>([]);
 
   useEffect(() => {
     const fetchCases = async () => {
@@ -146,13 +188,45 @@ export default function ClientCases({ clientId, clientName }: ClientCasesProps)
     };
   }, [clientId, activeCase]);
 
+  // Serve attempts drive the follow-up mailing deadlines shown on each case
+  useEffect(() => {
+    const fetchServes = async () => {
+      try {
+        const serves = await appwrite.getClientServeAttempts(clientId);
+        setClientServes(normalizeServeDataArray(serves));
+      } catch (error) {
+        console.error("Error fetching serve attempts for cases:", error);
+      }
+    };
+
+    fetchServes();
+    window.addEventListener('serves-updated', fetchServes);
+
+    return () => {
+      window.removeEventListener('serves-updated', fetchServes);
+    };
+  }, [clientId]);
+
+  const getCaseFollowUp = (clientCase: ClientCase) =>
+    getMailingFollowUp(
+      clientServes.filter(serve => serve.caseNumber === clientCase.case_number),
+      getCaseMailing(clientCase)
+    );
+
+  // Remounts the mailing form when the saved mailing changes underneath it
+  const getMailingFormKey = (clientCase: ClientCase) => {
+    const mailing = getCaseMailing(clientCase);
+    return `${clientCase.$id}:${mailing.mailingDate || ""}:${mailing.trackingNumber || ""}`;
+  };
+
   const resetForm = () => {
     setCaseNumber("");
     setCaseName("");
     setDescription("");
-    setHomeAddress("");
-    setWorkAddress("");
-    setStatus("Active");
+    setAddresses([]);
+    setFilingDate("");
+    setCourtDate("");
+    setServiceDeadline("");
     setSelectedCase(null);
     setSelectedFile(null);
     setFileDescription("");
@@ -172,9 +246,10 @@ export default function ClientCases({ clientId, clientName }: ClientCasesProps)
         caseNumber: caseNumber.trim(),
         caseName: caseName.trim(),
         description: description.trim(),
-        status: status || 'Active',
-        homeAddress: homeAddress.trim(),
-        workAddress: workAddress.trim()
+        addresses,
+        filingDate: fromDateInputValue(filingDate),
+        courtDate: fromDateInputValue(courtDate),
+        serviceDeadline: fromDateInputValue(serviceDeadline)
       };
 
       console.log('Submitting case data:', caseData);
@@ -208,9 +283,10 @@ export default function ClientCases({ clientId, clientName }: ClientCasesProps)
         caseNumber: caseNumber,
         caseName: caseName || "",
         description: description || "",
-        status: status,
-        homeAddress: homeAddress || "",
-        workAddress: workAddress || ""
+        addresses,
+        filingDate: fromDateInputValue(filingDate),
+        courtDate: fromDateInputValue(courtDate),
+        serviceDeadline: fromDateInputValue(serviceDeadline)
       });
       
       setCases(prevCases => 
@@ -265,9 +341,10 @@ export default function ClientCases({ clientId, clientName }: ClientCasesProps)
     setCaseNumber(clientCase.case_number);
     setCaseName(clientCase.case_name);
     setDescription(clientCase.description);
-    setHomeAddress(clientCase.home_address || "");
-    setWorkAddress(clientCase.work_address || "");
-    setStatus(clientCase.status);
+    setAddresses(parseCaseAddresses(clientCase));
+    setFilingDate(toDateInputValue(clientCase.filing_date));
+    setCourtDate(toDateInputValue(clientCase.court_date));
+    setServiceDeadline(toDateInputValue(clientCase.service_deadline));
     setEditCaseDialogOpen(true);
   };
 
@@ -408,113 +485,95 @@ export default function ClientCases({ clientId, clientName }: ClientCasesProps)
           <div className="flex justify-between items-center">
             <h2 className="text-xl font-bold truncate">{clientName}'s Cases</h2>
             
-            <Dialog open={addCaseDialogOpen} onOpenChange={setAddCaseDialogOpen}>
-              <DialogTrigger asChild>
-                <Button>
-                  <Plus className="mr-2 h-4 w-4" />
-                  Add Case
-                </Button>
-              </DialogTrigger>
-              <DialogContent className="h-[95vh] overflow-y-auto">
-                <DialogHeader>
-                  <DialogTitle>Add New Case</DialogTitle>
-                  <DialogDescription>
-                    Enter the details for a new case for {clientName}
-                  </DialogDescription>
-                </DialogHeader>
+            {can("case:create") && (
+              <Dialog open={addCaseDialogOpen} onOpenChange={setAddCaseDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Case
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="h-[95vh] overflow-y-auto">
+                  <DialogHeader>
+                    <DialogTitle>Add New Case</DialogTitle>
+                    <DialogDescription>
+                      Enter the details for a new case for {clientName}
+                    </DialogDescription>
+                  </DialogHeader>
                 
-                <form onSubmit={(e) => {
-                  e.preventDefault();
-                  handleAddCase();
-                }}>
-                  <div className="grid gap-4 py-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="case-number">Case Number</Label>
-                      <Input
-                        id="case-number"
-                        value={caseNumber}
-                        onChange={(e) => setCaseNumber(e.target.value)}
-                        placeholder="e.g., CV-2023-0001"
-                        required
-                      />
-                    </div>
-                    
-                    <div className="space-y-2">
-                      <Label htmlFor="case-name">To Be Served</Label>
-                      <Input
-                        id="case-name"
-                        value={caseName}
-                        onChange={(e) => setCaseName(e.target.value)}
-                        placeholder="e.g., John Doe"
-                      />
-                    </div>
-                    
-                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <form onSubmit={(e) => {
+                    e.preventDefault();
+                    handleAddCase();
+                  }}>
+                    <div className="grid gap-4 py-4">
                       <div className="space-y-2">
-                        <Label htmlFor="home-address">Home Address</Label>
+                        <Label htmlFor="case-number">Case Number</Label>
                         <Input
-                          id="home-address"
-                          value={homeAddress}
-                          onChange={(e) => setHomeAddress(e.target.value)}
-                          placeholder="Enter home address"
+                          id="case-number"
+                          value={caseNumber}
+                          onChange={(e) => setCaseNumber(e.target.value)}
+                          placeholder="e.g., CV-2023-0001"
+                          required
                         />
                       </div>
-                      
+                    
                       <div className="space-y-2">
-                        <Label htmlFor="work-address">Work Address</Label>
+                        <Label htmlFor="case-name">To Be Served</Label>
                         <Input
-                          id="work-address"
-                          value={workAddress}
-                          onChange={(e) => setWorkAddress(e.target.value)}
-                          placeholder="Enter work address"
+                          id="case-name"
+                          value={caseName}
+                          onChange={(e) => setCaseName(e.target.value)}
+                          placeholder="e.g., John Doe"
                         />
                       </div>
-                    </div>
                     
-                    <div className="space-y-2">
-                      <Label htmlFor="description">Notes</Label>
-                      <Textarea
-                        id="description"
-                        value={description}
-                        onChange={(e) => setDescription(e.target.value)}
-                        placeholder="Additional case information"
-                        rows={3}
+                      <CaseAddressFields
+                        idPrefix=""
+                        value={addresses}
+                        onChange={setAddresses}
+                      />
+
+                      <CaseDeadlineFields
+                        idPrefix=""
+                        filingDate={filingDate}
+                        courtDate={courtDate}
+                        serviceDeadline={serviceDeadline}
+                        onFilingDateChange={setFilingDate}
+                        onCourtDateChange={setCourtDate}
+                        onServiceDeadlineChange={setServiceDeadline}
                       />
-                    </div>
                     
-                    <div className="space-y-2">
-                      <Label htmlFor="status">Status</Label>
-                      <Select value={status} onValueChange={setStatus}>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select status" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="Active">Active</SelectItem>
-                          <SelectItem value="Pending">Pending</SelectItem>
-                          <SelectItem value="Closed">Closed</SelectItem>
-                        </SelectContent>
-                      </Select>
+                      <div className="space-y-2">
+                        <Label htmlFor="description">Notes</Label>
+                        <Textarea
+                          id="description"
+                          value={description}
+                          onChange={(e) => setDescription(e.target.value)}
+                          placeholder="Additional case information"
+                          rows={3}
+                        />
+                      </div>
                     </div>
-                  </div>
                   
-                  <DialogFooter className="mt-8">
-                    <Button 
-                      type="button" 
-                      variant="outline" 
-                      onClick={() => {
-                        resetForm();
-                        setAddCaseDialogOpen(false);
-                      }}
-                    >
-                      Cancel
-                    </Button>
-                    <Button type="submit" disabled={isSaving}>
-                      {isSaving ? "Saving..." : "Add Case"}
-                    </Button>
-                  </DialogFooter>
-                </form>
-              </DialogContent>
-            </Dialog>
+                    <DialogFooter className="mt-8">
+                      <Button 
+                        type="button" 
+                        variant="outline" 
+                        onClick={() => {
+                          resetForm();
+                          setAddCaseDialogOpen(false);
+                        }}
+                      >
+                        Cancel
+                      </Button>
+                      <Button type="submit" disabled={isSaving}>
+                        {isSaving ? "Saving..." : "Add Case"}
+                      </Button>
+                    </DialogFooter>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            )}
           </div>
           
           {isLoading ? (
@@ -529,13 +588,15 @@ export default function ClientCases({ clientId, clientName }: ClientCasesProps)
             <Card>
               <CardContent className="py-10 text-center">
                 <p className="text-muted-foreground mb-4">No cases found for this client.</p>
-                <Button 
-                  variant="outline" 
-                  onClick={() => setAddCaseDialogOpen(true)}
-                >
-                  <Plus className="mr-2 h-4 w-4" />
-                  Add First Case
-                </Button>
+                {can("case:create") && (
+                  <Button 
+                    variant="outline" 
+                    onClick={() => setAddCaseDialogOpen(true)}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add First Case
+                  </Button>
+                )}
               </CardContent>
             </Card>
           ) : (
@@ -554,42 +615,102 @@ export default function ClientCases({ clientId, clientName }: ClientCasesProps)
                         </CardTitle>
                         
                         <div className="flex items-center gap-1">
-                          <Button 
-                            variant="ghost" 
-                            size="icon"
-                            className="h-8 w-8"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              handleEditCase(c);
-                            }}
-                          >
-                            <FileEdit className="h-4 w-4" />
-                          </Button>
+                          {can("document:upload") && (
+                            <Button 
+                              variant="ghost" 
+                              size="icon"
+                              className="h-8 w-8"
+                              title="Generate Affidavit"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setAffidavitCase(c);
+                              }}
+                            >
+                              <FileText className="h-4 w-4" />
+                            </Button>
+                          )}
+                          
+                          {can("data:export") && (
+                            <Button 
+                              variant="ghost" 
+                              size="icon"
+                              className="h-8 w-8"
+                              title="Chain of Custody"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setCustodyCase(c);
+                              }}
+                            >
+                              <ShieldCheck className="h-4 w-4" />
+                            </Button>
+                          )}
+                          
+                          {can("case:edit") && (
+                            <Button 
+                              variant="ghost" 
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleEditCase(c);
+                              }}
+                            >
+                              <FileEdit className="h-4 w-4" />
+                            </Button>
+                          )}
                           
-                          <Button 
-                            variant="ghost" 
-                            size="icon"
-                            className="h-8 w-8 text-destructive"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              handleDeleteCaseButton(c);
-                            }}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
+                          {can("case:delete") && (
+                            <Button 
+                              variant="ghost" 
+                              size="icon"
+                              className="h-8 w-8 text-destructive"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleDeleteCaseButton(c);
+                              }}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
                         </div>
                       </div>
                       
                       <CardDescription className="flex items-center justify-between">
                         <span className="truncate">Case #{c.case_number}</span>
-                        <span className={`text-xs px-2 py-0.5 rounded-full ${
-                          c.status === 'Active' ? 'bg-green-100 text-green-800' :
-                          c.status === 'Pending' ? 'bg-yellow-100 text-yellow-800' :
-                          'bg-gray-100 text-gray-800'
-                        }`}>
-                          {c.status}
+                        <span className={`text-xs px-2 py-0.5 rounded-full ${getCaseStatusClass(c.status)}`}>
+                          {getCaseStatusLabel(c.status)}
                         </span>
                       </CardDescription>
+                      
+                      {(() => {
+                        const followUp = getCaseFollowUp(c);
+                        return needsMailingAttention(followUp.status) && (
+                          <span className={`mt-1 self-start text-xs px-2 py-0.5 rounded-full ${getMailingStatusClass(followUp.status)}`}>
+                            {MAILING_STATUS_LABELS[followUp.status]}
+                            {followUp.dueDate && ` - due ${followUp.dueDate.toLocaleDateString()}`}
+                          </span>
+                        );
+                      })()}
+
+                      {isOpenCaseStatus(c.status) && (() => {
+                        const assignment = getCaseAssignment(c);
+                        return (
+                          <span className={`mt-1 self-start text-xs px-2 py-0.5 rounded-full ${assignment.assignedTo ? getPriorityClass(assignment.priority) : "bg-gray-100 text-gray-700"}`}>
+                            {assignment.assignedTo
+                              ? `${assignment.assignedToName || "Assigned"} · ${getPriorityLabel(assignment.priority)}${assignment.dueDate ? ` · due ${new Date(assignment.dueDate).toLocaleDateString()}` : ""}`
+                              : "Unassigned"}
+                          </span>
+                        );
+                      })()}
+
+                      {isOpenCaseStatus(c.status) && (() => {
+                        const deadline = getNextDeadline(c);
+                        return deadline && (
+                          <span className={`mt-1 self-start text-xs px-2 py-0.5 rounded-full ${getUrgencyClass(deadline.urgency)}`}>
+                            {deadline.label} {deadline.date.toLocaleDateString()} ({formatDaysRemaining(deadline.daysRemaining)})
+                          </span>
+                        );
+                      })()}
                     </CardHeader>
                     
                     <CardContent className="pb-3">
@@ -600,37 +721,30 @@ export default function ClientCases({ clientId, clientName }: ClientCasesProps)
                         </div>
                       )}
                       
-                      {(c.home_address || c.work_address) && (
+                      {parseCaseAddresses(c).length > 0 && (
                         <div className="space-y-2 mt-2">
                           <h4 className="font-medium">Addresses</h4>
                           <div className="space-y-2">
-                            {c.home_address && (
-                              <a 
-                                href={getMapLink(c.home_address)}
-                                className="text-sm text-primary hover:underline flex items-center group"
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                onClick={(e) => handleAddressClick(c.home_address, e)}
-                              >
-                                <Home className="h-3 w-3 mr-1 inline flex-shrink-0" />
-                                <span className="flex-1 truncate">{c.home_address}</span>
-                                <ExternalLink className="h-3 w-3 ml-1 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0" />
-                              </a>
-                            )}
-                            
-                            {c.work_address && (
+                            {parseCaseAddresses(c).map((entry) => (
                               <a 
-                                href={getMapLink(c.work_address)}
-                                className="text-sm text-primary hover:underline flex items-center group"
+                                key={entry.id}
+                                href={getMapLink(entry.address)}
+                                className={`text-sm hover:underline flex items-center group ${entry.status === "valid" ? "text-primary" : "text-muted-foreground line-through"}`}
                                 target="_blank"
                                 rel="noopener noreferrer"
-                                onClick={(e) => handleAddressClick(c.work_address, e)}
+                                onClick={(e) => handleAddressClick(entry.address, e)}
                               >
-                                <Building className="h-3 w-3 mr-1 inline flex-shrink-0" />
-                                <span className="flex-1 truncate">{c.work_address}</span>
+                                {entry.label === "home" ? (
+                                  <Home className="h-3 w-3 mr-1 inline flex-shrink-0" />
+                                ) : entry.label === "work" ? (
+                                  <Building className="h-3 w-3 mr-1 inline flex-shrink-0" />
+                                ) : (
+                                  <MapPin className="h-3 w-3 mr-1 inline flex-shrink-0" />
+                                )}
+                                <span className="flex-1 truncate">{entry.address}</span>
                                 <ExternalLink className="h-3 w-3 ml-1 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0" />
                               </a>
-                            )}
+                            ))}
                           </div>
                         </div>
                       )}
@@ -655,12 +769,8 @@ export default function ClientCases({ clientId, clientName }: ClientCasesProps)
                     <CardDescription className="flex items-center justify-between">
                       <span>
                         Case #{getActiveCase()?.case_number} - 
-                        <span className={`ml-2 ${
-                          getActiveCase()?.status === 'Active' ? 'text-green-600' :
-                          getActiveCase()?.status === 'Pending' ? 'text-yellow-600' :
-                          'text-gray-600'
-                        }`}>
-                          {getActiveCase()?.status}
+                        <span className={`ml-2 text-xs px-2 py-0.5 rounded-full ${getCaseStatusClass(getActiveCase()?.status)}`}>
+                          {getCaseStatusLabel(getActiveCase()?.status)}
                         </span>
                       </span>
                     </CardDescription>
@@ -668,6 +778,48 @@ export default function ClientCases({ clientId, clientName }: ClientCasesProps)
                   
                   <CardContent>
                     <div className="space-y-6">
+                      {getActiveCase() && (
+                        <CaseWorkflowStepper
+                          caseId={getActiveCase()!.$id}
+                          status={getActiveCase()!.status}
+                          caseServes={clientServes.filter(serve => serve.caseNumber === getActiveCase()!.case_number)}
+                          followUp={getCaseFollowUp(getActiveCase()!)}
+                          canEdit={can("case:edit")}
+                        />
+                      )}
+
+                      {getActiveCase() && (
+                        <CaseAddresses
+                          addresses={parseCaseAddresses(getActiveCase())}
+                          caseServes={clientServes.filter(serve => serve.caseNumber === getActiveCase()!.case_number)}
+                        />
+                      )}
+
+                      {getActiveCase() && (
+                        <CaseParties
+                          caseId={getActiveCase()!.$id}
+                          clientId={clientId}
+                          caseServes={clientServes.filter(serve => serve.caseNumber === getActiveCase()!.case_number)}
+                          canEdit={can("case:edit")}
+                        />
+                      )}
+
+                      {getActiveCase()?.case_number && (
+                        <DueDiligenceSummary
+                          clientId={clientId}
+                          caseNumber={getActiveCase()!.case_number}
+                        />
+                      )}
+                      
+                      {getActiveCase() && (
+                        <MailingFollowUpCard
+                          key={getMailingFormKey(getActiveCase()!)}
+                          caseId={getActiveCase()!.$id}
+                          followUp={getCaseFollowUp(getActiveCase()!)}
+                          canEdit={can("case:edit")}
+                        />
+                      )}
+                      
                       <ClientDocuments 
                         clientId={clientId}
                         caseNumber={getActiveCase()?.case_number}
@@ -687,6 +839,26 @@ export default function ClientCases({ clientId, clientName }: ClientCasesProps)
         </TabsContent>
       </Tabs>
       
+      {affidavitCase && (
+        <AffidavitDialog
+          open={!!affidavitCase}
+          onOpenChange={(open) => !open && setAffidavitCase(null)}
+          clientId={clientId}
+          caseNumber={affidavitCase.case_number}
+          caseName={affidavitCase.case_name || undefined}
+        />
+      )}
+      
+      {custodyCase && (
+        <CustodyReportDialog
+          open={!!custodyCase}
+          onOpenChange={(open) => !open && setCustodyCase(null)}
+          clientId={clientId}
+          caseNumber={custodyCase.case_number}
+          caseName={custodyCase.case_name || undefined}
+        />
+      )}
+      
       <Dialog open={editCaseDialogOpen} onOpenChange={setEditCaseDialogOpen}>
         <DialogContent className="h-[95vh] overflow-y-auto">
           <DialogHeader>
@@ -724,27 +896,21 @@ export default function ClientCases({ clientId, clientName }: ClientCasesProps)
                 />
               </div>
               
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="edit-home-address">Home Address</Label>
-                  <Input
-                    id="edit-home-address"
-                    value={homeAddress}
-                    onChange={(e) => setHomeAddress(e.target.value)}
-                    placeholder="Enter home address"
-                  />
-                </div>
-                
-                <div className="space-y-2">
-                  <Label htmlFor="edit-work-address">Work Address</Label>
-                  <Input
-                    id="edit-work-address"
-                    value={workAddress}
-                    onChange={(e) => setWorkAddress(e.target.value)}
-                    placeholder="Enter work address"
-                  />
-                </div>
-              </div>
+              <CaseAddressFields
+                idPrefix="edit-"
+                value={addresses}
+                onChange={setAddresses}
+              />
+
+              <CaseDeadlineFields
+                idPrefix="edit-"
+                filingDate={filingDate}
+                courtDate={courtDate}
+                serviceDeadline={serviceDeadline}
+                onFilingDateChange={setFilingDate}
+                onCourtDateChange={setCourtDate}
+                onServiceDeadlineChange={setServiceDeadline}
+              />
               
               <div className="space-y-2">
                 <Label htmlFor="edit-description">Notes</Label>
@@ -756,20 +922,6 @@ export default function ClientCases({ clientId, clientName }: ClientCasesProps)
                   rows={3}
                 />
               </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="edit-status">Status</Label>
-                <Select value={status} onValueChange={setStatus}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select status" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="Active">Active</SelectItem>
-                    <SelectItem value="Pending">Pending</SelectItem>
-                    <SelectItem value="Closed">Closed</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
             </div>
             
             <DialogFooter className="mt-8">
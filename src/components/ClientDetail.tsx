@@ -24,17 +24,20 @@ import ClientCases from "./ClientCases";
 import { ClientData } from "./ClientForm";
 import { useIsMobile } from "@/hooks/use-mobile";
 import ResponsiveDialog from "./ResponsiveDialog";
+import { useAuth } from "@/hooks/use-auth";
 
 interface ClientDetailProps {
   client: ClientData;
   onUpdate: (client: ClientData) => void;
   onBack?: () => void;
+  initialTab?: "details" | "cases";
 }
 
-export default function ClientDetail({ client, onUpdate, onBack }: ClientDetailProps) {
+export default function ClientDetail({ client, onUpdate, onBack, initialTab = "details" }: ClientDetailProps) {
   const [isEditing, setIsEditing] = useState(false);
-  const [activeTab, setActiveTab] = useState("details");
+  const [activeTab, setActiveTab] = useState<string>(initialTab);
   const isMobile = useIsMobile();
+  const { can } = useAuth();
 
   const handleUpdateClient = (updatedClient: ClientData) => {
     onUpdate(updatedClient);
@@ -62,7 +65,7 @@ export default function ClientDetail({ client, onUpdate, onBack }: ClientDetailP
             <TabsTrigger value="cases" className={isMobile ? 'flex-1' : ''}>Cases & Documents</TabsTrigger>
           </TabsList>
           
-          {activeTab === "details" && (
+          {activeTab === "details" && can("client:edit") && (
             <div className="flex flex-wrap gap-2">
               {isMobile ? (
                 <ResponsiveDialog
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { 
   Card, 
   CardContent, 
@@ -43,6 +43,7 @@ import { useIsMobile } from "@/hooks/use-mobile";
 import { ACTIVE_BACKEND, BACKEND_PROVIDER } from '@/config/backendConfig';
 import * as appwriteStorage from '@/utils/appwriteStorage';
 import { UploadedDocument } from '@/types/documentTypes';
+import { useAuth } from '@/hooks/use-auth';
 
 interface ClientDocumentsProps {
   clientId: string;
@@ -62,8 +63,11 @@ export default function ClientDocuments({ clientId, clientName, caseNumber, onUp
   const [isUploading, setIsUploading] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const isMobile = useIsMobile();
+  const { can } = useAuth();
   
   const storage = appwriteStorage;
+  // Latest loader for the documents-updated listener below
+  const loadDocumentsRef = useRef<() => Promise<void>>();
   
   useEffect(() => {
     if (clientId) {
@@ -78,6 +82,17 @@ export default function ClientDocuments({ clientId, clientName, caseNumber, onUp
     }
   }, [caseNumber]);
 
+  useEffect(() => {
+    const handleDocumentsUpdated = () => {
+      if (clientId) loadDocumentsRef.current?.();
+    };
+
+    window.addEventListener('documents-updated', handleDocumentsUpdated);
+    return () => {
+      window.removeEventListener('documents-updated', handleDocumentsUpdated);
+    };
+  }, [clientId]);
+
   const loadDocuments = async () => {
     setIsLoading(true);
     try {
@@ -94,6 +109,7 @@ export default function ClientDocuments({ clientId, clientName, caseNumber, onUp
       setIsLoading(false);
     }
   };
+  loadDocumentsRef.current = loadDocuments;
 
   const loadCases = async () => {
     try {
@@ -338,7 +354,7 @@ export default function ClientDocuments({ clientId, clientName, caseNumber, onUp
         <CardHeader>
           <CardTitle className="flex justify-between items-center">
             <span>{cardTitle}</span>
-            {uploadButton}
+            {can("document:upload") && uploadButton}
           </CardTitle>
           <CardDescription>
             View, upload and manage documents{caseNumber ? ` for this case` : ` for this client`}
@@ -356,13 +372,17 @@ export default function ClientDocuments({ clientId, clientName, caseNumber, onUp
           <div className="text-center py-8 sm:py-12 border rounded-md border-dashed">
             <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
             <h3 className="text-lg font-medium mb-2">No documents yet</h3>
-            <p className="text-muted-foreground mb-4">
-              Upload your first document to get started
-            </p>
-            <Button onClick={() => setUploadDialogOpen(true)}>
-              <Upload className="mr-2 h-4 w-4" />
-              Upload Document
-            </Button>
+            {can("document:upload") && (
+              <>
+                <p className="text-muted-foreground mb-4">
+                  Upload your first document to get started
+                </p>
+                <Button onClick={() => setUploadDialogOpen(true)}>
+                  <Upload className="mr-2 h-4 w-4" />
+                  Upload Document
+                </Button>
+              </>
+            )}
           </div>
         ) : (
           <div className="overflow-x-auto">
@@ -417,15 +437,17 @@ export default function ClientDocuments({ clientId, clientName, caseNumber, onUp
                         >
                           <Download className="h-4 w-4" />
                         </Button>
-                        <Button
-                          variant="outline"
-                          size="icon"
-                          className="text-destructive hover:bg-destructive/10"
-                          onClick={() => handleDelete(doc)}
-                          title="Delete"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                        {can("document:delete") && (
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            className="text-destructive hover:bg-destructive/10"
+                            onClick={() => handleDelete(doc)}
+                            title="Delete"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, CheckCircle, FileText, Loader2 } from "lucide-react";
+import { appwrite } from "@/lib/appwrite";
+import { uploadClientDocument } from "@/utils/appwriteStorage";
+import { useToast } from "@/hooks/use-toast";
+import { getOutcomeLabel } from "@/utils/serveOutcomes";
+import {
+  CUSTODY_FIELD_LABELS,
+  CustodyReport,
+  generateCustodyReportPdf,
+  getCustodyReportFileName,
+  shortHash,
+} from "@/utils/custody";
+
+interface CustodyReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  clientId: string;
+  caseNumber: string;
+  caseName?: string;
+}
+
+const StatusBadge: React.FC<{ ok: boolean | null; okLabel?: string; failLabel?: string }> = ({
+  ok,
+  okLabel = "Verified",
+  failLabel = "Does not match",
+}) => {
+  if (ok === null) {
+    return <span className="text-muted-foreground">Not hashed</span>;
+  }
+  return ok ? (
+    <span className="inline-flex items-center gap-1 text-green-700">
+      <CheckCircle className="h-3 w-3" />
+      {okLabel}
+    </span>
+  ) : (
+    <span className="inline-flex items-center gap-1 text-destructive">
+      <AlertTriangle className="h-3 w-3" />
+      {failLabel}
+    </span>
+  );
+};
+
+export default function CustodyReportDialog({ open, onOpenChange, clientId, caseNumber, caseName }: CustodyReportDialogProps) {
+  const { toast } = useToast();
+  const [report, setReport] = useState<CustodyReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const loadReport = async () => {
+      setIsLoading(true);
+      try {
+        setReport(await appwrite.getCustodyReport(clientId, caseNumber));
+      } catch (error) {
+        console.error("Error building chain of custody report:", error);
+        setReport(null);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadReport();
+  }, [open, clientId, caseNumber]);
+
+  const handleSave = async () => {
+    if (!report) return;
+
+    setIsSaving(true);
+    try {
+      const pdf = generateCustodyReportPdf(report, caseName);
+      const fileName = getCustodyReportFileName(caseNumber);
+      const file = new File([pdf], fileName, { type: "application/pdf" });
+
+      const document = await uploadClientDocument(clientId, file, caseNumber, "Chain of custody report");
+      if (!document) throw new Error("Failed to store report");
+
+      window.dispatchEvent(new CustomEvent("documents-updated"));
+
+      toast({
+        title: "Report saved",
+        description: `${fileName} has been saved to the case documents`,
+      });
+    } catch (error) {
+      console.error("Error saving chain of custody report:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save report",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Chain of Custody</DialogTitle>
+          <DialogDescription>
+            Case #{caseNumber}. Every recorded version of each attempt, who made it, and whether its hashes still verify.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Verifying hashes...
+          </div>
+        ) : !report ? (
+          <p className="py-4 text-sm text-destructive">Could not build the chain of custody report.</p>
+        ) : report.serves.length === 0 ? (
+          <p className="py-4 text-sm text-muted-foreground">This case has no serve attempts.</p>
+        ) : (
+          <div className="space-y-4 text-xs">
+            <div className={`rounded-md p-3 ${report.chainIntact ? "bg-green-500/10" : "bg-destructive/10"}`}>
+              <StatusBadge
+                ok={report.chainIntact}
+                okLabel={`Hash chain intact (${report.entries.length} entries)`}
+                failLabel="Hash chain broken - entries below were altered or removed"
+              />
+            </div>
+
+            {report.serves.map(serve => (
+              <div key={serve.serveId} className="rounded-md border p-3 space-y-2">
+                <div className="flex justify-between gap-2">
+                  <p className="font-medium">
+                    {serve.exists
+                      ? `Attempt #${serve.attemptNumber} - ${getOutcomeLabel(serve.outcome)}`
+                      : "Deleted attempt"}
+                  </p>
+                  {serve.exists && <StatusBadge ok={serve.recordMatches} />}
+                </div>
+                {serve.timestamp && (
+                  <p className="text-muted-foreground">{new Date(serve.timestamp).toLocaleString()}</p>
+                )}
+                {serve.recordHash && (
+                  <p className="font-mono text-muted-foreground" title={serve.recordHash}>
+                    Record {shortHash(serve.recordHash)}
+                  </p>
+                )}
+                {serve.imageChecks.map(image => (
+                  <p key={`${image.label}-${image.expected}`} className="flex justify-between gap-2">
+                    <span className="font-mono text-muted-foreground" title={image.expected}>
+                      {image.label} {shortHash(image.expected)}
+                    </span>
+                    <StatusBadge ok={image.matches} failLabel={image.actual ? "Does not match" : "Could not read"} />
+                  </p>
+                ))}
+
+                {serve.versions.length > 0 && (
+                  <ol className="border-l pl-3 space-y-1.5">
+                    {serve.versions.map(version => (
+                      <li key={version.id}>
+                        <div className="flex justify-between gap-2">
+                          <span>
+                            v{version.version} {version.action} by {version.userName || "unknown"}, {new Date(version.createdAt).toLocaleString()}
+                          </span>
+                          <StatusBadge ok={version.hashValid && version.linkValid} />
+                        </div>
+                        {Object.entries(version.changes).map(([field, change]) => (
+                          <p key={field} className="text-muted-foreground">
+                            {CUSTODY_FIELD_LABELS[field] || field}: {String(change.from) || "(empty)"} → {String(change.to) || "(empty)"}
+                          </p>
+                        ))}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Close
+          </Button>
+          <Button onClick={handleSave} disabled={!report || report.serves.length === 0 || isSaving}>
+            {isSaving ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <FileText className="mr-2 h-4 w-4" />
+            )}
+            Save PDF to Case
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
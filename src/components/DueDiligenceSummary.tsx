@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from "react";
+import { CheckCircle, AlertCircle, AlertTriangle, Loader2 } from "lucide-react";
+import { DueDiligenceResult, getCaseDueDiligence } from "@/utils/dueDiligence";
+
+interface DueDiligenceSummaryProps {
+  clientId: string;
+  caseNumber: string;
+}
+
+const DueDiligenceSummary: React.FC<DueDiligenceSummaryProps> = ({ clientId, caseNumber }) => {
+  const [result, setResult] = useState<DueDiligenceResult | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const evaluate = async () => {
+      setIsLoading(true);
+      try {
+        const diligence = await getCaseDueDiligence(clientId, caseNumber);
+        if (!cancelled) setResult(diligence);
+      } catch (error) {
+        console.error("Error evaluating due diligence:", error);
+        if (!cancelled) setResult(null);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    evaluate();
+    window.addEventListener("serves-updated", evaluate);
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener("serves-updated", evaluate);
+    };
+  }, [clientId, caseNumber]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Checking due diligence...
+      </div>
+    );
+  }
+
+  if (!result || result.alreadyServed) return null;
+
+  return (
+    <div className={`rounded-md p-3 text-xs ${result.qualifies ? "bg-green-500/10 text-green-700" : "bg-amber-500/10 text-amber-700"}`}>
+      <p className="font-medium flex items-center gap-1.5">
+        {result.qualifies ? (
+          <CheckCircle className="h-3.5 w-3.5" />
+        ) : (
+          <AlertCircle className="h-3.5 w-3.5" />
+        )}
+        {result.qualifies ? "Eligible for affix-and-mail" : "Not yet eligible for affix-and-mail"}
+      </p>
+      <p className="mt-1 opacity-80">
+        {result.attemptCount} {result.attemptCount === 1 ? "attempt" : "attempts"} on {result.distinctDays} {result.distinctDays === 1 ? "day" : "days"}
+        {result.timeSlots.length > 0 && ` (${result.timeSlots.join(", ")})`}
+      </p>
+      {result.missing.length > 0 && (
+        <ul className="mt-1 list-disc pl-5">
+          {result.missing.map((item) => (
+            <li key={item}>{item}</li>
+          ))}
+        </ul>
+      )}
+      {result.warnings.map((warning) => (
+        <p key={warning} className="mt-1 flex items-start gap-1.5 text-destructive">
+          <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0" />
+          {warning}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default DueDiligenceSummary;
@@ -0,0 +1,150 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { toast } from "sonner";
+import { Navigation } from "lucide-react";
+import { appwrite } from "@/lib/appwrite";
+import {
+  DUTY_EVENT,
+  DutyShift,
+  getDutyShift,
+  getPendingShifts,
+  isTrailFull,
+  setPendingShifts,
+  startDuty,
+  stopDuty,
+  trailDistance,
+} from "@/utils/dutyTrail";
+import { formatMiles } from "@/utils/format";
+
+const formatElapsed = (startedAt: string, now: number): string => {
+  const minutes = Math.max(0, Math.floor((now - new Date(startedAt).getTime()) / 60000));
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`;
+};
+
+const DutyStatus: React.FC = () => {
+  const [shift, setShift] = useState<DutyShift | null>(getDutyShift);
+  const [pendingCount, setPendingCount] = useState(getPendingShifts().length);
+  const [now, setNow] = useState(Date.now());
+  const trailFull = !!shift && isTrailFull(shift);
+
+  // Shifts that ended offline are kept on the device until they upload
+  const uploadPending = useCallback(async () => {
+    const pending = getPendingShifts();
+    if (pending.length === 0 || !navigator.onLine) return;
+
+    const remaining: DutyShift[] = [];
+    for (const pendingShift of pending) {
+      try {
+        await appwrite.saveDutyShift(pendingShift);
+      } catch (error) {
+        console.error("Error uploading duty shift:", error);
+        remaining.push(pendingShift);
+      }
+    }
+    setPendingShifts(remaining);
+    setPendingCount(remaining.length);
+    if (remaining.length < pending.length) {
+      toast.success(`Uploaded ${pending.length - remaining.length} duty shift(s)`);
+    }
+  }, []);
+
+  useEffect(() => {
+    const updateShift = () => setShift(getDutyShift());
+
+    uploadPending();
+    window.addEventListener(DUTY_EVENT, updateShift);
+    window.addEventListener("online", uploadPending);
+    const timer = window.setInterval(() => setNow(Date.now()), 30000);
+
+    return () => {
+      window.removeEventListener(DUTY_EVENT, updateShift);
+      window.removeEventListener("online", uploadPending);
+      window.clearInterval(timer);
+    };
+  }, [uploadPending]);
+
+  // Mileage after the limit would go unbilled, so the server is told to restart the shift
+  useEffect(() => {
+    if (trailFull) {
+      toast.warning("Your route has reached its recording limit. Go off duty and back on to keep logging mileage.");
+    }
+  }, [trailFull]);
+
+  const handleToggle = async (onDuty: boolean) => {
+    if (onDuty) {
+      if (!navigator.geolocation) {
+        toast.error("Location is not available on this device");
+        return;
+      }
+      startDuty();
+      setNow(Date.now());
+      toast.success("On duty. Your route is recorded while the app is open.");
+      return;
+    }
+
+    const ended = stopDuty();
+    if (!ended) return;
+    try {
+      await appwrite.saveDutyShift(ended);
+      toast.success(`Off duty · ${formatMiles(trailDistance(ended.points))} logged`);
+    } catch (error) {
+      console.error("Error saving duty shift:", error);
+      setPendingShifts([...getPendingShifts(), ended]);
+      setPendingCount(getPendingShifts().length);
+      toast.error("Shift saved on this device. It will upload when you're back online.");
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" title="On duty">
+          <Navigation className={`h-4 w-4 ${trailFull ? "text-amber-600" : shift ? "text-green-600" : ""}`} />
+          {shift && (
+            <span className="ml-1 text-xs font-medium">{formatMiles(trailDistance(shift.points))}</span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-3 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <p className="text-sm font-medium">On duty</p>
+            <p className="text-xs text-muted-foreground">
+              Records your route for mileage while the app is open
+            </p>
+          </div>
+          <Switch checked={!!shift} onCheckedChange={handleToggle} />
+        </div>
+
+        {shift && (
+          <div className="grid grid-cols-2 gap-2 text-xs">
+            <div className="rounded-md border p-2">
+              <p className="text-muted-foreground">Time on duty</p>
+              <p className="font-medium">{formatElapsed(shift.startedAt, now)}</p>
+            </div>
+            <div className="rounded-md border p-2">
+              <p className="text-muted-foreground">Driven</p>
+              <p className="font-medium">{formatMiles(trailDistance(shift.points))}</p>
+            </div>
+          </div>
+        )}
+
+        {trailFull && (
+          <p className="text-xs text-amber-700">
+            Route recording limit reached. Go off duty and back on to keep logging mileage.
+          </p>
+        )}
+
+        {pendingCount > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {pendingCount} shift(s) waiting to upload
+          </p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default DutyStatus;
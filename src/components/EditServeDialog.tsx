@@ -18,6 +18,21 @@ import { useToast } from "@/hooks/use-toast"
 import { Textarea } from "@/components/ui/textarea"
 import { createUpdateNotificationEmail } from "@/utils/email"; // Add this import
 import { appwrite } from "@/lib/appwrite";
+import {
+  ServeOutcome,
+  SERVE_OUTCOMES,
+  getOutcomeDefinition,
+  getOutcomeLabel,
+  getStatusForOutcome,
+  resolveOutcome,
+} from "@/utils/serveOutcomes";
+import {
+  RecipientDescription,
+  EMPTY_RECIPIENT_DESCRIPTION,
+  getMissingDescriptionFields,
+  requiresRecipientDescription,
+} from "@/utils/recipientDescription";
+import RecipientDescriptionFields from "./RecipientDescriptionFields";
 
 interface EditServeDialogProps {
   serve: ServeAttemptData;
@@ -28,17 +43,17 @@ interface EditServeDialogProps {
 
 const EditServeDialog: React.FC<EditServeDialogProps> = ({ serve, open, onOpenChange, onSave }) => {
   const { toast } = useToast();
-  // Only allow completed or failed status to match ServeAttemptData
-  const [status, setStatus] = useState<"completed" | "failed">(serve.status === "completed" || serve.status === "failed" ? serve.status : "completed");
+  const [outcome, setOutcome] = useState<ServeOutcome>(resolveOutcome(serve));
   const [notes, setNotes] = useState(serve.notes || "");
+  const [recipientDescription, setRecipientDescription] = useState<RecipientDescription>(serve.recipientDescription || EMPTY_RECIPIENT_DESCRIPTION);
   const [updatedServe, setUpdatedServe] = useState<ServeAttemptData | null>(serve);
   const [isSaving, setIsSaving] = useState(false);
 
   useEffect(() => {
-    // Ensure status is always a valid value based on ServeAttemptData
-    // Default to completed if status is unknown
-    setStatus(serve.status === "completed" || serve.status === "failed" ? serve.status : "completed");
+    // Older records without an outcome fall back to the legacy status mapping
+    setOutcome(resolveOutcome(serve));
     setNotes(serve.notes || "");
+    setRecipientDescription(serve.recipientDescription || EMPTY_RECIPIENT_DESCRIPTION);
     setUpdatedServe(serve);
   }, [serve]);
 
@@ -47,13 +62,25 @@ const EditServeDialog: React.FC<EditServeDialogProps> = ({ serve, open, onOpenCh
     
     if (!updatedServe) return;
     
+    const missingFields = getMissingDescriptionFields(recipientDescription, outcome);
+    if (missingFields.length > 0) {
+      toast({
+        title: "Recipient description required",
+        description: `Please fill in: ${missingFields.join(", ")}`,
+        variant: "destructive"
+      });
+      return;
+    }
+    
     try {
       setIsSaving(true);
       
-      // Create a proper payload with type-safe status
+      // Status is always derived from the chosen outcome
       const payload: ServeAttemptData = {
         ...updatedServe,
-        status: status,
+        outcome: outcome,
+        status: getStatusForOutcome(outcome),
+        recipientDescription: requiresRecipientDescription(outcome) ? recipientDescription : undefined,
         notes: notes || ""
       };
       
@@ -67,8 +94,8 @@ const EditServeDialog: React.FC<EditServeDialogProps> = ({ serve, open, onOpenCh
             payload.clientName || "Unknown Client",
             payload.caseNumber || "Unknown Case",
             new Date(),
-            updatedServe.status || "unknown",
-            status,
+            getOutcomeLabel(resolveOutcome(updatedServe)),
+            getOutcomeLabel(outcome),
             notes,
             payload.caseName
           );
@@ -118,34 +145,56 @@ const EditServeDialog: React.FC<EditServeDialogProps> = ({ serve, open, onOpenCh
 
   return (
     <AlertDialog open={open} onOpenChange={onOpenChange}>
-      <AlertDialogContent>
+      <AlertDialogContent className="max-h-[95vh] overflow-y-auto">
         <AlertDialogHeader>
           <AlertDialogTitle>Edit Serve Attempt</AlertDialogTitle>
           <AlertDialogDescription>
-            Update the status and notes for this serve attempt.
+            Update the outcome and notes for this serve attempt.
           </AlertDialogDescription>
         </AlertDialogHeader>
         <form onSubmit={handleSubmit} className="grid gap-4 py-4">
           <div className="grid grid-cols-4 items-center gap-4">
-            <Label htmlFor="status" className="text-right">
-              Status
+            <Label className="text-right">Server</Label>
+            <div className="col-span-3 text-sm text-muted-foreground">
+              {serve.serverName || "Unknown"}
+              {serve.deviceInfo && <span className="block text-xs">{serve.deviceInfo}</span>}
+            </div>
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="outcome" className="text-right">
+              Outcome
             </Label>
             <select
-              id="status"
-              value={status}
+              id="outcome"
+              value={outcome}
               onChange={(e) => {
                 // Type guard to ensure only valid values are set
-                const newStatus = e.target.value;
-                if (newStatus === "completed" || newStatus === "failed") {
-                  setStatus(newStatus);
+                const definition = getOutcomeDefinition(e.target.value);
+                if (definition) {
+                  setOutcome(definition.value);
                 }
               }}
               className="col-span-3 rounded-md border shadow-sm focus:border-primary-500 focus:ring-primary-500"
             >
-              <option value="completed">Successful</option>
-              <option value="failed">Failed</option>
+              <optgroup label="Served">
+                {SERVE_OUTCOMES.filter(o => o.status === "completed" && (!o.legacy || o.value === outcome)).map(o => (
+                  <option key={o.value} value={o.value}>{o.label}</option>
+                ))}
+              </optgroup>
+              <optgroup label="Not Served">
+                {SERVE_OUTCOMES.filter(o => o.status === "failed" && (!o.legacy || o.value === outcome)).map(o => (
+                  <option key={o.value} value={o.value}>{o.label}</option>
+                ))}
+              </optgroup>
             </select>
           </div>
+          {requiresRecipientDescription(outcome) && (
+            <RecipientDescriptionFields
+              value={recipientDescription}
+              onChange={setRecipientDescription}
+              outcome={outcome}
+            />
+          )}
           <div className="space-y-2">
             <Label htmlFor="notes">Notes</Label>
             <Textarea
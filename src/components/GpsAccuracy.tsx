@@ -0,0 +1,50 @@
+import React from "react";
+import { GPS_SOURCE_LABELS, GpsFix, POOR_ACCURACY_METERS } from "@/utils/gps";
+
+interface GpsAccuracyProps {
+  accuracy?: number | null;
+  // Full reading, used for the tooltip
+  fix?: GpsFix;
+  className?: string;
+}
+
+const getAccuracyClass = (accuracy: number) => {
+  if (accuracy <= 20) return "text-green-600";
+  if (accuracy <= POOR_ACCURACY_METERS) return "text-amber-600";
+  return "text-destructive";
+};
+
+const describeFix = (fix: GpsFix) => [
+  `Source: ${GPS_SOURCE_LABELS[fix.source] || fix.source}`,
+  `Fix taken: ${new Date(fix.timestamp).toLocaleString()}`,
+  fix.altitude !== null ? `Altitude: ${Math.round(fix.altitude)} m` : null,
+  fix.heading !== null ? `Heading: ${Math.round(fix.heading)}°` : null,
+  fix.speed !== null ? `Speed: ${fix.speed.toFixed(1)} m/s` : null,
+].filter(Boolean).join("\n");
+
+/**
+ * Accuracy radius of a GPS fix, drawn as a circle that grows and changes
+ * colour as the fix gets less precise
+ */
+const GpsAccuracy: React.FC<GpsAccuracyProps> = ({ accuracy, fix, className }) => {
+  const radius = accuracy ?? fix?.accuracy;
+  if (radius === undefined || radius === null) return null;
+
+  // 4px for a tight fix up to 7px at 100 m and beyond
+  const circleRadius = 4 + Math.min(3, radius / 33);
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 ${getAccuracyClass(radius)} ${className || ""}`}
+      title={fix ? describeFix(fix) : undefined}
+    >
+      <svg width="16" height="16" viewBox="0 0 16 16" aria-hidden="true">
+        <circle cx="8" cy="8" r={circleRadius} fill="currentColor" fillOpacity="0.2" stroke="currentColor" strokeWidth="1" />
+        <circle cx="8" cy="8" r="1.5" fill="currentColor" />
+      </svg>
+      ±{Math.round(radius)} m
+    </span>
+  );
+};
+
+export default GpsAccuracy;
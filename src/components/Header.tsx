@@ -10,21 +10,29 @@ import {
   FileText, 
   Menu, 
   X, 
-  Plus
+  Plus,
+  Truck,
+  Map as MapIcon,
+  Route as RouteIcon,
+  Gauge
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
+import { useAuth } from "@/hooks/use-auth";
+import OutboxStatus from "@/components/OutboxStatus";
+import DutyStatus from "@/components/DutyStatus";
 
 export function Header() {
   const navigate = useNavigate();
   const { toast } = useToast();
   const isMobile = useIsMobile();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const { user, logout, can } = useAuth();
 
-  const handleLogout = () => {
-    localStorage.removeItem("serve-tracker-auth");
+  const handleLogout = async () => {
+    await logout();
     toast({
       title: "Logged out",
       description: "You have been logged out successfully",
@@ -76,12 +84,39 @@ export function Header() {
               <History className="h-5 w-5" />
               History
             </NavLink>
-            <NavLink to="/export" className={mobileNavLink} onClick={() => setIsMenuOpen(false)}>
-              <FileText className="h-5 w-5" />
-              Export
+            <NavLink to="/map" className={mobileNavLink} onClick={() => setIsMenuOpen(false)}>
+              <MapIcon className="h-5 w-5" />
+              Map
             </NavLink>
+            {can("serve:create") && (
+              <NavLink to="/route" className={mobileNavLink} onClick={() => setIsMenuOpen(false)}>
+                <RouteIcon className="h-5 w-5" />
+                Route
+              </NavLink>
+            )}
+            {can("serve:create") && (
+              <NavLink to="/mileage" className={mobileNavLink} onClick={() => setIsMenuOpen(false)}>
+                <Gauge className="h-5 w-5" />
+                Mileage
+              </NavLink>
+            )}
+            {can("case:assign") && (
+              <NavLink to="/dispatch" className={mobileNavLink} onClick={() => setIsMenuOpen(false)}>
+                <Truck className="h-5 w-5" />
+                Dispatch
+              </NavLink>
+            )}
+            {can("data:export") && (
+              <NavLink to="/export" className={mobileNavLink} onClick={() => setIsMenuOpen(false)}>
+                <FileText className="h-5 w-5" />
+                Export
+              </NavLink>
+            )}
           </nav>
           <div className="border-t p-4">
+            {user && (
+              <p className="text-xs text-muted-foreground px-3 pb-2 truncate">{user.name || user.email}</p>
+            )}
             <Button 
               variant="ghost" 
               size="sm"
@@ -111,15 +146,19 @@ export function Header() {
                 ServeTracker
               </Link>
             </div>
-            <Button 
-              variant="default" 
-              size="sm" 
-              onClick={() => navigate('/new-serve')}
-              className="flex items-center rounded-full"
-            >
-              <Plus className="h-4 w-4" />
-              <span className="ml-1 hidden sm:inline">New Serve</span>
-            </Button>
+            {can("serve:create") && <DutyStatus />}
+            <OutboxStatus />
+            {can("serve:create") && (
+              <Button 
+                variant="default" 
+                size="sm" 
+                onClick={() => navigate('/new-serve')}
+                className="flex items-center rounded-full"
+              >
+                <Plus className="h-4 w-4" />
+                <span className="ml-1 hidden sm:inline">New Serve</span>
+              </Button>
+            )}
           </>
         ) : (
           <>
@@ -149,22 +188,65 @@ export function Header() {
                 History
               </NavLink>
               <NavLink
-                to="/export"
+                to="/map"
                 className={desktopNavLink}
               >
-                <FileText className="h-4 w-4" />
-                Export
+                <MapIcon className="h-4 w-4" />
+                Map
               </NavLink>
+              {can("serve:create") && (
+                <NavLink
+                  to="/route"
+                  className={desktopNavLink}
+                >
+                  <RouteIcon className="h-4 w-4" />
+                  Route
+                </NavLink>
+              )}
+              {can("serve:create") && (
+                <NavLink
+                  to="/mileage"
+                  className={desktopNavLink}
+                >
+                  <Gauge className="h-4 w-4" />
+                  Mileage
+                </NavLink>
+              )}
+              {can("case:assign") && (
+                <NavLink
+                  to="/dispatch"
+                  className={desktopNavLink}
+                >
+                  <Truck className="h-4 w-4" />
+                  Dispatch
+                </NavLink>
+              )}
+              {can("data:export") && (
+                <NavLink
+                  to="/export"
+                  className={desktopNavLink}
+                >
+                  <FileText className="h-4 w-4" />
+                  Export
+                </NavLink>
+              )}
             </nav>
             <div className="ml-auto flex items-center space-x-2">
-              <Button 
-                variant="default" 
-                size="sm" 
-                onClick={() => navigate('/new-serve')}
-                className="flex items-center"
-              >
-                <span className="mr-1">+</span> New Serve
-              </Button>
+              {user && (
+                <span className="text-xs text-muted-foreground hidden lg:inline">{user.name || user.email}</span>
+              )}
+              {can("serve:create") && <DutyStatus />}
+              <OutboxStatus />
+              {can("serve:create") && (
+                <Button 
+                  variant="default" 
+                  size="sm" 
+                  onClick={() => navigate('/new-serve')}
+                  className="flex items-center"
+                >
+                  <span className="mr-1">+</span> New Serve
+                </Button>
+              )}
               <Button 
                 variant="ghost" 
                 size="sm" 
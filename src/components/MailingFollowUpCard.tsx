@@ -0,0 +1,192 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Mail, Camera, Loader2, CheckCircle, AlertCircle } from "lucide-react";
+import CameraComponent from "@/components/Camera";
+import { appwrite } from "@/lib/appwrite";
+import {
+  CaseMailing,
+  MailingFollowUp,
+  MAIL_CLASSES,
+  MAILING_STATUS_LABELS,
+  getCaseMailing,
+  getMailingStatusClass,
+  needsMailingAttention,
+} from "@/utils/mailingFollowUp";
+
+interface MailingFollowUpCardProps {
+  caseId: string;
+  followUp: MailingFollowUp;
+  canEdit: boolean;
+}
+
+const toDateInput = (value?: string) => (value ? value.split("T")[0] : "");
+
+const MailingFollowUpCard: React.FC<MailingFollowUpCardProps> = ({ caseId, followUp, canEdit }) => {
+  const [mailing, setMailing] = useState<CaseMailing>(followUp.mailing);
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (followUp.status === "not_required") return null;
+
+  const update = (field: keyof CaseMailing, value: string) => {
+    setMailing(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleReceiptCapture = (imageData: string) => {
+    update("receiptImage", imageData);
+    setCameraOpen(false);
+  };
+
+  const handleSave = async () => {
+    if (!mailing.mailingDate) {
+      toast.error("Mailing date is required");
+      return;
+    }
+    if (mailing.mailingClass?.startsWith("Certified") && !mailing.trackingNumber?.trim()) {
+      toast.error("Tracking number is required for certified mail");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await appwrite.updateCaseMailing(caseId, {
+        ...mailing,
+        mailingDate: new Date(`${toDateInput(mailing.mailingDate)}T12:00:00`).toISOString(),
+      });
+      // The receipt is now in storage; saving again must not upload it twice
+      setMailing(getCaseMailing(saved));
+      window.dispatchEvent(new CustomEvent("cases-updated"));
+      toast.success("Mailing recorded", {
+        description: "The follow-up mailing has been saved to this case."
+      });
+    } catch (error) {
+      console.error("Error saving case mailing:", error);
+      toast.error("Error saving mailing", {
+        description: "There was a problem saving the mailing details."
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-md border p-4 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-medium flex items-center gap-2">
+          <Mail className="h-4 w-4" />
+          Follow-up Mailing
+        </p>
+        <span className={`text-xs px-2 py-0.5 rounded-full ${getMailingStatusClass(followUp.status)}`}>
+          {MAILING_STATUS_LABELS[followUp.status]}
+        </span>
+      </div>
+
+      {followUp.dueDate && (
+        <p className={`text-sm flex items-center gap-1.5 ${needsMailingAttention(followUp.status) && followUp.status !== "pending" ? "text-destructive" : "text-muted-foreground"}`}>
+          {followUp.status === "mailed" ? (
+            <CheckCircle className="h-3.5 w-3.5" />
+          ) : (
+            <AlertCircle className="h-3.5 w-3.5" />
+          )}
+          Served {followUp.serviceDate?.toLocaleDateString()}; mailing due by {followUp.dueDate.toLocaleDateString()}
+          {followUp.daysRemaining !== undefined && (
+            followUp.daysRemaining < 0
+              ? ` (${Math.abs(followUp.daysRemaining)} days overdue)`
+              : ` (${followUp.daysRemaining} days left)`
+          )}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="mailing-date" className="text-xs">Date Mailed</Label>
+          <Input
+            id="mailing-date"
+            type="date"
+            value={toDateInput(mailing.mailingDate)}
+            onChange={(e) => update("mailingDate", e.target.value)}
+            disabled={!canEdit}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="mailing-class" className="text-xs">Mail Class</Label>
+          <Select
+            value={mailing.mailingClass || undefined}
+            onValueChange={(value) => update("mailingClass", value)}
+            disabled={!canEdit}
+          >
+            <SelectTrigger id="mailing-class">
+              <SelectValue placeholder="Select class" />
+            </SelectTrigger>
+            <SelectContent>
+              {MAIL_CLASSES.map((mailClass) => (
+                <SelectItem key={mailClass} value={mailClass}>
+                  {mailClass}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="mailing-tracking" className="text-xs">Tracking Number</Label>
+          <Input
+            id="mailing-tracking"
+            value={mailing.trackingNumber || ""}
+            onChange={(e) => update("trackingNumber", e.target.value)}
+            disabled={!canEdit}
+          />
+        </div>
+      </div>
+
+      {mailing.receiptImage && (
+        <div className="rounded-md overflow-hidden border h-36">
+          <img src={mailing.receiptImage} alt="Mailing receipt" className="w-full h-full object-contain bg-muted" />
+        </div>
+      )}
+
+      {canEdit && (
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setCameraOpen(true)} disabled={isSaving}>
+            <Camera className="mr-2 h-4 w-4" />
+            {mailing.receiptImage ? "Retake Receipt" : "Photo of Receipt"}
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Mailing
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={cameraOpen} onOpenChange={setCameraOpen}>
+        <DialogContent className="max-h-[95vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Mailing Receipt</DialogTitle>
+            <DialogDescription>
+              Photograph the post office receipt for this mailing.
+            </DialogDescription>
+          </DialogHeader>
+          {cameraOpen && <CameraComponent onCapture={handleReceiptCapture} />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default MailingFollowUpCard;
@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ListTodo, Loader2 } from "lucide-react";
+import { ClientData } from "@/components/ClientForm";
+import { appwrite } from "@/lib/appwrite";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  CaseAssignment,
+  compareAssignments,
+  getCaseAssignment,
+  getPriorityClass,
+  getPriorityLabel,
+  isAssignmentOverdue,
+} from "@/utils/caseAssignment";
+
+interface QueueEntry {
+  caseId: string;
+  clientId: string;
+  caseNumber: string;
+  caseName?: string;
+  assignment: CaseAssignment;
+}
+
+interface MyQueueProps {
+  clients: ClientData[];
+}
+
+const MyQueue: React.FC<MyQueueProps> = ({ clients }) => {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<QueueEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchQueue = async () => {
+      try {
+        const cases = await appwrite.getAssignedCases(user.$id);
+        setEntries(
+          cases
+            .map((caseDoc) => ({
+              caseId: caseDoc.$id,
+              clientId: caseDoc.client_id,
+              caseNumber: caseDoc.case_number,
+              caseName: caseDoc.case_name || undefined,
+              assignment: getCaseAssignment(caseDoc),
+            }))
+            .sort((a, b) => compareAssignments(a.assignment, b.assignment))
+        );
+      } catch (error) {
+        console.error("Dashboard: Error fetching assigned cases:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchQueue();
+    window.addEventListener("cases-updated", fetchQueue);
+
+    return () => {
+      window.removeEventListener("cases-updated", fetchQueue);
+    };
+  }, [user]);
+
+  if (!isLoading && entries.length === 0) return null;
+
+  const getClientName = (clientId: string) =>
+    clients.find(client => client.id === clientId)?.name || "Unknown Client";
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <ListTodo className="h-4 w-4" />
+          My Queue
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Cases assigned to you, most urgent first
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Loading your queue...
+          </div>
+        ) : (
+          entries.map((entry) => (
+            <Link key={entry.caseId} to="/new-serve" className="block rounded-md p-2 hover:bg-accent transition-colors">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium truncate">{entry.caseName || entry.caseNumber}</span>
+                <span className={`text-xs px-2 py-0.5 rounded-full whitespace-nowrap ${getPriorityClass(entry.assignment.priority)}`}>
+                  {getPriorityLabel(entry.assignment.priority)}
+                </span>
+              </div>
+              <p className={`text-xs ${isAssignmentOverdue(entry.assignment) ? "text-destructive" : "text-muted-foreground"}`}>
+                {getClientName(entry.clientId)}
+                {entry.assignment.dueDate && ` · due ${new Date(entry.assignment.dueDate).toLocaleDateString()}`}
+              </p>
+            </Link>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MyQueue;
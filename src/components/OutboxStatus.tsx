@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { toast } from "sonner";
+import { CloudOff, Loader2, RefreshCw, ShieldCheck, Trash2 } from "lucide-react";
+import {
+  OUTBOX_EVENT,
+  OUTBOX_STATE_LABELS,
+  OutboxItem,
+  clearSyncedItems,
+  getOutboxItems,
+  getOutboxStateClass,
+  removeOutboxItem,
+} from "@/utils/offlineQueue";
+import { syncOutbox } from "@/utils/outboxSync";
+
+const describeItem = (item: OutboxItem): string => {
+  const caseLabel = (item.payload.caseName || item.payload.caseNumber || "Unknown case") as string;
+  return item.type === "create_serve" ? `Attempt · ${caseLabel}` : `Edit · ${caseLabel}`;
+};
+
+const OutboxStatus: React.FC = () => {
+  const [items, setItems] = useState<OutboxItem[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  useEffect(() => {
+    const fetchItems = async () => {
+      try {
+        setItems(await getOutboxItems());
+      } catch (error) {
+        console.error("Error reading offline outbox:", error);
+      }
+    };
+    const updateOnline = () => setIsOnline(navigator.onLine);
+
+    fetchItems();
+    window.addEventListener(OUTBOX_EVENT, fetchItems);
+    window.addEventListener("online", updateOnline);
+    window.addEventListener("offline", updateOnline);
+
+    return () => {
+      window.removeEventListener(OUTBOX_EVENT, fetchItems);
+      window.removeEventListener("online", updateOnline);
+      window.removeEventListener("offline", updateOnline);
+    };
+  }, []);
+
+  const unsynced = items.filter(item => item.state !== "synced");
+
+  if (items.length === 0 && isOnline) return null;
+
+  const handleSync = async () => {
+    setIsSyncing(true);
+    try {
+      const result = await syncOutbox();
+      if (result.failed > 0) {
+        toast.error(`${result.failed} queued item(s) could not be uploaded`);
+      } else if (result.synced > 0) {
+        toast.success(`Uploaded ${result.synced} queued item(s)`);
+      }
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleDiscard = async (item: OutboxItem) => {
+    if (item.seq === undefined) return;
+    if (!window.confirm("Discard this queued item? It has not been uploaded and will be lost.")) return;
+    try {
+      await removeOutboxItem(item.seq);
+    } catch (error) {
+      console.error("Error discarding outbox item:", error);
+      toast.error("Error discarding queued item");
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" title="Offline outbox">
+          <CloudOff className={`h-4 w-4 ${isOnline ? "" : "text-destructive"}`} />
+          {unsynced.length > 0 && (
+            <span className="ml-1 text-xs font-medium">{unsynced.length}</span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-3 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <p className="text-sm font-medium">Offline outbox</p>
+            <p className="text-xs text-muted-foreground">
+              {isOnline ? `${unsynced.length} waiting to upload` : "You're offline. New attempts are saved on this device."}
+            </p>
+          </div>
+          <Button size="sm" variant="outline" onClick={handleSync} disabled={!isOnline || isSyncing || unsynced.length === 0}>
+            {isSyncing ? <Loader2 className="h-3 w-3 animate-spin" /> : <RefreshCw className="h-3 w-3" />}
+            <span className="ml-1">Sync now</span>
+          </Button>
+        </div>
+
+        {items.length > 0 && (
+          <ul className="max-h-72 overflow-y-auto space-y-2">
+            {items.map((item) => (
+              <li key={item.id} className="rounded-md border p-2 text-xs space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium truncate">{describeItem(item)}</span>
+                  <span className={`px-2 py-0.5 rounded-full whitespace-nowrap ${getOutboxStateClass(item.state)}`}>
+                    {OUTBOX_STATE_LABELS[item.state]}
+                  </span>
+                </div>
+                <p className="text-muted-foreground">
+                  {item.type === "create_serve" && item.payload.timestamp
+                    ? `Captured ${new Date(item.payload.timestamp as string).toLocaleString()}`
+                    : `Queued ${new Date(item.queuedAt).toLocaleString()}`}
+                </p>
+                {item.hash && (
+                  <p className="text-muted-foreground flex items-center gap-1 font-mono" title={item.hash}>
+                    <ShieldCheck className="h-3 w-3" />
+                    {item.hash.slice(0, 16)}…
+                  </p>
+                )}
+                {item.lastError && item.state !== "synced" && (
+                  <p className="text-destructive">{item.lastError}</p>
+                )}
+                {item.state === "failed" && (
+                  <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => handleDiscard(item)}>
+                    <Trash2 className="h-3 w-3 mr-1" />
+                    Discard
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {items.some(item => item.state === "synced") && (
+          <Button variant="ghost" size="sm" className="w-full text-xs" onClick={() => clearSyncedItems()}>
+            Clear uploaded items
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default OutboxStatus;
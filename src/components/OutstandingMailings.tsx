@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Mail, Loader2 } from "lucide-react";
+import {
+  CaseMailingFollowUp,
+  MAILING_STATUS_LABELS,
+  getMailingStatusClass,
+  getOutstandingMailings,
+} from "@/utils/mailingFollowUp";
+
+const OutstandingMailings: React.FC = () => {
+  const [mailings, setMailings] = useState<CaseMailingFollowUp[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchMailings = async () => {
+      try {
+        setMailings(await getOutstandingMailings());
+      } catch (error) {
+        console.error("Dashboard: Error fetching outstanding mailings:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchMailings();
+    window.addEventListener("cases-updated", fetchMailings);
+    window.addEventListener("serves-updated", fetchMailings);
+
+    return () => {
+      window.removeEventListener("cases-updated", fetchMailings);
+      window.removeEventListener("serves-updated", fetchMailings);
+    };
+  }, []);
+
+  if (!isLoading && mailings.length === 0) return null;
+
+  return (
+    <Card className="border-amber-200">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Mail className="h-4 w-4" />
+          Follow-up Mailings Due
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Substituted and affix-and-mail serves need a mailing within 20 days
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Checking mailings...
+          </div>
+        ) : (
+          mailings.map((mailing) => (
+            <Link key={mailing.caseId} to="/clients" className="block rounded-md p-2 hover:bg-accent transition-colors">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium truncate">{mailing.caseName || mailing.caseNumber}</span>
+                <span className={`text-xs px-2 py-0.5 rounded-full whitespace-nowrap ${getMailingStatusClass(mailing.status)}`}>
+                  {MAILING_STATUS_LABELS[mailing.status]}
+                </span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {mailing.clientName} · due {mailing.dueDate?.toLocaleDateString()}
+              </p>
+            </Link>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OutstandingMailings;
@@ -0,0 +1,100 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ServeOutcome } from "@/utils/serveOutcomes";
+import {
+  RecipientDescription,
+  SEX_OPTIONS,
+  SKIN_COLOR_OPTIONS,
+  HAIR_COLOR_OPTIONS,
+} from "@/utils/recipientDescription";
+
+interface RecipientDescriptionFieldsProps {
+  value: RecipientDescription;
+  onChange: (value: RecipientDescription) => void;
+  outcome?: ServeOutcome;
+}
+
+const OptionSelect = ({ id, value, options, placeholder, onChange }: {
+  id: string;
+  value: string;
+  options: string[];
+  placeholder: string;
+  onChange: (value: string) => void;
+}) => (
+  <Select value={value || undefined} onValueChange={onChange}>
+    <SelectTrigger id={id}>
+      <SelectValue placeholder={placeholder} />
+    </SelectTrigger>
+    <SelectContent>
+      {options.map((option) => (
+        <SelectItem key={option} value={option}>
+          {option}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+const RecipientDescriptionFields: React.FC<RecipientDescriptionFieldsProps> = ({ value, onChange, outcome }) => {
+  const update = (field: keyof RecipientDescription, fieldValue: string) => {
+    onChange({ ...value, [field]: fieldValue });
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <p className="text-sm font-medium">Recipient Description</p>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="recipient-sex" className="text-xs">Sex</Label>
+          <OptionSelect id="recipient-sex" value={value.sex} options={SEX_OPTIONS} placeholder="Sex" onChange={(v) => update("sex", v)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="recipient-skin" className="text-xs">Skin Color</Label>
+          <OptionSelect id="recipient-skin" value={value.skinColor} options={SKIN_COLOR_OPTIONS} placeholder="Skin" onChange={(v) => update("skinColor", v)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="recipient-hair" className="text-xs">Hair Color</Label>
+          <OptionSelect id="recipient-hair" value={value.hairColor} options={HAIR_COLOR_OPTIONS} placeholder="Hair" onChange={(v) => update("hairColor", v)} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="recipient-age" className="text-xs">Approx. Age</Label>
+          <Input id="recipient-age" value={value.approximateAge} onChange={(e) => update("approximateAge", e.target.value)} placeholder="35-45" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="recipient-height" className="text-xs">Height</Label>
+          <Input id="recipient-height" value={value.height} onChange={(e) => update("height", e.target.value)} placeholder={`5'8"-5'11"`} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="recipient-weight" className="text-xs">Weight (lbs)</Label>
+          <Input id="recipient-weight" value={value.weight} onChange={(e) => update("weight", e.target.value)} placeholder="160-180" />
+        </div>
+      </div>
+
+      {outcome === "substituted" && (
+        <div className="space-y-1">
+          <Label htmlFor="recipient-relationship" className="text-xs">Relationship to Defendant</Label>
+          <Input
+            id="recipient-relationship"
+            value={value.relationship || ""}
+            onChange={(e) => update("relationship", e.target.value)}
+            placeholder="Spouse, co-tenant, coworker..."
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecipientDescriptionFields;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
@@ -24,8 +24,17 @@ import { Textarea } from "@/components/ui/textarea";
 import { ClientData } from "./ClientForm";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import CameraComponent from "./Camera";
-import { embedGpsIntoImage } from "@/utils/gps";
-import { formatCoordinates } from "@/utils/gps";
+import {
+  GPS_SOURCE_LABELS,
+  GpsFix,
+  embedGpsIntoImage,
+  formatCoordinates,
+  getDeviceDescription,
+  getFixAgeSeconds,
+  isPoorAccuracy,
+  POOR_ACCURACY_METERS,
+} from "@/utils/gps";
+import GpsAccuracy from "./GpsAccuracy";
 import { createServeEmailBody } from "@/utils/email";
 import { useToast } from "@/components/ui/use-toast";
 import { MapPin, Mail, Camera, AlertCircle, CheckCircle, Loader2, ExternalLink, Search } from "lucide-react";
@@ -35,6 +44,34 @@ import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, Command
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { debugImageData } from "@/utils/imageUtils";
+import { ServeOutcome, ServeStatus, SELECTABLE_OUTCOMES, getStatusForOutcome } from "@/utils/serveOutcomes";
+import {
+  RecipientDescription,
+  EMPTY_RECIPIENT_DESCRIPTION,
+  getMissingDescriptionFields,
+  requiresRecipientDescription,
+} from "@/utils/recipientDescription";
+import RecipientDescriptionFields from "./RecipientDescriptionFields";
+import ServePhotoReview from "./ServePhotoReview";
+import { ServePhoto, createServePhoto } from "@/utils/servePhotos";
+import DueDiligenceSummary from "./DueDiligenceSummary";
+import { isOpenCaseStatus } from "@/utils/caseWorkflow";
+import { compareAssignments, getCaseAssignment } from "@/utils/caseAssignment";
+import { useAuth } from "@/hooks/use-auth";
+import { CaseParty, getPartyAddresses, getPartyRoleLabel } from "@/utils/caseParties";
+import {
+  CaseAddress,
+  getAddressLabel,
+  getAddressStatusClass,
+  getAddressStatusLabel,
+  geocodeCaseAddresses,
+  getAddressLocation,
+  getServiceableAddresses,
+  parseCaseAddresses,
+} from "@/utils/caseAddresses";
+import { GeoPoint, geocodeAddress } from "@/utils/geocoding";
+import { GeofenceCheck, checkGeofence, describeGeofence, getCachedGeofenceRadius } from "@/utils/geofence";
+import { TrailPoint, commitTrailSegment, getTrailSegment } from "@/utils/dutyTrail";
 
 export interface ServeAttemptData {
   id?: string;
@@ -42,36 +79,76 @@ export interface ServeAttemptData {
   clientName?: string;
   clientEmail?: string;
   imageData: string;
+  imageFileId?: string;
+  imageUrl?: string;
+  thumbnailUrl?: string;
+  // Ordered gallery; the first photo is the cover and also fills imageData
+  photos?: ServePhoto[];
   coordinates: GeolocationCoordinates | string;
   notes: string;
   timestamp: Date;
-  status: "completed" | "failed";
+  status: ServeStatus;
+  outcome?: ServeOutcome;
+  recipientDescription?: RecipientDescription;
   attemptNumber: number;
   caseNumber?: string;
   caseName?: string;
   address?: string;
+  partyId?: string;
+  partyName?: string;
+  addressId?: string;
+  ownerId?: string;
+  serverId?: string;
+  serverName?: string;
+  deviceInfo?: string;
+  captureHash?: string;
+  queuedAt?: string;
+  recordHash?: string;
+  imageHash?: string;
+  gpsFix?: GpsFix;
+  geofence?: GeofenceCheck;
+  // Street address the capture coordinates resolve to
+  gpsAddress?: string;
+  // On-duty trail driven since the previous attempt of the shift
+  trail?: TrailPoint[];
+  trailDistance?: number;
+  shiftId?: string;
 }
 
 interface ServeAttemptProps {
   clients: ClientData[];
   onComplete: (data: ServeAttemptData) => void;
   previousAttempts?: number;
+  // Preselects the client, case and address, e.g. when opened from a route stop
+  initialClientId?: string;
+  initialCaseNumber?: string;
+  initialAddressId?: string;
 }
 
 interface ClientCase {
+  id: string;
   caseNumber: string;
   caseName?: string;
-  homeAddress?: string;
-  workAddress?: string;
+  addresses: CaseAddress[];
   clientId?: string;
   clientName?: string;
 }
 
+interface CaseDocument {
+  $id: string;
+  client_id: string;
+  case_number: string;
+  case_name?: string;
+  addresses?: string | null;
+  home_address?: string | null;
+  work_address?: string | null;
+}
+
 const serveAttemptSchema = z.object({
   clientId: z.string().min(1, { message: "Please select a client" }),
   caseNumber: z.string().min(1, { message: "Please select a case" }),
   notes: z.string().optional(),
-  status: z.enum(["completed", "failed"]),
+  outcome: z.enum(SELECTABLE_OUTCOMES.map(outcome => outcome.value) as [ServeOutcome, ...ServeOutcome[]]),
 });
 
 type ServeFormValues = z.infer<typeof serveAttemptSchema>;
@@ -84,8 +161,7 @@ const filterCases = (cases: ClientCase[], query: string) => {
     (c) =>
       c.caseNumber?.toLowerCase().includes(lowerQuery) || 
       c.caseName?.toLowerCase().includes(lowerQuery) || 
-      c.homeAddress?.toLowerCase().includes(lowerQuery) || 
-      c.workAddress?.toLowerCase().includes(lowerQuery) || 
+      c.addresses.some(entry => entry.address.toLowerCase().includes(lowerQuery)) || 
       c.clientName?.toLowerCase().includes(lowerQuery)
   );
 };
@@ -93,21 +169,33 @@ const filterCases = (cases: ClientCase[], query: string) => {
 const ServeAttempt: React.FC<ServeAttemptProps> = ({ 
   clients, 
   onComplete,
-  previousAttempts = 0
+  previousAttempts = 0,
+  initialClientId,
+  initialCaseNumber,
+  initialAddressId
 }) => {
   const [step, setStep] = useState<"select" | "capture" | "confirm">("select");
-  const [capturedImage, setCapturedImage] = useState<string | null>(null);
-  const [location, setLocation] = useState<GeolocationCoordinates | null>(null);
+  const [photos, setPhotos] = useState<ServePhoto[]>([]);
   const [selectedClient, setSelectedClient] = useState<ClientData | null>(null);
   const [clientCases, setClientCases] = useState<ClientCase[]>([]);
   const [allCases, setAllCases] = useState<ClientCase[]>([]);
   const [selectedCase, setSelectedCase] = useState<ClientCase | null>(null);
+  const [caseParties, setCaseParties] = useState<CaseParty[]>([]);
+  const [selectedParty, setSelectedParty] = useState<CaseParty | null>(null);
+  const [selectedAddressId, setSelectedAddressId] = useState<string | null>(null);
   const [isSending, setIsSending] = useState(false);
   const [addressSearchTerm, setAddressSearchTerm] = useState("");
   const [addressSearchOpen, setAddressSearchOpen] = useState(false);
   const [isLoadingCases, setIsLoadingCases] = useState(false);
+  const [caseScope, setCaseScope] = useState<"assigned" | "all">("assigned");
   const [caseAttemptCount, setCaseAttemptCount] = useState(0);
+  const [recipientDescription, setRecipientDescription] = useState<RecipientDescription>(EMPTY_RECIPIENT_DESCRIPTION);
+  const [addressLocation, setAddressLocation] = useState<GeoPoint | null>(null);
+  const [geofenceNote, setGeofenceNote] = useState("");
+  const [geofenceRadius, setGeofenceRadius] = useState(getCachedGeofenceRadius);
+  const casePrefilledRef = useRef(false);
   const { toast } = useToast();
+  const { user } = useAuth();
   const isMobile = useIsMobile();
   
   const form = useForm<ServeFormValues>({
@@ -116,27 +204,45 @@ const ServeAttempt: React.FC<ServeAttemptProps> = ({
       clientId: "",
       caseNumber: "",
       notes: "",
-      status: "completed",
+      outcome: "personal",
     },
   });
 
+  const userId = user?.$id;
+
+  // Servers start from their own queue; searching every open case is opt-in
   useEffect(() => {
-    const fetchAllCases = async () => {
+    const toClientCase = (caseItem: CaseDocument, client?: ClientData): ClientCase => ({
+      id: caseItem.$id,
+      caseNumber: caseItem.case_number,
+      caseName: caseItem.case_name,
+      addresses: parseCaseAddresses(caseItem),
+      clientId: caseItem.client_id,
+      clientName: client?.name,
+    });
+
+    const fetchSearchCases = async () => {
       setIsLoadingCases(true);
       try {
+        if (caseScope === "assigned") {
+          if (!userId) return;
+          const assigned = await appwrite.getAssignedCases(userId);
+          setAllCases(
+            assigned
+              .sort((a, b) => compareAssignments(getCaseAssignment(a), getCaseAssignment(b)))
+              .map((caseItem) => toClientCase(caseItem, clients.find(c => c.id === caseItem.client_id)))
+          );
+          return;
+        }
+
         const activeCases: ClientCase[] = [];
 
         for (const client of clients) {
           const clientCases = await appwrite.getClientCases(client.id);
           activeCases.push(
-            ...clientCases.filter((caseItem) => caseItem.status !== "Closed").map((caseItem) => ({
-              caseNumber: caseItem.case_number,
-              caseName: caseItem.case_name,
-              homeAddress: caseItem.home_address,
-              workAddress: caseItem.work_address,
-              clientId: client.id,
-              clientName: client.name,
-            }))
+            ...clientCases
+              .filter((caseItem) => isOpenCaseStatus(caseItem.status))
+              .map((caseItem) => toClientCase(caseItem, client))
           );
         }
 
@@ -153,8 +259,8 @@ const ServeAttempt: React.FC<ServeAttemptProps> = ({
       }
     };
 
-    fetchAllCases();
-  }, [clients]);
+    fetchSearchCases();
+  }, [clients, caseScope, userId, toast]);
 
   useEffect(() => {
     if (selectedClient?.id) {
@@ -163,12 +269,12 @@ const ServeAttempt: React.FC<ServeAttemptProps> = ({
         try {
           const clientCases = await appwrite.getClientCases(selectedClient.id);
           const activeCases = clientCases
-            .filter((caseItem) => caseItem.status !== "Closed")
+            .filter((caseItem) => isOpenCaseStatus(caseItem.status))
             .map((caseItem) => ({
+              id: caseItem.$id,
               caseNumber: caseItem.case_number,
               caseName: caseItem.case_name,
-              homeAddress: caseItem.home_address,
-              workAddress: caseItem.work_address,
+              addresses: parseCaseAddresses(caseItem),
               clientId: selectedClient.id,
               clientName: selectedClient.name,
             }));
@@ -206,6 +312,53 @@ const ServeAttempt: React.FC<ServeAttemptProps> = ({
     updateAttemptCount();
   }, [selectedClient, selectedCase]);
 
+  useEffect(() => {
+    setSelectedAddressId(null);
+  }, [selectedCase?.id, selectedParty?.id]);
+
+  useEffect(() => {
+    if (!initialClientId || selectedClient) return;
+    const client = clients.find(c => c.id === initialClientId);
+    if (client) {
+      setSelectedClient(client);
+      form.setValue("clientId", initialClientId);
+    }
+  }, [initialClientId, clients, selectedClient, form]);
+
+  useEffect(() => {
+    if (!initialCaseNumber || casePrefilledRef.current || selectedClient?.id !== initialClientId) return;
+    const caseItem = clientCases.find(c => c.caseNumber === initialCaseNumber);
+    if (caseItem) {
+      casePrefilledRef.current = true;
+      setSelectedCase(caseItem);
+      form.setValue("caseNumber", initialCaseNumber);
+    }
+  }, [initialCaseNumber, initialClientId, clientCases, selectedClient?.id, form]);
+
+  // Declared after the reset above so the preselected address wins
+  useEffect(() => {
+    if (initialAddressId && selectedCase?.caseNumber === initialCaseNumber) {
+      setSelectedAddressId(initialAddressId);
+    }
+  }, [initialAddressId, initialCaseNumber, selectedCase?.id, selectedCase?.caseNumber]);
+
+  useEffect(() => {
+    setSelectedParty(null);
+    if (!selectedCase?.id) {
+      setCaseParties([]);
+      return;
+    }
+
+    let cancelled = false;
+    appwrite.getCaseParties(selectedCase.id).then((parties) => {
+      if (!cancelled) setCaseParties(parties);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedCase?.id]);
+
   const filteredCases = useMemo(() => {
     const casesToFilter = selectedClient ? clientCases : allCases;
     if (!addressSearchTerm.trim()) return casesToFilter;
@@ -215,12 +368,71 @@ const ServeAttempt: React.FC<ServeAttemptProps> = ({
       (c) =>
         c.caseNumber?.toLowerCase().includes(lowerQuery) ||
         c.caseName?.toLowerCase().includes(lowerQuery) ||
-        c.homeAddress?.toLowerCase().includes(lowerQuery) ||
-        c.workAddress?.toLowerCase().includes(lowerQuery) ||
+        c.addresses.some(entry => entry.address.toLowerCase().includes(lowerQuery)) ||
         c.clientName?.toLowerCase().includes(lowerQuery)
     );
   }, [addressSearchTerm, clientCases, allCases, selectedClient]);
 
+  // A selected party's own addresses are offered ahead of the case addresses
+  const addressOptions = useMemo(() => [
+    ...(selectedParty ? getPartyAddresses(selectedParty) : []),
+    ...getServiceableAddresses(selectedCase?.addresses || []),
+  ], [selectedParty, selectedCase]);
+
+  const selectedAddress = addressOptions.find(entry => entry.id === selectedAddressId) || addressOptions[0];
+
+  // The allowed distance is set for the whole agency
+  useEffect(() => {
+    appwrite.getGeofenceRadius().then(setGeofenceRadius);
+  }, []);
+
+  // Position of the attempted address for the geofence check. Case addresses
+  // are geocoded once and the result is saved back onto the case.
+  useEffect(() => {
+    if (step !== "confirm" || !selectedAddress) {
+      setAddressLocation(null);
+      return;
+    }
+
+    const known = getAddressLocation(selectedAddress);
+    if (known) {
+      setAddressLocation(known);
+      return;
+    }
+
+    let cancelled = false;
+    const locate = async () => {
+      const isCaseAddress = !!selectedCase?.addresses.some(entry => entry.id === selectedAddress.id);
+      if (selectedCase && isCaseAddress) {
+        const addresses = await geocodeCaseAddresses(selectedCase.addresses);
+        const located = addresses.find(entry => entry.id === selectedAddress.id);
+        const location = located ? getAddressLocation(located) : undefined;
+        if (cancelled) return;
+        setAddressLocation(location || null);
+        if (location) {
+          setSelectedCase({ ...selectedCase, addresses });
+          try {
+            await appwrite.saveCaseAddresses(selectedCase.id, addresses);
+          } catch (error) {
+            toast({
+              title: "Address location not saved",
+              description: "The address was located but couldn't be kept on the case; it will be looked up again next time.",
+              variant: "warning",
+            });
+          }
+        }
+      } else {
+        const found = await geocodeAddress(selectedAddress.address);
+        if (!cancelled) setAddressLocation(found);
+      }
+    };
+    locate();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [step, selectedAddress, selectedCase, toast]);
+
   const handleClientChange = (clientId: string) => {
     const client = clients.find((c) => c.id === clientId);
     setSelectedClient(client || null);
@@ -265,12 +477,24 @@ const ServeAttempt: React.FC<ServeAttemptProps> = ({
     setAddressSearchOpen(false);
   };
 
-  const handleCameraCapture = (imageData: string, coords: GeolocationCoordinates) => {
-    setCapturedImage(imageData);
-    setLocation(coords);
+  const handlePartyChange = (partyId: string) => {
+    setSelectedParty(caseParties.find(p => p.id === partyId) || null);
+  };
+
+  const handleCameraCapture = (imageData: string, fix: GpsFix, takenAt: Date, originalImageData?: string) => {
+    const photo = createServePhoto(embedGpsIntoImage(imageData, fix, takenAt), fix, takenAt);
+    if (originalImageData) {
+      photo.originalImageData = embedGpsIntoImage(originalImageData, fix, takenAt);
+    }
+    setPhotos(prev => [...prev, photo]);
     setStep("confirm");
   };
 
+  const handlePhotosChange = (next: ServePhoto[]) => {
+    setPhotos(next);
+    if (next.length === 0) setStep("capture");
+  };
+
   const handleAddressClick = (address: string, e: React.MouseEvent) => {
     e.preventDefault();
     window.open(`https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(address)}`, '_blank', 'noopener,noreferrer');
@@ -278,7 +502,7 @@ const ServeAttempt: React.FC<ServeAttemptProps> = ({
   };
 
   const handleSubmit = async (data: ServeFormValues) => {
-    if (!capturedImage || !location || !selectedClient || !selectedCase) {
+    if (!coverPhoto || !selectedClient || !selectedCase) {
       console.error("Missing required information. Please try again.");
       toast({
         title: "Missing Information",
@@ -288,24 +512,54 @@ const ServeAttempt: React.FC<ServeAttemptProps> = ({
       return;
     }
 
+    const missingFields = getMissingDescriptionFields(recipientDescription, data.outcome);
+    if (missingFields.length > 0) {
+      toast({
+        title: "Recipient description required",
+        description: `Please fill in: ${missingFields.join(", ")}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (geofence?.flagged && !geofenceNote.trim()) {
+      toast({
+        title: "Override note required",
+        description: `This photo was taken ${describeGeofence(geofence)}. Explain why before saving.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsSending(true);
 
     try {
-      const imageWithGPS = embedGpsIntoImage(capturedImage, location);
-
+      const trail = getTrailSegment();
       const serveData: ServeAttemptData = {
         clientId: selectedClient.id,
         clientName: selectedClient.name,
         clientEmail: selectedClient.email || null,
         caseNumber: selectedCase.caseNumber,
         caseName: selectedCase.caseName || "Unknown Case",
-        imageData: imageWithGPS,
-        coordinates: `${location.latitude},${location.longitude}`,
-        address: selectedCase.homeAddress || selectedCase.workAddress || selectedClient.address || "No address available",
+        imageData: coverPhoto.imageData!,
+        photos,
+        coordinates: coverPhoto.coordinates!,
+        gpsFix: coverPhoto.fix,
+        geofence: geofence ? { ...geofence, overrideNote: geofence.flagged ? geofenceNote.trim() : undefined } : undefined,
+        address: selectedAddress?.address || selectedClient.address || "No address available",
+        addressId: selectedAddress?.id,
+        partyId: selectedParty?.id,
+        partyName: selectedParty?.name,
         notes: data.notes || "",
         timestamp: new Date(),
-        status: data.status,
+        status: getStatusForOutcome(data.outcome),
+        outcome: data.outcome,
+        recipientDescription: requiresRecipientDescription(data.outcome) ? recipientDescription : undefined,
         attemptNumber: caseAttemptCount + 1,
+        deviceInfo: getDeviceDescription(),
+        trail: trail?.points,
+        trailDistance: trail?.distance,
+        shiftId: trail?.shiftId,
       };
 
       console.log("Submitting serve attempt data to Appwrite:", serveData);
@@ -313,18 +567,41 @@ const ServeAttempt: React.FC<ServeAttemptProps> = ({
       // Save to the database
       const savedServe = await appwrite.createServeAttempt(serveData);
       console.log("Serve attempt saved successfully:", savedServe);
+      // Saved or queued, the attempt now carries this stretch of the trail
+      if (trail) commitTrailSegment(trail);
 
-      toast({
+      toast(savedServe.queued ? {
+        title: "Saved offline",
+        description: "No connection. The attempt is queued and will upload when you're back online.",
+      } : {
         title: "Serve recorded",
         description: "Service attempt has been saved successfully.",
         variant: "success",
       });
 
+      if (savedServe.caseUpdateFailed) {
+        toast({
+          title: "Case status not updated",
+          description: "The attempt was saved, but its case could not be moved along. Update the status from the case page.",
+          variant: "warning",
+        });
+      }
+
+      if (savedServe.custodyFailed) {
+        toast({
+          title: "Custody log not updated",
+          description: "The attempt was saved, but its chain-of-custody entry could not be written. Tell an admin before relying on its custody report.",
+          variant: "warning",
+        });
+      }
+
       form.reset();
-      setCapturedImage(null);
-      setLocation(null);
+      setRecipientDescription(EMPTY_RECIPIENT_DESCRIPTION);
+      setGeofenceNote("");
+      setPhotos([]);
       setSelectedClient(null);
       setSelectedCase(null);
+      setSelectedParty(null);
       setStep("select");
     } catch (error) {
       console.error("Error saving serve attempt:", error);
@@ -343,6 +620,12 @@ const ServeAttempt: React.FC<ServeAttemptProps> = ({
   };
 
   const isCaseSelected = !!form.watch("caseNumber");
+  const isPartySelected = caseParties.length === 0 || !!selectedParty;
+  const selectedOutcome = form.watch("outcome");
+  const coverPhoto = photos[0];
+  const [coverLatitude, coverLongitude] = (coverPhoto?.coordinates || "").split(",").map(Number);
+  const coverLocation = coverPhoto?.coordinates ? { latitude: coverLatitude, longitude: coverLongitude } : null;
+  const geofence = coverPhoto?.fix && addressLocation ? checkGeofence(coverPhoto.fix, addressLocation, geofenceRadius) : null;
 
   return (
     <div className="animate-slide-in w-full max-w-md mx-auto">
@@ -359,7 +642,20 @@ const ServeAttempt: React.FC<ServeAttemptProps> = ({
             <Form {...form}>
               <form className="space-y-4">
                 <div className="space-y-2 mb-4">
-                  <p className="text-sm font-medium">Search by address across all cases</p>
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm font-medium">
+                      {caseScope === "assigned" ? "Search my assigned cases" : "Search by address across all cases"}
+                    </p>
+                    <Button
+                      type="button"
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0 text-xs"
+                      onClick={() => setCaseScope(caseScope === "assigned" ? "all" : "assigned")}
+                    >
+                      {caseScope === "assigned" ? "Show all open cases" : "Show my queue"}
+                    </Button>
+                  </div>
                   <Popover open={addressSearchOpen} onOpenChange={setAddressSearchOpen}>
                     <PopoverTrigger asChild>
                       <Button
@@ -380,14 +676,14 @@ const ServeAttempt: React.FC<ServeAttemptProps> = ({
                           onValueChange={setAddressSearchTerm}
                         />
                         <CommandEmpty>
-                          {isLoadingCases ? "Loading cases..." : "No cases found."}
+                          {isLoadingCases ? "Loading cases..." : caseScope === "assigned" ? "No cases assigned to you." : "No cases found."}
                         </CommandEmpty>
                         <CommandList className="max-h-[300px]">
                           <CommandGroup heading="Cases">
                             {filteredCases.map((caseItem) => (
                               <CommandItem
                                 key={`${caseItem.clientId}-${caseItem.caseNumber}`}
-                                value={`${caseItem.caseNumber}-${caseItem.homeAddress}-${caseItem.workAddress}`}
+                                value={`${caseItem.caseNumber}-${caseItem.addresses.map(entry => entry.address).join("-")}`}
                                 onSelect={() => handleAddressSelect(caseItem)}
                               >
                                 <div className="flex flex-col w-full">
@@ -399,16 +695,11 @@ const ServeAttempt: React.FC<ServeAttemptProps> = ({
                                       Client: {caseItem.clientName}
                                     </span>
                                   )}
-                                  {caseItem.homeAddress && (
-                                    <span className="text-xs text-muted-foreground truncate">
-                                      Home: {caseItem.homeAddress}
+                                  {caseItem.addresses.map(entry => (
+                                    <span key={entry.id} className="text-xs text-muted-foreground truncate">
+                                      {getAddressLabel(entry.label)}: {entry.address}
                                     </span>
-                                  )}
-                                  {caseItem.workAddress && (
-                                    <span className="text-xs text-muted-foreground truncate">
-                                      Work: {caseItem.workAddress}
-                                    </span>
-                                  )}
+                                  ))}
                                 </div>
                               </CommandItem>
                             ))}
@@ -523,46 +814,73 @@ const ServeAttempt: React.FC<ServeAttemptProps> = ({
                       </div>
                     )}
 
-                    {selectedCase && (selectedCase.homeAddress || selectedCase.workAddress) && (
+                    {selectedCase && caseParties.length > 0 && (
+                      <div className="space-y-1">
+                        <p className="text-sm font-medium">Party</p>
+                        <Select value={selectedParty?.id || ""} onValueChange={handlePartyChange}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select who is being served" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {caseParties.map(party => (
+                              <SelectItem key={party.id} value={party.id}>
+                                {party.name} ({getPartyRoleLabel(party.role)})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+
+                    {selectedCase && addressOptions.length > 0 && (
                       <div className="space-y-2 p-3 rounded-md bg-accent/20">
-                        <p className="text-sm font-medium">{selectedCase.caseName || selectedCase.caseNumber}</p>
+                        <p className="text-sm font-medium">{selectedParty?.name || selectedCase.caseName || selectedCase.caseNumber}</p>
                         <p className="text-xs bg-primary/10 text-primary p-1 px-2 rounded-full inline-block">
                           Attempt #{caseAttemptCount + 1}
                         </p>
-                        {selectedCase.homeAddress && (
-                          <div className="space-y-1">
-                            <p className="text-xs font-medium">Home Address:</p>
-                            <a 
-                              href={getMapLink(selectedCase.homeAddress)}
-                              className="text-xs text-primary hover:underline flex items-center gap-1"
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              onClick={(e) => handleAddressClick(selectedCase.homeAddress!, e)}
-                            >
-                              <MapPin className="h-3 w-3" />
-                              {selectedCase.homeAddress}
-                              <ExternalLink className="h-3 w-3" />
-                            </a>
-                          </div>
-                        )}
-                        {selectedCase.workAddress && (
-                          <div className="space-y-1">
-                            <p className="text-xs font-medium">Work Address:</p>
+                        <p className="text-xs font-medium">Address attempted:</p>
+                        {addressOptions.map((entry) => (
+                          <div
+                            key={entry.id}
+                            role="button"
+                            tabIndex={0}
+                            onClick={() => setSelectedAddressId(entry.id)}
+                            onKeyDown={(e) => e.key === "Enter" && setSelectedAddressId(entry.id)}
+                            className={`rounded-md border p-2 space-y-1 cursor-pointer ${selectedAddress?.id === entry.id ? "border-primary bg-primary/5" : "border-transparent"}`}
+                          >
+                            <p className="text-xs font-medium flex items-center gap-2">
+                              {getAddressLabel(entry.label)}
+                              {entry.status !== "valid" && (
+                                <span className={`px-1.5 rounded-full ${getAddressStatusClass(entry.status)}`}>
+                                  {getAddressStatusLabel(entry.status)}
+                                </span>
+                              )}
+                            </p>
                             <a 
-                              href={getMapLink(selectedCase.workAddress)}
+                              href={getMapLink(entry.address)}
                               className="text-xs text-primary hover:underline flex items-center gap-1"
                               target="_blank"
                               rel="noopener noreferrer"
-                              onClick={(e) => handleAddressClick(selectedCase.workAddress!, e)}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleAddressClick(entry.address, e);
+                              }}
                             >
                               <MapPin className="h-3 w-3" />
-                              {selectedCase.workAddress}
+                              {entry.address}
                               <ExternalLink className="h-3 w-3" />
                             </a>
                           </div>
-                        )}
+                        ))}
                       </div>
                     )}
+
+                    {selectedClient && selectedCase && (
+                      <DueDiligenceSummary
+                        clientId={selectedClient.id}
+                        caseNumber={selectedCase.caseNumber}
+                      />
+                    )}
                   </>
                 )}
               </form>
@@ -572,7 +890,7 @@ const ServeAttempt: React.FC<ServeAttemptProps> = ({
             <Button 
               className="w-full"
               onClick={() => setStep("capture")}
-              disabled={!isCaseSelected}
+              disabled={!isCaseSelected || !isPartySelected}
             >
               <Camera className="w-4 h-4 mr-2" />
               Continue to Camera
@@ -587,21 +905,29 @@ const ServeAttempt: React.FC<ServeAttemptProps> = ({
             <h3 className="text-lg font-medium">Capture Photo</h3>
             <Button 
               variant="ghost"
-              onClick={() => setStep("select")}
+              onClick={() => setStep(photos.length > 0 ? "confirm" : "select")}
               size="sm"
             >
               Back
             </Button>
           </div>
           
-          <CameraComponent onCapture={handleCameraCapture} />
+          <CameraComponent
+            onCapture={handleCameraCapture}
+            photoNumber={photos.length + 1}
+            watermark={{
+              caseNumber: selectedCase?.caseNumber,
+              attemptNumber: caseAttemptCount + 1,
+              serverId: user?.$id,
+            }}
+          />
           <p className="text-sm text-muted-foreground text-center">
             The photo will automatically include GPS location data
           </p>
         </div>
       )}
 
-      {step === "confirm" && capturedImage && location && (
+      {step === "confirm" && coverPhoto && (
         <Card className="neo-card">
           <CardHeader>
             <CardTitle>Complete Serve Attempt</CardTitle>
@@ -620,6 +946,12 @@ const ServeAttempt: React.FC<ServeAttemptProps> = ({
                     {selectedCase && selectedCase.caseName && (
                       <>
                         <p className="text-xs text-muted-foreground">Case: {selectedCase.caseName}</p>
+                        {selectedParty && (
+                          <p className="text-xs text-muted-foreground">Party: {selectedParty.name}</p>
+                        )}
+                        {selectedAddress && (
+                          <p className="text-xs text-muted-foreground">Attempted at: {selectedAddress.address}</p>
+                        )}
                         <p className="text-xs bg-primary/10 text-primary mt-1 p-1 px-2 rounded-full inline-block">
                           Attempt #{caseAttemptCount + 1}
                         </p>
@@ -628,51 +960,87 @@ const ServeAttempt: React.FC<ServeAttemptProps> = ({
                   </div>
                 )}
 
-                <div className="rounded-md overflow-hidden mb-4 border">
-                  <img 
-                    src={capturedImage} 
-                    alt="Captured" 
-                    className="w-full aspect-[4/3] object-cover" 
-                  />
-                </div>
+                <ServePhotoReview
+                  photos={photos}
+                  onChange={handlePhotosChange}
+                  onAddPhoto={() => setStep("capture")}
+                  disabled={isSending}
+                />
                 
                 <div className="p-3 rounded-md bg-accent/50 text-xs space-y-1 mb-4">
                   <div className="font-medium">Location Data:</div>
                   <div className="text-muted-foreground">
-                    GPS: {formatCoordinates(location.latitude, location.longitude)}
-                  </div>
-                  <div className="text-muted-foreground">
-                    Accuracy: ±{Math.round(location.accuracy)}m
+                    GPS: {coverLocation ? formatCoordinates(coverLocation.latitude, coverLocation.longitude) : "Unavailable"}
                   </div>
+                  {coverPhoto.accuracy !== undefined && (
+                    <div className="text-muted-foreground flex items-center gap-1">
+                      Accuracy: <GpsAccuracy accuracy={coverPhoto.accuracy} fix={coverPhoto.fix} />
+                    </div>
+                  )}
+                  {coverPhoto.fix && (
+                    <div className="text-muted-foreground">
+                      {GPS_SOURCE_LABELS[coverPhoto.fix.source]}, fix {getFixAgeSeconds(coverPhoto.fix, coverPhoto.takenAt)}s before the photo
+                      {coverPhoto.fix.altitude !== null && `, altitude ${Math.round(coverPhoto.fix.altitude)} m`}
+                    </div>
+                  )}
+                  {isPoorAccuracy(coverPhoto.accuracy) && (
+                    <div className="text-amber-700 flex items-center gap-1">
+                      <AlertCircle className="h-3 w-3" />
+                      Accuracy is worse than {POOR_ACCURACY_METERS} m. Consider retaking the photo with a better fix.
+                    </div>
+                  )}
                 </div>
 
+                {geofence ? (
+                  <div className={`p-3 rounded-md text-xs space-y-2 mb-4 ${geofence.flagged ? "bg-amber-500/10 text-amber-800" : "bg-green-500/10 text-green-700"}`}>
+                    <div className="font-medium flex items-center gap-1">
+                      <MapPin className="h-3 w-3" />
+                      {describeGeofence(geofence)}
+                    </div>
+                    {geofence.flagged && (
+                      <Textarea
+                        value={geofenceNote}
+                        onChange={(e) => setGeofenceNote(e.target.value)}
+                        placeholder="Override note (required): why the photo was taken away from the address"
+                        rows={2}
+                        className="text-xs bg-background"
+                        disabled={isSending}
+                      />
+                    )}
+                  </div>
+                ) : selectedAddress && coverPhoto.fix && (
+                  <p className="text-xs text-muted-foreground mb-4">
+                    The address has not been located, so the distance from it was not checked.
+                  </p>
+                )}
+
                 <FormField
                   control={form.control}
-                  name="status"
+                  name="outcome"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Status</FormLabel>
+                      <FormLabel>Outcome</FormLabel>
                       <FormControl>
                         <Select 
                           onValueChange={field.onChange}
                           defaultValue={field.value}
                         >
                           <SelectTrigger>
-                            <SelectValue placeholder="Select status" />
+                            <SelectValue placeholder="Select outcome" />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="completed">
-                              <div className="flex items-center">
-                                <CheckCircle className="w-3.5 h-3.5 mr-2 text-green-500" />
-                                Successful Serve
-                              </div>
-                            </SelectItem>
-                            <SelectItem value="failed">
-                              <div className="flex items-center">
-                                <AlertCircle className="w-3.5 h-3.5 mr-2 text-amber-500" />
-                                Failed Attempt
-                              </div>
-                            </SelectItem>
+                            {SELECTABLE_OUTCOMES.map((outcome) => (
+                              <SelectItem key={outcome.value} value={outcome.value}>
+                                <div className="flex items-center">
+                                  {outcome.status === "completed" ? (
+                                    <CheckCircle className="w-3.5 h-3.5 mr-2 text-green-500" />
+                                  ) : (
+                                    <AlertCircle className="w-3.5 h-3.5 mr-2 text-amber-500" />
+                                  )}
+                                  {outcome.label}
+                                </div>
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                       </FormControl>
@@ -681,6 +1049,14 @@ const ServeAttempt: React.FC<ServeAttemptProps> = ({
                   )}
                 />
 
+                {requiresRecipientDescription(selectedOutcome) && (
+                  <RecipientDescriptionFields
+                    value={recipientDescription}
+                    onChange={setRecipientDescription}
+                    outcome={selectedOutcome}
+                  />
+                )}
+
                 <FormField
                   control={form.control}
                   name="notes"
@@ -700,15 +1076,6 @@ const ServeAttempt: React.FC<ServeAttemptProps> = ({
                 />
 
                 <div className="flex gap-2 pt-4">
-                  <Button 
-                    type="button" 
-                    variant="outline"
-                    onClick={() => setStep("capture")}
-                    className="flex-1"
-                    disabled={isSending}
-                  >
-                    Retake Photo
-                  </Button>
                   <Button 
                     type="submit" 
                     className="flex-1"
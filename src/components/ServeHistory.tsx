@@ -1,5 +1,5 @@
 
-import React from "react";
+import React, { useState } from "react";
 import { 
   Card, 
   CardContent, 
@@ -9,14 +9,27 @@ import {
   CardFooter
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { MapPin, Calendar, ClipboardList, Clock, Edit, Trash2 } from "lucide-react";
+import { MapPin, Calendar, ClipboardList, Clock, Edit, Trash2, UserCheck, FileText, CloudOff } from "lucide-react";
 import { ServeAttemptData } from "@/components/ServeAttempt";
+import AffidavitDialog from "@/components/AffidavitDialog";
+import { getOutcomeLabel, resolveOutcome } from "@/utils/serveOutcomes";
+import { hashCaptureData } from "@/utils/offlineQueue";
+import { getServeGallery } from "@/utils/servePhotos";
+import { readExifFromJpeg, verifyPhotoExif } from "@/utils/exif";
+import { appwrite } from "@/lib/appwrite";
+import { useAuth } from "@/hooks/use-auth";
+import GpsAccuracy from "@/components/GpsAccuracy";
+import { describeGeofence } from "@/utils/geofence";
+import { formatMiles } from "@/utils/format";
+import { getServeAsCaptured } from "@/utils/custody";
 
 interface ServeHistoryProps {
   serves: ServeAttemptData[];
   clients: any[];
   onDelete?: (id: string) => void;
   onEdit?: (serve: ServeAttemptData) => void;
+  canEdit?: (serve: ServeAttemptData) => boolean;
+  allowAffidavit?: boolean;
 }
 
 const formatDate = (date: string | Date | undefined): string => {
@@ -93,7 +106,53 @@ const formatCaseInfo = (caseNumber: string, caseName: string): string => {
   return caseNumber || "Unknown Case";
 };
 
-const ServeHistory: React.FC<ServeHistoryProps> = ({ serves, clients, onDelete, onEdit }) => {
+const ServeHistory: React.FC<ServeHistoryProps> = ({ serves, clients, onDelete, onEdit, canEdit, allowAffidavit }) => {
+  const [affidavitServe, setAffidavitServe] = useState<ServeAttemptData | null>(null);
+  const [hashChecks, setHashChecks] = useState<Record<string, boolean>>({});
+  const { can } = useAuth();
+  const canViewOriginals = can("photo:view-original");
+  const [exifChecks, setExifChecks] = useState<Record<string, string[]>>({});
+
+  // Reads each stored photo's EXIF and compares it with the position and time on the record
+  const handleCheckExif = async (serve: ServeAttemptData) => {
+    try {
+      const gallery = getServeGallery(serve);
+      const issues: string[] = [];
+      for (const [index, photo] of gallery.entries()) {
+        const imageData = photo.imageData || (photo.fileId ? await appwrite.getServeImageData(photo.fileId) : undefined);
+        if (!imageData) continue;
+        const result = verifyPhotoExif(readExifFromJpeg(imageData), {
+          coordinates: photo.coordinates || (typeof serve.coordinates === "string" ? serve.coordinates : null),
+          takenAt: photo.takenAt || serve.timestamp,
+        });
+        const label = gallery.length > 1 ? `Photo ${index + 1}: ` : "";
+        issues.push(...result.issues.map(issue => `${label}${issue}`));
+      }
+      setExifChecks(prev => ({ ...prev, [serve.id!]: issues }));
+    } catch (error) {
+      console.error("Error checking photo metadata:", error);
+    }
+  };
+
+  // Recomputes the capture hash from the stored record for attempts that were queued offline
+  const handleVerifyHash = async (serve: ServeAttemptData) => {
+    try {
+      const download = async (imageData?: string | null, fileId?: string) =>
+        imageData || (fileId ? await appwrite.getServeImageData(fileId) : undefined);
+      const photos = await Promise.all((serve.photos || []).map(async photo => ({
+        ...photo,
+        imageData: await download(photo.imageData, photo.fileId),
+      })));
+      const imageData = await download(serve.imageData, serve.imageFileId);
+      // Edits made after upload are legitimate, so compare the fields as captured
+      const captured = getServeAsCaptured(serve, await appwrite.getServeCustodyLog(serve.id!));
+      const hash = await hashCaptureData({ ...captured, imageData, photos });
+      setHashChecks(prev => ({ ...prev, [serve.id!]: hash === serve.captureHash }));
+    } catch (error) {
+      console.error("Error verifying capture hash:", error);
+    }
+  };
+
   console.log("ServeHistory component received serves:", serves);
   console.log("ServeHistory component received clients:", clients);
 
@@ -107,151 +166,312 @@ const ServeHistory: React.FC<ServeHistoryProps> = ({ serves, clients, onDelete,
   }
 
   return (
-    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-      {serves.map((serve) => {
-        // Make sure we have a valid serve object with an id
-        if (!serve || !serve.id) {
-          console.warn("Invalid serve attempt in list:", serve);
-          return null;
-        }
+    <>
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+        {serves.map((serve) => {
+          // Make sure we have a valid serve object with an id
+          if (!serve || !serve.id) {
+            console.warn("Invalid serve attempt in list:", serve);
+            return null;
+          }
         
-        // Get client name - first use directly from serve object, fall back to lookup by id
-        const clientName = serve.clientName && serve.clientName !== "Unknown Client" 
-          ? serve.clientName 
-          : getClientName(serve.clientId, clients);
+          // Get client name - first use directly from serve object, fall back to lookup by id
+          const clientName = serve.clientName && serve.clientName !== "Unknown Client" 
+            ? serve.clientName 
+            : getClientName(serve.clientId, clients);
         
-        const googleMapsLink = getGoogleMapsLink(serve.coordinates);
+          const googleMapsLink = getGoogleMapsLink(serve.coordinates);
         
-        // Debug information
-        console.log(`Rendering serve ${serve.id}:`, {
-          clientName,
-          clientId: serve.clientId,
-          caseName: serve.caseName,
-          caseNumber: serve.caseNumber,
-          coordinates: serve.coordinates,
-          formattedCoordinates: formatCoordinates(serve.coordinates),
-          googleMapsLink,
-          status: serve.status,
-          timestamp: serve.timestamp,
-          formattedDate: formatDate(serve.timestamp)
-        });
+          // Debug information
+          console.log(`Rendering serve ${serve.id}:`, {
+            clientName,
+            clientId: serve.clientId,
+            caseName: serve.caseName,
+            caseNumber: serve.caseNumber,
+            coordinates: serve.coordinates,
+            formattedCoordinates: formatCoordinates(serve.coordinates),
+            googleMapsLink,
+            status: serve.status,
+            timestamp: serve.timestamp,
+            formattedDate: formatDate(serve.timestamp)
+          });
 
-        // Get formatted case display
-        const caseDisplay = formatCaseInfo(serve.caseNumber || "Unknown", serve.caseName || "");
+          // Get formatted case display
+          const caseDisplay = formatCaseInfo(serve.caseNumber || "Unknown", serve.caseName || "");
+          const gallery = getServeGallery(serve);
+          const [cover, ...morePhotos] = gallery;
 
-        return (
-          <Card key={serve.id} className="overflow-hidden">
-            <CardHeader className="pb-2">
-              <CardTitle className="flex justify-between items-center">
-                <span>{clientName}</span>
-                <span className={`text-xs px-2 py-1 rounded-full ${
-                  serve.status === 'completed' ? 'bg-green-100 text-green-700' : 
-                  serve.status === 'failed' ? 'bg-amber-100 text-amber-700' : 
-                  'bg-gray-100 text-gray-700'
-                }`}>
-                  {serve.status === 'completed' ? 'Successful' : 
-                   serve.status === 'failed' ? 'Failed' : 
-                   'Unknown'}
-                </span>
-              </CardTitle>
-              <CardDescription>
-                <span className="flex items-center gap-1">
-                  <ClipboardList className="h-3.5 w-3.5" />
-                  <span>Case: {caseDisplay}</span>
-                </span>
-              </CardDescription>
-            </CardHeader>
+          return (
+            <Card key={serve.id} className="overflow-hidden">
+              <CardHeader className="pb-2">
+                <CardTitle className="flex justify-between items-center">
+                  <span>{clientName}</span>
+                  <span className={`text-xs px-2 py-1 rounded-full ${
+                    serve.status === 'completed' ? 'bg-green-100 text-green-700' : 
+                    serve.status === 'failed' ? 'bg-amber-100 text-amber-700' : 
+                    'bg-gray-100 text-gray-700'
+                  }`}>
+                    {getOutcomeLabel(resolveOutcome(serve))}
+                  </span>
+                </CardTitle>
+                <CardDescription>
+                  <span className="flex items-center gap-1">
+                    <ClipboardList className="h-3.5 w-3.5" />
+                    <span>Case: {caseDisplay}</span>
+                  </span>
+                  {serve.partyName && (
+                    <span className="block text-xs mt-0.5">Party: {serve.partyName}</span>
+                  )}
+                </CardDescription>
+              </CardHeader>
             
-            <CardContent className="pb-2">
-              <div className="space-y-2">
-                {serve.imageData && (
-                  <div className="rounded-md overflow-hidden mb-3 border h-36">
-                    <img 
-                      src={serve.imageData} 
-                      alt="Serve attempt" 
-                      className="w-full h-full object-cover" 
-                      onError={(e) => {
-                        console.error("Image failed to load:", e);
-                        e.currentTarget.src = "https://placehold.co/400x300?text=No+Image";
-                      }}
-                    />
-                  </div>
-                )}
-                
-                <div className="grid grid-cols-2 gap-2 text-xs">
-                  <div className="space-y-1">
-                    <p className="font-medium flex items-center gap-1">
-                      <Calendar className="h-3.5 w-3.5" />
-                      Date
-                    </p>
-                    <p className="text-muted-foreground">{formatDate(serve.timestamp)}</p>
-                  </div>
-                  
-                  <div className="space-y-1">
-                    <p className="font-medium flex items-center gap-1">
-                      <MapPin className="h-3.5 w-3.5" />
-                      Location
-                    </p>
-                    {googleMapsLink ? (
+              <CardContent className="pb-2">
+                <div className="space-y-2">
+                  {cover && (
+                    <div className="mb-3 space-y-1">
                       <a
-                        href={googleMapsLink}
+                        href={cover.url || cover.imageData}
                         target="_blank"
                         rel="noopener noreferrer"
-                        className="text-primary hover:underline"
+                        className="block rounded-md overflow-hidden border h-36 bg-muted"
                       >
-                        {formatCoordinates(serve.coordinates)}
+                        <img 
+                          src={cover.thumbnailUrl || cover.imageData} 
+                          alt={cover.caption || "Serve attempt"} 
+                          loading="lazy"
+                          className="w-full h-full object-cover" 
+                          onError={(e) => {
+                            console.error("Image failed to load:", e);
+                            e.currentTarget.src = "https://placehold.co/400x300?text=No+Image";
+                          }}
+                        />
                       </a>
-                    ) : (
-                      <p className="text-muted-foreground truncate">{formatCoordinates(serve.coordinates)}</p>
-                    )}
-                  </div>
-                </div>
+                      {cover.caption && (
+                        <p className="text-xs text-muted-foreground">{cover.caption}</p>
+                      )}
+                      {morePhotos.length > 0 && (
+                        <div className="flex gap-1 overflow-x-auto">
+                          {morePhotos.map((photo, index) => (
+                            <a
+                              key={photo.id}
+                              href={photo.url || photo.imageData}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              title={photo.caption || `Photo ${index + 2}`}
+                              className="block h-14 w-14 shrink-0 rounded overflow-hidden border bg-muted"
+                            >
+                              <img
+                                src={photo.thumbnailUrl || photo.imageData}
+                                alt={photo.caption || `Photo ${index + 2}`}
+                                loading="lazy"
+                                className="w-full h-full object-cover"
+                              />
+                            </a>
+                          ))}
+                        </div>
+                      )}
+                      {canViewOriginals && gallery.some(photo => photo.originalUrl) && (
+                        <p className="text-xs text-muted-foreground flex flex-wrap gap-x-2">
+                          <span>Unmarked originals:</span>
+                          {gallery.map((photo, index) => photo.originalUrl && (
+                            <a
+                              key={photo.id}
+                              href={photo.originalUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-primary hover:underline"
+                            >
+                              {photo.caption || `Photo ${index + 1}`}
+                            </a>
+                          ))}
+                        </p>
+                      )}
+                      {serve.id && (
+                        exifChecks[serve.id] === undefined ? (
+                          <button
+                            type="button"
+                            className="text-xs text-primary hover:underline"
+                            onClick={() => handleCheckExif(serve)}
+                          >
+                            Check photo metadata
+                          </button>
+                        ) : exifChecks[serve.id].length === 0 ? (
+                          <p className="text-xs text-green-700">Photo metadata matches the record</p>
+                        ) : (
+                          <ul className="text-xs text-destructive">
+                            {exifChecks[serve.id].map(issue => <li key={issue}>{issue}</li>)}
+                          </ul>
+                        )
+                      )}
+                    </div>
+                  )}
                 
-                {serve.notes && (
-                  <div className="space-y-1 text-xs pt-2">
-                    <p className="font-medium">Notes</p>
-                    <p className="text-muted-foreground whitespace-pre-wrap">{serve.notes}</p>
+                  <div className="grid grid-cols-2 gap-2 text-xs">
+                    <div className="space-y-1">
+                      <p className="font-medium flex items-center gap-1">
+                        <Calendar className="h-3.5 w-3.5" />
+                        Date
+                      </p>
+                      <p className="text-muted-foreground">{formatDate(serve.timestamp)}</p>
+                    </div>
+                  
+                    <div className="space-y-1">
+                      <p className="font-medium flex items-center gap-1">
+                        <MapPin className="h-3.5 w-3.5" />
+                        Location
+                      </p>
+                      {googleMapsLink ? (
+                        <a
+                          href={googleMapsLink}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-primary hover:underline"
+                        >
+                          {formatCoordinates(serve.coordinates)}
+                        </a>
+                      ) : (
+                        <p className="text-muted-foreground truncate">{formatCoordinates(serve.coordinates)}</p>
+                      )}
+                      {serve.gpsFix && <GpsAccuracy fix={serve.gpsFix} />}
+                      {serve.gpsAddress && serve.gpsAddress !== serve.address && (
+                        <p className="text-xs text-muted-foreground">Resolves to {serve.gpsAddress}</p>
+                      )}
+                      {serve.trailDistance !== undefined && (
+                        <p className="text-xs text-muted-foreground">
+                          Driven since previous attempt: {formatMiles(serve.trailDistance)}
+                        </p>
+                      )}
+                    </div>
                   </div>
-                )}
-              </div>
-            </CardContent>
-            
-            <CardFooter className="pt-2">
-              <div className="flex w-full justify-between items-center">
-                <div className="text-xs text-muted-foreground flex items-center gap-1">
-                  <Clock className="h-3.5 w-3.5" />
-                  <span>{formatDate(serve.timestamp)}</span>
-                </div>
+
+                  {serve.geofence && (
+                    serve.geofence.flagged ? (
+                      <div className="text-xs rounded-md p-2 bg-amber-500/10 text-amber-800 space-y-0.5">
+                        <p className="font-medium flex items-center gap-1">
+                          <MapPin className="h-3.5 w-3.5" />
+                          {describeGeofence(serve.geofence)}
+                        </p>
+                        {serve.geofence.overrideNote && <p>Override: {serve.geofence.overrideNote}</p>}
+                      </div>
+                    ) : (
+                      <p className="text-xs text-green-700">{describeGeofence(serve.geofence)}</p>
+                    )
+                  )}
                 
-                <div className="flex gap-2">
-                  {onEdit && (
-                    <Button 
-                      variant="ghost" 
-                      size="sm" 
-                      className="h-8 w-8 p-0"
-                      onClick={() => onEdit(serve)}
-                    >
-                      <Edit className="h-4 w-4" />
-                    </Button>
+                  {serve.serverName && (
+                    <div className="space-y-1 text-xs pt-2">
+                      <p className="font-medium flex items-center gap-1">
+                        <UserCheck className="h-3.5 w-3.5" />
+                        Server
+                      </p>
+                      <p className="text-muted-foreground">
+                        {serve.serverName}
+                        {serve.deviceInfo && <span className="block truncate">{serve.deviceInfo}</span>}
+                      </p>
+                    </div>
                   )}
-                  
-                  {onDelete && (
-                    <Button 
-                      variant="ghost" 
-                      size="sm" 
-                      className="h-8 w-8 p-0 hover:text-destructive"
-                      onClick={() => onDelete(serve.id)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                
+                  {serve.notes && (
+                    <div className="space-y-1 text-xs pt-2">
+                      <p className="font-medium">Notes</p>
+                      <p className="text-muted-foreground whitespace-pre-wrap">{serve.notes}</p>
+                    </div>
+                  )}
+
+                  {serve.queuedAt && (
+                    <div className="space-y-1 text-xs pt-2">
+                      <p className="font-medium flex items-center gap-1">
+                        <CloudOff className="h-3.5 w-3.5" />
+                        Recorded offline
+                      </p>
+                      <p className="text-muted-foreground">
+                        Queued {formatDate(serve.queuedAt)}, uploaded later
+                      </p>
+                      {serve.captureHash && (
+                        <p className="text-muted-foreground font-mono truncate" title={serve.captureHash}>
+                          SHA-256 {serve.captureHash.slice(0, 16)}…
+                        </p>
+                      )}
+                      {serve.captureHash && (serve.imageData || serve.imageFileId) && serve.id && (
+                        hashChecks[serve.id] === undefined ? (
+                          <button
+                            type="button"
+                            className="text-primary hover:underline"
+                            onClick={() => handleVerifyHash(serve)}
+                          >
+                            Verify record
+                          </button>
+                        ) : (
+                          <p className={hashChecks[serve.id] ? "text-green-700" : "text-destructive"}>
+                            {hashChecks[serve.id] ? "Matches what was captured" : "Does not match the capture hash"}
+                          </p>
+                        )
+                      )}
+                    </div>
                   )}
                 </div>
-              </div>
-            </CardFooter>
-          </Card>
-        );
-      })}
-    </div>
+              </CardContent>
+            
+              <CardFooter className="pt-2">
+                <div className="flex w-full justify-between items-center">
+                  <div className="text-xs text-muted-foreground flex items-center gap-1">
+                    <Clock className="h-3.5 w-3.5" />
+                    <span>{formatDate(serve.timestamp)}</span>
+                  </div>
+                
+                  <div className="flex gap-2">
+                    {allowAffidavit && serve.status === "completed" && (
+                      <Button 
+                        variant="ghost" 
+                        size="sm" 
+                        className="h-8 w-8 p-0"
+                        title="Generate Affidavit"
+                        onClick={() => setAffidavitServe(serve)}
+                      >
+                        <FileText className="h-4 w-4" />
+                      </Button>
+                    )}
+                  
+                    {onEdit && (!canEdit || canEdit(serve)) && (
+                      <Button 
+                        variant="ghost" 
+                        size="sm" 
+                        className="h-8 w-8 p-0"
+                        onClick={() => onEdit(serve)}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    )}
+                  
+                    {onDelete && (
+                      <Button 
+                        variant="ghost" 
+                        size="sm" 
+                        className="h-8 w-8 p-0 hover:text-destructive"
+                        onClick={() => onDelete(serve.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardFooter>
+            </Card>
+          );
+        })}
+      </div>
+    
+      {affidavitServe && (
+        <AffidavitDialog
+          open={!!affidavitServe}
+          onOpenChange={(open) => !open && setAffidavitServe(null)}
+          clientId={affidavitServe.clientId}
+          caseNumber={affidavitServe.caseNumber}
+          caseName={affidavitServe.caseName}
+          serve={affidavitServe}
+        />
+      )}
+    </>
   );
 };
 
@@ -0,0 +1,314 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Minus, Plus, Maximize2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { MAP_CONFIG } from "@/config/backendConfig";
+import { GeoPoint } from "@/utils/geocoding";
+import {
+  MapView,
+  PixelPoint,
+  TILE_SIZE,
+  clampZoom,
+  clusterPoints,
+  fitPoints,
+  getTileUrl,
+  projectPoint,
+  unprojectPoint,
+} from "@/utils/mapTiles";
+
+export interface MapMarker extends GeoPoint {
+  id: string;
+  color: string;
+  label: string;
+  // Squares mark places (case addresses), circles mark events (attempts)
+  shape?: "circle" | "square";
+  // Short text drawn inside the marker, e.g. a stop number
+  text?: string;
+}
+
+export interface MapPath {
+  id: string;
+  points: GeoPoint[];
+  color: string;
+  dashed?: boolean;
+}
+
+interface ServeMapProps {
+  markers: MapMarker[];
+  paths?: MapPath[];
+  // Off when every marker must stay visible on its own, e.g. numbered stops
+  cluster?: boolean;
+  selectedIds?: string[];
+  // Called with one marker, or every marker in a cluster that can't be split further
+  onSelect?: (markers: MapMarker[]) => void;
+  className?: string;
+}
+
+// Continental US, shown until there is something to fit
+const DEFAULT_VIEW: MapView = { center: { latitude: 39.5, longitude: -98.35 }, zoom: 4 };
+
+// Pointer travel (px) before a press counts as a drag rather than a click
+const DRAG_THRESHOLD = 4;
+
+interface DragState {
+  startX: number;
+  startY: number;
+  origin: PixelPoint;
+}
+
+/**
+ * Keeps the point under the anchor (px from the top left) still while zooming
+ */
+const zoomAround = (view: MapView, zoom: number, anchor: PixelPoint, width: number, height: number): MapView => {
+  const nextZoom = clampZoom(zoom);
+  if (nextZoom === view.zoom) return view;
+  const offset = { x: anchor.x - width / 2, y: anchor.y - height / 2 };
+  const center = projectPoint(view.center, view.zoom);
+  const anchorPoint = unprojectPoint({ x: center.x + offset.x, y: center.y + offset.y }, view.zoom);
+  const anchorPixel = projectPoint(anchorPoint, nextZoom);
+  return {
+    zoom: nextZoom,
+    center: unprojectPoint({ x: anchorPixel.x - offset.x, y: anchorPixel.y - offset.y }, nextZoom),
+  };
+};
+
+/**
+ * Tile map with clustered markers. Drag to pan; zoom with the wheel,
+ * double-click or the buttons.
+ */
+const ServeMap: React.FC<ServeMapProps> = ({ markers, paths = [], cluster: clusterMarkers = true, selectedIds = [], onSelect, className }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const draggedRef = useRef(false);
+  const wheelAtRef = useRef(0);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [view, setView] = useState<MapView>(DEFAULT_VIEW);
+  const [fittedKey, setFittedKey] = useState("");
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // The wheel listener has to be non-passive to stop the page scrolling
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const now = Date.now();
+      if (Math.abs(event.deltaY) < 4 || now - wheelAtRef.current < 250) return;
+      wheelAtRef.current = now;
+      const rect = element.getBoundingClientRect();
+      const anchor = { x: event.clientX - rect.left, y: event.clientY - rect.top };
+      setView(current => zoomAround(current, current.zoom + (event.deltaY < 0 ? 1 : -1), anchor, rect.width, rect.height));
+    };
+    element.addEventListener("wheel", handleWheel, { passive: false });
+    return () => element.removeEventListener("wheel", handleWheel);
+  }, []);
+
+  // Refit whenever the set of markers changes, e.g. after a filter
+  const markerKey = markers.map(marker => marker.id).join(",");
+  useEffect(() => {
+    if (!size.width || fittedKey === markerKey) return;
+    const fit = fitPoints(markers, size.width, size.height);
+    if (fit) setView(fit);
+    setFittedKey(markerKey);
+  }, [markers, markerKey, fittedKey, size.width, size.height]);
+
+  const fitAll = () => {
+    const fit = fitPoints(markers, size.width, size.height);
+    if (fit) setView(fit);
+  };
+
+  const zoomBy = (delta: number) => {
+    setView(current => zoomAround(current, current.zoom + delta, { x: size.width / 2, y: size.height / 2 }, size.width, size.height));
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return;
+    draggedRef.current = false;
+    dragRef.current = { startX: event.clientX, startY: event.clientY, origin: projectPoint(view.center, view.zoom) };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = event.clientX - drag.startX;
+    const dy = event.clientY - drag.startY;
+    if (!draggedRef.current) {
+      if (Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+      // Only capture once it's a drag, so a plain click still reaches the marker
+      draggedRef.current = true;
+      event.currentTarget.setPointerCapture(event.pointerId);
+    }
+    setView(current => ({
+      zoom: current.zoom,
+      center: unprojectPoint({ x: drag.origin.x - dx, y: drag.origin.y - dy }, current.zoom),
+    }));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleDoubleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const anchor = { x: event.clientX - rect.left, y: event.clientY - rect.top };
+    setView(current => zoomAround(current, current.zoom + 1, anchor, rect.width, rect.height));
+  };
+
+  const handleClusterClick = (items: MapMarker[]) => {
+    if (draggedRef.current) return;
+    if (items.length > 1) {
+      const fit = fitPoints(items, size.width, size.height);
+      if (fit && fit.zoom > view.zoom) {
+        setView(fit);
+        return;
+      }
+    }
+    onSelect?.(items);
+  };
+
+  const centerPixel = projectPoint(view.center, view.zoom);
+  const origin = { x: centerPixel.x - size.width / 2, y: centerPixel.y - size.height / 2 };
+  const tileCount = 2 ** view.zoom;
+
+  const tiles: { key: string; url: string; left: number; top: number }[] = [];
+  if (size.width > 0) {
+    for (let ty = Math.floor(origin.y / TILE_SIZE); ty <= Math.floor((origin.y + size.height) / TILE_SIZE); ty++) {
+      if (ty < 0 || ty >= tileCount) continue;
+      for (let tx = Math.floor(origin.x / TILE_SIZE); tx <= Math.floor((origin.x + size.width) / TILE_SIZE); tx++) {
+        const wrappedX = ((tx % tileCount) + tileCount) % tileCount;
+        tiles.push({
+          key: `${view.zoom}/${tx}/${ty}`,
+          url: getTileUrl(wrappedX, ty, view.zoom),
+          left: tx * TILE_SIZE - origin.x,
+          top: ty * TILE_SIZE - origin.y,
+        });
+      }
+    }
+  }
+
+  const groups = clusterMarkers
+    ? clusterPoints(markers, view.zoom)
+    : markers.map(marker => ({ key: marker.id, items: [marker], latitude: marker.latitude, longitude: marker.longitude }));
+  const clusters = groups
+    .map(cluster => {
+      const pixel = projectPoint(cluster, view.zoom);
+      return { ...cluster, left: pixel.x - origin.x, top: pixel.y - origin.y };
+    })
+    .filter(cluster =>
+      cluster.left > -40 && cluster.top > -40 && cluster.left < size.width + 40 && cluster.top < size.height + 40
+    );
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative overflow-hidden rounded-md border bg-muted select-none touch-none cursor-grab active:cursor-grabbing ${className || ""}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={handleDoubleClick}
+    >
+      {tiles.map(tile => (
+        <img
+          key={tile.key}
+          src={tile.url}
+          alt=""
+          draggable={false}
+          className="absolute max-w-none pointer-events-none"
+          style={{ left: tile.left, top: tile.top, width: TILE_SIZE, height: TILE_SIZE }}
+        />
+      ))}
+
+      {paths.length > 0 && size.width > 0 && (
+        <svg className="absolute inset-0 pointer-events-none" width={size.width} height={size.height}>
+          {paths.map(path => (
+            <polyline
+              key={path.id}
+              points={path.points
+                .map(point => projectPoint(point, view.zoom))
+                .map(pixel => `${pixel.x - origin.x},${pixel.y - origin.y}`)
+                .join(" ")}
+              fill="none"
+              stroke={path.color}
+              strokeWidth={3}
+              strokeOpacity={0.8}
+              strokeLinejoin="round"
+              strokeLinecap="round"
+              strokeDasharray={path.dashed ? "6 6" : undefined}
+            />
+          ))}
+        </svg>
+      )}
+
+      {clusters.map(cluster => {
+        const [first] = cluster.items;
+        const isSelected = cluster.items.some(item => selectedIds.includes(item.id));
+        const sameColor = cluster.items.every(item => item.color === first.color);
+
+        if (cluster.items.length === 1) {
+          return (
+            <button
+              key={cluster.key}
+              type="button"
+              title={first.label}
+              className={`absolute flex -translate-x-1/2 -translate-y-1/2 items-center justify-center border-2 border-white text-[10px] font-semibold text-white shadow ${
+                first.text ? "h-6 w-6" : "h-4 w-4"
+              } ${first.shape === "square" ? "rounded-sm" : "rounded-full"} ${isSelected ? "ring-2 ring-primary ring-offset-1" : ""}`}
+              style={{ left: cluster.left, top: cluster.top, backgroundColor: first.color }}
+              onClick={() => handleClusterClick(cluster.items)}
+            >
+              {first.text}
+            </button>
+          );
+        }
+
+        return (
+          <button
+            key={cluster.key}
+            type="button"
+            title={`${cluster.items.length} items`}
+            className={`absolute flex h-8 w-8 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full border-2 border-white text-xs font-semibold text-white shadow ${
+              isSelected ? "ring-2 ring-primary ring-offset-1" : ""
+            }`}
+            style={{ left: cluster.left, top: cluster.top, backgroundColor: sameColor ? first.color : "#475569" }}
+            onClick={() => handleClusterClick(cluster.items)}
+          >
+            {cluster.items.length}
+          </button>
+        );
+      })}
+
+      <div
+        className="absolute right-2 top-2 flex flex-col gap-1"
+        onPointerDown={(event) => event.stopPropagation()}
+        onDoubleClick={(event) => event.stopPropagation()}
+      >
+        <Button variant="secondary" size="icon" className="h-8 w-8 shadow" onClick={() => zoomBy(1)} title="Zoom in">
+          <Plus className="h-4 w-4" />
+        </Button>
+        <Button variant="secondary" size="icon" className="h-8 w-8 shadow" onClick={() => zoomBy(-1)} title="Zoom out">
+          <Minus className="h-4 w-4" />
+        </Button>
+        <Button variant="secondary" size="icon" className="h-8 w-8 shadow" onClick={fitAll} title="Show everything">
+          <Maximize2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {MAP_CONFIG.attribution && (
+        <div className="absolute bottom-0 right-0 bg-background/80 px-1 text-[10px] text-muted-foreground pointer-events-none">
+          {MAP_CONFIG.attribution}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ServeMap;
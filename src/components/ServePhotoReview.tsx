@@ -0,0 +1,105 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ArrowDown, ArrowUp, Camera, Clock, MapPin, Trash2 } from "lucide-react";
+import { PHOTO_CAPTION_SUGGESTIONS, ServePhoto, movePhoto } from "@/utils/servePhotos";
+import GpsAccuracy from "@/components/GpsAccuracy";
+
+interface ServePhotoReviewProps {
+  photos: ServePhoto[];
+  onChange: (photos: ServePhoto[]) => void;
+  onAddPhoto: () => void;
+  disabled?: boolean;
+}
+
+const CAPTION_LIST_ID = "serve-photo-captions";
+
+const ServePhotoReview: React.FC<ServePhotoReviewProps> = ({ photos, onChange, onAddPhoto, disabled }) => {
+  const updateCaption = (id: string, caption: string) => {
+    onChange(photos.map(photo => photo.id === id ? { ...photo, caption } : photo));
+  };
+
+  return (
+    <div className="space-y-3">
+      <datalist id={CAPTION_LIST_ID}>
+        {PHOTO_CAPTION_SUGGESTIONS.map(suggestion => (
+          <option key={suggestion} value={suggestion} />
+        ))}
+      </datalist>
+
+      {photos.map((photo, index) => (
+        <div key={photo.id} className="flex gap-3 rounded-md border p-2">
+          <div className="relative w-24 h-24 shrink-0 rounded overflow-hidden bg-muted">
+            <img src={photo.imageData} alt={photo.caption || `Photo ${index + 1}`} className="w-full h-full object-cover" />
+            {index === 0 && (
+              <span className="absolute top-1 left-1 text-[10px] px-1.5 rounded bg-black/50 text-white">Cover</span>
+            )}
+          </div>
+          <div className="flex-1 min-w-0 space-y-1">
+            <Input
+              value={photo.caption}
+              onChange={(e) => updateCaption(photo.id, e.target.value)}
+              placeholder="Caption, e.g. Front door"
+              list={CAPTION_LIST_ID}
+              className="h-8 text-xs"
+              disabled={disabled}
+            />
+            <p className="text-[11px] text-muted-foreground flex items-center gap-1">
+              <Clock className="h-3 w-3" />
+              {new Date(photo.takenAt).toLocaleTimeString()}
+            </p>
+            {photo.coordinates && (
+              <p className="text-[11px] text-muted-foreground flex items-center gap-1 truncate">
+                <MapPin className="h-3 w-3" />
+                <span className="truncate">{photo.coordinates}</span>
+                <GpsAccuracy accuracy={photo.accuracy} fix={photo.fix} />
+              </p>
+            )}
+            <div className="flex gap-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                disabled={disabled || index === 0}
+                onClick={() => onChange(movePhoto(photos, index, -1))}
+                title="Move up"
+              >
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                disabled={disabled || index === photos.length - 1}
+                onClick={() => onChange(movePhoto(photos, index, 1))}
+                title="Move down"
+              >
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 hover:text-destructive"
+                disabled={disabled}
+                onClick={() => onChange(photos.filter(p => p.id !== photo.id))}
+                title="Remove photo"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" className="w-full" onClick={onAddPhoto} disabled={disabled}>
+        <Camera className="w-4 h-4 mr-2" />
+        Add Another Photo
+      </Button>
+    </div>
+  );
+};
+
+export default ServePhotoReview;
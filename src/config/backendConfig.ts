@@ -19,10 +19,40 @@ export const APPWRITE_CONFIG = {
     clientCases: '67eae98f0017c9503bee',
     serveAttempts: '684c14fb002f6275b932',
     clientDocuments: '67eaeaa900128f318514',
+    caseParties: 'case_parties',
+    caseStatusLog: 'case_status_log',
+    custodyLog: 'custody_log',
+    dutyShifts: 'duty_shifts',
   },
   storageBucket: import.meta.env.VITE_APPWRITE_STORAGE_BUCKET_ID || '67eaeb7700322d74597e',
+  // Team that every staff account belongs to; invitations are sent through it
+  teamId: import.meta.env.VITE_APPWRITE_TEAM_ID || 'serve-tracker-staff',
+  functions: {
+    // Automatic case updates servers can't make directly (functions/caseUpdates)
+    caseUpdates: import.meta.env.VITE_APPWRITE_CASE_UPDATES_FUNCTION_ID || 'caseUpdates',
+  },
+};
+
+// Geocoding service for case addresses and attempt locations.
+// provider: 'nominatim' (HTTP, cached locally), 'local' (cache and pins only) or 'static' (test fixtures)
+export const GEOCODING_CONFIG = {
+  provider: import.meta.env.VITE_GEOCODING_PROVIDER || 'nominatim',
+  nominatimUrl: import.meta.env.VITE_NOMINATIM_URL || 'https://nominatim.openstreetmap.org',
+  email: import.meta.env.VITE_NOMINATIM_EMAIL || '',
 };
 
+// Map tiles for the in-app map. tileUrl takes {z}/{x}/{y} and an optional {s}
+// subdomain, so it can point at a self-hosted tile server
+export const MAP_CONFIG = {
+  tileUrl: import.meta.env.VITE_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+  subdomains: import.meta.env.VITE_MAP_TILE_SUBDOMAINS || 'abc',
+  attribution: import.meta.env.VITE_MAP_ATTRIBUTION || '© OpenStreetMap contributors',
+  maxZoom: Number(import.meta.env.VITE_MAP_MAX_ZOOM) || 19,
+};
+
+// How often the signed-in session is re-verified against Appwrite (ms)
+export const SESSION_CHECK_INTERVAL = 5 * 60 * 1000;
+
 // Empty Supabase config for backward compatibility
 export const SUPABASE_CONFIG = {
   url: "",
@@ -0,0 +1,24 @@
+import { createContext, useContext } from "react";
+import { Models } from "appwrite";
+import { UserRole, PermissionAction } from "@/utils/permissions";
+
+export interface AuthContextValue {
+  user: Models.User<Models.Preferences> | null;
+  role: UserRole | null;
+  isLoading: boolean;
+  can: (action: PermissionAction) => boolean;
+  login: (email: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+// Provided by AuthProvider
+export const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
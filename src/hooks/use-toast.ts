@@ -35,32 +35,34 @@ toastFn.info = (title?: string, options?: any) => sonnerToast.info(title, option
 // Export as toast
 export const toast = toastFn;
 
-// Create useToast hook for compatibility with existing code
-export const useToast = () => {
-  return {
-    toast: (props?: CustomToastProps) => {
-      if (props) {
-        const { title, description, variant } = props;
-        if (variant === "destructive") {
-          return sonnerToast.error(title, { description });
-        } else if (variant === "success") {
-          return sonnerToast.success(title, { description });
-        } else if (variant === "warning") {
-          return sonnerToast.warning(title, { description });
-        } else if (variant === "info") {
-          return sonnerToast.info(title, { description });
-        }
-        return sonnerToast(title, { description });
-      }
-      return {};
-    },
-    dismiss: (toastId?: string) => {
-      if (toastId) {
-        sonnerToast.dismiss(toastId);
-      } else {
-        sonnerToast.dismiss();
+// Shared by every useToast caller, so the returned toast is stable and can
+// sit in effect dependency lists without re-running the effect each render
+const toastApi = {
+  toast: (props?: CustomToastProps) => {
+    if (props) {
+      const { title, description, variant } = props;
+      if (variant === "destructive") {
+        return sonnerToast.error(title, { description });
+      } else if (variant === "success") {
+        return sonnerToast.success(title, { description });
+      } else if (variant === "warning") {
+        return sonnerToast.warning(title, { description });
+      } else if (variant === "info") {
+        return sonnerToast.info(title, { description });
       }
-    },
-    toasts: []
-  };
+      return sonnerToast(title, { description });
+    }
+    return {};
+  },
+  dismiss: (toastId?: string) => {
+    if (toastId) {
+      sonnerToast.dismiss(toastId);
+    } else {
+      sonnerToast.dismiss();
+    }
+  },
+  toasts: []
 };
+
+// Create useToast hook for compatibility with existing code
+export const useToast = () => toastApi;
@@ -1,6 +1,30 @@
-import { Client, Account, Databases, Storage, ID, Query, Teams, Functions } from 'appwrite';
+import { Client, Account, Databases, Storage, ID, Query, Teams, Functions, Permission, Role } from 'appwrite';
 import { APPWRITE_CONFIG } from '@/config/backendConfig';
 import { createServeEmailBody } from "@/utils/email"; 
+import { getOutcomeLabel, getStatusForOutcome, migrateLegacyStatus, resolveOutcome } from "@/utils/serveOutcomes";
+import { formatRecipientDescription, parseRecipientDescription } from "@/utils/recipientDescription";
+import { formatCaseParty } from "@/utils/caseParties";
+import { STAFF_ROLES, getClientAccessRole } from "@/utils/permissions";
+import { geocodeCaseAddresses, getAddressLocation, getPrimaryAddress, serializeCaseAddresses } from "@/utils/caseAddresses";
+import { createLocalServeId, enqueueServeCreate, enqueueServeUpdate, getServeDocumentId, isNetworkError } from "@/utils/offlineQueue";
+import { uploadImageAndGetUrl } from "@/utils/imageStorage";
+import { parseGpsFix } from "@/utils/gps";
+import { cacheGeofenceRadius, getCachedGeofenceRadius, parseGeofence, resolveGeofenceRadius } from "@/utils/geofence";
+import { reverseGeocode } from "@/utils/geocoding";
+import { decodeTrail, encodeTrail, trailDistance } from "@/utils/dutyTrail";
+import { parseServePhotos, serializeServePhotos } from "@/utils/servePhotos";
+import {
+  diffEvidenceFields,
+  hashCustodyEntry,
+  hashImageData,
+  hashServeRecord,
+  verifyCustodyChain,
+} from "@/utils/custody";
+import {
+  getTransitionForMailing,
+  isOpenCaseStatus,
+  normalizeCaseStatus,
+} from "@/utils/caseWorkflow";
 
 const client = new Client();
 
@@ -19,7 +43,199 @@ const CLIENTS_COLLECTION_ID = APPWRITE_CONFIG.collections.clients;
 const SERVE_ATTEMPTS_COLLECTION_ID = APPWRITE_CONFIG.collections.serveAttempts;
 const CASES_COLLECTION_ID = APPWRITE_CONFIG.collections.clientCases;
 const DOCUMENTS_COLLECTION_ID = APPWRITE_CONFIG.collections.clientDocuments;
+const CASE_PARTIES_COLLECTION_ID = APPWRITE_CONFIG.collections.caseParties;
+const CASE_STATUS_LOG_COLLECTION_ID = APPWRITE_CONFIG.collections.caseStatusLog;
+const CUSTODY_LOG_COLLECTION_ID = APPWRITE_CONFIG.collections.custodyLog;
+// Appends that lose the race for the chain's tip are retried this many times
+const CUSTODY_APPEND_ATTEMPTS = 5;
+const DUTY_SHIFTS_COLLECTION_ID = APPWRITE_CONFIG.collections.dutyShifts;
 const STORAGE_BUCKET_ID = APPWRITE_CONFIG.storageBucket;
+const TEAM_ID = APPWRITE_CONFIG.teamId;
+const CASE_UPDATES_FUNCTION_ID = APPWRITE_CONFIG.functions.caseUpdates;
+
+// Document-level permissions. The collections must have document security
+// enabled for these to apply. Collection-level create is granted to the staff
+// roles (team:admin, team:dispatcher, team:server), never to the whole team:
+// client accounts are members of the staff team too and must not create records.
+const staffReadPermissions = () =>
+  ['owner', ...STAFF_ROLES].map(role => Permission.read(Role.team(TEAM_ID, role)));
+
+// Staff can read every record; a client account can read only its own client's
+const sharedRecordPermissions = (clientId) => [
+  ...staffReadPermissions(),
+  ...(clientId ? [Permission.read(Role.team(TEAM_ID, getClientAccessRole(clientId)))] : []),
+  Permission.update(Role.team(TEAM_ID, 'admin')),
+  Permission.update(Role.team(TEAM_ID, 'dispatcher')),
+  Permission.delete(Role.team(TEAM_ID, 'admin')),
+];
+
+// Unmarked originals of watermarked photos are kept for admins only
+const originalPhotoPermissions = () => [
+  Permission.read(Role.team(TEAM_ID, 'owner')),
+  Permission.read(Role.team(TEAM_ID, 'admin')),
+  Permission.delete(Role.team(TEAM_ID, 'admin')),
+];
+
+const serveAttemptPermissions = (ownerId, clientId) => [
+  ...sharedRecordPermissions(clientId),
+  ...(ownerId ? [Permission.update(Role.user(ownerId))] : []),
+];
+
+// The user granted update rights on a serve attempt is the one who recorded it
+const getDocumentOwnerId = (doc) => {
+  const permissions = doc.$permissions || [];
+  for (const permission of permissions) {
+    const match = /^update\("user:([^"/]+)/.exec(permission);
+    if (match) return match[1];
+  }
+  return undefined;
+};
+
+const getCurrentUserSafe = async () => {
+  try {
+    return await account.get();
+  } catch (error) {
+    return null;
+  }
+};
+
+// Runs an action in the caseUpdates function and throws when it is refused
+const runCaseUpdate = async (action, data) => {
+  const execution = await functions.createExecution(
+    CASE_UPDATES_FUNCTION_ID,
+    JSON.stringify({ action, ...data })
+  );
+  let result = null;
+  try {
+    result = JSON.parse(execution.responseBody || "null");
+  } catch (error) {
+    result = null;
+  }
+  if (!result?.success) {
+    throw new Error(result?.message || `Case update failed (${execution.responseStatusCode})`);
+  }
+  return result;
+};
+
+// Serve photos live in the storage bucket; documents only keep the file ID
+const SERVE_THUMBNAIL_WIDTH = 480;
+
+const getServeImageUrl = (fileId) => storage.getFileView(STORAGE_BUCKET_ID, fileId).href;
+
+const getServeThumbnailUrl = (fileId) =>
+  storage.getFilePreview(STORAGE_BUCKET_ID, fileId, SERVE_THUMBNAIL_WIDTH).href;
+
+// Maps a serve_attempts document to the shape the frontend works with
+const formatServeDocument = (doc, includeImage = true) => ({
+  id: doc.$id,
+  clientId: doc.client_id || "unknown",
+  clientName: doc.client_name || "Unknown Client",
+  caseNumber: doc.case_number || "Unknown",
+  caseName: doc.case_name || "Unknown Case",
+  coordinates: doc.coordinates || null,
+  notes: doc.notes || "",
+  status: doc.status || "unknown",
+  outcome: resolveOutcome(doc),
+  recipientDescription: parseRecipientDescription(doc.recipient_description),
+  timestamp: doc.timestamp ? new Date(doc.timestamp) : new Date(),
+  attemptNumber: doc.attempt_number || 1,
+  imageData: includeImage ? (doc.image_data || null) : null,
+  imageFileId: doc.image_file_id || undefined,
+  imageUrl: doc.image_file_id ? getServeImageUrl(doc.image_file_id) : undefined,
+  thumbnailUrl: doc.image_file_id ? getServeThumbnailUrl(doc.image_file_id) : undefined,
+  photos: parseServePhotos(doc.photos).map(photo => ({
+    ...photo,
+    url: photo.fileId ? getServeImageUrl(photo.fileId) : undefined,
+    thumbnailUrl: photo.fileId ? getServeThumbnailUrl(photo.fileId) : undefined,
+    originalUrl: photo.originalFileId ? getServeImageUrl(photo.originalFileId) : undefined,
+  })),
+  address: doc.address || "",
+  partyId: doc.party_id || undefined,
+  partyName: doc.party_name || "",
+  addressId: doc.address_id || undefined,
+  ownerId: getDocumentOwnerId(doc),
+  serverId: doc.server_id || getDocumentOwnerId(doc),
+  serverName: doc.server_name || "",
+  deviceInfo: doc.device_info || "",
+  captureHash: doc.capture_hash || undefined,
+  queuedAt: doc.queued_at || undefined,
+  gpsFix: parseGpsFix(doc.gps_fix),
+  geofence: parseGeofence(doc.geofence),
+  gpsAddress: doc.gps_address || "",
+  trail: decodeTrail(doc.trail),
+  trailDistance: doc.trail_distance ?? undefined,
+  shiftId: doc.shift_id || undefined,
+  recordHash: doc.record_hash || undefined,
+  imageHash: doc.image_hash || undefined,
+});
+
+// Galleries are attached by the email function from storage; single inline
+// photos are still sent as imageData
+const getEmailPhotos = (doc, imageData) => {
+  const photos = parseServePhotos(doc.photos);
+  if (photos.length === 0) return { imageData };
+  return { photos: photos.map(({ fileId, caption }) => ({ fileId, caption })) };
+};
+
+const formatStatusLogDocument = (doc) => ({
+  id: doc.$id,
+  caseId: doc.case_id,
+  fromStatus: doc.from_status ? normalizeCaseStatus(doc.from_status) : null,
+  toStatus: normalizeCaseStatus(doc.to_status),
+  userId: doc.user_id || undefined,
+  userName: doc.user_name || "",
+  note: doc.note || "",
+  automatic: !!doc.automatic,
+  timestamp: new Date(doc.created_at),
+});
+
+const parseCustodyChanges = (value) => {
+  if (!value) return {};
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    console.warn("Could not parse custody changes:", error);
+    return {};
+  }
+};
+
+const formatCustodyDocument = (doc) => ({
+  id: doc.$id,
+  clientId: doc.client_id,
+  caseNumber: doc.case_number,
+  serveId: doc.serve_id,
+  version: doc.version,
+  action: doc.action,
+  recordHash: doc.record_hash || "",
+  imageHash: doc.image_hash || "",
+  changes: parseCustodyChanges(doc.changes),
+  previousHash: doc.previous_hash || "",
+  entryHash: doc.entry_hash,
+  userId: doc.user_id || "",
+  userName: doc.user_name || "",
+  createdAt: doc.created_at,
+});
+
+const formatDutyShiftDocument = (doc) => ({
+  id: doc.$id,
+  serverId: doc.server_id,
+  serverName: doc.server_name || "",
+  startedAt: doc.started_at,
+  endedAt: doc.ended_at || undefined,
+  distance: doc.distance_meters || 0,
+  pointCount: doc.point_count || 0,
+  points: decodeTrail(doc.trail),
+});
+
+const buildServeFilterQueries = (filters = {}) => {
+  const queries = [];
+  if (filters.serverId) queries.push(Query.equal('server_id', filters.serverId));
+  if (filters.clientId) queries.push(Query.equal('client_id', filters.clientId));
+  if (filters.outcomes && filters.outcomes.length > 0) queries.push(Query.equal('outcome', filters.outcomes));
+  if (filters.from) queries.push(Query.greaterThanEqual('timestamp', filters.from));
+  if (filters.to) queries.push(Query.lessThanEqual('timestamp', filters.to));
+  return queries;
+};
 
 export const appwrite = {
   client,
@@ -34,6 +250,10 @@ export const appwrite = {
   SERVE_ATTEMPTS_COLLECTION_ID,
   CASES_COLLECTION_ID,
   DOCUMENTS_COLLECTION_ID,
+  CASE_PARTIES_COLLECTION_ID,
+  CASE_STATUS_LOG_COLLECTION_ID,
+  CUSTODY_LOG_COLLECTION_ID,
+  DUTY_SHIFTS_COLLECTION_ID,
   STORAGE_BUCKET_ID,
 
   async sendEmailViaFunction(emailData) {
@@ -179,6 +399,173 @@ export const appwrite = {
     }
   },
 
+  async getCurrentUser() {
+    try {
+      return await account.get();
+    } catch (error) {
+      // 401 means there is no session (or it has expired) - not an error for callers
+      if (error.code !== 401) {
+        console.error("Error fetching current user:", error);
+      }
+      return null;
+    }
+  },
+
+  async getCurrentSession() {
+    try {
+      return await account.getSession('current');
+    } catch (error) {
+      if (error.code !== 401) {
+        console.error("Error fetching current session:", error);
+      }
+      return null;
+    }
+  },
+
+  async login(email, password) {
+    try {
+      // Drop any stale session first, Appwrite refuses to create a second one
+      await account.deleteSession('current').catch(() => {});
+      const session = await account.createEmailSession(email, password);
+      console.log("Signed in, session expires:", session.expire);
+      return session;
+    } catch (error) {
+      console.error("Error signing in:", error);
+      throw error;
+    }
+  },
+
+  async logout() {
+    try {
+      await account.deleteSession('current');
+      return true;
+    } catch (error) {
+      console.error("Error signing out:", error);
+      return false;
+    }
+  },
+
+  async inviteUser(email, name, roles = []) {
+    try {
+      const response = await teams.createMembership(
+        TEAM_ID,
+        roles,
+        email,
+        undefined,
+        undefined,
+        `${window.location.origin}/accept-invite`,
+        name || undefined
+      );
+      console.log("Invitation sent to:", email);
+      return response;
+    } catch (error) {
+      console.error("Error inviting user:", error);
+      throw error;
+    }
+  },
+
+  async acceptInvitation(teamId, membershipId, userId, secret, name, password) {
+    try {
+      // Accepting the membership also signs the invitee in
+      const membership = await teams.updateMembershipStatus(teamId, membershipId, userId, secret);
+      if (name) {
+        await account.updateName(name);
+      }
+      await account.updatePassword(password);
+      return membership;
+    } catch (error) {
+      console.error("Error accepting invitation:", error);
+      throw error;
+    }
+  },
+
+  async requestPasswordReset(email) {
+    try {
+      await account.createRecovery(email, `${window.location.origin}/reset-password`);
+      return true;
+    } catch (error) {
+      console.error("Error requesting password reset:", error);
+      throw error;
+    }
+  },
+
+  async completePasswordReset(userId, secret, password) {
+    try {
+      await account.updateRecovery(userId, secret, password, password);
+      return true;
+    } catch (error) {
+      console.error("Error completing password reset:", error);
+      throw error;
+    }
+  },
+
+  async getCurrentMembership(userId) {
+    try {
+      const response = await teams.listMemberships(TEAM_ID, [Query.equal('userId', userId)]);
+      return response.memberships[0] || null;
+    } catch (error) {
+      console.error("Error fetching team membership:", error);
+      return null;
+    }
+  },
+
+  async listTeamMembers() {
+    try {
+      const response = await teams.listMemberships(TEAM_ID);
+      return response.memberships;
+    } catch (error) {
+      console.error("Error listing team members:", error);
+      return [];
+    }
+  },
+
+  async updateMemberRoles(membershipId, roles) {
+    try {
+      return await teams.updateMembership(TEAM_ID, membershipId, roles);
+    } catch (error) {
+      console.error("Error updating member roles:", error);
+      throw error;
+    }
+  },
+
+  // Agency-wide settings live in the staff team's preferences, so every
+  // device reads the same values
+  async getTeamPrefs() {
+    return await teams.getPrefs(TEAM_ID);
+  },
+
+  // Team preferences are replaced as a whole, so changes are merged into the current ones
+  async updateTeamPrefs(changes) {
+    try {
+      const current = await teams.getPrefs(TEAM_ID);
+      return await teams.updatePrefs(TEAM_ID, { ...current, ...changes });
+    } catch (error) {
+      console.error("Error updating team preferences:", error);
+      throw error;
+    }
+  },
+
+  // Allowed distance for the geofence check. Falls back to the last value
+  // read on this device when the team can't be reached.
+  async getGeofenceRadius() {
+    try {
+      const prefs = await this.getTeamPrefs();
+      const radius = resolveGeofenceRadius(prefs.geofenceRadius);
+      cacheGeofenceRadius(radius);
+      return radius;
+    } catch (error) {
+      console.warn("Could not read the geofence radius, using the last known value:", error);
+      return getCachedGeofenceRadius();
+    }
+  },
+
+  async updateGeofenceRadius(radius) {
+    const resolved = resolveGeofenceRadius(radius);
+    await this.updateTeamPrefs({ geofenceRadius: resolved });
+    cacheGeofenceRadius(resolved);
+    return resolved;
+  },
+
   isAppwriteConfigured() {
     return !!APPWRITE_CONFIG.projectId && !!APPWRITE_CONFIG.endpoint;
   },
@@ -195,7 +582,8 @@ export const appwrite = {
 
   async createClient(client) {
     try {
-      const clientId = client.id || ID.unique();
+      // A real ID rather than ID.unique(): the read permission names the client
+      const clientId = client.id || crypto.randomUUID().replace(/-/g, "").slice(0, 20);
       const now = new Date().toISOString();
       const response = await databases.createDocument(
         DATABASE_ID,
@@ -209,7 +597,8 @@ export const appwrite = {
           address: client.address,
           notes: client.notes || "",
           created_at: now,
-        }
+        },
+        sharedRecordPermissions(clientId)
       );
       return response;
     } catch (error) {
@@ -299,10 +688,11 @@ export const appwrite = {
     }
   },
 
-  async getServeAttempts(limit = 50, offset = 0) {
+  async getServeAttempts(limit = 50, offset = 0, filters = {}) {
     try {
       // Add pagination to prevent memory overload
       const queries = [
+        ...buildServeFilterQueries(filters),
         Query.orderDesc('timestamp'),
         Query.limit(limit),
         Query.offset(offset)
@@ -310,21 +700,8 @@ export const appwrite = {
       
       const response = await databases.listDocuments(DATABASE_ID, SERVE_ATTEMPTS_COLLECTION_ID, queries);
       
-      const formattedServes = response.documents.map(doc => ({
-        id: doc.$id,
-        clientId: doc.client_id || "unknown",
-        clientName: doc.client_name || "Unknown Client",
-        caseNumber: doc.case_number || "Unknown",
-        caseName: doc.case_name || "Unknown Case",
-        coordinates: doc.coordinates || null,
-        notes: doc.notes || "",
-        status: doc.status || "unknown",
-        timestamp: doc.timestamp ? new Date(doc.timestamp) : new Date(),
-        attemptNumber: doc.attempt_number || 1,
-        // Only include image data for recent records to save memory
-        imageData: offset === 0 ? (doc.image_data || null) : null,
-        address: doc.address || "",
-      }));
+      // Only include image data for recent records to save memory
+      const formattedServes = response.documents.map(doc => formatServeDocument(doc, offset === 0 && filters.includeImages !== false));
       
       return formattedServes;
     } catch (error) {
@@ -333,6 +710,20 @@ export const appwrite = {
     }
   },
 
+  async getTotalServeAttemptsCount(filters = {}) {
+    try {
+      const response = await databases.listDocuments(
+        DATABASE_ID,
+        SERVE_ATTEMPTS_COLLECTION_ID,
+        [...buildServeFilterQueries(filters), Query.limit(1)]
+      );
+      return response.total;
+    } catch (error) {
+      console.error('Error counting serve attempts:', error);
+      throw error;
+    }
+  },
+
   async getClientServeAttempts(clientId) {
     try {
       const response = await databases.listDocuments(
@@ -340,27 +731,33 @@ export const appwrite = {
         SERVE_ATTEMPTS_COLLECTION_ID,
         [Query.equal('client_id', clientId)]
       );
-      return response.documents.map(doc => ({
-        id: doc.$id,
-        clientId: doc.client_id || "unknown",
-        clientName: doc.client_name || "Unknown Client", 
-        caseNumber: doc.case_number || "Unknown",
-        caseName: doc.case_name || "Unknown Case",
-        coordinates: doc.coordinates || null,
-        notes: doc.notes || "",
-        status: doc.status || "unknown",
-        timestamp: doc.timestamp ? new Date(doc.timestamp) : new Date(),
-        attemptNumber: doc.attempt_number || 1,
-        imageData: doc.image_data || null,
-        address: doc.address || "",
-      })).sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+      return response.documents.map(doc => formatServeDocument(doc))
+        .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
     } catch (error) {
       console.error(`Error fetching serve attempts for client ${clientId}:`, error);
       return [];
     }
   },
 
-  async createServeAttempt(serveData) {
+  // options.fromOutbox is set when replaying a queued attempt, so a failed
+  // replay is reported back to the outbox instead of being queued again.
+  // options.localId is the outbox item's ID; the document ID is derived from
+  // it, so an attempt that reached the server before a replay failed isn't
+  // saved twice. options.onUploaded receives the photos' file IDs when a
+  // replay fails after uploading them, so the retry doesn't upload them again.
+  async createServeAttempt(serveData, options = {}) {
+    if (!serveData.clientId || serveData.clientId === "unknown") {
+      throw new Error("Valid client ID is required for serve attempts.");
+    }
+
+    const localId = options.localId || createLocalServeId();
+    const documentId = getServeDocumentId(localId);
+    // Copies that collect file IDs as they upload, whichever step fails
+    const photos = (serveData.photos || []).map(photo => ({ ...photo }));
+    let imageFileId = serveData.imageFileId || "";
+    const uploadedFileIds = [];
+    let created = false;
+
     try {
       console.log("Creating serve attempt in Appwrite with data:", {
         clientId: serveData.clientId,
@@ -369,10 +766,6 @@ export const appwrite = {
         caseName: serveData.caseName
       });
 
-      if (!serveData.clientId || serveData.clientId === "unknown") {
-        throw new Error("Valid client ID is required for serve attempts.");
-      }
-
       let clientName = serveData.clientName || "Unknown Client";
       if (clientName === "Unknown Client") {
         try {
@@ -389,15 +782,11 @@ export const appwrite = {
         }
       }
 
-      const address = serveData.address || 
-                      (typeof serveData.coordinates === 'string' ? 
-                       `Coordinates: ${serveData.coordinates}` : 
-                       "Address not provided");
-
       const caseNumber = serveData.caseNumber || "Not Specified";
       const caseName = serveData.caseName || "Unknown Case";
 
-      let coordinates = "0,0";
+      // Left empty rather than faked when the attempt has no position
+      let coordinates = "";
       if (serveData.coordinates) {
         if (typeof serveData.coordinates === 'string') {
           coordinates = serveData.coordinates;
@@ -406,34 +795,149 @@ export const appwrite = {
         }
       }
 
-      const documentId = ID.unique();
+      // Street address at the capture point, kept alongside the case address
+      // and used in its place when the attempt has none
+      let gpsAddress = "";
+      const [latitude, longitude] = coordinates.split(",").map(Number);
+      if (coordinates && Number.isFinite(latitude) && Number.isFinite(longitude)) {
+        const reverse = await reverseGeocode({ latitude, longitude });
+        gpsAddress = reverse?.address || "";
+      }
+
+      const address = serveData.address ||
+                      gpsAddress ||
+                      (coordinates ? `Coordinates: ${coordinates}` : "Address not provided");
+
+      const currentUser = await getCurrentUserSafe();
+      const ownerId = currentUser?.$id;
+
+      const outcome = resolveOutcome(serveData);
+
+      // Every photo goes to the bucket; the cover also fills image_file_id so
+      // readers that only know about one photo keep working
+      for (const [index, photo] of photos.entries()) {
+        if (!photo.sha256 && photo.imageData) {
+          photo.sha256 = await hashImageData(photo.imageData);
+        }
+        if (!photo.fileId) {
+          ({ fileId: photo.fileId } = await uploadImageAndGetUrl(
+            photo.imageData,
+            `serve_${documentId}_${index + 1}.jpg`,
+            sharedRecordPermissions(serveData.clientId)
+          ));
+          uploadedFileIds.push(photo.fileId);
+        }
+        if (!photo.originalFileId && photo.originalImageData) {
+          ({ fileId: photo.originalFileId } = await uploadImageAndGetUrl(
+            photo.originalImageData,
+            `serve_${documentId}_${index + 1}_original.jpg`,
+            originalPhotoPermissions()
+          ));
+          uploadedFileIds.push(photo.originalFileId);
+        }
+      }
+
+      imageFileId = photos[0]?.fileId || imageFileId;
+      let imageHash = photos[0]?.sha256 || "";
+      if (!imageHash && serveData.imageData) {
+        imageHash = await hashImageData(serveData.imageData);
+      }
+      if (!imageFileId && serveData.imageData) {
+        ({ fileId: imageFileId } = await uploadImageAndGetUrl(
+          serveData.imageData,
+          `serve_${documentId}.jpg`,
+          sharedRecordPermissions(serveData.clientId)
+        ));
+        uploadedFileIds.push(imageFileId);
+      }
 
       const payload = {
         client_id: serveData.clientId,
         client_name: clientName,
         case_number: caseNumber,
         case_name: caseName,
-        status: serveData.status || "unknown",
+        status: getStatusForOutcome(outcome),
+        outcome: outcome,
+        recipient_description: serveData.recipientDescription ? JSON.stringify(serveData.recipientDescription) : "",
         notes: serveData.notes || "",
         address: address,
         coordinates: coordinates,
-        image_data: serveData.imageData || "",
+        image_data: "",
+        image_file_id: imageFileId,
+        photos: photos.length > 0 ? serializeServePhotos(photos) : "",
         timestamp: serveData.timestamp ? 
                    (serveData.timestamp instanceof Date ? 
                     serveData.timestamp.toISOString() : 
                     new Date(serveData.timestamp).toISOString()) : 
                    new Date().toISOString(),
         attempt_number: serveData.attemptNumber || 1,
+        party_id: serveData.partyId || "",
+        party_name: serveData.partyName || "",
+        address_id: serveData.addressId || "",
+        server_id: ownerId || "",
+        server_name: currentUser ? (currentUser.name || currentUser.email) : "",
+        device_info: serveData.deviceInfo || "",
+        capture_hash: serveData.captureHash || "",
+        queued_at: serveData.queuedAt || null,
+        image_hash: imageHash,
+        gps_fix: serveData.gpsFix ? JSON.stringify(serveData.gpsFix) : "",
+        geofence: serveData.geofence ? JSON.stringify(serveData.geofence) : "",
+        gps_address: gpsAddress,
+        trail: serveData.trail?.length ? encodeTrail(serveData.trail) : "",
+        trail_distance: serveData.trailDistance ?? null,
+        shift_id: serveData.shiftId || "",
       };
+      payload.record_hash = await hashServeRecord(payload);
 
-      const response = await databases.createDocument(
-        DATABASE_ID,
-        SERVE_ATTEMPTS_COLLECTION_ID,
-        documentId,
-        payload
-      );
+      let response;
+      try {
+        response = await databases.createDocument(
+          DATABASE_ID,
+          SERVE_ATTEMPTS_COLLECTION_ID,
+          documentId,
+          payload,
+          serveAttemptPermissions(ownerId, serveData.clientId)
+        );
+      } catch (createError) {
+        // An earlier replay got through before its connection dropped
+        if (options.fromOutbox && createError?.code === 409) {
+          console.log("Queued serve attempt was already uploaded:", documentId);
+          const existing = await databases.getDocument(DATABASE_ID, SERVE_ATTEMPTS_COLLECTION_ID, documentId);
+          // Finish what the earlier replay didn't get to
+          const logged = await databases.listDocuments(DATABASE_ID, CUSTODY_LOG_COLLECTION_ID, [
+            Query.equal('serve_id', documentId),
+            Query.limit(1)
+          ]);
+          if (logged.documents.length === 0) {
+            await this.appendCustodyEntry(existing, "captured");
+            try {
+              await this.advanceCaseForServe(existing);
+            } catch (caseError) {
+              existing.caseUpdateFailed = true;
+            }
+          }
+          return existing;
+        }
+        throw createError;
+      }
+      created = true;
       
       console.log("Serve attempt saved successfully with ID:", response.$id);
+
+      try {
+        await this.appendCustodyEntry(response, "captured");
+      } catch (custodyError) {
+        // Queued below; the replay finds the attempt and logs it then
+        if (isNetworkError(custodyError)) throw custodyError;
+        response.custodyFailed = true;
+      }
+
+      // The attempt is saved either way; the caller tells the user the case didn't move
+      try {
+        await this.advanceCaseForServe(response);
+      } catch (caseError) {
+        response.caseUpdateFailed = true;
+      }
       
       if (serveData.clientEmail) {
         response.clientEmail = serveData.clientEmail;
@@ -447,18 +951,22 @@ export const appwrite = {
           new Date(response.timestamp),
           response.coordinates,
           response.attempt_number,
-          response.case_name
+          response.case_name,
+          undefined,
+          getOutcomeLabel(response.outcome),
+          formatRecipientDescription(parseRecipientDescription(response.recipient_description)),
+          parseGeofence(response.geofence)
         );
     
-        const statusText = response.status === 'completed' ? 'Successful' : 'Failed';
         const emailData = {
           to: serveData.clientEmail || "info@justlegalsolutions.org",
-          subject: `New Serve Attempt ${statusText} - ${response.case_name}`,
+          subject: `New Serve Attempt: ${getOutcomeLabel(response.outcome)} - ${response.case_name}${response.party_name ? ` (${response.party_name})` : ""}`,
           html: emailBody,
-          imageData: response.image_data, 
+          ...getEmailPhotos(response, serveData.imageData),
           coordinates: response.coordinates,
           notes: response.notes,
-          status: response.status
+          status: response.status,
+          outcome: response.outcome
         };
     
         console.log("Sending email with full data payload...");
@@ -476,38 +984,38 @@ export const appwrite = {
       return response;
     } catch (error) {
       console.error("Error creating serve attempt:", error);
-      
-      try {
-        console.log("Saving serve attempt to local storage as fallback");
-        const serveAttempts = JSON.parse(localStorage.getItem("serve-tracker-serves") || "[]");
-        const newServe = {
-          id: ID.unique(),
-          clientId: serveData.clientId,
-          clientName: serveData.clientName || "Unknown Client",
-          clientEmail: serveData.clientEmail,
-          caseNumber: serveData.caseNumber || "Unknown",
-          caseName: serveData.caseName || "Unknown Case",
-          coordinates: serveData.coordinates || null,
-          notes: serveData.notes || "",
-          status: serveData.status || "unknown",
-          timestamp: new Date(),
-          attemptNumber: serveData.attemptNumber || 1,
-          imageData: serveData.imageData || null,
-          address: serveData.address || ""
-        };
-        serveAttempts.push(newServe);
-        localStorage.setItem("serve-tracker-serves", JSON.stringify(serveAttempts));
-        console.log("Saved to local storage successfully");
-        return newServe;
-      } catch (localError) {
-        console.error("Failed local storage fallback:", localError);
+
+      // Queued with the same ID and the files already uploaded, so the
+      // replay picks up where this save stopped
+      const uploaded = {
+        ...(serveData.photos ? { photos } : {}),
+        ...(imageFileId ? { imageFileId } : {}),
+      };
+      if (isNetworkError(error)) {
+        if (options.fromOutbox) {
+          await options.onUploaded?.(uploaded);
+        } else {
+          console.log("Appwrite unreachable, queueing serve attempt in the offline outbox");
+          const item = await enqueueServeCreate({ ...serveData, ...uploaded }, localId);
+          return { ...item.payload, id: item.id, captureHash: item.hash, queued: true };
+        }
+      } else if (!created) {
+        // Rejected outright; the files would belong to no attempt
+        for (const fileId of uploadedFileIds) {
+          storage.deleteFile(STORAGE_BUCKET_ID, fileId).catch(fileError =>
+            console.warn("Could not delete an orphaned serve photo:", fileError)
+          );
+        }
       }
       
       throw error;
     }
   },
 
-  async updateServeAttempt(serveId, serveData) {
+  async updateServeAttempt(serveId, serveData, options = {}) {
+    // Set when an edit stays saved without its custody entry; queueing it
+    // again would find nothing to change and never log it
+    let unloggedEdit = false;
     try {
       console.log("Updating serve attempt with data:", serveData);
 
@@ -530,8 +1038,18 @@ export const appwrite = {
       if (serveData.notes !== undefined && serveData.notes !== originalDoc.notes) 
         updateData.notes = serveData.notes;
       
-      if (serveData.status !== undefined && serveData.status !== originalDoc.status) 
+      if (serveData.outcome !== undefined && serveData.outcome !== originalDoc.outcome) {
+        updateData.outcome = serveData.outcome;
+        updateData.status = getStatusForOutcome(serveData.outcome);
+      } else if (serveData.status !== undefined && serveData.status !== originalDoc.status) {
         updateData.status = serveData.status;
+      }
+
+      if (serveData.recipientDescription !== undefined) {
+        const recipientDescription = serveData.recipientDescription ? JSON.stringify(serveData.recipientDescription) : "";
+        if (recipientDescription !== (originalDoc.recipient_description || ""))
+          updateData.recipient_description = recipientDescription;
+      }
       
       if (serveData.caseNumber !== undefined && serveData.caseNumber !== originalDoc.case_number) 
         updateData.case_number = serveData.caseNumber;
@@ -542,6 +1060,9 @@ export const appwrite = {
       console.log("Updating document with fields:", updateData);
 
       if (Object.keys(updateData).length > 0) {
+        const changes = diffEvidenceFields(originalDoc, updateData);
+        updateData.record_hash = await hashServeRecord({ ...originalDoc, ...updateData });
+
         const response = await databases.updateDocument(
           DATABASE_ID,
           SERVE_ATTEMPTS_COLLECTION_ID,
@@ -551,6 +1072,36 @@ export const appwrite = {
 
         console.log("Update response:", response);
 
+        // An edit that isn't in the custody log would break the chain's
+        // account of the record, so it is undone
+        try {
+          await this.appendCustodyEntry(response, "edited", changes);
+        } catch (custodyError) {
+          const restore = {};
+          for (const field of Object.keys(updateData)) {
+            restore[field] = originalDoc[field] ?? null;
+          }
+          try {
+            await databases.updateDocument(DATABASE_ID, SERVE_ATTEMPTS_COLLECTION_ID, docId, restore);
+          } catch (restoreError) {
+            console.error("Could not undo the serve edit after the custody log failed:", restoreError);
+            unloggedEdit = true;
+            throw new Error("The edit was saved but could not be recorded in the custody log. Tell an admin before relying on this attempt's custody report.");
+          }
+          // Undone, so a dropped connection can still queue the edit for later
+          if (isNetworkError(custodyError)) throw custodyError;
+          throw new Error("The edit could not be recorded in the custody log, so it was not saved. Please try again.");
+        }
+
+        // A changed outcome can complete service, just as a new attempt can
+        if (updateData.status !== undefined || updateData.outcome !== undefined) {
+          try {
+            await this.advanceCaseForServe(response);
+          } catch (caseError) {
+            response.caseUpdateFailed = true;
+          }
+        }
+
         // --- THIS IS THE NEW CODE ---
         try {
           // Fetch the client's data to get their email
@@ -565,18 +1116,22 @@ export const appwrite = {
               new Date(response.timestamp),
               response.coordinates,
               response.attempt_number,
-              response.case_name
+              response.case_name,
+              undefined,
+              getOutcomeLabel(resolveOutcome(response)),
+              formatRecipientDescription(parseRecipientDescription(response.recipient_description)),
+              parseGeofence(response.geofence)
             );
 
-            const statusText = response.status === 'completed' ? 'Successful' : 'Failed';
             const emailData = {
               to: clientEmail,
               subject: `Serve Attempt Updated - ${response.case_name}`,
               html: emailBody,
-              imageData: response.image_data, 
+              ...getEmailPhotos(response, response.image_data),
               coordinates: response.coordinates,
               notes: response.notes,
-              status: response.status
+              status: response.status,
+              outcome: resolveOutcome(response)
             };
 
             console.log("Sending update email notification...");
@@ -596,10 +1151,454 @@ export const appwrite = {
       }
     } catch (error) {
       console.error('Error updating serve attempt:', error);
+
+      const docId = typeof serveId === 'object' ? (serveId.id || serveId.$id) : serveId;
+      if (!options.fromOutbox && docId && !unloggedEdit && isNetworkError(error)) {
+        console.log("Appwrite unreachable, queueing serve update in the offline outbox");
+        const item = await enqueueServeUpdate(docId, serveData);
+        return { $id: docId, outboxId: item.id, queued: true };
+      }
+
       throw error;
     }
   },
 
+  // Fills in the outcome field on serve attempts recorded before outcomes existed
+  async migrateServeOutcomes() {
+    let migrated = 0;
+    try {
+      while (true) {
+        const response = await databases.listDocuments(
+          DATABASE_ID,
+          SERVE_ATTEMPTS_COLLECTION_ID,
+          [Query.isNull('outcome'), Query.limit(100)]
+        );
+        if (response.documents.length === 0) break;
+
+        for (const doc of response.documents) {
+          await databases.updateDocument(
+            DATABASE_ID,
+            SERVE_ATTEMPTS_COLLECTION_ID,
+            doc.$id,
+            { outcome: migrateLegacyStatus(doc.status) }
+          );
+          migrated++;
+        }
+      }
+      console.log(`Migrated outcomes for ${migrated} serve attempts`);
+      return { success: true, migrated };
+    } catch (error) {
+      console.error('Error migrating serve outcomes:', error);
+      return { success: false, migrated, error: error.message };
+    }
+  },
+
+  // Moves photos stored inline in the database into the storage bucket: serve
+  // photos in image_data and mailing receipts in mailing_receipt_image
+  async migrateServeImages() {
+    let migrated = 0;
+    let failed = 0;
+    let cursor = null;
+    try {
+      while (true) {
+        const queries = [Query.isNull('image_file_id'), Query.limit(25)];
+        if (cursor) queries.push(Query.cursorAfter(cursor));
+        const response = await databases.listDocuments(
+          DATABASE_ID,
+          SERVE_ATTEMPTS_COLLECTION_ID,
+          queries
+        );
+        if (response.documents.length === 0) break;
+
+        for (const doc of response.documents) {
+          if (!doc.image_data) continue;
+          try {
+            const { fileId } = await uploadImageAndGetUrl(
+              doc.image_data,
+              `serve_${doc.$id}.jpg`,
+              sharedRecordPermissions(doc.client_id)
+            );
+            await databases.updateDocument(
+              DATABASE_ID,
+              SERVE_ATTEMPTS_COLLECTION_ID,
+              doc.$id,
+              { image_file_id: fileId, image_data: "" }
+            );
+            migrated++;
+          } catch (docError) {
+            console.error(`Error migrating photo for serve attempt ${doc.$id}:`, docError);
+            failed++;
+          }
+        }
+        cursor = response.documents[response.documents.length - 1].$id;
+      }
+
+      cursor = null;
+      while (true) {
+        const queries = [Query.isNull('mailing_receipt_file_id'), Query.limit(25)];
+        if (cursor) queries.push(Query.cursorAfter(cursor));
+        const response = await databases.listDocuments(DATABASE_ID, CASES_COLLECTION_ID, queries);
+        if (response.documents.length === 0) break;
+
+        for (const doc of response.documents) {
+          if (!doc.mailing_receipt_image) continue;
+          try {
+            const { fileId } = await uploadImageAndGetUrl(
+              doc.mailing_receipt_image,
+              `mailing_receipt_${doc.$id}.jpg`,
+              sharedRecordPermissions(doc.client_id)
+            );
+            await databases.updateDocument(
+              DATABASE_ID,
+              CASES_COLLECTION_ID,
+              doc.$id,
+              { mailing_receipt_file_id: fileId, mailing_receipt_image: "" }
+            );
+            migrated++;
+          } catch (docError) {
+            console.error(`Error migrating mailing receipt for case ${doc.$id}:`, docError);
+            failed++;
+          }
+        }
+        cursor = response.documents[response.documents.length - 1].$id;
+      }
+      console.log(`Moved ${migrated} serve photos and mailing receipts to storage (${failed} failed)`);
+      return { success: failed === 0, migrated, failed };
+    } catch (error) {
+      console.error('Error migrating serve images:', error);
+      return { success: false, migrated, failed, error: error.message };
+    }
+  },
+
+  // Rewrites read access on records created when the whole team could read
+  // everything, so client accounts only see their own client's records.
+  // Status and custody log entries are immutable from the app and have to be
+  // narrowed to the staff roles in the Appwrite console.
+  async migrateRecordPermissions() {
+    let migrated = 0;
+    let failed = 0;
+
+    const updateFilePermissions = async (fileId, clientId) => {
+      if (!fileId || fileId === 'unique()') return;
+      await storage.updateFile(STORAGE_BUCKET_ID, fileId, undefined, sharedRecordPermissions(clientId));
+    };
+
+    const migrateCollection = async (collectionId, getPermissions, updateFiles) => {
+      let cursor = null;
+      while (true) {
+        const queries = [Query.limit(50)];
+        if (cursor) queries.push(Query.cursorAfter(cursor));
+        const response = await databases.listDocuments(DATABASE_ID, collectionId, queries);
+        if (response.documents.length === 0) break;
+
+        for (const doc of response.documents) {
+          try {
+            await databases.updateDocument(DATABASE_ID, collectionId, doc.$id, {}, getPermissions(doc));
+            if (updateFiles) await updateFiles(doc);
+            migrated++;
+          } catch (docError) {
+            console.error(`Error updating permissions for ${collectionId}/${doc.$id}:`, docError);
+            failed++;
+          }
+        }
+        cursor = response.documents[response.documents.length - 1].$id;
+      }
+    };
+
+    try {
+      await migrateCollection(CLIENTS_COLLECTION_ID, (doc) => sharedRecordPermissions(doc.$id));
+      await migrateCollection(CASES_COLLECTION_ID, (doc) => sharedRecordPermissions(doc.client_id));
+      await migrateCollection(CASE_PARTIES_COLLECTION_ID, (doc) => sharedRecordPermissions(doc.client_id));
+      await migrateCollection(
+        DOCUMENTS_COLLECTION_ID,
+        (doc) => sharedRecordPermissions(doc.client_id),
+        (doc) => updateFilePermissions(doc.file_path, doc.client_id)
+      );
+      await migrateCollection(
+        SERVE_ATTEMPTS_COLLECTION_ID,
+        (doc) => serveAttemptPermissions(getDocumentOwnerId(doc), doc.client_id),
+        async (doc) => {
+          const fileIds = new Set([doc.image_file_id, ...parseServePhotos(doc.photos).map(photo => photo.fileId)]);
+          for (const fileId of fileIds) {
+            await updateFilePermissions(fileId, doc.client_id);
+          }
+        }
+      );
+      console.log(`Updated permissions on ${migrated} records (${failed} failed)`);
+      return { success: failed === 0, migrated, failed };
+    } catch (error) {
+      console.error('Error migrating record permissions:', error);
+      return { success: false, migrated, failed, error: error.message };
+    }
+  },
+
+  // Appends a version of a serve attempt to its case's hash chain. The
+  // custody_log collection has a unique index on (client_id, case_number,
+  // previous_hash), so when two appends read the same tip only one is stored;
+  // the other gets a 409 and links onto the new tip instead. Throws when the
+  // entry can't be written, so the caller can undo or report the change.
+  async appendCustodyEntry(serveDoc, action, changes = {}) {
+    const currentUser = await getCurrentUserSafe();
+    for (let attempt = 1; ; attempt++) {
+      const [lastForCase, lastForServe] = await Promise.all([
+        databases.listDocuments(DATABASE_ID, CUSTODY_LOG_COLLECTION_ID, [
+          Query.equal('client_id', serveDoc.client_id),
+          Query.equal('case_number', serveDoc.case_number),
+          Query.orderDesc('$createdAt'),
+          Query.limit(1)
+        ]),
+        databases.listDocuments(DATABASE_ID, CUSTODY_LOG_COLLECTION_ID, [
+          Query.equal('serve_id', serveDoc.$id),
+          Query.orderDesc('version'),
+          Query.limit(1)
+        ]),
+      ]);
+
+      const entry = {
+        clientId: serveDoc.client_id,
+        caseNumber: serveDoc.case_number,
+        serveId: serveDoc.$id,
+        version: (lastForServe.documents[0]?.version || 0) + 1,
+        action,
+        recordHash: serveDoc.record_hash || "",
+        imageHash: serveDoc.image_hash || "",
+        changes,
+        previousHash: lastForCase.documents[0]?.entry_hash || "",
+        userId: currentUser?.$id || "",
+        userName: currentUser ? (currentUser.name || currentUser.email) : "",
+        createdAt: new Date().toISOString(),
+      };
+
+      try {
+        return await databases.createDocument(
+          DATABASE_ID,
+          CUSTODY_LOG_COLLECTION_ID,
+          ID.unique(),
+          {
+            client_id: entry.clientId,
+            case_number: entry.caseNumber,
+            serve_id: entry.serveId,
+            version: entry.version,
+            action: entry.action,
+            record_hash: entry.recordHash,
+            image_hash: entry.imageHash,
+            changes: JSON.stringify(entry.changes),
+            previous_hash: entry.previousHash,
+            entry_hash: await hashCustodyEntry(entry),
+            user_id: entry.userId,
+            user_name: entry.userName,
+            created_at: entry.createdAt
+          },
+          staffReadPermissions()
+        );
+      } catch (error) {
+        if (error?.code === 409 && attempt < CUSTODY_APPEND_ATTEMPTS) continue;
+        console.error('Error appending custody log entry:', error);
+        throw error;
+      }
+    }
+  },
+
+  async getCustodyLog(clientId, caseNumber) {
+    try {
+      const response = await databases.listDocuments(
+        DATABASE_ID,
+        CUSTODY_LOG_COLLECTION_ID,
+        [
+          Query.equal('client_id', clientId),
+          Query.equal('case_number', caseNumber),
+          // Chain order is the order the server stored the entries in;
+          // created_at comes from each device's clock
+          Query.orderAsc('$createdAt'),
+          Query.limit(500)
+        ]
+      );
+      return response.documents.map(formatCustodyDocument);
+    } catch (error) {
+      console.error(`Error fetching custody log for case ${caseNumber}:`, error);
+      return [];
+    }
+  },
+
+  // Every version of one attempt, wherever its case number has pointed
+  async getServeCustodyLog(serveId) {
+    try {
+      const response = await databases.listDocuments(
+        DATABASE_ID,
+        CUSTODY_LOG_COLLECTION_ID,
+        [
+          Query.equal('serve_id', serveId),
+          Query.orderAsc('$createdAt'),
+          Query.limit(100)
+        ]
+      );
+      return response.documents.map(formatCustodyDocument);
+    } catch (error) {
+      console.error(`Error fetching custody log for serve attempt ${serveId}:`, error);
+      throw error;
+    }
+  },
+
+  // Re-verifies the case's hash chain, every attempt's record hash and the
+  // photos in storage against the hashes taken at capture
+  async getCustodyReport(clientId, caseNumber) {
+    const [entries, servesResponse] = await Promise.all([
+      this.getCustodyLog(clientId, caseNumber),
+      databases.listDocuments(DATABASE_ID, SERVE_ATTEMPTS_COLLECTION_ID, [
+        Query.equal('client_id', clientId),
+        Query.equal('case_number', caseNumber),
+        Query.orderAsc('timestamp'),
+        Query.limit(100)
+      ]),
+    ]);
+
+    const checkedEntries = await verifyCustodyChain(entries);
+
+    const checkImage = async (label, fileId, expected) => {
+      try {
+        const actual = await hashImageData(await this.getServeImageData(fileId));
+        return { label, expected, actual, matches: actual === expected };
+      } catch (error) {
+        console.error(`Could not verify photo ${fileId}:`, error);
+        return { label, expected, actual: null, matches: false };
+      }
+    };
+
+    const serves = [];
+    for (const doc of servesResponse.documents) {
+      const photos = parseServePhotos(doc.photos);
+      const imageChecks = [];
+      for (const [index, photo] of photos.entries()) {
+        if (photo.fileId && photo.sha256) {
+          imageChecks.push(await checkImage(photo.caption || `Photo ${index + 1}`, photo.fileId, photo.sha256));
+        }
+      }
+      if (photos.length === 0 && doc.image_file_id && doc.image_hash) {
+        imageChecks.push(await checkImage("Photo", doc.image_file_id, doc.image_hash));
+      }
+
+      const versions = checkedEntries.filter(entry => entry.serveId === doc.$id);
+      const latest = versions[versions.length - 1];
+      const recomputed = doc.record_hash ? await hashServeRecord(doc) : null;
+
+      serves.push({
+        serveId: doc.$id,
+        attemptNumber: doc.attempt_number,
+        timestamp: doc.timestamp,
+        outcome: resolveOutcome(doc),
+        exists: true,
+        recordHash: doc.record_hash || "",
+        recordMatches: recomputed === null
+          ? null
+          : recomputed === doc.record_hash && (!latest || latest.recordHash === doc.record_hash),
+        imageChecks,
+        versions,
+      });
+    }
+
+    // Versions whose attempt has since been deleted
+    const missingIds = [...new Set(checkedEntries.map(entry => entry.serveId))]
+      .filter(id => !serves.some(serve => serve.serveId === id));
+    for (const serveId of missingIds) {
+      serves.push({
+        serveId,
+        exists: false,
+        recordHash: "",
+        recordMatches: null,
+        imageChecks: [],
+        versions: checkedEntries.filter(entry => entry.serveId === serveId),
+      });
+    }
+
+    return {
+      clientId,
+      caseNumber,
+      generatedAt: new Date().toISOString(),
+      chainIntact: checkedEntries.every(entry => entry.hashValid && entry.linkValid),
+      entries: checkedEntries,
+      serves,
+    };
+  },
+
+  // Uses the shift's local id as the document id, so retrying an upload that
+  // already went through doesn't count the miles twice
+  async saveDutyShift(shift) {
+    const currentUser = await getCurrentUserSafe();
+    const payload = {
+      server_id: currentUser?.$id || "",
+      server_name: currentUser ? (currentUser.name || currentUser.email) : "",
+      started_at: shift.startedAt,
+      ended_at: shift.endedAt || null,
+      distance_meters: Math.round(trailDistance(shift.points)),
+      point_count: shift.points.length,
+      trail: encodeTrail(shift.points),
+    };
+
+    try {
+      const response = await databases.createDocument(
+        DATABASE_ID,
+        DUTY_SHIFTS_COLLECTION_ID,
+        shift.id,
+        payload,
+        staffReadPermissions()
+      );
+      return formatDutyShiftDocument(response);
+    } catch (error) {
+      if (error?.code === 409) {
+        return formatDutyShiftDocument(await databases.getDocument(DATABASE_ID, DUTY_SHIFTS_COLLECTION_ID, shift.id));
+      }
+      console.error("Error saving duty shift:", error);
+      throw error;
+    }
+  },
+
+  async getDutyShifts(filters = {}) {
+    try {
+      const filterQueries = [Query.orderAsc('started_at')];
+      if (filters.serverId) filterQueries.push(Query.equal('server_id', filters.serverId));
+      if (filters.from) filterQueries.push(Query.greaterThanEqual('started_at', filters.from));
+      if (filters.to) filterQueries.push(Query.lessThanEqual('started_at', filters.to));
+
+      // Paged so a long period still reports every shift for invoicing
+      const shifts = [];
+      let cursor = null;
+      while (true) {
+        const queries = [...filterQueries, Query.limit(100)];
+        if (cursor) queries.push(Query.cursorAfter(cursor));
+        const response = await databases.listDocuments(DATABASE_ID, DUTY_SHIFTS_COLLECTION_ID, queries);
+        shifts.push(...response.documents.map(formatDutyShiftDocument));
+        if (response.documents.length < 100) break;
+        cursor = response.documents[response.documents.length - 1].$id;
+      }
+      return shifts;
+    } catch (error) {
+      console.error("Error fetching duty shifts:", error);
+      return [];
+    }
+  },
+
+  // View URL for an image in the storage bucket, e.g. a mailing receipt
+  getImageViewUrl(fileId) {
+    return getServeImageUrl(fileId);
+  },
+
+  // Downloads a stored serve photo as a data URL, e.g. to check it against a capture hash
+  async getServeImageData(fileId) {
+    const response = await fetch(storage.getFileDownload(STORAGE_BUCKET_ID, fileId).href, {
+      credentials: 'include'
+    });
+    if (!response.ok) {
+      throw new Error(`Could not download photo (${response.status})`);
+    }
+    const blob = await response.blob();
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  },
+
   async deleteServeAttempt(serveId) {
     try {
       if (!serveId) {
@@ -608,8 +1607,23 @@ export const appwrite = {
       }
 
       console.log(`Attempting to delete serve attempt with ID: ${serveId}`);
+      const serveDoc = await databases.getDocument(DATABASE_ID, SERVE_ATTEMPTS_COLLECTION_ID, serveId);
+      // Logged first, so an attempt never disappears from its case without a trace
+      await this.appendCustodyEntry(serveDoc, "deleted");
       await databases.deleteDocument(DATABASE_ID, SERVE_ATTEMPTS_COLLECTION_ID, serveId);
       console.log(`Successfully deleted serve attempt with ID: ${serveId}`);
+
+      const fileIds = new Set([
+        serveDoc.image_file_id,
+        ...parseServePhotos(serveDoc.photos).flatMap(photo => [photo.fileId, photo.originalFileId]),
+      ].filter(Boolean));
+      for (const fileId of fileIds) {
+        try {
+          await storage.deleteFile(STORAGE_BUCKET_ID, fileId);
+        } catch (fileError) {
+          console.warn(`Could not delete photo ${fileId} for serve attempt ${serveId}:`, fileError);
+        }
+      }
       return true;
     } catch (error) {
       console.error(`Error deleting serve attempt ${serveId}:`, error);
@@ -675,21 +1689,8 @@ export const appwrite = {
         return false;
       }
 
-      const frontendServes = response.documents.map(doc => ({
-        id: doc.$id,
-        clientId: doc.client_id || "unknown",
-        clientName: doc.client_name || "Unknown Client",
-        caseNumber: doc.case_number || "Unknown",
-        caseName: doc.case_name || "Unknown Case",
-        coordinates: doc.coordinates || null,
-        notes: doc.notes || "",
-        status: doc.status || "unknown",
-        timestamp: doc.timestamp ? new Date(doc.timestamp) : new Date(),
-        attemptNumber: doc.attempt_number || 1,
-        // Only include image data for most recent 20 records
-        imageData: response.documents.indexOf(doc) < 20 ? (doc.image_data || null) : null,
-        address: doc.address || "",
-      }));
+      // Only include image data for most recent 20 records
+      const frontendServes = response.documents.map((doc, index) => formatServeDocument(doc, index < 20));
 
       // Check localStorage size before saving
       const dataString = JSON.stringify(frontendServes);
@@ -716,7 +1717,7 @@ export const appwrite = {
       const response = await databases.listDocuments(
         DATABASE_ID,
         CASES_COLLECTION_ID,
-        [Query.equal('client_id', clientId)]
+        [Query.equal('client_id', clientId), Query.limit(500)]
       );
       return response.documents;
     } catch (error) {
@@ -725,10 +1726,61 @@ export const appwrite = {
     }
   },
 
+  async getOpenCases() {
+    try {
+      const response = await databases.listDocuments(
+        DATABASE_ID,
+        CASES_COLLECTION_ID,
+        [Query.limit(500)]
+      );
+      return response.documents.filter(doc => isOpenCaseStatus(doc.status));
+    } catch (error) {
+      console.error('Error fetching open cases:', error);
+      return [];
+    }
+  },
+
+  async getAssignedCases(userId) {
+    try {
+      const response = await databases.listDocuments(
+        DATABASE_ID,
+        CASES_COLLECTION_ID,
+        [Query.equal('assigned_to', userId), Query.limit(500)]
+      );
+      return response.documents.filter(doc => isOpenCaseStatus(doc.status));
+    } catch (error) {
+      console.error(`Error fetching cases assigned to ${userId}:`, error);
+      return [];
+    }
+  },
+
+  async assignCase(caseId, assignment) {
+    try {
+      const response = await databases.updateDocument(
+        DATABASE_ID,
+        CASES_COLLECTION_ID,
+        caseId,
+        {
+          assigned_to: assignment.assignedTo || null,
+          assigned_to_name: assignment.assignedTo ? (assignment.assignedToName || "") : "",
+          assignment_due: assignment.assignedTo ? (assignment.dueDate || null) : null,
+          assignment_priority: assignment.priority || "routine",
+          assigned_at: assignment.assignedTo ? new Date().toISOString() : null,
+          updated_at: new Date().toISOString()
+        }
+      );
+      return response;
+    } catch (error) {
+      console.error('Error assigning case:', error);
+      throw error;
+    }
+  },
+
   async createClientCase(caseData) {
     try {
       const caseId = ID.unique();
       const now = new Date().toISOString();
+      const addresses = await geocodeCaseAddresses(caseData.addresses || []);
       const response = await databases.createDocument(
         DATABASE_ID,
         CASES_COLLECTION_ID,
@@ -738,13 +1790,19 @@ export const appwrite = {
           case_number: caseData.caseNumber,
           case_name: caseData.caseName,
           description: caseData.description || "",
-          status: caseData.status || "Pending",
-          home_address: caseData.homeAddress || "",
-          work_address: caseData.workAddress || "",
+          status: "new",
+          addresses: serializeCaseAddresses(addresses),
+          home_address: getPrimaryAddress(caseData.addresses || [], "home"),
+          work_address: getPrimaryAddress(caseData.addresses || [], "work"),
+          filing_date: caseData.filingDate || null,
+          court_date: caseData.courtDate || null,
+          service_deadline: caseData.serviceDeadline || null,
           created_at: now,
           updated_at: now
-        }
+        },
+        sharedRecordPermissions(caseData.clientId)
       );
+      await this.logCaseStatusChange(response.$id, null, "new", { note: "Case created" });
       return response;
     } catch (error) {
       console.error('Error creating case:', error);
@@ -754,6 +1812,7 @@ export const appwrite = {
 
   async updateClientCase(caseId, caseData) {
     try {
+      const addresses = await geocodeCaseAddresses(caseData.addresses || []);
       const response = await databases.updateDocument(
         DATABASE_ID,
         CASES_COLLECTION_ID,
@@ -762,9 +1821,12 @@ export const appwrite = {
           case_number: caseData.caseNumber,
           case_name: caseData.caseName || "",
           description: caseData.description || "",
-          home_address: caseData.homeAddress || "",
-          work_address: caseData.workAddress || "",
-          status: caseData.status,
+          addresses: serializeCaseAddresses(addresses),
+          home_address: getPrimaryAddress(caseData.addresses || [], "home"),
+          work_address: getPrimaryAddress(caseData.addresses || [], "work"),
+          filing_date: caseData.filingDate || null,
+          court_date: caseData.courtDate || null,
+          service_deadline: caseData.serviceDeadline || null,
           updated_at: new Date().toISOString()
         }
       );
@@ -775,8 +1837,157 @@ export const appwrite = {
     }
   },
 
+  // Stores positions found for a case's addresses without touching the rest of the case
+  // Caches geocoded positions on the case. Goes through the caseUpdates
+  // function, which keeps only the positions, since servers can't update cases
+  async saveCaseAddresses(caseId, addresses) {
+    try {
+      const located = addresses
+        .filter(entry => getAddressLocation(entry))
+        .map(entry => ({ id: entry.id, address: entry.address, location: entry.location }));
+      const result = await runCaseUpdate("save_case_addresses", { caseId, addresses: located });
+      return result.case;
+    } catch (error) {
+      console.error('Error saving case addresses:', error);
+      throw error;
+    }
+  },
+
+  // A newly captured receipt arrives as a data URL and is uploaded to the
+  // storage bucket; the case keeps only the file ID
+  async updateCaseMailing(caseId, mailing) {
+    try {
+      let receiptFileId = mailing.receiptFileId || "";
+      let replacedFileId = null;
+      if (mailing.receiptImage?.startsWith("data:")) {
+        const caseDoc = await databases.getDocument(DATABASE_ID, CASES_COLLECTION_ID, caseId);
+        ({ fileId: receiptFileId } = await uploadImageAndGetUrl(
+          mailing.receiptImage,
+          `mailing_receipt_${caseId}.jpg`,
+          sharedRecordPermissions(caseDoc.client_id)
+        ));
+        replacedFileId = caseDoc.mailing_receipt_file_id || null;
+      }
+
+      const response = await databases.updateDocument(
+        DATABASE_ID,
+        CASES_COLLECTION_ID,
+        caseId,
+        {
+          mailing_date: mailing.mailingDate || null,
+          mailing_class: mailing.mailingClass || "",
+          mailing_tracking_number: mailing.trackingNumber || "",
+          mailing_receipt_file_id: receiptFileId,
+          mailing_receipt_image: "",
+          updated_at: new Date().toISOString()
+        }
+      );
+
+      if (replacedFileId && replacedFileId !== receiptFileId) {
+        storage.deleteFile(STORAGE_BUCKET_ID, replacedFileId).catch(fileError =>
+          console.warn("Could not delete the replaced mailing receipt:", fileError)
+        );
+      }
+
+      const next = mailing.mailingDate ? getTransitionForMailing(response.status) : null;
+      if (next) {
+        return await this.updateCaseStatus(caseId, next, {
+          from: response.status,
+          note: "Follow-up mailing recorded",
+          automatic: true
+        });
+      }
+      return response;
+    } catch (error) {
+      console.error('Error updating case mailing:', error);
+      throw error;
+    }
+  },
+
+  async getCaseParties(caseId) {
+    try {
+      const response = await databases.listDocuments(
+        DATABASE_ID,
+        CASE_PARTIES_COLLECTION_ID,
+        [Query.equal('case_id', caseId), Query.orderAsc('created_at')]
+      );
+      return response.documents.map(formatCaseParty);
+    } catch (error) {
+      console.error(`Error fetching parties for case ${caseId}:`, error);
+      return [];
+    }
+  },
+
+  async createCaseParty(partyData) {
+    try {
+      const now = new Date().toISOString();
+      const response = await databases.createDocument(
+        DATABASE_ID,
+        CASE_PARTIES_COLLECTION_ID,
+        ID.unique(),
+        {
+          case_id: partyData.caseId,
+          client_id: partyData.clientId,
+          name: partyData.name,
+          role: partyData.role || "defendant",
+          home_address: partyData.homeAddress || "",
+          work_address: partyData.workAddress || "",
+          notes: partyData.notes || "",
+          created_at: now,
+          updated_at: now
+        },
+        sharedRecordPermissions(partyData.clientId)
+      );
+      return formatCaseParty(response);
+    } catch (error) {
+      console.error('Error creating case party:', error);
+      throw error;
+    }
+  },
+
+  async updateCaseParty(partyId, partyData) {
+    try {
+      const response = await databases.updateDocument(
+        DATABASE_ID,
+        CASE_PARTIES_COLLECTION_ID,
+        partyId,
+        {
+          name: partyData.name,
+          role: partyData.role || "defendant",
+          home_address: partyData.homeAddress || "",
+          work_address: partyData.workAddress || "",
+          notes: partyData.notes || "",
+          updated_at: new Date().toISOString()
+        }
+      );
+      return formatCaseParty(response);
+    } catch (error) {
+      console.error('Error updating case party:', error);
+      throw error;
+    }
+  },
+
+  async deleteCaseParty(partyId) {
+    try {
+      await databases.deleteDocument(
+        DATABASE_ID,
+        CASE_PARTIES_COLLECTION_ID,
+        partyId
+      );
+      return true;
+    } catch (error) {
+      console.error('Error deleting case party:', error);
+      throw error;
+    }
+  },
+
   async deleteClientCase(caseId) {
     try {
+      const parties = await this.getCaseParties(caseId);
+      for (const party of parties) {
+        await this.deleteCaseParty(party.id);
+      }
+
       await databases.deleteDocument(
         DATABASE_ID,
         CASES_COLLECTION_ID,
@@ -789,7 +2000,7 @@ export const appwrite = {
     }
   },
 
-  async updateCaseStatus(caseId, status) {
+  async updateCaseStatus(caseId, status, transition = {}) {
     try {
       const response = await databases.updateDocument(
         DATABASE_ID,
@@ -800,6 +2011,10 @@ export const appwrite = {
           updated_at: new Date().toISOString()
         }
       );
+      await this.logCaseStatusChange(caseId, transition.from || null, status, transition);
+      if (transition.automatic) {
+        window.dispatchEvent(new CustomEvent("cases-updated"));
+      }
       return response;
     } catch (error) {
       console.error('Error updating case status:', error);
@@ -807,13 +2022,68 @@ export const appwrite = {
     }
   },
 
+  // The log is an audit trail; a failed write should not undo the status change
+  async logCaseStatusChange(caseId, fromStatus, toStatus, { note = "", automatic = false } = {}) {
+    try {
+      const currentUser = await getCurrentUserSafe();
+      await databases.createDocument(
+        DATABASE_ID,
+        CASE_STATUS_LOG_COLLECTION_ID,
+        ID.unique(),
+        {
+          case_id: caseId,
+          from_status: fromStatus ? normalizeCaseStatus(fromStatus) : "",
+          to_status: toStatus,
+          user_id: currentUser?.$id || "",
+          user_name: currentUser ? (currentUser.name || currentUser.email) : "",
+          note: note,
+          automatic: automatic,
+          created_at: new Date().toISOString()
+        },
+        staffReadPermissions()
+      );
+    } catch (error) {
+      console.error('Error logging case status change:', error);
+    }
+  },
+
+  async getCaseStatusLog(caseId) {
+    try {
+      const response = await databases.listDocuments(
+        DATABASE_ID,
+        CASE_STATUS_LOG_COLLECTION_ID,
+        [Query.equal('case_id', caseId), Query.orderDesc('created_at'), Query.limit(100)]
+      );
+      return response.documents.map(formatStatusLogDocument);
+    } catch (error) {
+      console.error(`Error fetching status log for case ${caseId}:`, error);
+      return [];
+    }
+  },
+
+  // Moves the attempt's case along the workflow when the outcome calls for it.
+  // Servers can't update cases, so the caseUpdates function makes the move
+  async advanceCaseForServe(serveDoc) {
+    try {
+      const result = await runCaseUpdate("advance_for_serve", { serveId: serveDoc.$id });
+      if (result.case) {
+        window.dispatchEvent(new CustomEvent("cases-updated"));
+      }
+      return result.case;
+    } catch (error) {
+      console.error('Error advancing case status for serve:', error);
+      throw error;
+    }
+  },
+
   async uploadClientDocument(clientId, file, caseNumber, description) {
     try {
       const fileId = ID.unique();
       const fileUploadResponse = await storage.createFile(
         STORAGE_BUCKET_ID,
         fileId,
-        file
+        file,
+        sharedRecordPermissions(clientId)
       );
       
       const docId = ID.unique();
@@ -831,7 +2101,8 @@ export const appwrite = {
           file_path: fileId,
           description: description || "",
           created_at: now
-        }
+        },
+        sharedRecordPermissions(clientId)
       );
       return document;
     } catch (error) {
@@ -0,0 +1,145 @@
+import React, { useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { appwrite } from "@/lib/appwrite";
+import { UserPlus, Loader2 } from "lucide-react";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+export default function AcceptInvitePage() {
+  const [searchParams] = useSearchParams();
+  const teamId = searchParams.get("teamId");
+  const membershipId = searchParams.get("membershipId");
+  const userId = searchParams.get("userId");
+  const secret = searchParams.get("secret");
+  const isValidLink = !!(teamId && membershipId && userId && secret);
+
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { refresh } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      toast({
+        title: "Password too short",
+        description: `Use at least ${MIN_PASSWORD_LENGTH} characters`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      toast({
+        title: "Passwords do not match",
+        description: "Please re-enter the same password twice",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await appwrite.acceptInvitation(teamId, membershipId, userId, secret, name.trim(), password);
+      await refresh();
+      toast({
+        title: "Account created",
+        description: "Welcome to ServeTracker",
+        variant: "success"
+      });
+      navigate('/dashboard');
+    } catch (error) {
+      toast({
+        title: "Could not accept invitation",
+        description: error instanceof Error ? error.message : "The invitation may have expired",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-2xl flex items-center gap-2">
+            <UserPlus className="h-5 w-5" /> Accept Invitation
+          </CardTitle>
+          <CardDescription>
+            Set up your ServeTracker account
+          </CardDescription>
+        </CardHeader>
+
+        {!isValidLink ? (
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              This invitation link is incomplete. Ask your administrator to send a new one.
+            </p>
+            <Link to="/login" className="text-sm text-primary hover:underline">
+              Back to login
+            </Link>
+          </CardContent>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <label htmlFor="invite-name" className="text-sm font-medium">
+                  Full Name
+                </label>
+                <Input
+                  id="invite-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g., Jane Smith"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <label htmlFor="invite-password" className="text-sm font-medium">
+                  Password
+                </label>
+                <Input
+                  id="invite-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <label htmlFor="invite-confirm-password" className="text-sm font-medium">
+                  Confirm Password
+                </label>
+                <Input
+                  id="invite-confirm-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                />
+              </div>
+            </CardContent>
+            <CardFooter>
+              <Button className="w-full" type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Create Account
+              </Button>
+            </CardFooter>
+          </form>
+        )}
+      </Card>
+    </div>
+  );
+}
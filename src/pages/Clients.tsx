@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { PlusCircle, Users, Pencil, Trash2, UserCheck, ArrowLeft } from "lucide-react";
 import ClientForm, { ClientData } from "@/components/ClientForm";
@@ -33,6 +34,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { appwrite } from "@/lib/appwrite";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 
 interface ClientsProps {
   clients: ClientData[];
@@ -54,6 +56,19 @@ const Clients: React.FC<ClientsProps> = ({
   const [selectedClient, setSelectedClient] = useState<ClientData | null>(null);
   const [isDetailView, setIsDetailView] = useState(false);
   const { toast } = useToast();
+  const { can } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedClientId = searchParams.get("client");
+
+  // Links from elsewhere in the app (e.g. the map) open a client's cases directly
+  useEffect(() => {
+    if (!linkedClientId) return;
+    const client = clients.find(c => c.id === linkedClientId);
+    if (client) {
+      setSelectedClient(client);
+      setIsDetailView(true);
+    }
+  }, [linkedClientId, clients]);
 
   const handleAddClient = async (client: ClientData) => {
     setIsLoading(true);
@@ -138,6 +153,7 @@ const Clients: React.FC<ClientsProps> = ({
   const handleBackToList = () => {
     setSelectedClient(null);
     setIsDetailView(false);
+    if (linkedClientId) setSearchParams({});
   };
 
   const filteredClients = clients.filter(client => 
@@ -162,42 +178,45 @@ const Clients: React.FC<ClientsProps> = ({
             <h1 className="text-2xl font-bold">{selectedClient.name}</h1>
           </div>
           
-          <AlertDialog>
-            <AlertDialogTrigger asChild>
-              <Button 
-                variant="outline" 
-                className="text-destructive hover:bg-destructive/10 mt-2 sm:mt-0"
-                onClick={() => setDeleteClientId(selectedClient.id)}
-              >
-                <Trash2 className="h-4 w-4 mr-2" />
-                Delete Client
-              </Button>
-            </AlertDialogTrigger>
-            <AlertDialogContent className="max-h-[90vh] overflow-y-auto">
-              <AlertDialogHeader>
-                <AlertDialogTitle>Delete Client</AlertDialogTitle>
-                <AlertDialogDescription>
-                  Are you sure you want to delete this client? This action will also remove all serve attempts, documents, and cases associated with this client. This action cannot be undone.
-                </AlertDialogDescription>
-              </AlertDialogHeader>
-              <AlertDialogFooter className="flex-col sm:flex-row gap-2">
-                <AlertDialogCancel onClick={() => setDeleteClientId(null)}>Cancel</AlertDialogCancel>
-                <AlertDialogAction 
-                  onClick={handleDeleteConfirm}
-                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                  disabled={isLoading}
+          {can("client:delete") && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button 
+                  variant="outline" 
+                  className="text-destructive hover:bg-destructive/10 mt-2 sm:mt-0"
+                  onClick={() => setDeleteClientId(selectedClient.id)}
                 >
-                  {isLoading ? "Deleting..." : "Delete"}
-                </AlertDialogAction>
-              </AlertDialogFooter>
-            </AlertDialogContent>
-          </AlertDialog>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete Client
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent className="max-h-[90vh] overflow-y-auto">
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete Client</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Are you sure you want to delete this client? This action will also remove all serve attempts, documents, and cases associated with this client. This action cannot be undone.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter className="flex-col sm:flex-row gap-2">
+                  <AlertDialogCancel onClick={() => setDeleteClientId(null)}>Cancel</AlertDialogCancel>
+                  <AlertDialogAction 
+                    onClick={handleDeleteConfirm}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    disabled={isLoading}
+                  >
+                    {isLoading ? "Deleting..." : "Delete"}
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
         </div>
         
         <ClientDetail 
           client={selectedClient} 
           onUpdate={handleUpdateClient}
           onBack={handleBackToList}
+          initialTab={linkedClientId === selectedClient.id ? "cases" : undefined}
         />
       </div>
     );
@@ -225,23 +244,25 @@ const Clients: React.FC<ClientsProps> = ({
           </div>
         </div>
         
-        <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <PlusCircle className="mr-2 h-4 w-4" />
-              Add Client
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Add New Client</DialogTitle>
-              <DialogDescription>
-                Enter client details to create a new record
-              </DialogDescription>
-            </DialogHeader>
-            <ClientForm onSubmit={handleAddClient} isLoading={isLoading} />
-          </DialogContent>
-        </Dialog>
+        {can("client:create") && (
+          <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <PlusCircle className="mr-2 h-4 w-4" />
+                Add Client
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Add New Client</DialogTitle>
+                <DialogDescription>
+                  Enter client details to create a new record
+                </DialogDescription>
+              </DialogHeader>
+              <ClientForm onSubmit={handleAddClient} isLoading={isLoading} />
+            </DialogContent>
+          </Dialog>
+        )}
       </div>
 
       {clients.length === 0 ? (
@@ -254,10 +275,12 @@ const Clients: React.FC<ClientsProps> = ({
             <CardDescription className="mb-4">
               Add your first client to get started
             </CardDescription>
-            <Button onClick={() => setIsAddDialogOpen(true)}>
-              <PlusCircle className="mr-2 h-4 w-4" />
-              Add Client
-            </Button>
+            {can("client:create") && (
+              <Button onClick={() => setIsAddDialogOpen(true)}>
+                <PlusCircle className="mr-2 h-4 w-4" />
+                Add Client
+              </Button>
+            )}
           </CardContent>
         </Card>
       ) : (
@@ -25,10 +25,16 @@ import { ClientData } from "@/components/ClientForm";
 import ServeHistory from "@/components/ServeHistory";
 import EditServeDialog from "@/components/EditServeDialog";
 import MemoryMonitor from "@/components/MemoryMonitor";
+import OutstandingMailings from "@/components/OutstandingMailings";
+import CaseDeadlines from "@/components/CaseDeadlines";
+import MyQueue from "@/components/MyQueue";
 import { appwrite } from "@/lib/appwrite";
 import { useToast } from "@/hooks/use-toast";
 import { normalizeServeDataArray } from "@/utils/dataNormalization";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useAuth } from "@/hooks/use-auth";
+import { canEditServe } from "@/utils/permissions";
+import { ServeOutcome, getOutcomeLabel, getStatusForOutcome, resolveOutcome } from "@/utils/serveOutcomes";
 
 interface DashboardProps {
   clients: ClientData[];
@@ -38,6 +44,7 @@ interface DashboardProps {
 const Dashboard: React.FC<DashboardProps> = ({ clients }) => {
   const { toast } = useToast();
   const isMobile = useIsMobile();
+  const { user, role, can } = useAuth();
   const [recentServes, setRecentServes] = useState<ServeAttemptData[]>([]);
   const [editingServe, setEditingServe] = useState<ServeAttemptData | null>(null);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
@@ -45,6 +52,7 @@ const Dashboard: React.FC<DashboardProps> = ({ clients }) => {
   const [completedCount, setCompletedCount] = useState(0);
   const [pendingCount, setPendingCount] = useState(0);
   const [todayCount, setTodayCount] = useState(0);
+  const [outcomeCounts, setOutcomeCounts] = useState<Partial<Record<ServeOutcome, number>>>({});
 
   // Fetch only recent serves for dashboard (limit to 6 to prevent memory issues)
   useEffect(() => {
@@ -63,10 +71,14 @@ const Dashboard: React.FC<DashboardProps> = ({ clients }) => {
           setRecentServes(normalizedServes);
           
           // Calculate stats from recent serves only
-          const completed = normalizedServes.filter(serve => serve.status === "completed").length;
-          const pending = normalizedServes.filter(serve => serve.status === "failed").length;
+          const outcomes = normalizedServes.map(serve => resolveOutcome(serve));
+          const completed = outcomes.filter(outcome => getStatusForOutcome(outcome) === "completed").length;
           setCompletedCount(completed);
-          setPendingCount(pending);
+          setPendingCount(outcomes.length - completed);
+          setOutcomeCounts(outcomes.reduce((counts, outcome) => {
+            counts[outcome] = (counts[outcome] || 0) + 1;
+            return counts;
+          }, {} as Partial<Record<ServeOutcome, number>>));
           
           // Get today's serves from recent data
           const today = new Date();
@@ -117,7 +129,7 @@ const Dashboard: React.FC<DashboardProps> = ({ clients }) => {
     console.log("Dashboard: Saving updated serve:", updatedServe);
     try {
       // Update using the appwrite utility function
-      await appwrite.updateServeAttempt(updatedServe.id, updatedServe);
+      const savedServe = await appwrite.updateServeAttempt(updatedServe.id, updatedServe);
       
       console.log("Dashboard: Successfully updated serve in Appwrite");
       
@@ -133,6 +145,14 @@ const Dashboard: React.FC<DashboardProps> = ({ clients }) => {
         description: "Service attempt has been updated successfully",
         variant: "default",
       });
+
+      if (savedServe.caseUpdateFailed) {
+        toast({
+          title: "Case status not updated",
+          description: "The attempt was updated, but its case could not be moved along. Update the status from the case page.",
+          variant: "warning",
+        });
+      }
       
       return true;
     } catch (error) {
@@ -225,6 +245,13 @@ const Dashboard: React.FC<DashboardProps> = ({ clients }) => {
                 {pendingCount} Pending
               </div>
             </div>
+            {Object.keys(outcomeCounts).length > 0 && (
+              <p className="text-xs text-muted-foreground mt-2">
+                {Object.entries(outcomeCounts)
+                  .map(([outcome, count]) => `${getOutcomeLabel(outcome)}: ${count}`)
+                  .join(" · ")}
+              </p>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -249,6 +276,8 @@ const Dashboard: React.FC<DashboardProps> = ({ clients }) => {
               serves={recentServes} 
               clients={clients} 
               onEdit={handleEditServe}
+              canEdit={(serve) => canEditServe(role, user?.$id, serve.ownerId)}
+            allowAffidavit={can("document:upload")}
             />
           ) : (
             <Card className="neo-card">
@@ -260,12 +289,14 @@ const Dashboard: React.FC<DashboardProps> = ({ clients }) => {
                 <CardDescription className="mb-4 text-xs md:text-sm">
                   Start a new serve attempt to create your first record
                 </CardDescription>
-                <Link to="/new-serve">
-                  <Button>
-                    <Camera className="mr-2 h-4 w-4" />
-                    New Serve Attempt
-                  </Button>
-                </Link>
+                {can("serve:create") && (
+                  <Link to="/new-serve">
+                    <Button>
+                      <Camera className="mr-2 h-4 w-4" />
+                      New Serve Attempt
+                    </Button>
+                  </Link>
+                )}
               </CardContent>
             </Card>
           )}
@@ -273,24 +304,30 @@ const Dashboard: React.FC<DashboardProps> = ({ clients }) => {
 
         
         <div className="space-y-4 md:space-y-6">
+          <MyQueue clients={clients} />
+          <CaseDeadlines clients={clients} />
+          <OutstandingMailings />
+          
           <h2 className="text-lg md:text-xl font-semibold tracking-tight">Quick Actions</h2>
           
           <div className="space-y-3 md:space-y-4">
-            <Link to="/new-serve" className="block">
-              <Card className="hover:bg-accent transition-colors">
-                <CardContent className="py-4 md:py-6 flex items-center gap-4">
-                  <div className="p-3 rounded-full bg-primary/10 text-primary">
-                    <Camera className="h-5 w-5" />
-                  </div>
-                  <div>
-                    <CardTitle className="text-base">New Serve Attempt</CardTitle>
-                    <CardDescription className="text-xs">
-                      Capture photo with GPS data
-                    </CardDescription>
-                  </div>
-                </CardContent>
-              </Card>
-            </Link>
+            {can("serve:create") && (
+              <Link to="/new-serve" className="block">
+                <Card className="hover:bg-accent transition-colors">
+                  <CardContent className="py-4 md:py-6 flex items-center gap-4">
+                    <div className="p-3 rounded-full bg-primary/10 text-primary">
+                      <Camera className="h-5 w-5" />
+                    </div>
+                    <div>
+                      <CardTitle className="text-base">New Serve Attempt</CardTitle>
+                      <CardDescription className="text-xs">
+                        Capture photo with GPS data
+                      </CardDescription>
+                    </div>
+                  </CardContent>
+                </Card>
+              </Link>
+            )}
             
             <Link to="/clients" className="block">
               <Card className="hover:bg-accent transition-colors">
@@ -9,6 +9,61 @@ import { Calendar as CalendarIcon, FileSpreadsheet, ArrowLeft, Loader2, Download
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import { appwrite } from "@/lib/appwrite";
+import { getOutcomeLabel } from "@/utils/serveOutcomes";
+import { formatRecipientDescription } from "@/utils/recipientDescription";
+import { normalizeServeDataArray } from "@/utils/dataNormalization";
+import { metersToMiles } from "@/utils/format";
+import { toCsv } from "@/utils/csv";
+import { safeFormatCoordinates } from "@/utils/gps";
+import { ServeAttemptData } from "@/components/ServeAttempt";
+
+type CsvCell = string | number | undefined;
+
+// One column per value; structured fields are flattened so no cell holds an object
+const SERVE_COLUMNS: { header: string; value: (serve: ServeAttemptData) => CsvCell }[] = [
+  { header: "ID", value: serve => serve.id },
+  { header: "Client", value: serve => serve.clientName },
+  { header: "Case Number", value: serve => serve.caseNumber },
+  { header: "Case Name", value: serve => serve.caseName },
+  { header: "Party", value: serve => serve.partyName },
+  { header: "Address", value: serve => serve.address },
+  { header: "Timestamp", value: serve => serve.timestamp.toISOString() },
+  { header: "Attempt Number", value: serve => serve.attemptNumber },
+  { header: "Outcome", value: serve => getOutcomeLabel(serve.outcome) },
+  { header: "Status", value: serve => serve.status },
+  { header: "Recipient Description", value: serve => formatRecipientDescription(serve.recipientDescription) },
+  { header: "Notes", value: serve => serve.notes },
+  { header: "Server", value: serve => serve.serverName },
+  { header: "Device", value: serve => serve.deviceInfo },
+  { header: "Coordinates", value: serve => (serve.coordinates ? safeFormatCoordinates(serve.coordinates) : "") },
+  { header: "GPS Accuracy (m)", value: serve => serve.gpsFix?.accuracy },
+  { header: "GPS Source", value: serve => serve.gpsFix?.source },
+  { header: "GPS Address", value: serve => serve.gpsAddress },
+  { header: "Distance From Address (m)", value: serve => serve.geofence?.distance },
+  { header: "Geofence Radius (m)", value: serve => serve.geofence?.radius },
+  { header: "Geofence Flagged", value: serve => (serve.geofence ? (serve.geofence.flagged ? "Yes" : "No") : "") },
+  { header: "Geofence Override Note", value: serve => serve.geofence?.overrideNote },
+  { header: "Photo Count", value: serve => serve.photos?.length || (serve.imageUrl ? 1 : 0) },
+  {
+    header: "Photo URLs",
+    value: serve => serve.photos?.length
+      ? serve.photos.map(photo => photo.url).filter(Boolean).join(" | ")
+      : serve.imageUrl,
+  },
+  { header: "Capture Hash", value: serve => serve.captureHash },
+  { header: "Record Hash", value: serve => serve.recordHash },
+  { header: "Shift ID", value: serve => serve.shiftId },
+  {
+    header: "Miles Since Previous Attempt",
+    value: serve => (serve.trailDistance === undefined ? "" : metersToMiles(serve.trailDistance).toFixed(2)),
+  },
+];
+
+const convertToCSV = (serves: ServeAttemptData[]): string =>
+  toCsv(
+    SERVE_COLUMNS.map(column => column.header),
+    serves.map(serve => SERVE_COLUMNS.map(column => column.value(serve)))
+  );
 
 const DataExport: React.FC = () => {
   const navigate = useNavigate();
@@ -33,7 +88,7 @@ const DataExport: React.FC = () => {
       }
 
       // Convert serve attempts to CSV format
-      const csvContent = convertToCSV(serveAttempts);
+      const csvContent = convertToCSV(normalizeServeDataArray(serveAttempts));
 
       // Create a downloadable file
       const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
@@ -101,7 +156,7 @@ const DataExport: React.FC = () => {
       }
 
       // Convert serve attempts to CSV format
-      const csvContent = convertToCSV(filteredAttempts);
+      const csvContent = convertToCSV(normalizeServeDataArray(filteredAttempts));
 
       // Create a downloadable file
       const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
@@ -131,16 +186,6 @@ const DataExport: React.FC = () => {
     }
   };
 
-  const convertToCSV = (data: any[]) => {
-    const headers = Object.keys(data[0]).join(",");
-    const rows = data.map((row) =>
-      Object.values(row)
-        .map((value) => `"${value}"`)
-        .join(",")
-    );
-    return [headers, ...rows].join("\n");
-  };
-
   return (
     <div className="page-container">
       <div className="mb-8">
@@ -0,0 +1,284 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Models } from "appwrite";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { AlertTriangle, Inbox, Loader2, RefreshCw, Truck, User } from "lucide-react";
+import { ClientData } from "@/components/ClientForm";
+import { appwrite } from "@/lib/appwrite";
+import {
+  ASSIGNMENT_PRIORITIES,
+  AssignmentPriority,
+  CaseAssignment,
+  compareAssignments,
+  getCaseAssignment,
+  getPriorityClass,
+  getPriorityLabel,
+  isAssignmentOverdue,
+} from "@/utils/caseAssignment";
+import { getCaseStatusClass, getCaseStatusLabel } from "@/utils/caseWorkflow";
+import { fromDateInputValue, toDateInputValue } from "@/utils/caseDeadlines";
+import { getEffectiveRole } from "@/utils/permissions";
+
+const UNASSIGNED = "unassigned";
+
+interface DispatchCase {
+  $id: string;
+  client_id: string;
+  case_number: string;
+  case_name?: string | null;
+  status: string;
+  assignment: CaseAssignment;
+}
+
+interface DispatchProps {
+  clients: ClientData[];
+}
+
+interface DispatchRowProps {
+  caseItem: DispatchCase;
+  clientName: string;
+  servers: Models.Membership[];
+  onAssigned: () => void;
+}
+
+const DispatchRow: React.FC<DispatchRowProps> = ({ caseItem, clientName, servers, onAssigned }) => {
+  const [assignedTo, setAssignedTo] = useState(caseItem.assignment.assignedTo || UNASSIGNED);
+  const [priority, setPriority] = useState<AssignmentPriority>(caseItem.assignment.priority);
+  const [dueDate, setDueDate] = useState(toDateInputValue(caseItem.assignment.dueDate));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isDirty =
+    assignedTo !== (caseItem.assignment.assignedTo || UNASSIGNED) ||
+    priority !== caseItem.assignment.priority ||
+    dueDate !== toDateInputValue(caseItem.assignment.dueDate);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const server = servers.find(member => member.userId === assignedTo);
+      await appwrite.assignCase(caseItem.$id, {
+        assignedTo: assignedTo === UNASSIGNED ? undefined : assignedTo,
+        assignedToName: server ? (server.userName || server.userEmail) : undefined,
+        dueDate: fromDateInputValue(dueDate),
+        priority,
+      });
+      window.dispatchEvent(new CustomEvent("cases-updated"));
+      toast.success(assignedTo === UNASSIGNED ? "Assignment cleared" : "Case assigned");
+      onAssigned();
+    } catch (error) {
+      console.error("Error assigning case:", error);
+      toast.error("Error assigning case", {
+        description: "There was a problem saving the assignment."
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm font-medium truncate">{caseItem.case_name || caseItem.case_number}</p>
+          <p className="text-xs text-muted-foreground truncate">
+            {clientName} · Case #{caseItem.case_number}
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          <span className={`text-xs px-2 py-0.5 rounded-full ${getPriorityClass(caseItem.assignment.priority)}`}>
+            {getPriorityLabel(caseItem.assignment.priority)}
+          </span>
+          <span className={`text-xs px-2 py-0.5 rounded-full ${getCaseStatusClass(caseItem.status)}`}>
+            {getCaseStatusLabel(caseItem.status)}
+          </span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-[1fr_130px_150px_auto] gap-2">
+        <Select value={assignedTo} onValueChange={setAssignedTo}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue placeholder="Assign to" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+            {servers.map((member) => (
+              <SelectItem key={member.$id} value={member.userId}>
+                {member.userName || member.userEmail}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={priority} onValueChange={(value) => setPriority(value as AssignmentPriority)}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ASSIGNMENT_PRIORITIES.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          value={dueDate}
+          onChange={(e) => setDueDate(e.target.value)}
+          className="h-8 text-xs"
+        />
+        <Button size="sm" className="h-8" onClick={handleSave} disabled={!isDirty || isSaving}>
+          {isSaving && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const Dispatch: React.FC<DispatchProps> = ({ clients }) => {
+  const [cases, setCases] = useState<DispatchCase[]>([]);
+  const [servers, setServers] = useState<Models.Membership[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchBoard = async () => {
+    setIsLoading(true);
+    try {
+      const [openCases, members] = await Promise.all([
+        appwrite.getOpenCases(),
+        appwrite.listTeamMembers(),
+      ]);
+      setCases(openCases.map((doc) => ({
+        $id: doc.$id,
+        client_id: doc.client_id,
+        case_number: doc.case_number,
+        case_name: doc.case_name,
+        status: doc.status,
+        assignment: getCaseAssignment(doc),
+      })));
+      setServers(members.filter(member => getEffectiveRole(member.roles) !== "client"));
+    } catch (error) {
+      console.error("Error loading dispatch board:", error);
+      toast.error("Error loading dispatch board");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBoard();
+  }, []);
+
+  const getClientName = (clientId: string) =>
+    clients.find(client => client.id === clientId)?.name || "Unknown Client";
+
+  const board = useMemo(() => {
+    const sorted = [...cases].sort((a, b) => compareAssignments(a.assignment, b.assignment));
+    const overdue = sorted.filter(c => c.assignment.assignedTo && isAssignmentOverdue(c.assignment));
+    const unassigned = sorted.filter(c => !c.assignment.assignedTo);
+    const queues = servers
+      .map(member => ({
+        member,
+        cases: sorted.filter(c => c.assignment.assignedTo === member.userId && !isAssignmentOverdue(c.assignment)),
+      }))
+      .filter(queue => queue.cases.length > 0);
+    return { overdue, unassigned, queues };
+  }, [cases, servers]);
+
+  const renderRows = (rows: DispatchCase[]) =>
+    rows.map((caseItem) => (
+      <DispatchRow
+        key={caseItem.$id}
+        caseItem={caseItem}
+        clientName={getClientName(caseItem.client_id)}
+        servers={servers}
+        onAssigned={fetchBoard}
+      />
+    ));
+
+  return (
+    <div className="page-container">
+      <div className="flex flex-wrap justify-between items-center mb-4">
+        <h1 className="text-3xl font-bold tracking-tight">Dispatch</h1>
+        <Button variant="outline" onClick={fetchBoard} disabled={isLoading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <p className="mb-8 text-muted-foreground">
+        Assign open cases to process servers with a priority and due date
+      </p>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading cases...
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {board.overdue.length > 0 && (
+            <Card className="border-red-200">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base flex items-center gap-2 text-destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  Overdue ({board.overdue.length})
+                </CardTitle>
+                <CardDescription>Assigned cases past their due date</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {renderRows(board.overdue)}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <Inbox className="h-4 w-4" />
+                Unassigned ({board.unassigned.length})
+              </CardTitle>
+              <CardDescription>Open cases waiting for a server</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {board.unassigned.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Every open case has been assigned.</p>
+              ) : (
+                renderRows(board.unassigned)
+              )}
+            </CardContent>
+          </Card>
+
+          {board.queues.map(({ member, cases: queue }) => (
+            <Card key={member.$id}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <User className="h-4 w-4" />
+                  {member.userName || member.userEmail} ({queue.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {renderRows(queue)}
+              </CardContent>
+            </Card>
+          ))}
+
+          {board.queues.length === 0 && board.overdue.length === 0 && (
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              <Truck className="h-4 w-4" />
+              No cases are assigned yet.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Dispatch;
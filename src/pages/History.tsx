@@ -11,6 +11,16 @@ import EditServeDialog from "@/components/EditServeDialog";
 import { appwrite } from "@/lib/appwrite";
 import { normalizeServeDataArray, addClientNamesToServes } from "@/utils/dataNormalization";
 import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/use-auth";
+import { canEditServe, getEffectiveRole } from "@/utils/permissions";
+import { Models } from "appwrite";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Pagination,
   PaginationContent,
@@ -28,6 +38,7 @@ interface HistoryProps {
 }
 
 const SERVES_PER_PAGE = 20; // Limit to 20 serves per page to prevent memory issues
+const ALL_SERVERS = "all";
 
 const History: React.FC<HistoryProps> = ({ 
   clients, 
@@ -41,16 +52,32 @@ const History: React.FC<HistoryProps> = ({
   const [localServes, setLocalServes] = useState<ServeAttemptData[]>([]);
   const [currentPage, setCurrentPage] = useState(1);
   const [totalServes, setTotalServes] = useState(0);
+  const [serverFilter, setServerFilter] = useState(ALL_SERVERS);
+  const [servers, setServers] = useState<Models.Membership[]>([]);
   const { toast } = useToast();
+  const { user, role, can } = useAuth();
 
   // Calculate pagination
   const totalPages = Math.ceil(totalServes / SERVES_PER_PAGE);
   const offset = (currentPage - 1) * SERVES_PER_PAGE;
 
+  // Load the process servers that can appear in the filter
+  useEffect(() => {
+    const loadServers = async () => {
+      try {
+        const members = await appwrite.listTeamMembers();
+        setServers(members.filter(member => getEffectiveRole(member.roles) !== "client"));
+      } catch (error) {
+        console.error("Error loading servers for filter:", error);
+      }
+    };
+    loadServers();
+  }, []);
+
   // Fetch paginated serves
   useEffect(() => {
     fetchServeHistory();
-  }, [currentPage, clients]);
+  }, [currentPage, clients, serverFilter]);
 
   const fetchServeHistory = async () => {
     try {
@@ -58,7 +85,8 @@ const History: React.FC<HistoryProps> = ({
       setIsSyncing(true);
       
       // Fetch paginated serves from Appwrite
-      const appwriteServes = await appwrite.getServeAttempts(SERVES_PER_PAGE, offset);
+      const filters = serverFilter === ALL_SERVERS ? {} : { serverId: serverFilter };
+      const appwriteServes = await appwrite.getServeAttempts(SERVES_PER_PAGE, offset, filters);
       console.log("Fetched serves:", appwriteServes?.length || 0);
       
       if (appwriteServes && appwriteServes.length > 0) {
@@ -70,7 +98,7 @@ const History: React.FC<HistoryProps> = ({
         // Get total count for pagination (only fetch once)
         if (currentPage === 1) {
           try {
-            const totalCount = await appwrite.getTotalServeAttemptsCount();
+            const totalCount = await appwrite.getTotalServeAttemptsCount(filters);
             setTotalServes(totalCount);
           } catch (error) {
             console.error("Error getting total count:", error);
@@ -177,6 +205,11 @@ const History: React.FC<HistoryProps> = ({
     }
   };
 
+  const handleServerFilterChange = (value: string) => {
+    setCurrentPage(1);
+    setServerFilter(value);
+  };
+
   return (
     <div className="page-container">
       <MemoryMonitor />
@@ -192,19 +225,34 @@ const History: React.FC<HistoryProps> = ({
             <RefreshCw className={`mr-2 h-4 w-4 ${isSyncing ? 'animate-spin' : ''}`} />
             Refresh
           </Button>
-          <Button 
-            variant="outline" 
-            onClick={() => navigate("/export")}
-          >
-            Export
-          </Button>
+          {can("data:export") && (
+            <Button 
+              variant="outline" 
+              onClick={() => navigate("/export")}
+            >
+              Export
+            </Button>
+          )}
         </div>
       </div>
 
-      <div className="mb-8">
+      <div className="mb-8 flex flex-wrap items-center justify-between gap-4">
         <p className="text-muted-foreground">
           View your serve history and outcomes (Page {currentPage} of {totalPages}, Total: {totalServes})
         </p>
+        <Select value={serverFilter} onValueChange={handleServerFilterChange}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue placeholder="Filter by server" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_SERVERS}>All servers</SelectItem>
+            {servers.map((member) => (
+              <SelectItem key={member.$id} value={member.userId}>
+                {member.userName || member.userEmail}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </div>
 
       {isSyncing ? (
@@ -226,17 +274,21 @@ const History: React.FC<HistoryProps> = ({
           <p className="mb-6 text-muted-foreground">
             Create your first serve attempt to see your history here
           </p>
-          <Button onClick={() => navigate("/new-serve")}>
-            Create Serve Attempt
-          </Button>
+          {can("serve:create") && (
+            <Button onClick={() => navigate("/new-serve")}>
+              Create Serve Attempt
+            </Button>
+          )}
         </div>
       ) : (
         <>
           <ServeHistory 
             serves={localServes} 
             clients={clients} 
-            onDelete={handleDelete}
-            onEdit={handleEditServe} 
+            onDelete={can("serve:delete") ? handleDelete : undefined}
+            onEdit={handleEditServe}
+            canEdit={(serve) => canEditServe(role, user?.$id, serve.ownerId)}
+            allowAffidavit={can("document:upload")}
           />
           
           {/* Pagination */}
@@ -7,22 +7,24 @@ import { useToast } from "@/hooks/use-toast";
 import { testEmailFunctionality } from "@/utils/testEmail";
 import { Loader2, Mail, CheckCircle, XCircle } from "lucide-react";
 import { isAppwriteConfigured } from "@/config/backendConfig";
+import { useAuth } from "@/hooks/use-auth";
 
 export default function Index() {
   const [sending, setSending] = useState(false);
   const [result, setResult] = useState<any>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { user, isLoading } = useAuth();
 
   useEffect(() => {
-    const isAuthenticated = localStorage.getItem("serve-tracker-auth") === "authenticated";
-    
-    if (isAuthenticated) {
+    if (isLoading) return;
+
+    if (user) {
       navigate('/dashboard');
     } else {
       navigate('/login');
     }
-  }, [navigate]);
+  }, [navigate, user, isLoading]);
 
   const handleSendTestMessage = async () => {
     if (sending) return;
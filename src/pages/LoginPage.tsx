@@ -1,49 +1,50 @@
 
 import React, { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { Lock } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { Lock, Loader2 } from "lucide-react";
 
 export default function LoginPage() {
+  const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { user, login } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
 
-  // Check if user is already authenticated
+  // Skip the form if a valid session already exists
   useEffect(() => {
-    const auth = localStorage.getItem("serve-tracker-auth");
-    if (auth === "authenticated") {
-      setIsAuthenticated(true);
+    if (user) {
       navigate('/dashboard');
     }
-  }, [navigate]);
+  }, [user, navigate]);
 
-  const handleLogin = (e: React.FormEvent) => {
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    // Check password
-    if (password === "Password") {
-      // Set authentication in localStorage
-      localStorage.setItem("serve-tracker-auth", "authenticated");
-      setIsAuthenticated(true);
-      
+    setIsSubmitting(true);
+
+    try {
+      await login(email.trim(), password);
+
       toast({
         title: "Login successful",
         description: "Welcome to ServeTracker",
         variant: "default"
       });
-      
+
       navigate('/dashboard');
-    } else {
+    } catch (error) {
       toast({
         title: "Authentication failed",
-        description: "Incorrect password",
+        description: error instanceof Error ? error.message : "Incorrect email or password",
         variant: "destructive"
       });
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
@@ -55,19 +56,39 @@ export default function LoginPage() {
             <Lock className="h-5 w-5" /> ServeTracker Login
           </CardTitle>
           <CardDescription>
-            Enter your password to access the application
+            Sign in with the account you were invited with
           </CardDescription>
         </CardHeader>
-        
+
         <form onSubmit={handleLogin}>
           <CardContent className="space-y-4">
             <div className="space-y-2">
-              <label htmlFor="password" className="text-sm font-medium">
-                Password
+              <label htmlFor="email" className="text-sm font-medium">
+                Email
               </label>
+              <Input
+                id="email"
+                type="email"
+                autoComplete="username"
+                placeholder="you@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <label htmlFor="password" className="text-sm font-medium">
+                  Password
+                </label>
+                <Link to="/reset-password" className="text-xs text-primary hover:underline">
+                  Forgot password?
+                </Link>
+              </div>
               <Input
                 id="password"
                 type="password"
+                autoComplete="current-password"
                 placeholder="Enter password"
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
@@ -76,13 +97,22 @@ export default function LoginPage() {
             </div>
           </CardContent>
 
-          <CardFooter>
-            <Button 
-              className="w-full" 
+          <CardFooter className="flex flex-col gap-2">
+            <Button
+              className="w-full"
               type="submit"
+              disabled={isSubmitting}
             >
-              Login
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Signing in...
+                </>
+              ) : "Login"}
             </Button>
+            <p className="text-xs text-muted-foreground text-center">
+              New accounts are created by invitation from an administrator.
+            </p>
           </CardFooter>
         </form>
       </Card>
@@ -0,0 +1,388 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Models } from "appwrite";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2, LocateFixed, Map as MapIcon, MapPin, RefreshCw, User } from "lucide-react";
+import ServeMap, { MapMarker } from "@/components/ServeMap";
+import ServeHistory from "@/components/ServeHistory";
+import { ClientData } from "@/components/ClientForm";
+import { ServeAttemptData } from "@/components/ServeAttempt";
+import { appwrite } from "@/lib/appwrite";
+import { useAuth } from "@/hooks/use-auth";
+import { getEffectiveRole } from "@/utils/permissions";
+import { addClientNamesToServes, normalizeServeDataArray } from "@/utils/dataNormalization";
+import {
+  CaseAddress,
+  geocodeCaseAddresses,
+  getAddressLabel,
+  getAddressLocation,
+  getServiceableAddresses,
+  parseCaseAddresses,
+} from "@/utils/caseAddresses";
+import { CaseAssignment, getCaseAssignment } from "@/utils/caseAssignment";
+import { getCaseStatusClass, getCaseStatusLabel } from "@/utils/caseWorkflow";
+import { CASE_MARKER_COLOR, OUTCOME_COLORS, getOutcomeColor, getServeLocation } from "@/utils/mapMarkers";
+import { SERVE_OUTCOMES, getOutcomeLabel, resolveOutcome } from "@/utils/serveOutcomes";
+
+const ALL = "all";
+// Most attempts plotted at once; narrow the filters to see older ones
+const MAP_ATTEMPT_LIMIT = 500;
+
+interface MapCase {
+  $id: string;
+  client_id: string;
+  case_number: string;
+  case_name?: string | null;
+  status: string;
+  assignment: CaseAssignment;
+  addresses: CaseAddress[];
+}
+
+interface CaseMarkerInfo {
+  caseItem: MapCase;
+  address: CaseAddress;
+}
+
+interface MapPageProps {
+  clients: ClientData[];
+}
+
+const MapPage: React.FC<MapPageProps> = ({ clients }) => {
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const [serves, setServes] = useState<ServeAttemptData[]>([]);
+  const [cases, setCases] = useState<MapCase[]>([]);
+  const [servers, setServers] = useState<Models.Membership[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLocating, setIsLocating] = useState(false);
+  const [clientFilter, setClientFilter] = useState(ALL);
+  const [serverFilter, setServerFilter] = useState(ALL);
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [showAttempts, setShowAttempts] = useState(true);
+  const [showCases, setShowCases] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    const loadServers = async () => {
+      try {
+        const members = await appwrite.listTeamMembers();
+        setServers(members.filter(member => getEffectiveRole(member.roles) !== "client"));
+      } catch (error) {
+        console.error("Error loading servers for map filter:", error);
+      }
+    };
+    loadServers();
+  }, []);
+
+  const fetchMap = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [attempts, openCases] = await Promise.all([
+        appwrite.getServeAttempts(MAP_ATTEMPT_LIMIT, 0, {
+          clientId: clientFilter === ALL ? undefined : clientFilter,
+          serverId: serverFilter === ALL ? undefined : serverFilter,
+          from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+          to: toDate ? new Date(`${toDate}T23:59:59`).toISOString() : undefined,
+          includeImages: false,
+        }),
+        appwrite.getOpenCases(),
+      ]);
+      setServes(addClientNamesToServes(normalizeServeDataArray(attempts), clients));
+      setCases(openCases.map((doc) => ({
+        $id: doc.$id,
+        client_id: doc.client_id,
+        case_number: doc.case_number,
+        case_name: doc.case_name,
+        status: doc.status,
+        assignment: getCaseAssignment(doc),
+        addresses: parseCaseAddresses(doc),
+      })));
+      setSelectedIds([]);
+    } catch (error) {
+      console.error("Error loading map:", error);
+      toast.error("Error loading map data");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [clientFilter, serverFilter, fromDate, toDate, clients]);
+
+  useEffect(() => {
+    fetchMap();
+  }, [fetchMap]);
+
+  const getClientName = (clientId: string) =>
+    clients.find(client => client.id === clientId)?.name || "Unknown Client";
+
+  const visibleCases = useMemo(() => cases.filter(caseItem =>
+    (clientFilter === ALL || caseItem.client_id === clientFilter) &&
+    (serverFilter === ALL || caseItem.assignment.assignedTo === serverFilter)
+  ), [cases, clientFilter, serverFilter]);
+
+  const { markers, attemptsById, casesById, unplacedAttempts, unlocatedCases } = useMemo(() => {
+    const attemptsById = new Map<string, ServeAttemptData>();
+    const casesById = new Map<string, CaseMarkerInfo>();
+    const markers: MapMarker[] = [];
+    let unplacedAttempts = 0;
+    let unlocatedCases = 0;
+
+    if (showAttempts) {
+      serves.forEach(serve => {
+        const location = getServeLocation(serve);
+        if (!location || !serve.id) {
+          unplacedAttempts++;
+          return;
+        }
+        const id = `attempt:${serve.id}`;
+        attemptsById.set(id, serve);
+        markers.push({
+          id,
+          ...location,
+          color: getOutcomeColor(serve),
+          label: `${getOutcomeLabel(resolveOutcome(serve))} · ${serve.caseName || serve.caseNumber}`,
+        });
+      });
+    }
+
+    if (showCases) {
+      visibleCases.forEach(caseItem => {
+        const addresses = getServiceableAddresses(caseItem.addresses);
+        if (addresses.some(entry => !getAddressLocation(entry))) unlocatedCases++;
+        addresses.forEach(address => {
+          const location = getAddressLocation(address);
+          if (!location) return;
+          const id = `case:${caseItem.$id}:${address.id}`;
+          casesById.set(id, { caseItem, address });
+          markers.push({
+            id,
+            latitude: location.latitude,
+            longitude: location.longitude,
+            color: CASE_MARKER_COLOR,
+            label: `${caseItem.case_name || caseItem.case_number} · ${address.address}`,
+            shape: "square",
+          });
+        });
+      });
+    }
+
+    return { markers, attemptsById, casesById, unplacedAttempts, unlocatedCases };
+  }, [serves, visibleCases, showAttempts, showCases]);
+
+  const legend = useMemo(() => {
+    const outcomes = new Set(serves.map(serve => resolveOutcome(serve)));
+    return SERVE_OUTCOMES.filter(outcome => outcomes.has(outcome.value));
+  }, [serves]);
+
+  // Case addresses entered before geocoding, or whose lookup failed, have no
+  // position yet; look them up and save them so they show next time
+  const handleLocateCases = async () => {
+    setIsLocating(true);
+    try {
+      let located = 0;
+      for (const caseItem of visibleCases) {
+        if (getServiceableAddresses(caseItem.addresses).every(entry => getAddressLocation(entry))) continue;
+        const addresses = await geocodeCaseAddresses(caseItem.addresses);
+        if (addresses.some((entry, index) => getAddressLocation(entry) && !getAddressLocation(caseItem.addresses[index]))) {
+          await appwrite.saveCaseAddresses(caseItem.$id, addresses);
+          located++;
+        }
+      }
+      toast.success(located > 0 ? `Located addresses for ${located} case(s)` : "No new addresses could be located");
+      await fetchMap();
+    } catch (error) {
+      console.error("Error locating case addresses:", error);
+      toast.error("Error locating case addresses");
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const selectedAttempts = selectedIds
+    .map(id => attemptsById.get(id))
+    .filter((serve): serve is ServeAttemptData => !!serve);
+  const selectedCases = selectedIds
+    .map(id => casesById.get(id))
+    .filter((info): info is CaseMarkerInfo => !!info);
+
+  return (
+    <div className="page-container">
+      <div className="flex flex-wrap justify-between items-center mb-4">
+        <h1 className="text-3xl font-bold tracking-tight">Map</h1>
+        <Button variant="outline" onClick={fetchMap} disabled={isLoading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <p className="mb-6 text-muted-foreground">
+        Serve attempts by outcome and the addresses of open cases
+      </p>
+
+      <div className="mb-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+        <div className="space-y-1">
+          <Label>Client</Label>
+          <Select value={clientFilter} onValueChange={setClientFilter}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All clients</SelectItem>
+              {clients.map((client) => (
+                <SelectItem key={client.id} value={client.id!}>{client.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Server</Label>
+          <Select value={serverFilter} onValueChange={setServerFilter}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All servers</SelectItem>
+              {servers.map((member) => (
+                <SelectItem key={member.$id} value={member.userId}>
+                  {member.userName || member.userEmail}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="map-from">Attempts from</Label>
+          <Input id="map-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="map-to">Attempts to</Label>
+          <Input id="map-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+        </div>
+      </div>
+
+      <div className="mb-4 flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          <Checkbox checked={showAttempts} onCheckedChange={(checked) => setShowAttempts(checked === true)} />
+          Attempts ({serves.length}{serves.length === MAP_ATTEMPT_LIMIT ? "+" : ""})
+        </label>
+        <label className="flex items-center gap-2">
+          <Checkbox checked={showCases} onCheckedChange={(checked) => setShowCases(checked === true)} />
+          Open cases ({visibleCases.length})
+        </label>
+        {isLoading && (
+          <span className="flex items-center gap-1 text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading...
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[1fr_380px] gap-4">
+        <div className="space-y-2">
+          <ServeMap
+            markers={markers}
+            selectedIds={selectedIds}
+            onSelect={(selected) => setSelectedIds(selected.map(marker => marker.id))}
+            className="h-[60vh] min-h-[400px]"
+          />
+
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+            {showCases && (
+              <span className="flex items-center gap-1">
+                <span className="inline-block h-3 w-3 rounded-sm border border-white" style={{ backgroundColor: CASE_MARKER_COLOR }} />
+                Open case address
+              </span>
+            )}
+            {showAttempts && legend.map((outcome) => (
+              <span key={outcome.value} className="flex items-center gap-1">
+                <span className="inline-block h-3 w-3 rounded-full border border-white" style={{ backgroundColor: OUTCOME_COLORS[outcome.value] }} />
+                {outcome.label}
+              </span>
+            ))}
+          </div>
+
+          {(unplacedAttempts > 0 || unlocatedCases > 0) && (
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              {unplacedAttempts > 0 && <span>{unplacedAttempts} attempt(s) have no GPS position.</span>}
+              {unlocatedCases > 0 && (
+                <>
+                  <span>{unlocatedCases} case(s) have addresses that are not located yet.</span>
+                  {can("case:edit") && (
+                    <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleLocateCases} disabled={isLocating}>
+                      {isLocating ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <LocateFixed className="mr-1 h-3 w-3" />}
+                      Locate Addresses
+                    </Button>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          {selectedIds.length === 0 ? (
+            <div className="rounded-lg border border-dashed p-8 text-center text-sm text-muted-foreground">
+              <MapIcon className="mx-auto mb-2 h-6 w-6" />
+              Select a marker to see the attempt or case
+            </div>
+          ) : (
+            <>
+              {selectedCases.map(({ caseItem, address }) => (
+                <Card key={`${caseItem.$id}:${address.id}`}>
+                  <CardHeader className="pb-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <CardTitle className="text-base">{caseItem.case_name || caseItem.case_number}</CardTitle>
+                      <span className={`text-xs px-2 py-0.5 rounded-full ${getCaseStatusClass(caseItem.status)}`}>
+                        {getCaseStatusLabel(caseItem.status)}
+                      </span>
+                    </div>
+                    <CardDescription>
+                      {getClientName(caseItem.client_id)} · Case #{caseItem.case_number}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-3 text-sm">
+                    <p className="flex items-start gap-1">
+                      <MapPin className="h-4 w-4 mt-0.5 shrink-0" />
+                      <span>
+                        <span className="text-muted-foreground">{getAddressLabel(address.label)}: </span>
+                        {address.address}
+                      </span>
+                    </p>
+                    {caseItem.assignment.assignedTo && (
+                      <p className="flex items-center gap-1 text-muted-foreground">
+                        <User className="h-4 w-4" />
+                        {caseItem.assignment.assignedToName || "Assigned"}
+                      </p>
+                    )}
+                    <div className="flex flex-wrap gap-2">
+                      <Button size="sm" variant="outline" onClick={() => navigate(`/clients?client=${caseItem.client_id}`)}>
+                        Open Case
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+
+              {selectedAttempts.length > 0 && (
+                <ServeHistory serves={selectedAttempts} clients={clients} />
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MapPage;
@@ -5,6 +5,7 @@ import { ArrowLeft, Database, ArrowLeftRight, Loader2, Check, AlertCircle } from
 import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
 import { migrateSupabaseToAppwrite } from "@/utils/migrationHelper";
+import { appwrite } from "@/lib/appwrite";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 
 const MigrationPage: React.FC = () => {
@@ -17,6 +18,82 @@ const MigrationPage: React.FC = () => {
     servesCount?: number;
     error?: string;
   } | null>(null);
+  const [isMigratingOutcomes, setIsMigratingOutcomes] = useState(false);
+  const [outcomeMigrationResult, setOutcomeMigrationResult] = useState<{
+    success: boolean;
+    migrated: number;
+    error?: string;
+  } | null>(null);
+
+  const [isMigratingImages, setIsMigratingImages] = useState(false);
+  const [imageMigrationResult, setImageMigrationResult] = useState<{
+    success: boolean;
+    migrated: number;
+    failed: number;
+    error?: string;
+  } | null>(null);
+
+  const [isMigratingPermissions, setIsMigratingPermissions] = useState(false);
+  const [permissionMigrationResult, setPermissionMigrationResult] = useState<{
+    success: boolean;
+    migrated: number;
+    failed: number;
+    error?: string;
+  } | null>(null);
+
+  const handleMigratePermissions = async () => {
+    setIsMigratingPermissions(true);
+    try {
+      const result = await appwrite.migrateRecordPermissions();
+      setPermissionMigrationResult(result);
+
+      toast({
+        title: result.success ? "Access Updated" : "Access Update Incomplete",
+        description: result.success
+          ? `Updated read access on ${result.migrated} records`
+          : result.error || `${result.failed} records could not be updated`,
+        variant: result.success ? "success" : "destructive"
+      });
+    } finally {
+      setIsMigratingPermissions(false);
+    }
+  };
+
+  const handleMigrateImages = async () => {
+    setIsMigratingImages(true);
+    try {
+      const result = await appwrite.migrateServeImages();
+      setImageMigrationResult(result);
+
+      toast({
+        title: result.success ? "Photos Moved" : "Photo Migration Incomplete",
+        description: result.success
+          ? `Moved ${result.migrated} photos to storage`
+          : result.error || `${result.failed} photos could not be moved`,
+        variant: result.success ? "success" : "destructive"
+      });
+    } finally {
+      setIsMigratingImages(false);
+    }
+  };
+
+  const handleMigrateOutcomes = async () => {
+    setIsMigratingOutcomes(true);
+    try {
+      const result = await appwrite.migrateServeOutcomes();
+      setOutcomeMigrationResult(result);
+
+      toast({
+        title: result.success ? "Outcomes Migrated" : "Outcome Migration Failed",
+        description: result.success
+          ? `Updated ${result.migrated} serve attempts`
+          : result.error || "An unknown error occurred",
+        variant: result.success ? "success" : "destructive"
+      });
+    } finally {
+      setIsMigratingOutcomes(false);
+    }
+  };
 
   const handleMigrate = async () => {
     setIsMigrating(true);
@@ -155,6 +232,110 @@ const MigrationPage: React.FC = () => {
         </CardContent>
       </Card>
       
+      <Card className="neo-card mb-8">
+        <CardHeader>
+          <CardTitle>Serve Outcome Migration</CardTitle>
+          <CardDescription>
+            Older serve attempts only have a Successful/Failed status. This maps them onto the outcome list:
+            successful attempts become "Served (method not recorded)" and failed ones "Attempted (reason not recorded)".
+            Each can then be corrected from the edit dialog.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {outcomeMigrationResult && (
+            <Alert className="mb-6" variant={outcomeMigrationResult.success ? "default" : "destructive"}>
+              <AlertDescription>
+                {outcomeMigrationResult.success
+                  ? `${outcomeMigrationResult.migrated} serve attempts updated`
+                  : outcomeMigrationResult.error || "An unknown error occurred"}
+              </AlertDescription>
+            </Alert>
+          )}
+          <Button
+            onClick={handleMigrateOutcomes}
+            className="w-full"
+            variant="outline"
+            disabled={isMigratingOutcomes}
+          >
+            {isMigratingOutcomes ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Database className="mr-2 h-4 w-4" />
+            )}
+            Migrate Serve Outcomes
+          </Button>
+        </CardContent>
+      </Card>
+      
+      <Card className="neo-card mb-8">
+        <CardHeader>
+          <CardTitle>Serve Photo Migration</CardTitle>
+          <CardDescription>
+            Older serve attempts and mailing receipts keep their photo inside the database record. This uploads each
+            one to the storage bucket and clears the inline copy. Records already moved are skipped, so it is safe to run again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {imageMigrationResult && (
+            <Alert className="mb-6" variant={imageMigrationResult.success ? "default" : "destructive"}>
+              <AlertDescription>
+                {imageMigrationResult.error
+                  ? imageMigrationResult.error
+                  : `${imageMigrationResult.migrated} photos moved${imageMigrationResult.failed ? `, ${imageMigrationResult.failed} failed` : ""}`}
+              </AlertDescription>
+            </Alert>
+          )}
+          <Button
+            onClick={handleMigrateImages}
+            className="w-full"
+            variant="outline"
+            disabled={isMigratingImages}
+          >
+            {isMigratingImages ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Database className="mr-2 h-4 w-4" />
+            )}
+            Move Serve Photos to Storage
+          </Button>
+        </CardContent>
+      </Card>
+      
+      <Card className="neo-card mb-8">
+        <CardHeader>
+          <CardTitle>Client Access Migration</CardTitle>
+          <CardDescription>
+            Older clients, cases, documents and serve attempts can be read by every team member, including
+            client accounts. This limits each record to staff and the accounts linked to its client.
+            It is safe to run again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {permissionMigrationResult && (
+            <Alert className="mb-6" variant={permissionMigrationResult.success ? "default" : "destructive"}>
+              <AlertDescription>
+                {permissionMigrationResult.error
+                  ? permissionMigrationResult.error
+                  : `${permissionMigrationResult.migrated} records updated${permissionMigrationResult.failed ? `, ${permissionMigrationResult.failed} failed` : ""}`}
+              </AlertDescription>
+            </Alert>
+          )}
+          <Button
+            onClick={handleMigratePermissions}
+            className="w-full"
+            variant="outline"
+            disabled={isMigratingPermissions}
+          >
+            {isMigratingPermissions ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Database className="mr-2 h-4 w-4" />
+            )}
+            Restrict Client Access
+          </Button>
+        </CardContent>
+      </Card>
+      
       <div className="space-y-4">
         <h2 className="text-xl font-semibold">Migration Information</h2>
         <div className="space-y-2">
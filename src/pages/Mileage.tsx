@@ -0,0 +1,272 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Models } from "appwrite";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { Download, Loader2, RefreshCw } from "lucide-react";
+import { appwrite } from "@/lib/appwrite";
+import { useAuth } from "@/hooks/use-auth";
+import { getEffectiveRole } from "@/utils/permissions";
+import { normalizeServeDataArray } from "@/utils/dataNormalization";
+import { formatMiles, getTodayKey } from "@/utils/format";
+import {
+  CaseMileage,
+  ServerDayMileage,
+  buildCaseMileage,
+  buildServerDayMileage,
+  caseMileageToCsv,
+  serverDayMileageToCsv,
+} from "@/utils/mileage";
+
+const ALL = "all";
+// Attempts read for the case report; narrow the dates for longer periods
+const MILEAGE_ATTEMPT_LIMIT = 1000;
+
+const downloadCsv = (content: string, fileName: string) => {
+  const blob = new Blob([content], { type: "text/csv;charset=utf-8;" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.setAttribute("download", fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const sumDistance = (rows: { distance: number }[]) => rows.reduce((sum, row) => sum + row.distance, 0);
+
+const Mileage: React.FC = () => {
+  const { user, can } = useAuth();
+  // Servers see their own mileage; anyone who can export sees the team's
+  const canViewAll = can("data:export");
+  const [servers, setServers] = useState<Models.Membership[]>([]);
+  const [serverFilter, setServerFilter] = useState(canViewAll ? ALL : user?.$id || "");
+  const [fromDate, setFromDate] = useState(() => getTodayKey(new Date(new Date().getFullYear(), new Date().getMonth(), 1)));
+  const [toDate, setToDate] = useState(() => getTodayKey());
+  const [dayRows, setDayRows] = useState<ServerDayMileage[]>([]);
+  const [caseRows, setCaseRows] = useState<CaseMileage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!canViewAll) return;
+    const loadServers = async () => {
+      try {
+        const members = await appwrite.listTeamMembers();
+        setServers(members.filter(member => getEffectiveRole(member.roles) !== "client"));
+      } catch (error) {
+        console.error("Error loading servers for mileage filter:", error);
+      }
+    };
+    loadServers();
+  }, [canViewAll]);
+
+  const fetchMileage = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const filters = {
+        serverId: serverFilter === ALL ? undefined : serverFilter,
+        from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+        to: toDate ? new Date(`${toDate}T23:59:59`).toISOString() : undefined,
+      };
+      const [shifts, attempts] = await Promise.all([
+        appwrite.getDutyShifts(filters),
+        appwrite.getServeAttempts(MILEAGE_ATTEMPT_LIMIT, 0, { ...filters, includeImages: false }),
+      ]);
+      const serves = normalizeServeDataArray(attempts);
+      setDayRows(buildServerDayMileage(shifts, serves));
+      setCaseRows(buildCaseMileage(serves));
+      if (attempts.length === MILEAGE_ATTEMPT_LIMIT) {
+        toast.warning("Only the latest attempts are included. Narrow the dates for a complete case report.");
+      }
+    } catch (error) {
+      console.error("Error loading mileage:", error);
+      toast.error("Error loading mileage");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [serverFilter, fromDate, toDate]);
+
+  useEffect(() => {
+    fetchMileage();
+  }, [fetchMileage]);
+
+  const periodLabel = `${fromDate || "start"}-to-${toDate || getTodayKey()}`;
+
+  return (
+    <div className="page-container">
+      <div className="flex flex-wrap justify-between items-center mb-4">
+        <h1 className="text-3xl font-bold tracking-tight">Mileage</h1>
+        <Button variant="outline" onClick={fetchMileage} disabled={isLoading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <p className="mb-6 text-muted-foreground">
+        Miles driven on duty, by server and day and by case, for mileage billing
+      </p>
+
+      <div className="mb-6 grid grid-cols-1 sm:grid-cols-3 gap-3">
+        {canViewAll && (
+          <div className="space-y-1">
+            <Label>Server</Label>
+            <Select value={serverFilter} onValueChange={setServerFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All servers</SelectItem>
+                {servers.map((member) => (
+                  <SelectItem key={member.$id} value={member.userId}>
+                    {member.userName || member.userEmail}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="space-y-1">
+          <Label htmlFor="mileage-from">From</Label>
+          <Input id="mileage-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="mileage-to">To</Label>
+          <Input id="mileage-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading...
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <Card className="neo-card">
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+              <div>
+                <CardTitle>By server and day</CardTitle>
+                <CardDescription>
+                  {formatMiles(sumDistance(dayRows))} across {dayRows.length} day(s) on duty
+                </CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={dayRows.length === 0}
+                onClick={() => downloadCsv(serverDayMileageToCsv(dayRows), `mileage-by-day-${periodLabel}.csv`)}
+              >
+                <Download className="mr-2 h-4 w-4" />
+                Export CSV
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {dayRows.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No duty shifts in this period.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Server</TableHead>
+                      <TableHead className="hidden md:table-cell text-right">Hours</TableHead>
+                      <TableHead className="hidden md:table-cell text-right">Attempts</TableHead>
+                      <TableHead className="text-right">Miles</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {dayRows.map((row) => (
+                      <TableRow key={`${row.serverId}|${row.date}`}>
+                        <TableCell>{row.date}</TableCell>
+                        <TableCell>{row.serverName || "Unknown"}</TableCell>
+                        <TableCell className="hidden md:table-cell text-right">{(row.minutesOnDuty / 60).toFixed(1)}</TableCell>
+                        <TableCell className="hidden md:table-cell text-right">{row.attempts}</TableCell>
+                        <TableCell className="text-right">{formatMiles(row.distance)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="neo-card">
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+              <div>
+                <CardTitle>By case</CardTitle>
+                <CardDescription>
+                  Driving since the previous attempt, counted against each attempt's case
+                </CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={caseRows.length === 0}
+                onClick={() => downloadCsv(caseMileageToCsv(caseRows), `mileage-by-case-${periodLabel}.csv`)}
+              >
+                <Download className="mr-2 h-4 w-4" />
+                Export CSV
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {caseRows.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No attempts were recorded on duty in this period.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Client</TableHead>
+                      <TableHead>Case</TableHead>
+                      <TableHead className="hidden md:table-cell text-right">Attempts</TableHead>
+                      <TableHead className="text-right">Miles</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {caseRows.map((row) => (
+                      <TableRow key={`${row.clientId}|${row.caseNumber}`}>
+                        <TableCell>{row.clientName}</TableCell>
+                        <TableCell>
+                          <p>{row.caseNumber}</p>
+                          {row.caseName && <p className="text-xs text-muted-foreground">{row.caseName}</p>}
+                        </TableCell>
+                        <TableCell className="hidden md:table-cell text-right">{row.attempts}</TableCell>
+                        <TableCell className="text-right">{formatMiles(row.distance)}</TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow>
+                      <TableCell colSpan={2} className="font-medium">Total</TableCell>
+                      <TableCell className="hidden md:table-cell text-right font-medium">
+                        {caseRows.reduce((sum, row) => sum + row.attempts, 0)}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">{formatMiles(sumDistance(caseRows))}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Mileage;
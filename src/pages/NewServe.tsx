@@ -18,6 +18,10 @@ const NewServe: React.FC<NewServeProps> = ({ clients, addServe }) => {
   const [searchParams] = useSearchParams();
   const clientId = searchParams.get("clientId");
   const caseNumber = searchParams.get("caseNumber");
+  const addressId = searchParams.get("addressId");
+  // Only in-app paths, e.g. back to the route planner
+  const returnParam = searchParams.get("returnTo") || "";
+  const returnTo = returnParam.startsWith("/") && !returnParam.startsWith("//") ? returnParam : "/history";
 
   const [caseAttempts, setCaseAttempts] = useState<number>(0);
   const [isLoading, setIsLoading] = useState<boolean>(false);
@@ -61,13 +65,32 @@ const NewServe: React.FC<NewServeProps> = ({ clients, addServe }) => {
       const savedServe = await appwrite.createServeAttempt(serveData);
       console.log("Serve attempt saved successfully:", savedServe);
 
-      toast({
+      toast(savedServe.queued ? {
+        title: "Saved offline",
+        description: "No connection. The attempt is queued and will upload when you're back online.",
+      } : {
         title: "Serve recorded",
         description: "Service attempt has been saved successfully.",
         variant: "success",
       });
 
-      navigate("/history");
+      if (savedServe.caseUpdateFailed) {
+        toast({
+          title: "Case status not updated",
+          description: "The attempt was saved, but its case could not be moved along. Update the status from the case page.",
+          variant: "warning",
+        });
+      }
+
+      if (savedServe.custodyFailed) {
+        toast({
+          title: "Custody log not updated",
+          description: "The attempt was saved, but its chain-of-custody entry could not be written. Tell an admin before relying on its custody report.",
+          variant: "warning",
+        });
+      }
+
+      navigate(returnTo);
     } catch (error) {
       console.error("Error saving serve attempt:", error);
       toast({
@@ -115,6 +138,9 @@ const NewServe: React.FC<NewServeProps> = ({ clients, addServe }) => {
           clients={clients}
           onComplete={handleServeComplete}
           previousAttempts={caseAttempts}
+          initialClientId={clientId || undefined}
+          initialCaseNumber={caseNumber || undefined}
+          initialAddressId={addressId || undefined}
         />
       )}
     </div>
@@ -0,0 +1,175 @@
+import React, { useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { appwrite } from "@/lib/appwrite";
+import { KeyRound, Loader2 } from "lucide-react";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+export default function ResetPasswordPage() {
+  const [searchParams] = useSearchParams();
+  const userId = searchParams.get("userId");
+  const secret = searchParams.get("secret");
+  const isCompleting = !!(userId && secret);
+
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [emailSent, setEmailSent] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await appwrite.requestPasswordReset(email.trim());
+      setEmailSent(true);
+    } catch (error) {
+      toast({
+        title: "Reset failed",
+        description: error instanceof Error ? error.message : "Could not send reset email",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleComplete = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      toast({
+        title: "Password too short",
+        description: `Use at least ${MIN_PASSWORD_LENGTH} characters`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      toast({
+        title: "Passwords do not match",
+        description: "Please re-enter the same password twice",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await appwrite.completePasswordReset(userId, secret, password);
+      toast({
+        title: "Password updated",
+        description: "You can now sign in with your new password",
+        variant: "success"
+      });
+      navigate('/login');
+    } catch (error) {
+      toast({
+        title: "Reset failed",
+        description: error instanceof Error ? error.message : "The reset link may have expired",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-2xl flex items-center gap-2">
+            <KeyRound className="h-5 w-5" /> Reset Password
+          </CardTitle>
+          <CardDescription>
+            {isCompleting
+              ? "Choose a new password for your account"
+              : "We'll email you a link to reset your password"}
+          </CardDescription>
+        </CardHeader>
+
+        {isCompleting ? (
+          <form onSubmit={handleComplete}>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <label htmlFor="new-password" className="text-sm font-medium">
+                  New Password
+                </label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <label htmlFor="confirm-password" className="text-sm font-medium">
+                  Confirm Password
+                </label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                />
+              </div>
+            </CardContent>
+            <CardFooter>
+              <Button className="w-full" type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Set Password
+              </Button>
+            </CardFooter>
+          </form>
+        ) : emailSent ? (
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              If an account exists for {email}, a reset link is on its way.
+            </p>
+            <Link to="/login" className="text-sm text-primary hover:underline">
+              Back to login
+            </Link>
+          </CardContent>
+        ) : (
+          <form onSubmit={handleRequest}>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <label htmlFor="reset-email" className="text-sm font-medium">
+                  Email
+                </label>
+                <Input
+                  id="reset-email"
+                  type="email"
+                  placeholder="you@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+            </CardContent>
+            <CardFooter className="flex flex-col gap-2">
+              <Button className="w-full" type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Send Reset Link
+              </Button>
+              <Link to="/login" className="text-xs text-primary hover:underline">
+                Back to login
+              </Link>
+            </CardFooter>
+          </form>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,540 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import {
+  AlertTriangle,
+  ArrowDown,
+  ArrowUp,
+  Check,
+  Clock,
+  Download,
+  Loader2,
+  Navigation,
+  Pin,
+  PinOff,
+  RefreshCw,
+  Route as RouteIcon,
+} from "lucide-react";
+import ServeMap, { MapMarker } from "@/components/ServeMap";
+import { ClientData } from "@/components/ClientForm";
+import { appwrite } from "@/lib/appwrite";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  CaseAddress,
+  geocodeCaseAddresses,
+  getAddressLabel,
+  getAddressLocation,
+  getAddressServes,
+  getServiceableAddresses,
+  parseCaseAddresses,
+} from "@/utils/caseAddresses";
+import { geocodeAddress, reverseGeocode } from "@/utils/geocoding";
+import { getGpsPosition } from "@/utils/gps";
+import { CASE_MARKER_COLOR } from "@/utils/mapMarkers";
+import { normalizeServeDataArray } from "@/utils/dataNormalization";
+import {
+  RouteStop,
+  SavedRoutePlan,
+  TimeWindow,
+  buildRouteGpx,
+  describeTimeWindow,
+  formatTimeOfDay,
+  getSavedRoutePlan,
+  parseTimeOfDay,
+  planRoute,
+  saveRoutePlan,
+  toTimeInputValue,
+} from "@/utils/routePlanner";
+import { formatMiles } from "@/utils/format";
+
+const START_MARKER_COLOR = "#0f172a";
+const DONE_MARKER_COLOR = "#94a3b8";
+
+interface RouteCase {
+  $id: string;
+  client_id: string;
+  case_number: string;
+  case_name?: string | null;
+  addresses: CaseAddress[];
+}
+
+interface RoutePlannerProps {
+  clients: ClientData[];
+}
+
+const RoutePlanner: React.FC<RoutePlannerProps> = ({ clients }) => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [plan, setPlan] = useState<SavedRoutePlan>(() => getSavedRoutePlan(user?.$id || ""));
+  const [cases, setCases] = useState<RouteCase[]>([]);
+  const [doneIds, setDoneIds] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLocating, setIsLocating] = useState(false);
+  const [startQuery, setStartQuery] = useState("");
+  const [isSettingStart, setIsSettingStart] = useState(false);
+  const [editingWindowId, setEditingWindowId] = useState<string | null>(null);
+
+  useEffect(() => {
+    saveRoutePlan(plan);
+  }, [plan]);
+
+  const fetchStops = useCallback(async () => {
+    if (!user) return;
+    setIsLoading(true);
+    try {
+      const startOfDay = new Date();
+      startOfDay.setHours(0, 0, 0, 0);
+      const [assigned, attempts] = await Promise.all([
+        appwrite.getAssignedCases(user.$id),
+        appwrite.getServeAttempts(200, 0, { serverId: user.$id, from: startOfDay.toISOString(), includeImages: false }),
+      ]);
+      const todaysServes = normalizeServeDataArray(attempts);
+
+      let routeCases: RouteCase[] = assigned.map((doc) => ({
+        $id: doc.$id,
+        client_id: doc.client_id,
+        case_number: doc.case_number,
+        case_name: doc.case_name,
+        addresses: parseCaseAddresses(doc),
+      }));
+
+      // Look up any addresses that have no position yet and keep the result
+      // on the case so the next plan doesn't need to
+      const unlocated = routeCases.filter(caseItem =>
+        getServiceableAddresses(caseItem.addresses).some(entry => !getAddressLocation(entry))
+      );
+      if (unlocated.length > 0) {
+        setIsLocating(true);
+        let unsaved = 0;
+        routeCases = await Promise.all(routeCases.map(async (caseItem) => {
+          if (!unlocated.includes(caseItem)) return caseItem;
+          const addresses = await geocodeCaseAddresses(caseItem.addresses);
+          if (addresses.some((entry, index) => getAddressLocation(entry) && !getAddressLocation(caseItem.addresses[index]))) {
+            // The plan can still use the positions even if they weren't kept
+            await appwrite.saveCaseAddresses(caseItem.$id, addresses).catch(() => {
+              unsaved++;
+            });
+          }
+          return { ...caseItem, addresses };
+        }));
+        setIsLocating(false);
+        if (unsaved > 0) {
+          toast.warning(`Could not save located addresses for ${unsaved} case(s)`);
+        }
+      }
+
+      setCases(routeCases);
+      setDoneIds(routeCases.flatMap(caseItem => {
+        const caseServes = todaysServes.filter(serve =>
+          serve.clientId === caseItem.client_id && serve.caseNumber === caseItem.case_number
+        );
+        return caseItem.addresses
+          .filter(entry => getAddressServes(entry, caseServes).length > 0)
+          .map(entry => `${caseItem.$id}:${entry.id}`);
+      }));
+    } catch (error) {
+      console.error("Error loading route stops:", error);
+      toast.error("Error loading your open cases");
+    } finally {
+      setIsLoading(false);
+      setIsLocating(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchStops();
+  }, [fetchStops]);
+
+  const getClientName = (clientId: string) =>
+    clients.find(client => client.id === clientId)?.name || "Unknown Client";
+
+  const { stops, unlocatedAddresses } = useMemo(() => {
+    const stops: RouteStop[] = [];
+    let unlocatedAddresses = 0;
+    cases.forEach(caseItem => {
+      getServiceableAddresses(caseItem.addresses).forEach(entry => {
+        const location = getAddressLocation(entry);
+        if (!location) {
+          unlocatedAddresses++;
+          return;
+        }
+        stops.push({
+          id: `${caseItem.$id}:${entry.id}`,
+          caseId: caseItem.$id,
+          clientId: caseItem.client_id,
+          caseNumber: caseItem.case_number,
+          caseName: caseItem.case_name || undefined,
+          addressId: entry.id,
+          address: entry.address,
+          location: { latitude: location.latitude, longitude: location.longitude },
+        });
+      });
+    });
+    return { stops, unlocatedAddresses };
+  }, [cases]);
+
+  const routeStops = useMemo(() => stops
+    .filter(stop => !plan.excluded.includes(stop.id) && !doneIds.includes(stop.id))
+    .map(stop => ({ ...stop, window: plan.windows[stop.id], pinnedIndex: plan.pins[stop.id] })),
+  [stops, plan.excluded, plan.windows, plan.pins, doneIds]);
+
+  const route = useMemo(() => {
+    if (!plan.start) return null;
+    return planRoute(routeStops, {
+      start: plan.start,
+      startMinutes: parseTimeOfDay(plan.startTime) ?? 9 * 60,
+    });
+  }, [routeStops, plan.start, plan.startTime]);
+
+  const updatePlan = (updates: Partial<SavedRoutePlan>) => {
+    setPlan(current => ({ ...current, ...updates }));
+  };
+
+  const handleUseLocation = async () => {
+    setIsSettingStart(true);
+    try {
+      const position = await getGpsPosition();
+      const point = { latitude: position.coords.latitude, longitude: position.coords.longitude };
+      const reverse = await reverseGeocode(point);
+      updatePlan({ start: { ...point, label: reverse?.address || "Current location" } });
+    } catch (error) {
+      console.error("Error getting start location:", error);
+      toast.error("Could not get your location", {
+        description: "Allow location access or enter a start address."
+      });
+    } finally {
+      setIsSettingStart(false);
+    }
+  };
+
+  const handleStartAddress = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!startQuery.trim()) return;
+    setIsSettingStart(true);
+    try {
+      const found = await geocodeAddress(startQuery);
+      if (!found) {
+        toast.error("Address not found", { description: "Check the address and try again." });
+        return;
+      }
+      updatePlan({ start: { latitude: found.latitude, longitude: found.longitude, label: startQuery.trim() } });
+      setStartQuery("");
+    } finally {
+      setIsSettingStart(false);
+    }
+  };
+
+  const toggleIncluded = (stopId: string, included: boolean) => {
+    updatePlan({
+      excluded: included ? plan.excluded.filter(id => id !== stopId) : [...plan.excluded, stopId],
+    });
+  };
+
+  const togglePin = (stopId: string, index: number) => {
+    const pins = { ...plan.pins };
+    if (pins[stopId] !== undefined) {
+      delete pins[stopId];
+    } else {
+      pins[stopId] = index;
+    }
+    updatePlan({ pins });
+  };
+
+  // Moving a stop by hand pins it at its new place
+  const moveStop = (stopId: string, index: number, delta: number) => {
+    if (!route) return;
+    const target = index + delta;
+    if (target < 0 || target >= route.legs.length) return;
+    const swapped = route.legs[target].stop.id;
+    const pins = { ...plan.pins, [stopId]: target };
+    if (pins[swapped] !== undefined) pins[swapped] = index;
+    updatePlan({ pins });
+  };
+
+  const updateWindow = (stopId: string, field: keyof TimeWindow, value: string) => {
+    const timeWindow = { ...plan.windows[stopId], [field]: parseTimeOfDay(value) };
+    const windows = { ...plan.windows };
+    if (timeWindow.after === undefined && timeWindow.before === undefined) {
+      delete windows[stopId];
+    } else {
+      windows[stopId] = timeWindow;
+    }
+    updatePlan({ windows });
+  };
+
+  const handleExportGpx = () => {
+    if (!route || !plan.start) return;
+    const gpx = buildRouteGpx(route, plan.start, `Route ${plan.date}`);
+    const blob = new Blob([gpx], { type: "application/gpx+xml" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.setAttribute("download", `route-${plan.date}.gpx`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const openStop = (stop: RouteStop) => {
+    const params = new URLSearchParams({
+      clientId: stop.clientId,
+      caseNumber: stop.caseNumber,
+      addressId: stop.addressId,
+      returnTo: "/route",
+    });
+    navigate(`/new-serve?${params}`);
+  };
+
+  const markers: MapMarker[] = [
+    ...(plan.start ? [{
+      id: "start",
+      latitude: plan.start.latitude,
+      longitude: plan.start.longitude,
+      color: START_MARKER_COLOR,
+      label: `Start: ${plan.start.label}`,
+      text: "S",
+    }] : []),
+    ...(route?.legs || []).map((leg, index) => ({
+      id: leg.stop.id,
+      ...leg.stop.location,
+      color: leg.late > 0 ? "#dc2626" : CASE_MARKER_COLOR,
+      label: `${index + 1}. ${leg.stop.caseName || leg.stop.caseNumber} · ${leg.stop.address}`,
+      text: String(index + 1),
+    })),
+    ...stops.filter(stop => doneIds.includes(stop.id)).map(stop => ({
+      id: stop.id,
+      ...stop.location,
+      color: DONE_MARKER_COLOR,
+      label: `Attempted today: ${stop.address}`,
+      text: "✓",
+    })),
+  ];
+
+  const path = plan.start && route
+    ? [{ id: "route", color: CASE_MARKER_COLOR, points: [plan.start, ...route.legs.map(leg => leg.stop.location)] }]
+    : [];
+
+  const excludedStops = stops.filter(stop => plan.excluded.includes(stop.id) && !doneIds.includes(stop.id));
+  const lateStops = route?.legs.filter(leg => leg.late > 0).length || 0;
+
+  return (
+    <div className="page-container">
+      <div className="flex flex-wrap justify-between items-center mb-4 gap-2">
+        <h1 className="text-3xl font-bold tracking-tight">Route</h1>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleExportGpx} disabled={!route || route.legs.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            GPX
+          </Button>
+          <Button variant="outline" onClick={fetchStops} disabled={isLoading}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <p className="mb-6 text-muted-foreground">
+        Today's stops for your open cases, in the order that saves the most driving
+      </p>
+
+      <Card className="mb-4">
+        <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-[1fr_auto] gap-4">
+          <div className="space-y-2">
+            <Label>Start point</Label>
+            {plan.start && (
+              <p className="text-sm flex items-center gap-1">
+                <Navigation className="h-4 w-4 shrink-0" />
+                <span className="truncate">{plan.start.label}</span>
+              </p>
+            )}
+            <form onSubmit={handleStartAddress} className="flex flex-wrap gap-2">
+              <Input
+                placeholder="Start address"
+                value={startQuery}
+                onChange={(e) => setStartQuery(e.target.value)}
+                className="flex-1 min-w-[200px]"
+              />
+              <Button type="submit" variant="outline" disabled={isSettingStart || !startQuery.trim()}>
+                Set
+              </Button>
+              <Button type="button" variant="outline" onClick={handleUseLocation} disabled={isSettingStart}>
+                {isSettingStart ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Navigation className="mr-2 h-4 w-4" />}
+                My Location
+              </Button>
+            </form>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="route-start-time">Leaving at</Label>
+            <Input
+              id="route-start-time"
+              type="time"
+              value={plan.startTime}
+              onChange={(e) => updatePlan({ startTime: e.target.value })}
+              className="w-32"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {(isLoading || isLocating) && (
+        <div className="mb-4 flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {isLocating ? "Locating case addresses..." : "Loading your cases..."}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-[1fr_420px] gap-4">
+        <ServeMap markers={markers} paths={path} cluster={false} className="h-[50vh] min-h-[360px]" />
+
+        <div className="space-y-4">
+          {!plan.start ? (
+            <div className="rounded-lg border border-dashed p-8 text-center text-sm text-muted-foreground">
+              <RouteIcon className="mx-auto mb-2 h-6 w-6" />
+              Set a start point to plan the route
+            </div>
+          ) : route && route.legs.length > 0 ? (
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">
+                  {route.legs.length} stops · {formatMiles(route.totalDistance)}
+                </CardTitle>
+                <CardDescription>
+                  Done around {formatTimeOfDay(route.finish)}
+                  {lateStops > 0 && ` · ${lateStops} stop(s) miss their time window`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {route.legs.map((leg, index) => {
+                  const isPinned = plan.pins[leg.stop.id] !== undefined;
+                  const timeWindow = plan.windows[leg.stop.id];
+                  return (
+                    <div key={leg.stop.id} className="rounded-md border p-3 space-y-2">
+                      <div className="flex items-start gap-2">
+                        <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-primary text-xs font-semibold text-primary-foreground">
+                          {index + 1}
+                        </span>
+                        <div className="min-w-0 flex-1">
+                          <p className="text-sm font-medium truncate">{leg.stop.caseName || leg.stop.caseNumber}</p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {getClientName(leg.stop.clientId)} · Case #{leg.stop.caseNumber}
+                          </p>
+                          <p className="text-xs truncate">{leg.stop.address}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {formatTimeOfDay(leg.arrival + leg.wait)} · {formatMiles(leg.distance)}
+                            {leg.wait >= 1 && ` · waits ${Math.round(leg.wait)} min`}
+                          </p>
+                          {timeWindow && (
+                            <p className={`text-xs flex items-center gap-1 ${leg.late > 0 ? "text-destructive" : "text-muted-foreground"}`}>
+                              {leg.late > 0 ? <AlertTriangle className="h-3 w-3" /> : <Clock className="h-3 w-3" />}
+                              {describeTimeWindow(timeWindow)}
+                              {leg.late > 0 && ` (${Math.round(leg.late)} min late)`}
+                            </p>
+                          )}
+                        </div>
+                        <Button size="sm" onClick={() => openStop(leg.stop)}>
+                          Serve
+                        </Button>
+                      </div>
+
+                      <div className="flex flex-wrap items-center gap-1">
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => moveStop(leg.stop.id, index, -1)} disabled={index === 0} title="Move up">
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => moveStop(leg.stop.id, index, 1)} disabled={index === route.legs.length - 1} title="Move down">
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => togglePin(leg.stop.id, index)}>
+                          {isPinned ? <PinOff className="mr-1 h-3 w-3" /> : <Pin className="mr-1 h-3 w-3" />}
+                          {isPinned ? "Unpin" : "Pin"}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 text-xs"
+                          onClick={() => setEditingWindowId(editingWindowId === leg.stop.id ? null : leg.stop.id)}
+                        >
+                          <Clock className="mr-1 h-3 w-3" />
+                          Time Window
+                        </Button>
+                        <Button variant="ghost" size="sm" className="h-7 text-xs ml-auto" onClick={() => toggleIncluded(leg.stop.id, false)}>
+                          Skip
+                        </Button>
+                      </div>
+
+                      {editingWindowId === leg.stop.id && (
+                        <div className="grid grid-cols-2 gap-2">
+                          <div className="space-y-1">
+                            <Label className="text-xs">Try after</Label>
+                            <Input
+                              type="time"
+                              className="h-8"
+                              value={toTimeInputValue(timeWindow?.after)}
+                              onChange={(e) => updateWindow(leg.stop.id, "after", e.target.value)}
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label className="text-xs">Before</Label>
+                            <Input
+                              type="time"
+                              className="h-8"
+                              value={toTimeInputValue(timeWindow?.before)}
+                              onChange={(e) => updateWindow(leg.stop.id, "before", e.target.value)}
+                            />
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          ) : !isLoading && (
+            <div className="rounded-lg border border-dashed p-8 text-center text-sm text-muted-foreground">
+              <Check className="mx-auto mb-2 h-6 w-6" />
+              No stops left to plan today
+            </div>
+          )}
+
+          {excludedStops.length > 0 && (
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm">Skipped</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {excludedStops.map(stop => {
+                  const entry = cases.find(c => c.$id === stop.caseId)?.addresses.find(a => a.id === stop.addressId);
+                  return (
+                    <label key={stop.id} className="flex items-start gap-2 text-sm">
+                      <Checkbox className="mt-0.5" checked={false} onCheckedChange={() => toggleIncluded(stop.id, true)} />
+                      <span className="min-w-0">
+                        <span className="block truncate">{stop.caseName || stop.caseNumber}</span>
+                        <span className="block text-xs text-muted-foreground truncate">
+                          {entry ? `${getAddressLabel(entry.label)}: ` : ""}{stop.address}
+                        </span>
+                      </span>
+                    </label>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          )}
+
+          {(doneIds.length > 0 || unlocatedAddresses > 0) && (
+            <div className="text-xs text-muted-foreground space-y-1">
+              {doneIds.length > 0 && <p>{doneIds.length} address(es) already attempted today are left off the route.</p>}
+              {unlocatedAddresses > 0 && <p>{unlocatedAddresses} address(es) could not be located and are left off the route.</p>}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RoutePlanner;
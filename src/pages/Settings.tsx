@@ -11,11 +11,42 @@ import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
-import { ArrowLeft, RefreshCw, Trash2, Database, HardDrive, Cloud } from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ArrowLeft, RefreshCw, Trash2, Database, HardDrive, Cloud, UserPlus } from "lucide-react";
 import { useNavigate } from "react-router-dom";
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { clearLocalStorage } from "@/utils/dataSwitch";
+import { appwrite } from "@/lib/appwrite";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  USER_ROLES,
+  UserRole,
+  buildMembershipRoles,
+  getEffectiveRole,
+  getLinkedClientId,
+  getRoleLabel,
+} from "@/utils/permissions";
+import { Models } from "appwrite";
+import {
+  WATERMARK_FIELDS,
+  WATERMARK_POSITIONS,
+  WatermarkField,
+  WatermarkPosition,
+  WatermarkSettings,
+  getWatermarkSettings,
+  saveWatermarkSettings,
+} from "@/utils/watermark";
+import { getCachedGeofenceRadius } from "@/utils/geofence";
+import { clearGeocodeCache } from "@/utils/geocoding";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { 
   AlertDialog,
   AlertDialogAction,
@@ -33,6 +64,15 @@ const Settings: React.FC = () => {
   const { toast } = useToast();
   const [isClearing, setIsClearing] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteName, setInviteName] = useState("");
+  const [inviteRole, setInviteRole] = useState<UserRole>("server");
+  const [isInviting, setIsInviting] = useState(false);
+  const [inviteClientId, setInviteClientId] = useState("");
+  const [members, setMembers] = useState<Models.Membership[]>([]);
+  const [teamClients, setTeamClients] = useState<Models.Document[]>([]);
+  const { role, can } = useAuth();
+  const canManageTeam = can("team:manage");
   const [offlineMode, setOfflineMode] = useState(() => {
     return localStorage.getItem('useLocalStorageFallback') === 'true';
   });
@@ -63,6 +103,56 @@ const Settings: React.FC = () => {
     }
   };
   
+  const [watermark, setWatermark] = useState<WatermarkSettings>(getWatermarkSettings);
+
+  const updateWatermark = (changes: Partial<WatermarkSettings>) => {
+    const next = { ...watermark, ...changes };
+    setWatermark(next);
+    saveWatermarkSettings(next);
+  };
+
+  // Set for the whole agency, so only admins can change it
+  const [savedGeofenceRadius, setSavedGeofenceRadius] = useState(getCachedGeofenceRadius);
+  const [geofenceRadius, setGeofenceRadius] = useState(() => String(getCachedGeofenceRadius()));
+
+  const handleGeofenceRadiusBlur = async () => {
+    const radius = Number(geofenceRadius);
+    if (!radius || radius <= 0 || Math.round(radius) === savedGeofenceRadius) {
+      setGeofenceRadius(String(savedGeofenceRadius));
+      return;
+    }
+    try {
+      const saved = await appwrite.updateGeofenceRadius(radius);
+      setSavedGeofenceRadius(saved);
+      setGeofenceRadius(String(saved));
+      toast({
+        title: "Location check updated",
+        description: `Attempts more than ${saved} m from the case address will be flagged on every device`,
+        variant: "default"
+      });
+    } catch (error) {
+      setGeofenceRadius(String(savedGeofenceRadius));
+      toast({
+        title: "Location check not updated",
+        description: error instanceof Error ? error.message : "The allowed distance could not be saved",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleClearGeocodeCache = () => {
+    clearGeocodeCache();
+    toast({
+      title: "Address cache cleared",
+      description: "Addresses will be looked up again the next time they are needed",
+      variant: "default"
+    });
+  };
+
+  const toggleWatermarkField = (field: WatermarkField, enabled: boolean) => {
+    updateWatermark({ fields: { ...watermark.fields, [field]: enabled } });
+  };
+  
   const handleOfflineModeToggle = (enabled: boolean) => {
     setOfflineMode(enabled);
     if (enabled) {
@@ -84,6 +174,70 @@ const Settings: React.FC = () => {
     }
   };
 
+  useEffect(() => {
+    if (canManageTeam) {
+      appwrite.listTeamMembers().then(setMembers);
+      // Client accounts are linked to the client whose records they may read
+      appwrite.getClients().then(setTeamClients).catch(() => setTeamClients([]));
+      appwrite.getGeofenceRadius().then(radius => {
+        setSavedGeofenceRadius(radius);
+        setGeofenceRadius(String(radius));
+      });
+    }
+  }, [canManageTeam]);
+
+  const handleRoleChange = async (membershipId: string, newRole: UserRole, clientId?: string) => {
+    try {
+      const updated = await appwrite.updateMemberRoles(membershipId, buildMembershipRoles(newRole, clientId));
+      setMembers(prev => prev.map(m => m.$id === membershipId ? updated : m));
+      toast({
+        title: "Role updated",
+        description: `${updated.userName || updated.userEmail} is now ${getRoleLabel(newRole)}`,
+        variant: "default"
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update role",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleInviteUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (inviteRole === "client" && !inviteClientId) {
+      toast({
+        title: "Client required",
+        description: "Choose the client this account belongs to",
+        variant: "destructive"
+      });
+      return;
+    }
+    setIsInviting(true);
+    try {
+      await appwrite.inviteUser(inviteEmail.trim(), inviteName.trim(), buildMembershipRoles(inviteRole, inviteClientId));
+      toast({
+        title: "Invitation sent",
+        description: `${inviteEmail} will receive an email to set up their account`,
+        variant: "default"
+      });
+      setInviteEmail("");
+      setInviteName("");
+      setInviteClientId("");
+      appwrite.listTeamMembers().then(setMembers);
+    } catch (error) {
+      console.error("Error inviting user:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send invitation",
+        variant: "destructive"
+      });
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
   const handleHardRefresh = () => {
     setIsRefreshing(true);
     
@@ -166,7 +320,253 @@ const Settings: React.FC = () => {
             </div>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Photo Watermark</CardTitle>
+            <CardDescription>
+              Burn the capture details into serve photos taken on this device. Admins can still open the unmarked original.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="watermark-enabled">Show Watermark</Label>
+                <p className="text-sm text-muted-foreground">
+                  Draw an overlay on each photo when it is captured
+                </p>
+              </div>
+              <Switch
+                id="watermark-enabled"
+                checked={watermark.enabled}
+                onCheckedChange={(enabled) => updateWatermark({ enabled })}
+              />
+            </div>
+
+            <Separator className="my-4" />
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="watermark-position">Position</Label>
+                <Select
+                  value={watermark.position}
+                  onValueChange={(value) => updateWatermark({ position: value as WatermarkPosition })}
+                  disabled={!watermark.enabled}
+                >
+                  <SelectTrigger id="watermark-position">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WATERMARK_POSITIONS.map(position => (
+                      <SelectItem key={position.value} value={position.value}>
+                        {position.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="watermark-opacity">Background Opacity ({Math.round(watermark.opacity * 100)}%)</Label>
+                <Slider
+                  id="watermark-opacity"
+                  min={10}
+                  max={100}
+                  step={5}
+                  value={[Math.round(watermark.opacity * 100)]}
+                  onValueChange={([value]) => updateWatermark({ opacity: value / 100 })}
+                  disabled={!watermark.enabled}
+                  className="pt-2"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Fields</Label>
+              <div className="grid gap-2 sm:grid-cols-2">
+                {WATERMARK_FIELDS.map(field => (
+                  <div key={field.value} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`watermark-${field.value}`}
+                      checked={watermark.fields[field.value]}
+                      onCheckedChange={(checked) => toggleWatermarkField(field.value, checked === true)}
+                      disabled={!watermark.enabled}
+                    />
+                    <Label htmlFor={`watermark-${field.value}`} className="font-normal">
+                      {field.label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Location Check</CardTitle>
+            <CardDescription>
+              Compare where each photo was taken with the geocoded case address
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {canManageTeam && (
+              <>
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="geofence-radius">Allowed Distance (meters)</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Attempts captured farther away are flagged and need an override note
+                    </p>
+                  </div>
+                  <Input
+                    id="geofence-radius"
+                    type="number"
+                    min={10}
+                    step={10}
+                    className="w-28"
+                    value={geofenceRadius}
+                    onChange={(e) => setGeofenceRadius(e.target.value)}
+                    onBlur={handleGeofenceRadiusBlur}
+                  />
+                </div>
+                <Separator className="my-4" />
+              </>
+            )}
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label>Address Lookups</Label>
+                <p className="text-sm text-muted-foreground">
+                  Geocoded addresses are cached on this device; clear them to look them up again
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={handleClearGeocodeCache}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Clear Cache
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
         
+        {canManageTeam && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Team Members</CardTitle>
+              <CardDescription>
+                Invite new users and manage what each member can do
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <form onSubmit={handleInviteUser} className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="invite-name">Name</Label>
+                    <Input
+                      id="invite-name"
+                      value={inviteName}
+                      onChange={(e) => setInviteName(e.target.value)}
+                      placeholder="e.g., Jane Smith"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="invite-email">Email</Label>
+                    <Input
+                      id="invite-email"
+                      type="email"
+                      value={inviteEmail}
+                      onChange={(e) => setInviteEmail(e.target.value)}
+                      placeholder="jane@example.com"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="invite-role">Role</Label>
+                    <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as UserRole)}>
+                      <SelectTrigger id="invite-role">
+                        <SelectValue placeholder="Select role" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {USER_ROLES.map(r => (
+                          <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                {inviteRole === "client" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="invite-client">Client</Label>
+                    <Select value={inviteClientId} onValueChange={setInviteClientId}>
+                      <SelectTrigger id="invite-client">
+                        <SelectValue placeholder="Select client" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {teamClients.map(client => (
+                          <SelectItem key={client.$id} value={client.$id}>{client.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {USER_ROLES.find(r => r.value === inviteRole)?.description}
+                </p>
+                <Button type="submit" disabled={isInviting} className="w-full sm:w-auto">
+                  <UserPlus className="mr-2 h-4 w-4" />
+                  {isInviting ? "Sending..." : "Send Invitation"}
+                </Button>
+              </form>
+
+              {members.length > 0 && (
+                <>
+                  <Separator className="my-4" />
+                  <div className="space-y-3">
+                    {members.map(member => (
+                      <div key={member.$id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium truncate">{member.userName || member.userEmail}</p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {member.userEmail}{!member.confirm && " · invitation pending"}
+                          </p>
+                        </div>
+                        <div className="flex flex-col sm:flex-row gap-2">
+                          {getEffectiveRole(member.roles) === "client" && (
+                            <Select
+                              value={getLinkedClientId(member.roles) || undefined}
+                              onValueChange={(value) => handleRoleChange(member.$id, "client", value)}
+                            >
+                              <SelectTrigger className="w-full sm:w-48">
+                                <SelectValue placeholder="No client linked" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {teamClients.map(client => (
+                                  <SelectItem key={client.$id} value={client.$id}>{client.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                          <Select
+                            value={getEffectiveRole(member.roles) || undefined}
+                            onValueChange={(value) => handleRoleChange(member.$id, value as UserRole)}
+                          >
+                            <SelectTrigger className="w-full sm:w-48">
+                              <SelectValue placeholder="No role" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {USER_ROLES.map(r => (
+                                <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         <Card>
           <CardHeader>
             <CardTitle>Data Management</CardTitle>
@@ -211,22 +611,26 @@ const Settings: React.FC = () => {
               </AlertDialog>
             </div>
             
-            <Separator className="my-4" />
-            
-            <div className="space-y-2">
-              <h3 className="text-sm font-medium">Data Migration</h3>
-              <p className="text-sm text-muted-foreground">
-                Transfer data between local storage and Appwrite backend
-              </p>
-              <Button 
-                variant="outline" 
-                onClick={() => navigate("/migration")}
-                className="w-full sm:w-auto"
-              >
-                <Database className="mr-2 h-4 w-4" />
-                Data Migration Tool
-              </Button>
-            </div>
+            {can("data:migrate") && (
+              <>
+                <Separator className="my-4" />
+                
+                <div className="space-y-2">
+                  <h3 className="text-sm font-medium">Data Migration</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Transfer data between local storage and Appwrite backend
+                  </p>
+                  <Button 
+                    variant="outline" 
+                    onClick={() => navigate("/migration")}
+                    className="w-full sm:w-auto"
+                  >
+                    <Database className="mr-2 h-4 w-4" />
+                    Data Migration Tool
+                  </Button>
+                </div>
+              </>
+            )}
           </CardContent>
         </Card>
         
@@ -244,6 +648,11 @@ const Settings: React.FC = () => {
                 <p className="text-sm text-muted-foreground">1.0.0</p>
               </div>
               
+              <div>
+                <h3 className="text-sm font-medium">Your Role</h3>
+                <p className="text-sm text-muted-foreground">{getRoleLabel(role)}</p>
+              </div>
+              
               <div>
                 <h3 className="text-sm font-medium">Database Provider</h3>
                 <p className="text-sm text-muted-foreground">Appwrite</p>
@@ -0,0 +1,203 @@
+import { jsPDF } from "jspdf";
+import { ServeAttemptData } from "@/components/ServeAttempt";
+import { ServiceMethod } from "@/utils/serveOutcomes";
+import { hasRecipientDescription } from "@/utils/recipientDescription";
+import { safeFormatCoordinates } from "@/utils/gps";
+
+export const AFFIDAVIT_SERVICE_METHODS: { value: ServiceMethod; label: string }[] = [
+  { value: "personal", label: "Personal delivery - CPLR 308(1)" },
+  { value: "substituted", label: "Suitable age and discretion - CPLR 308(2)" },
+  { value: "affix_and_mail", label: "Affix and mail - CPLR 308(4)" },
+  { value: "corporate", label: "Corporation - CPLR 311" },
+];
+
+export interface AffidavitDetails {
+  court: string;
+  county: string;
+  plaintiff: string;
+  defendant: string;
+  indexNumber: string;
+  documentsServed: string;
+  recipientName: string;
+  serviceMethod: ServiceMethod;
+  personServed: string;
+  serverName: string;
+  serverLicense: string;
+  swornCounty: string;
+}
+
+export const DEFAULT_COURT = "SUPREME COURT OF THE STATE OF NEW YORK";
+
+const PAGE_MARGIN = 54;
+const LINE_HEIGHT = 14;
+
+/**
+ * Splits a case name like "Smith v. Jones" into plaintiff and defendant
+ */
+export const parseCaseCaption = (caseName?: string): { plaintiff: string; defendant: string } => {
+  if (!caseName) return { plaintiff: "", defendant: "" };
+  const parts = caseName.split(/\s+(?:v\.?|vs\.?|against)\s+/i);
+  if (parts.length === 2) {
+    return { plaintiff: parts[0].trim(), defendant: parts[1].trim() };
+  }
+  return { plaintiff: caseName.trim(), defendant: "" };
+};
+
+const toDate = (timestamp: ServeAttemptData["timestamp"]): Date =>
+  timestamp instanceof Date ? timestamp : new Date(timestamp);
+
+const formatServiceDate = (timestamp: ServeAttemptData["timestamp"]): string => {
+  const date = toDate(timestamp);
+  return `${date.toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" })} at ${date.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })}`;
+};
+
+const describeServiceMethod = (details: AffidavitDetails): string => {
+  const recipient = details.recipientName || "the recipient";
+  const personServed = details.personServed || "a person whose name was refused";
+
+  switch (details.serviceMethod) {
+    case "substituted":
+      return `by delivering a true copy thereof to ${personServed}, a person of suitable age and discretion, at said premises, the actual place of business, dwelling place or usual place of abode of ${recipient}, and thereafter mailing a copy by first class mail to ${recipient} at said premises in an envelope marked "personal and confidential" within 20 days of such delivery.`;
+    case "affix_and_mail":
+      return `by affixing a true copy thereof to the door of said premises, the actual place of business, dwelling place or usual place of abode of ${recipient}, deponent having been unable with due diligence to find ${recipient} or a person of suitable age and discretion thereat, and thereafter mailing a copy by first class mail to ${recipient} at said premises in an envelope marked "personal and confidential" within 20 days of such affixing.`;
+    case "corporate":
+      return `by delivering a true copy thereof to ${personServed}, an officer, director, managing or general agent, or other person authorized to receive service on behalf of ${recipient}.`;
+    case "personal":
+    default:
+      return `by delivering a true copy thereof to ${recipient} personally; deponent knew the person so served to be the person described as the recipient therein.`;
+  }
+};
+
+/**
+ * Builds a New York affidavit of service as a PDF from a completed serve attempt.
+ * Earlier attempts on the same case are listed as the due-diligence record.
+ */
+export function generateAffidavitPdf(
+  details: AffidavitDetails,
+  serve: ServeAttemptData,
+  priorAttempts: ServeAttemptData[] = []
+): Blob {
+  const doc = new jsPDF({ unit: "pt", format: "letter" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const textWidth = pageWidth - PAGE_MARGIN * 2;
+  let y = PAGE_MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - PAGE_MARGIN) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+  };
+
+  const writeParagraph = (text: string, options: { bold?: boolean; indent?: number } = {}) => {
+    doc.setFont("times", options.bold ? "bold" : "normal");
+    const indent = options.indent || 0;
+    const lines = doc.splitTextToSize(text, textWidth - indent) as string[];
+    ensureSpace(lines.length * LINE_HEIGHT);
+    doc.text(lines, PAGE_MARGIN + indent, y);
+    y += lines.length * LINE_HEIGHT + LINE_HEIGHT / 2;
+  };
+
+  // Caption
+  doc.setFontSize(11);
+  doc.setFont("times", "bold");
+  doc.text(details.court.toUpperCase(), PAGE_MARGIN, y);
+  y += LINE_HEIGHT;
+  doc.text(`COUNTY OF ${details.county.toUpperCase()}`, PAGE_MARGIN, y);
+  y += LINE_HEIGHT;
+  doc.line(PAGE_MARGIN, y, pageWidth - PAGE_MARGIN, y);
+  y += LINE_HEIGHT * 1.5;
+
+  const captionTop = y;
+  const captionWidth = textWidth * 0.55;
+  doc.setFont("times", "normal");
+  const plaintiffLines = doc.splitTextToSize(`${details.plaintiff || "_______________"},`, captionWidth) as string[];
+  doc.text(plaintiffLines, PAGE_MARGIN, y);
+  y += plaintiffLines.length * LINE_HEIGHT;
+  doc.text("Plaintiff(s),", PAGE_MARGIN + 120, y);
+  y += LINE_HEIGHT * 1.5;
+  doc.text("- against -", PAGE_MARGIN + 60, y);
+  y += LINE_HEIGHT * 1.5;
+  const defendantLines = doc.splitTextToSize(`${details.defendant || "_______________"},`, captionWidth) as string[];
+  doc.text(defendantLines, PAGE_MARGIN, y);
+  y += defendantLines.length * LINE_HEIGHT;
+  doc.text("Defendant(s).", PAGE_MARGIN + 120, y);
+
+  const rightColumn = PAGE_MARGIN + captionWidth + 20;
+  doc.text(`Index No.: ${details.indexNumber || "__________"}`, rightColumn, captionTop);
+  doc.setFont("times", "bold");
+  doc.text("AFFIDAVIT OF SERVICE", rightColumn, captionTop + LINE_HEIGHT * 3);
+
+  y += LINE_HEIGHT;
+  doc.line(PAGE_MARGIN, y, pageWidth - PAGE_MARGIN, y);
+  y += LINE_HEIGHT * 2;
+
+  writeParagraph(`STATE OF NEW YORK, COUNTY OF ${(details.swornCounty || details.county).toUpperCase()} ss.:`, { bold: true });
+
+  const license = details.serverLicense ? ` Deponent holds process server license no. ${details.serverLicense}.` : "";
+  writeParagraph(
+    `${details.serverName || "_______________"}, being duly sworn, deposes and says: deponent is not a party to this action, is over 18 years of age and resides in the State of New York.${license}`,
+    { indent: 36 }
+  );
+
+  writeParagraph(
+    `That on ${formatServiceDate(serve.timestamp)}, at ${serve.address || "the address stated in the service record"}, deponent served the within ${details.documentsServed || "papers"} upon ${details.recipientName || "the recipient"}, therein named, ${describeServiceMethod(details)}`,
+    { indent: 36 }
+  );
+
+  const description = serve.recipientDescription;
+  if (hasRecipientDescription(description)) {
+    const relationship = details.serviceMethod === "substituted" && description.relationship
+      ? ` Relationship to defendant: ${description.relationship}.`
+      : "";
+    writeParagraph(
+      `Deponent describes the individual served as follows: Sex: ${description.sex || "-"}; Skin color: ${description.skinColor || "-"}; Hair color: ${description.hairColor || "-"}; Approx. age: ${description.approximateAge || "-"}; Approx. height: ${description.height || "-"}; Approx. weight: ${description.weight ? `${description.weight} lbs` : "-"}.${relationship}`,
+      { indent: 36 }
+    );
+  }
+
+  if (serve.coordinates) {
+    writeParagraph(
+      `The GPS coordinates recorded by deponent's device at the time of service were ${safeFormatCoordinates(serve.coordinates)}.`,
+      { indent: 36 }
+    );
+  }
+
+  if (priorAttempts.length > 0) {
+    writeParagraph("Deponent had previously attempted service at the following dates, times and places:", { indent: 36 });
+    priorAttempts.forEach((attempt, index) => {
+      const location = attempt.address ? ` at ${attempt.address}` : "";
+      const gps = attempt.coordinates ? ` (GPS ${safeFormatCoordinates(attempt.coordinates)})` : "";
+      const notes = attempt.notes ? ` - ${attempt.notes}` : "";
+      writeParagraph(`${index + 1}. ${formatServiceDate(attempt.timestamp)}${location}${gps}${notes}`, { indent: 54 });
+    });
+  }
+
+  // Signature block
+  ensureSpace(LINE_HEIGHT * 9);
+  y += LINE_HEIGHT * 2;
+  const signatureColumn = pageWidth - PAGE_MARGIN - 200;
+  doc.setFont("times", "normal");
+  doc.text("Sworn to before me this", PAGE_MARGIN, y);
+  doc.line(signatureColumn, y, pageWidth - PAGE_MARGIN, y);
+  y += LINE_HEIGHT;
+  doc.text("_____ day of _______________, 20____", PAGE_MARGIN, y);
+  doc.text(details.serverName || "Process Server", signatureColumn, y);
+  y += LINE_HEIGHT;
+  if (details.serverLicense) {
+    doc.text(`License No. ${details.serverLicense}`, signatureColumn, y);
+  }
+  y += LINE_HEIGHT * 3;
+  doc.line(PAGE_MARGIN, y, PAGE_MARGIN + 200, y);
+  y += LINE_HEIGHT;
+  doc.text("Notary Public", PAGE_MARGIN, y);
+
+  return doc.output("blob");
+}
+
+export const getAffidavitFileName = (indexNumber: string, serve: ServeAttemptData): string => {
+  const date = toDate(serve.timestamp).toISOString().split("T")[0];
+  const safeIndex = (indexNumber || "case").replace(/[^a-zA-Z0-9-]+/g, "_");
+  return `Affidavit_of_Service_${safeIndex}_${date}.pdf`;
+};
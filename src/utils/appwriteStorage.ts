@@ -2,6 +2,7 @@ import { appwrite } from "@/lib/appwrite";
 import { v4 as uuidv4 } from "uuid";
 import { ServeAttemptData } from "@/components/ServeAttempt";
 import { UploadedDocument } from "@/types/documentTypes"; 
+import { isOpenCaseStatus } from "@/utils/caseWorkflow";
 
 export async function uploadClientDocument(
   clientId: string,
@@ -79,10 +80,8 @@ export async function getClientCases(clientId: string): Promise<{ caseNumber: st
     const cases = await appwrite.getClientCases(clientId);
     console.log("Raw cases response:", cases);
     
-    const availableCases = cases.filter(caseItem => 
-      caseItem.status === "Active" || caseItem.status === "Pending"
-    );
-    console.log("Available cases (Active + Pending):", availableCases);
+    const availableCases = cases.filter(caseItem => isOpenCaseStatus(caseItem.status));
+    console.log("Available (open) cases:", availableCases);
 
     return availableCases.map(caseItem => ({
       caseNumber: caseItem.case_number,
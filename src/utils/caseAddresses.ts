@@ -0,0 +1,176 @@
+import { ServeAttemptData } from "@/components/ServeAttempt";
+import { GeoPoint, geocodeAddress } from "@/utils/geocoding";
+
+/**
+ * Addresses on a case. Each case keeps a list of labeled addresses, stored as
+ * JSON in the `addresses` attribute. Cases created before the list existed
+ * only have `home_address` and `work_address`, which are read as a two-entry
+ * list.
+ */
+
+export type AddressLabel = "home" | "work" | "last_known" | "skip_trace" | "other";
+export type AddressStatus = "valid" | "vacated" | "bad";
+export type AddressSource = "client" | "skip_trace" | "court_filing" | "field" | "other";
+
+export const ADDRESS_LABELS: { value: AddressLabel; label: string }[] = [
+  { value: "home", label: "Home" },
+  { value: "work", label: "Work" },
+  { value: "last_known", label: "Last known" },
+  { value: "skip_trace", label: "Skip-trace result" },
+  { value: "other", label: "Other" },
+];
+
+export const ADDRESS_STATUSES: { value: AddressStatus; label: string }[] = [
+  { value: "valid", label: "Valid" },
+  { value: "vacated", label: "Vacated" },
+  { value: "bad", label: "Bad address" },
+];
+
+export const ADDRESS_SOURCES: { value: AddressSource; label: string }[] = [
+  { value: "client", label: "Client" },
+  { value: "skip_trace", label: "Skip trace" },
+  { value: "court_filing", label: "Court filing" },
+  { value: "field", label: "Field observation" },
+  { value: "other", label: "Other" },
+];
+
+// Geocoded position, with the address text it was looked up for
+export interface AddressLocation extends GeoPoint {
+  query: string;
+  provider: string;
+}
+
+export interface CaseAddress {
+  id: string;
+  label: AddressLabel;
+  address: string;
+  status: AddressStatus;
+  source: AddressSource;
+  location?: AddressLocation;
+}
+
+interface CaseAddressDocument {
+  addresses?: string | null;
+  home_address?: string | null;
+  work_address?: string | null;
+}
+
+const findOption = <T extends string>(options: { value: T; label: string }[], value: string | undefined, fallback: T): T =>
+  options.some(option => option.value === value) ? (value as T) : fallback;
+
+export const getAddressLabel = (label?: string): string =>
+  ADDRESS_LABELS.find(option => option.value === label)?.label || "Other";
+
+export const getAddressStatusLabel = (status?: string): string =>
+  ADDRESS_STATUSES.find(option => option.value === status)?.label || "Valid";
+
+export const getAddressSourceLabel = (source?: string): string =>
+  ADDRESS_SOURCES.find(option => option.value === source)?.label || "Other";
+
+export const getAddressStatusClass = (status: AddressStatus): string =>
+  status === "bad" ? "bg-red-100 text-red-800" :
+  status === "vacated" ? "bg-amber-100 text-amber-800" :
+  "bg-green-100 text-green-800";
+
+export const createCaseAddress = (label: AddressLabel = "home"): CaseAddress => ({
+  id: typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  label,
+  address: "",
+  status: "valid",
+  source: "client",
+});
+
+/**
+ * Reads a case document's address list, falling back to the legacy columns
+ */
+export function parseCaseAddresses(caseDoc?: CaseAddressDocument | null): CaseAddress[] {
+  if (!caseDoc) return [];
+
+  if (caseDoc.addresses) {
+    try {
+      const parsed = JSON.parse(caseDoc.addresses);
+      if (Array.isArray(parsed)) {
+        return parsed
+          .filter(entry => entry && typeof entry.address === "string" && entry.address.trim())
+          .map((entry, index) => ({
+            id: entry.id || `address-${index}`,
+            label: findOption(ADDRESS_LABELS, entry.label, "other"),
+            address: entry.address,
+            status: findOption(ADDRESS_STATUSES, entry.status, "valid"),
+            source: findOption(ADDRESS_SOURCES, entry.source, "other"),
+            location: typeof entry.location?.latitude === "number" ? entry.location : undefined,
+          }));
+      }
+    } catch (error) {
+      console.warn("Could not parse case addresses:", error);
+    }
+  }
+
+  const legacy: CaseAddress[] = [];
+  if (caseDoc.home_address) {
+    legacy.push({ id: "home", label: "home", address: caseDoc.home_address, status: "valid", source: "client" });
+  }
+  if (caseDoc.work_address) {
+    legacy.push({ id: "work", label: "work", address: caseDoc.work_address, status: "valid", source: "client" });
+  }
+  return legacy;
+}
+
+export const serializeCaseAddresses = (addresses: CaseAddress[]): string =>
+  JSON.stringify(
+    addresses
+      .filter(entry => entry.address.trim())
+      .map(entry => ({ ...entry, address: entry.address.trim() }))
+  );
+
+/**
+ * The address's geocoded position, unless the address was edited since
+ */
+export const getAddressLocation = (entry: CaseAddress): AddressLocation | undefined =>
+  entry.location && entry.location.query === entry.address.trim() ? entry.location : undefined;
+
+/**
+ * Geocodes addresses that have no position yet, so each is only looked up once
+ */
+export const geocodeCaseAddresses = async (addresses: CaseAddress[]): Promise<CaseAddress[]> => {
+  const result: CaseAddress[] = [];
+  for (const entry of addresses) {
+    const query = entry.address.trim();
+    if (!query || getAddressLocation(entry)) {
+      result.push(entry);
+      continue;
+    }
+    const found = await geocodeAddress(query);
+    result.push({
+      ...entry,
+      location: found
+        ? { latitude: found.latitude, longitude: found.longitude, query, provider: found.provider }
+        : undefined,
+    });
+  }
+  return result;
+};
+
+/**
+ * First usable address with the given label, kept in the legacy columns
+ */
+export const getPrimaryAddress = (addresses: CaseAddress[], label: AddressLabel): string =>
+  addresses.find(entry => entry.label === label && entry.status !== "bad" && entry.address.trim())?.address.trim() || "";
+
+export const getServiceableAddresses = (addresses: CaseAddress[]): CaseAddress[] =>
+  addresses.filter(entry => entry.status !== "bad");
+
+const normalizeAddress = (address?: string) => (address || "").trim().toLowerCase();
+
+/**
+ * Attempts made at an address. Older attempts carry no address id and are
+ * matched on the address text instead.
+ */
+export const getAddressServes = (entry: CaseAddress, serves: ServeAttemptData[]): ServeAttemptData[] =>
+  serves.filter(serve =>
+    serve.addressId
+      ? serve.addressId === entry.id
+      : normalizeAddress(serve.address) === normalizeAddress(entry.address)
+  );
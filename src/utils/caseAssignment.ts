@@ -0,0 +1,72 @@
+/**
+ * Dispatching cases to process servers. A case is assigned to one server with
+ * a priority and a due date; servers work from their own queue.
+ */
+
+export type AssignmentPriority = "routine" | "rush" | "same_day";
+
+export const ASSIGNMENT_PRIORITIES: { value: AssignmentPriority; label: string }[] = [
+  { value: "routine", label: "Routine" },
+  { value: "rush", label: "Rush" },
+  { value: "same_day", label: "Same-day" },
+];
+
+const PRIORITY_RANK: Record<AssignmentPriority, number> = {
+  same_day: 0,
+  rush: 1,
+  routine: 2,
+};
+
+export interface CaseAssignment {
+  assignedTo?: string;
+  assignedToName?: string;
+  dueDate?: string;
+  priority: AssignmentPriority;
+  assignedAt?: string;
+}
+
+interface CaseAssignmentDocument {
+  assigned_to?: string | null;
+  assigned_to_name?: string | null;
+  assignment_due?: string | null;
+  assignment_priority?: string | null;
+  assigned_at?: string | null;
+}
+
+export const getCaseAssignment = (caseDoc?: CaseAssignmentDocument | null): CaseAssignment => ({
+  assignedTo: caseDoc?.assigned_to || undefined,
+  assignedToName: caseDoc?.assigned_to_name || undefined,
+  dueDate: caseDoc?.assignment_due || undefined,
+  priority: ASSIGNMENT_PRIORITIES.some(p => p.value === caseDoc?.assignment_priority)
+    ? (caseDoc!.assignment_priority as AssignmentPriority)
+    : "routine",
+  assignedAt: caseDoc?.assigned_at || undefined,
+});
+
+export const getPriorityLabel = (priority: AssignmentPriority): string =>
+  ASSIGNMENT_PRIORITIES.find(p => p.value === priority)?.label || "Routine";
+
+export const getPriorityClass = (priority: AssignmentPriority): string =>
+  priority === "same_day" ? "bg-red-100 text-red-800" :
+  priority === "rush" ? "bg-orange-100 text-orange-800" :
+  "bg-gray-100 text-gray-700";
+
+// Due dates are whole days, so an assignment is overdue from the day after
+export const isAssignmentOverdue = (assignment: CaseAssignment, now: Date = new Date()): boolean => {
+  if (!assignment.dueDate) return false;
+  const due = new Date(assignment.dueDate);
+  if (isNaN(due.getTime())) return false;
+  const endOfDueDay = new Date(due.getFullYear(), due.getMonth(), due.getDate() + 1);
+  return endOfDueDay.getTime() <= now.getTime();
+};
+
+/**
+ * Orders assignments for working through a queue: priority first, then due date
+ */
+export const compareAssignments = (a: CaseAssignment, b: CaseAssignment): number => {
+  const byPriority = PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority];
+  if (byPriority !== 0) return byPriority;
+  const aDue = a.dueDate ? new Date(a.dueDate).getTime() : Infinity;
+  const bDue = b.dueDate ? new Date(b.dueDate).getTime() : Infinity;
+  return aDue - bDue;
+};
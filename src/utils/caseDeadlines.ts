@@ -0,0 +1,103 @@
+/**
+ * Case deadlines. Under CPLR 306-b service must be made within 120 days of
+ * filing, so the service deadline defaults to that window unless overridden
+ * (for example by a court-ordered extension). Once the case is served the
+ * service deadline no longer applies, and a court date drops off once it has
+ * passed.
+ */
+
+import { isServiceComplete } from "@/utils/caseWorkflow";
+
+export const SERVICE_WINDOW_DAYS = 120;
+export const DEADLINE_URGENT_DAYS = 7;
+export const DEADLINE_WARNING_DAYS = 21;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CaseDates {
+  status?: string | null;
+  filing_date?: string | null;
+  court_date?: string | null;
+  service_deadline?: string | null;
+}
+
+export type DeadlineUrgency = "overdue" | "urgent" | "soon" | "upcoming";
+
+export interface CaseDeadline {
+  type: "service" | "court";
+  label: string;
+  date: Date;
+  daysRemaining: number;
+  urgency: DeadlineUrgency;
+  computed: boolean;
+}
+
+const parseDate = (value?: string | null): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export const computeServiceDeadline = (filingDate?: string | null): Date | null => {
+  const filed = parseDate(filingDate);
+  return filed ? new Date(filed.getTime() + SERVICE_WINDOW_DAYS * DAY_MS) : null;
+};
+
+export const getUrgency = (daysRemaining: number): DeadlineUrgency =>
+  daysRemaining < 0 ? "overdue" :
+  daysRemaining <= DEADLINE_URGENT_DAYS ? "urgent" :
+  daysRemaining <= DEADLINE_WARNING_DAYS ? "soon" :
+  "upcoming";
+
+export const getUrgencyClass = (urgency: DeadlineUrgency): string =>
+  urgency === "overdue" ? "bg-red-100 text-red-800" :
+  urgency === "urgent" ? "bg-orange-100 text-orange-800" :
+  urgency === "soon" ? "bg-amber-100 text-amber-800" :
+  "bg-gray-100 text-gray-700";
+
+const buildDeadline = (
+  type: CaseDeadline["type"],
+  label: string,
+  date: Date,
+  computed: boolean,
+  now: Date
+): CaseDeadline => {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const daysRemaining = Math.round((new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() - today.getTime()) / DAY_MS);
+  return { type, label, date, daysRemaining, urgency: getUrgency(daysRemaining), computed };
+};
+
+/**
+ * Lists a case's deadlines, soonest first
+ */
+export function getCaseDeadlines(caseDoc: CaseDates, now: Date = new Date()): CaseDeadline[] {
+  const deadlines: CaseDeadline[] = [];
+
+  const explicitDeadline = parseDate(caseDoc.service_deadline);
+  const serviceDeadline = explicitDeadline || computeServiceDeadline(caseDoc.filing_date);
+  if (serviceDeadline && !isServiceComplete(caseDoc.status)) {
+    deadlines.push(buildDeadline("service", "Service deadline", serviceDeadline, !explicitDeadline, now));
+  }
+
+  const courtDate = parseDate(caseDoc.court_date);
+  if (courtDate) {
+    const courtDeadline = buildDeadline("court", "Court date", courtDate, false, now);
+    if (courtDeadline.daysRemaining >= 0) deadlines.push(courtDeadline);
+  }
+
+  return deadlines.sort((a, b) => a.daysRemaining - b.daysRemaining);
+}
+
+export const getNextDeadline = (caseDoc: CaseDates, now: Date = new Date()): CaseDeadline | undefined =>
+  getCaseDeadlines(caseDoc, now)[0];
+
+export const formatDaysRemaining = (daysRemaining: number): string =>
+  daysRemaining < 0 ? `${Math.abs(daysRemaining)}d overdue` :
+  daysRemaining === 0 ? "today" :
+  `in ${daysRemaining}d`;
+
+// Date inputs work in yyyy-MM-dd; Appwrite stores ISO datetimes
+export const toDateInputValue = (value?: string | null): string => (value ? value.split("T")[0] : "");
+
+export const fromDateInputValue = (value?: string): string | null =>
+  value ? new Date(`${value}T12:00:00`).toISOString() : null;
@@ -0,0 +1,83 @@
+import { ServeAttemptData } from "@/components/ServeAttempt";
+import { getStatusForOutcome, resolveOutcome } from "@/utils/serveOutcomes";
+import { CaseAddress } from "@/utils/caseAddresses";
+
+/**
+ * People or entities to be served on a case. A case can name several
+ * defendants or respondents, each with their own addresses and attempts.
+ */
+
+export type PartyRole = "defendant" | "respondent" | "witness" | "other";
+
+export const PARTY_ROLES: { value: PartyRole; label: string }[] = [
+  { value: "defendant", label: "Defendant" },
+  { value: "respondent", label: "Respondent" },
+  { value: "witness", label: "Witness" },
+  { value: "other", label: "Other" },
+];
+
+export interface CaseParty {
+  id: string;
+  caseId: string;
+  clientId: string;
+  name: string;
+  role: PartyRole;
+  homeAddress?: string;
+  workAddress?: string;
+  notes?: string;
+}
+
+export type PartyServiceStatus = "served" | "attempted" | "not_attempted";
+
+export const PARTY_SERVICE_STATUS_LABELS: Record<PartyServiceStatus, string> = {
+  served: "Served",
+  attempted: "Attempted",
+  not_attempted: "Not attempted",
+};
+
+interface CasePartyDocument {
+  $id: string;
+  case_id: string;
+  client_id: string;
+  name: string;
+  role?: string | null;
+  home_address?: string | null;
+  work_address?: string | null;
+  notes?: string | null;
+}
+
+export const getPartyRoleLabel = (role?: string): string =>
+  PARTY_ROLES.find(r => r.value === role)?.label || "Other";
+
+export const formatCaseParty = (doc: CasePartyDocument): CaseParty => ({
+  id: doc.$id,
+  caseId: doc.case_id,
+  clientId: doc.client_id,
+  name: doc.name,
+  role: (PARTY_ROLES.some(r => r.value === doc.role) ? doc.role : "other") as PartyRole,
+  homeAddress: doc.home_address || undefined,
+  workAddress: doc.work_address || undefined,
+  notes: doc.notes || undefined,
+});
+
+// Party addresses as address entries, so attempts can link to them by id
+export const getPartyAddresses = (party: CaseParty): CaseAddress[] => [
+  ...(party.homeAddress ? [{ id: `${party.id}:home`, label: "home" as const, address: party.homeAddress, status: "valid" as const, source: "client" as const }] : []),
+  ...(party.workAddress ? [{ id: `${party.id}:work`, label: "work" as const, address: party.workAddress, status: "valid" as const, source: "client" as const }] : []),
+];
+
+export const getPartyServes = (party: CaseParty, serves: ServeAttemptData[]): ServeAttemptData[] =>
+  serves.filter(serve => serve.partyId === party.id);
+
+export function getPartyServiceStatus(party: CaseParty, serves: ServeAttemptData[]): PartyServiceStatus {
+  const partyServes = getPartyServes(party, serves);
+  if (partyServes.some(serve => getStatusForOutcome(resolveOutcome(serve)) === "completed")) {
+    return "served";
+  }
+  return partyServes.length > 0 ? "attempted" : "not_attempted";
+}
+
+export const getPartyStatusClass = (status: PartyServiceStatus): string =>
+  status === "served" ? "bg-green-100 text-green-800" :
+  status === "attempted" ? "bg-amber-100 text-amber-800" :
+  "bg-gray-100 text-gray-700";
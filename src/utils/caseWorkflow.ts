@@ -0,0 +1,181 @@
+import { ServeOutcome, getStatusForOutcome } from "@/utils/serveOutcomes";
+
+/**
+ * Case lifecycle. Cases move along the main flow from New to Closed; Unable
+ * to Serve and Cancelled sit off to the side. Which moves are allowed is
+ * defined here, and the backend applies the automatic ones when a serve
+ * attempt or mailing is saved.
+ */
+
+export type CaseStatus =
+  | "new"
+  | "in_progress"
+  | "served"
+  | "mailing_sent"
+  | "affidavit_signed"
+  | "filed"
+  | "closed"
+  | "unable_to_serve"
+  | "cancelled";
+
+export interface CaseStatusDefinition {
+  value: CaseStatus;
+  label: string;
+  description: string;
+}
+
+export const CASE_STATUSES: CaseStatusDefinition[] = [
+  { value: "new", label: "New", description: "Received, no attempts yet" },
+  { value: "in_progress", label: "In Progress", description: "Service is being attempted" },
+  { value: "served", label: "Served", description: "Service has been completed" },
+  { value: "mailing_sent", label: "Mailing Sent", description: "Follow-up mailing has been sent" },
+  { value: "affidavit_signed", label: "Affidavit Signed", description: "Affidavit of service has been signed" },
+  { value: "filed", label: "Filed", description: "Affidavit has been filed with the court" },
+  { value: "closed", label: "Closed", description: "No further work on this case" },
+  { value: "unable_to_serve", label: "Unable to Serve", description: "Service could not be made" },
+  { value: "cancelled", label: "Cancelled", description: "Withdrawn by the client" },
+];
+
+export const MAIN_FLOW: CaseStatus[] = [
+  "new",
+  "in_progress",
+  "served",
+  "mailing_sent",
+  "affidavit_signed",
+  "filed",
+  "closed",
+];
+
+const TRANSITIONS: Record<CaseStatus, CaseStatus[]> = {
+  new: ["in_progress", "served", "unable_to_serve", "cancelled"],
+  in_progress: ["served", "unable_to_serve", "cancelled"],
+  served: ["mailing_sent", "affidavit_signed", "in_progress", "cancelled"],
+  mailing_sent: ["affidavit_signed"],
+  affidavit_signed: ["filed"],
+  filed: ["closed"],
+  closed: ["in_progress"],
+  unable_to_serve: ["in_progress", "served", "closed"],
+  cancelled: ["closed"],
+};
+
+const TERMINAL_STATUSES: CaseStatus[] = ["closed", "cancelled"];
+
+// Free-text statuses used before the workflow existed
+const LEGACY_STATUSES: Record<string, CaseStatus> = {
+  Pending: "new",
+  Active: "in_progress",
+  Closed: "closed",
+};
+
+export const normalizeCaseStatus = (status?: string | null): CaseStatus => {
+  if (status && CASE_STATUSES.some(s => s.value === status)) return status as CaseStatus;
+  return (status && LEGACY_STATUSES[status]) || "new";
+};
+
+export const getCaseStatusLabel = (status?: string | null): string =>
+  CASE_STATUSES.find(s => s.value === normalizeCaseStatus(status))?.label || "New";
+
+export const isOpenCaseStatus = (status?: string | null): boolean =>
+  !TERMINAL_STATUSES.includes(normalizeCaseStatus(status));
+
+// Served or any later step of the main flow
+export const isServiceComplete = (status?: string | null): boolean =>
+  MAIN_FLOW.indexOf(normalizeCaseStatus(status)) >= MAIN_FLOW.indexOf("served");
+
+export const getCaseStatusClass = (status?: string | null): string => {
+  const value = normalizeCaseStatus(status);
+  return value === "new" ? "bg-blue-100 text-blue-800" :
+    value === "in_progress" ? "bg-yellow-100 text-yellow-800" :
+    value === "unable_to_serve" ? "bg-red-100 text-red-800" :
+    value === "closed" || value === "cancelled" ? "bg-gray-100 text-gray-800" :
+    "bg-green-100 text-green-800";
+};
+
+/**
+ * What the rules need to know about a case to judge a transition
+ */
+export interface CaseWorkflowContext {
+  attemptCount: number;
+  hasCompletedServe: boolean;
+  requiresMailing: boolean;
+  mailingSent: boolean;
+}
+
+export interface TransitionCheck {
+  allowed: boolean;
+  reason?: string;
+}
+
+export function canTransition(from: string | null | undefined, to: CaseStatus, context: CaseWorkflowContext): TransitionCheck {
+  const current = normalizeCaseStatus(from);
+
+  if (current === to) {
+    return { allowed: false, reason: "Case is already in this status" };
+  }
+  if (!TRANSITIONS[current].includes(to)) {
+    return { allowed: false, reason: `Cannot move from ${getCaseStatusLabel(current)} to ${getCaseStatusLabel(to)}` };
+  }
+
+  switch (to) {
+    case "served":
+      if (!context.hasCompletedServe) {
+        return { allowed: false, reason: "Record a completed serve attempt first" };
+      }
+      break;
+    case "mailing_sent":
+      if (!context.requiresMailing) {
+        return { allowed: false, reason: "This service method does not need a follow-up mailing" };
+      }
+      if (!context.mailingSent) {
+        return { allowed: false, reason: "Record the follow-up mailing first" };
+      }
+      break;
+    case "affidavit_signed":
+      if (current === "served" && context.requiresMailing && !context.mailingSent) {
+        return { allowed: false, reason: "The follow-up mailing must be sent before the affidavit" };
+      }
+      break;
+    case "unable_to_serve":
+      if (context.attemptCount === 0) {
+        return { allowed: false, reason: "At least one attempt is needed" };
+      }
+      break;
+  }
+
+  return { allowed: true };
+}
+
+export const getAvailableTransitions = (from: string | null | undefined): CaseStatus[] =>
+  TRANSITIONS[normalizeCaseStatus(from)];
+
+/**
+ * Status a case should move to when a serve attempt is saved, if any. Only
+ * moves the transition table allows are made. The caseUpdates function
+ * applies this rule on the backend and keeps a copy of it.
+ */
+export function getTransitionForServe(current: string | null | undefined, outcome: ServeOutcome): CaseStatus | null {
+  const status = normalizeCaseStatus(current);
+
+  if (getStatusForOutcome(outcome) === "completed") {
+    return TRANSITIONS[status].includes("served") ? "served" : null;
+  }
+  return status === "new" ? "in_progress" : null;
+}
+
+/**
+ * Status a case should move to when its follow-up mailing is recorded, if any
+ */
+export const getTransitionForMailing = (current: string | null | undefined): CaseStatus | null =>
+  TRANSITIONS[normalizeCaseStatus(current)].includes("mailing_sent") ? "mailing_sent" : null;
+
+export interface CaseStatusLogEntry {
+  id: string;
+  caseId: string;
+  fromStatus: CaseStatus | null;
+  toStatus: CaseStatus;
+  userId?: string;
+  userName?: string;
+  note?: string;
+  automatic: boolean;
+  timestamp: Date;
+}
@@ -0,0 +1,10 @@
+/**
+ * CSV for spreadsheet exports. Every value is quoted, with embedded quotes
+ * doubled, so commas and line breaks in notes survive.
+ */
+
+export const csvValue = (value: string | number | null | undefined): string =>
+  `"${String(value ?? "").replace(/"/g, '""')}"`;
+
+export const toCsv = (headers: string[], rows: (string | number | null | undefined)[][]): string =>
+  [headers, ...rows].map(row => row.map(csvValue).join(",")).join("\n");
@@ -0,0 +1,321 @@
+import { jsPDF } from "jspdf";
+import { parseServePhotos } from "@/utils/servePhotos";
+import { getOutcomeLabel } from "@/utils/serveOutcomes";
+
+/**
+ * Evidence hashing for serve attempts. Each attempt stores a SHA-256 of its
+ * photos and of a canonical form of its record when it is captured. Every
+ * capture, later edit and deletion is appended to a per-case hash chain in the
+ * custody log, so a report can show each version and whether the hashes still hold.
+ */
+
+export type CustodyAction = "captured" | "edited" | "deleted";
+
+export interface CustodyChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface CustodyEntry {
+  id: string;
+  clientId: string;
+  caseNumber: string;
+  serveId: string;
+  version: number;
+  action: CustodyAction;
+  recordHash: string;
+  imageHash: string;
+  changes: Record<string, CustodyChange>;
+  previousHash: string;
+  entryHash: string;
+  userId: string;
+  userName: string;
+  createdAt: string;
+}
+
+export interface CustodyEntryCheck extends CustodyEntry {
+  // The entry's own hash recomputes to the stored value
+  hashValid: boolean;
+  // The entry points at the hash of the entry before it in the case chain
+  linkValid: boolean;
+}
+
+export interface CustodyImageCheck {
+  label: string;
+  expected: string;
+  actual: string | null;
+  matches: boolean;
+}
+
+export interface CustodyServeReport {
+  serveId: string;
+  attemptNumber?: number;
+  timestamp?: string;
+  outcome?: string;
+  exists: boolean;
+  recordHash: string;
+  // null when the attempt was recorded before hashing existed
+  recordMatches: boolean | null;
+  imageChecks: CustodyImageCheck[];
+  versions: CustodyEntryCheck[];
+}
+
+export interface CustodyReport {
+  clientId: string;
+  caseNumber: string;
+  generatedAt: string;
+  chainIntact: boolean;
+  entries: CustodyEntryCheck[];
+  serves: CustodyServeReport[];
+}
+
+// Fields of a serve_attempts document that make up the evidentiary record
+const EVIDENCE_FIELDS = [
+  "client_id",
+  "case_number",
+  "party_id",
+  "address",
+  "coordinates",
+  "timestamp",
+  "outcome",
+  "status",
+  "notes",
+  "recipient_description",
+  "attempt_number",
+  "server_id",
+  "device_info",
+  "gps_fix",
+  "geofence",
+  "image_hash",
+] as const;
+
+// Field labels for the report's change list
+export const CUSTODY_FIELD_LABELS: Record<string, string> = {
+  notes: "Notes",
+  outcome: "Outcome",
+  status: "Status",
+  recipient_description: "Recipient description",
+  case_number: "Case number",
+  case_name: "Case name",
+};
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, "0")).join("");
+
+export const sha256Hex = async (data: string | BufferSource): Promise<string> => {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  return toHex(await crypto.subtle.digest("SHA-256", bytes));
+};
+
+/**
+ * Hashes the decoded bytes of an image, so the value matches `sha256sum` of
+ * the file downloaded from storage
+ * @param imageDataUrl Image as a data URL
+ */
+export const hashImageData = async (imageDataUrl: string): Promise<string> => {
+  const base64 = imageDataUrl.includes(",") ? imageDataUrl.split(",")[1] : imageDataUrl;
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return sha256Hex(bytes);
+};
+
+// JSON with object keys sorted at every level, so equal records hash equally
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+const normalizeField = (field: string, value: unknown): unknown => {
+  if (value === undefined || value === null) return "";
+  // Appwrite returns datetimes as +00:00 rather than Z
+  if (field === "timestamp") return new Date(value as string).toISOString();
+  return value;
+};
+
+/**
+ * The canonical evidentiary record of a serve attempt document
+ * @param doc serve_attempts document, or the payload about to be written
+ */
+export const getEvidenceRecord = (doc: Record<string, unknown>): Record<string, unknown> => {
+  const record: Record<string, unknown> = {};
+  for (const field of EVIDENCE_FIELDS) {
+    record[field] = normalizeField(field, doc[field]);
+  }
+  record.photos = parseServePhotos(doc.photos as string | undefined).map(photo => ({
+    sha256: photo.sha256 || "",
+    caption: photo.caption || "",
+    coordinates: photo.coordinates || "",
+    takenAt: photo.takenAt || "",
+  }));
+  return record;
+};
+
+export const hashServeRecord = (doc: Record<string, unknown>): Promise<string> =>
+  sha256Hex(canonicalJson(getEvidenceRecord(doc)));
+
+type CustodyEntryContent = Omit<CustodyEntry, "id" | "entryHash">;
+
+export const hashCustodyEntry = (entry: CustodyEntryContent): Promise<string> =>
+  sha256Hex(canonicalJson({
+    clientId: entry.clientId,
+    caseNumber: entry.caseNumber,
+    serveId: entry.serveId,
+    version: entry.version,
+    action: entry.action,
+    recordHash: entry.recordHash,
+    imageHash: entry.imageHash,
+    changes: entry.changes,
+    previousHash: entry.previousHash,
+    userId: entry.userId,
+    createdAt: entry.createdAt,
+  }));
+
+/**
+ * Recomputes each entry's hash and checks it links to the entry before it
+ * @param entries Custody log entries for one case, oldest first
+ */
+export const verifyCustodyChain = async (entries: CustodyEntry[]): Promise<CustodyEntryCheck[]> => {
+  const checks: CustodyEntryCheck[] = [];
+  let previousHash = "";
+  for (const entry of entries) {
+    checks.push({
+      ...entry,
+      hashValid: (await hashCustodyEntry(entry)) === entry.entryHash,
+      linkValid: entry.previousHash === previousHash,
+    });
+    previousHash = entry.entryHash;
+  }
+  return checks;
+};
+
+/**
+ * Lists the evidentiary fields that differ between two versions of a document
+ */
+export const diffEvidenceFields = (
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): Record<string, CustodyChange> => {
+  const changes: Record<string, CustodyChange> = {};
+  for (const field of Object.keys(after)) {
+    if (field === "record_hash") continue;
+    const from = before[field] ?? "";
+    const to = after[field] ?? "";
+    if (from !== to) changes[field] = { from, to };
+  }
+  return changes;
+};
+
+// Capture-hashed fields an edit can change: document field to serve field
+const EDITABLE_CAPTURE_FIELDS: Record<string, string> = {
+  notes: "notes",
+  outcome: "outcome",
+  case_number: "caseNumber",
+};
+
+/**
+ * A serve attempt as it was captured, undoing later edits with the values
+ * recorded in its custody log
+ * @param entries The attempt's custody entries, oldest first
+ */
+export const getServeAsCaptured = <T extends object>(serve: T, entries: CustodyEntry[]): T => {
+  const captured: Record<string, unknown> = {};
+  entries
+    .filter(entry => entry.action === "edited")
+    .forEach(entry => {
+      Object.entries(entry.changes).forEach(([field, change]) => {
+        const serveField = EDITABLE_CAPTURE_FIELDS[field];
+        if (serveField && !(serveField in captured)) captured[serveField] = change.from;
+      });
+    });
+  return { ...serve, ...captured };
+};
+
+export const shortHash = (hash: string): string => hash ? `${hash.slice(0, 12)}…` : "none";
+
+const PAGE_MARGIN = 54;
+const LINE_HEIGHT = 13;
+
+/**
+ * Builds the chain-of-custody report for a case as a PDF
+ */
+export function generateCustodyReportPdf(report: CustodyReport, caseName?: string): Blob {
+  const doc = new jsPDF({ unit: "pt", format: "letter" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const textWidth = pageWidth - PAGE_MARGIN * 2;
+  let y = PAGE_MARGIN;
+
+  const writeLine = (text: string, options: { bold?: boolean; indent?: number; mono?: boolean } = {}) => {
+    doc.setFont(options.mono ? "courier" : "helvetica", options.bold ? "bold" : "normal");
+    const indent = options.indent || 0;
+    const lines = doc.splitTextToSize(text, textWidth - indent) as string[];
+    if (y + lines.length * LINE_HEIGHT > pageHeight - PAGE_MARGIN) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+    doc.text(lines, PAGE_MARGIN + indent, y);
+    y += lines.length * LINE_HEIGHT;
+  };
+
+  doc.setFontSize(14);
+  writeLine("CHAIN OF CUSTODY REPORT", { bold: true });
+  doc.setFontSize(10);
+  y += 4;
+  writeLine(`Case: ${caseName ? `${caseName} (${report.caseNumber})` : report.caseNumber}`);
+  writeLine(`Generated: ${new Date(report.generatedAt).toLocaleString()}`);
+  writeLine(`Hash chain: ${report.chainIntact ? "intact" : "BROKEN - see entries marked below"}`, { bold: true });
+  y += LINE_HEIGHT / 2;
+
+  for (const serve of report.serves) {
+    y += LINE_HEIGHT / 2;
+    const heading = serve.exists
+      ? `Attempt #${serve.attemptNumber} - ${serve.timestamp ? new Date(serve.timestamp).toLocaleString() : "unknown time"} - ${getOutcomeLabel(serve.outcome)}`
+      : `Serve record ${serve.serveId} (no longer exists)`;
+    writeLine(heading, { bold: true });
+    writeLine(`Record ID: ${serve.serveId}`, { indent: 12 });
+
+    if (serve.exists) {
+      const recordStatus = serve.recordMatches === null
+        ? "no capture hash (recorded before hashing)"
+        : serve.recordMatches ? "verifies" : "DOES NOT MATCH";
+      writeLine(`Record SHA-256: ${serve.recordHash || "none"} - ${recordStatus}`, { indent: 12, mono: true });
+      for (const image of serve.imageChecks) {
+        writeLine(
+          `${image.label} SHA-256: ${image.expected} - ${image.matches ? "verifies" : image.actual ? "DOES NOT MATCH" : "COULD NOT BE READ"}`,
+          { indent: 12, mono: true }
+        );
+      }
+    }
+
+    for (const version of serve.versions) {
+      const status = version.hashValid && version.linkValid ? "verified" : "FAILED VERIFICATION";
+      writeLine(
+        `v${version.version} ${version.action} ${new Date(version.createdAt).toLocaleString()} by ${version.userName || version.userId || "unknown"} - ${status}`,
+        { indent: 12 }
+      );
+      for (const [field, change] of Object.entries(version.changes)) {
+        writeLine(
+          `${CUSTODY_FIELD_LABELS[field] || field}: "${String(change.from)}" -> "${String(change.to)}"`,
+          { indent: 24 }
+        );
+      }
+      writeLine(`entry ${version.entryHash}`, { indent: 24, mono: true });
+    }
+  }
+
+  return doc.output("blob");
+}
+
+export const getCustodyReportFileName = (caseNumber: string): string =>
+  `Chain_of_Custody_${caseNumber.replace(/[^a-z0-9-]+/gi, "_")}_${new Date().toISOString().slice(0, 10)}.pdf`;
@@ -1,5 +1,11 @@
 import { ServeAttemptData } from "@/components/ServeAttempt";
 import { ClientData } from "@/components/ClientForm";
+import { resolveOutcome } from "@/utils/serveOutcomes";
+import { parseRecipientDescription } from "@/utils/recipientDescription";
+import { parseServePhotos } from "@/utils/servePhotos";
+import { parseGpsFix } from "@/utils/gps";
+import { parseGeofence } from "@/utils/geofence";
+import { decodeTrail } from "@/utils/dutyTrail";
 
 /**
  * Normalize serve data from any format to the standard ServeAttemptData format
@@ -25,9 +31,33 @@ export function normalizeServeData(serve: any): ServeAttemptData | null {
     coordinates: serve.coordinates || null,
     notes: serve.notes || "",
     status: serve.status || "unknown",
+    outcome: resolveOutcome(serve),
+    recipientDescription: parseRecipientDescription(serve.recipientDescription || serve.recipient_description),
     timestamp: serve.timestamp ? new Date(serve.timestamp) : new Date(),
     attemptNumber: serve.attemptNumber || serve.attempt_number || 1,
     imageData: serve.imageData || serve.image_data || null,
+    imageFileId: serve.imageFileId || serve.image_file_id || undefined,
+    imageUrl: serve.imageUrl,
+    thumbnailUrl: serve.thumbnailUrl,
+    photos: Array.isArray(serve.photos) ? serve.photos : parseServePhotos(serve.photos),
+    address: serve.address || "",
+    partyId: serve.partyId || serve.party_id || undefined,
+    partyName: serve.partyName || serve.party_name || "",
+    addressId: serve.addressId || serve.address_id || undefined,
+    ownerId: serve.ownerId,
+    serverId: serve.serverId,
+    serverName: serve.serverName,
+    deviceInfo: serve.deviceInfo,
+    captureHash: serve.captureHash || serve.capture_hash || undefined,
+    queuedAt: serve.queuedAt || serve.queued_at || undefined,
+    recordHash: serve.recordHash || serve.record_hash || undefined,
+    imageHash: serve.imageHash || serve.image_hash || undefined,
+    gpsFix: parseGpsFix(serve.gpsFix || serve.gps_fix),
+    geofence: parseGeofence(serve.geofence),
+    gpsAddress: serve.gpsAddress || serve.gps_address || "",
+    trail: Array.isArray(serve.trail) ? serve.trail : decodeTrail(serve.trail),
+    trailDistance: serve.trailDistance ?? serve.trail_distance ?? undefined,
+    shiftId: serve.shiftId || serve.shift_id || undefined,
   };
 }
 
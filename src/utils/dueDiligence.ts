@@ -0,0 +1,101 @@
+import { ServeAttemptData } from "@/components/ServeAttempt";
+import { appwrite } from "@/lib/appwrite";
+import { normalizeServeDataArray } from "@/utils/dataNormalization";
+import { getStatusForOutcome, resolveOutcome } from "@/utils/serveOutcomes";
+
+/**
+ * Due diligence for affix-and-mail under CPLR 308(4). Courts look for repeated
+ * attempts on different days and at different times of day, with at least one
+ * attempt when a working recipient could be expected to be home.
+ */
+
+export const MIN_DILIGENCE_ATTEMPTS = 3;
+export const MIN_DILIGENCE_DAYS = 3;
+export const MIN_TIME_SLOTS = 2;
+
+// Weekday hours when a recipient is presumed to be at work
+export const WORKDAY_START_HOUR = 8;
+export const WORKDAY_END_HOUR = 18;
+
+export type TimeSlot = "morning" | "afternoon" | "evening";
+
+export interface DueDiligenceResult {
+  qualifies: boolean;
+  attemptCount: number;
+  distinctDays: number;
+  timeSlots: TimeSlot[];
+  hasNonWorkingHoursAttempt: boolean;
+  alreadyServed: boolean;
+  missing: string[];
+  warnings: string[];
+}
+
+const toDate = (timestamp: ServeAttemptData["timestamp"]): Date =>
+  timestamp instanceof Date ? timestamp : new Date(timestamp);
+
+export const getTimeSlot = (date: Date): TimeSlot => {
+  const hour = date.getHours();
+  if (hour < 12) return "morning";
+  if (hour < 17) return "afternoon";
+  return "evening";
+};
+
+export const isNonWorkingHours = (date: Date): boolean => {
+  const day = date.getDay();
+  const hour = date.getHours();
+  return day === 0 || day === 6 || hour < WORKDAY_START_HOUR || hour >= WORKDAY_END_HOUR;
+};
+
+/**
+ * Checks whether a case's unsuccessful attempts support affix-and-mail
+ */
+export function evaluateDueDiligence(attempts: ServeAttemptData[]): DueDiligenceResult {
+  const outcomes = attempts.map(attempt => resolveOutcome(attempt));
+  const failedAttempts = attempts.filter((_, index) => getStatusForOutcome(outcomes[index]) === "failed");
+  const dates = failedAttempts.map(attempt => toDate(attempt.timestamp)).filter(date => !isNaN(date.getTime()));
+
+  const distinctDays = new Set(dates.map(date => date.toDateString())).size;
+  const timeSlots = Array.from(new Set(dates.map(getTimeSlot)));
+  const hasNonWorkingHoursAttempt = dates.some(isNonWorkingHours);
+
+  const missing: string[] = [];
+  if (dates.length < MIN_DILIGENCE_ATTEMPTS) {
+    const needed = MIN_DILIGENCE_ATTEMPTS - dates.length;
+    missing.push(`needs ${needed} more ${needed === 1 ? "attempt" : "attempts"}`);
+  }
+  if (distinctDays < MIN_DILIGENCE_DAYS) {
+    missing.push(`needs attempts on ${MIN_DILIGENCE_DAYS - distinctDays} more different ${MIN_DILIGENCE_DAYS - distinctDays === 1 ? "day" : "days"}`);
+  }
+  if (timeSlots.length < MIN_TIME_SLOTS) {
+    const tried = timeSlots[0];
+    missing.push(tried ? `needs an attempt outside the ${tried}` : "needs attempts at different times of day");
+  }
+  if (!hasNonWorkingHoursAttempt) {
+    missing.push("needs a weekend or evening attempt");
+  }
+
+  const warnings: string[] = [];
+  if (outcomes.some(outcome => outcome === "bad_address" || outcome === "moved")) {
+    warnings.push("An attempt reported a bad address or that the recipient moved - affix-and-mail requires the recipient's actual dwelling or place of business");
+  }
+
+  return {
+    qualifies: missing.length === 0,
+    attemptCount: dates.length,
+    distinctDays,
+    timeSlots,
+    hasNonWorkingHoursAttempt,
+    alreadyServed: failedAttempts.length < attempts.length,
+    missing,
+    warnings,
+  };
+}
+
+/**
+ * Loads a case's attempts and evaluates them
+ */
+export async function getCaseDueDiligence(clientId: string, caseNumber: string): Promise<DueDiligenceResult> {
+  const serves = await appwrite.getClientServeAttempts(clientId);
+  const caseServes = normalizeServeDataArray(serves).filter(serve => serve.caseNumber === caseNumber);
+  return evaluateDueDiligence(caseServes);
+}
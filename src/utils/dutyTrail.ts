@@ -0,0 +1,278 @@
+import { GeoPoint } from "@/utils/geocoding";
+import { distanceMeters } from "@/utils/geofence";
+
+/**
+ * "On duty" mode. While it is on and the app is open, the device position is
+ * sampled into a breadcrumb trail. Mileage is the distance along the trail:
+ * per shift (and so per day), and per attempt through the stretch of trail
+ * driven since the previous attempt.
+ */
+
+export interface TrailPoint extends GeoPoint {
+  accuracy: number;
+  timestamp: string;
+}
+
+export interface DutyShift {
+  id: string;
+  startedAt: string;
+  endedAt?: string;
+  points: TrailPoint[];
+  // First point not yet attached to an attempt
+  segmentStart: number;
+}
+
+// Trail driven since the previous attempt of the shift, stored on an attempt
+export interface TrailSegment {
+  shiftId: string;
+  distance: number;
+  points: TrailPoint[];
+  // Where the next segment starts once this one is committed
+  end: number;
+}
+
+export const DUTY_EVENT = "duty-updated";
+
+const DUTY_SHIFT_KEY = "dutyShift";
+const PENDING_SHIFTS_KEY = "dutyShiftsPending";
+const MIN_SAMPLE_SECONDS = 30;
+const MIN_SAMPLE_METERS = 25;
+const MAX_ACCURACY_METERS = 100;
+// Faster than this between two samples is a GPS jump, not driving (~135 mph)
+const MAX_SPEED_MPS = 60;
+// Keeps a very long shift from filling local storage
+const MAX_SHIFT_POINTS = 5000;
+// New points are written to local storage at most this often
+const PERSIST_INTERVAL_MS = 60000;
+
+/**
+ * Distance along a trail, skipping jumps that can't have been driven
+ */
+export const trailDistance = (points: TrailPoint[]): number => {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    const distance = distanceMeters(points[i - 1], points[i]);
+    const seconds = (new Date(points[i].timestamp).getTime() - new Date(points[i - 1].timestamp).getTime()) / 1000;
+    if (seconds > 0 && distance / seconds <= MAX_SPEED_MPS) total += distance;
+  }
+  return total;
+};
+
+/* Current shift */
+
+// The shift is kept in memory while the app runs. Starting, stopping and
+// committing a segment are written through; new points are written on a
+// throttle and when the page is hidden.
+let currentShift: DutyShift | null | undefined;
+let persistTimer: number | null = null;
+
+const readStoredShift = (): DutyShift | null => {
+  try {
+    return JSON.parse(localStorage.getItem(DUTY_SHIFT_KEY) || "null");
+  } catch (error) {
+    console.warn("Could not read duty shift:", error);
+    return null;
+  }
+};
+
+export const getDutyShift = (): DutyShift | null => {
+  if (currentShift === undefined) currentShift = readStoredShift();
+  return currentShift;
+};
+
+/**
+ * Writes the current shift to local storage now
+ */
+export const flushDutyShift = (): void => {
+  if (persistTimer !== null) {
+    window.clearTimeout(persistTimer);
+    persistTimer = null;
+  }
+  if (currentShift === undefined) return;
+  try {
+    if (currentShift) {
+      localStorage.setItem(DUTY_SHIFT_KEY, JSON.stringify(currentShift));
+    } else {
+      localStorage.removeItem(DUTY_SHIFT_KEY);
+    }
+  } catch (error) {
+    console.warn("Could not save duty shift:", error);
+  }
+};
+
+const saveDutyShift = (shift: DutyShift | null, { throttle = false } = {}) => {
+  currentShift = shift;
+  if (!throttle) {
+    flushDutyShift();
+  } else if (persistTimer === null) {
+    persistTimer = window.setTimeout(flushDutyShift, PERSIST_INTERVAL_MS);
+  }
+  window.dispatchEvent(new CustomEvent(DUTY_EVENT));
+};
+
+export const isOnDuty = (): boolean => !!getDutyShift();
+
+/**
+ * Whether the shift has stopped recording because its trail is at the limit.
+ * Going off and back on duty starts a new trail.
+ */
+export const isTrailFull = (shift: DutyShift): boolean => shift.points.length >= MAX_SHIFT_POINTS;
+
+export const startDuty = (): DutyShift => {
+  const existing = getDutyShift();
+  if (existing) return existing;
+  const shift: DutyShift = {
+    id: crypto.randomUUID(),
+    startedAt: new Date().toISOString(),
+    points: [],
+    segmentStart: 0,
+  };
+  saveDutyShift(shift);
+  return shift;
+};
+
+/**
+ * Ends the shift and returns it for upload
+ */
+export const stopDuty = (): DutyShift | null => {
+  const shift = getDutyShift();
+  if (!shift) return null;
+  saveDutyShift(null);
+  return { ...shift, endedAt: new Date().toISOString() };
+};
+
+/**
+ * Adds a reading to the trail if it is accurate enough and far enough, in
+ * time and distance, from the last sample
+ */
+export const recordTrailPoint = (position: GeolocationPosition): boolean => {
+  const shift = getDutyShift();
+  if (!shift || position.coords.accuracy > MAX_ACCURACY_METERS || isTrailFull(shift)) {
+    return false;
+  }
+
+  const point: TrailPoint = {
+    latitude: position.coords.latitude,
+    longitude: position.coords.longitude,
+    accuracy: Math.round(position.coords.accuracy),
+    timestamp: new Date(position.timestamp).toISOString(),
+  };
+  const last = shift.points[shift.points.length - 1];
+  if (last) {
+    const seconds = (position.timestamp - new Date(last.timestamp).getTime()) / 1000;
+    if (seconds < MIN_SAMPLE_SECONDS || distanceMeters(last, point) < MIN_SAMPLE_METERS) return false;
+  }
+
+  saveDutyShift({ ...shift, points: [...shift.points, point] }, { throttle: true });
+  return true;
+};
+
+/**
+ * The trail since the previous attempt, for the attempt being saved. The
+ * shift only moves past it once commitTrailSegment is called, so an attempt
+ * that fails to save doesn't lose its mileage.
+ */
+export const getTrailSegment = (): TrailSegment | undefined => {
+  const shift = getDutyShift();
+  if (!shift) return undefined;
+  // Starts from the last point of the previous segment so no distance is lost
+  const points = shift.points.slice(Math.max(0, shift.segmentStart - 1));
+  return { shiftId: shift.id, distance: Math.round(trailDistance(points)), points, end: shift.points.length };
+};
+
+/**
+ * Marks a segment as attached to a saved (or queued) attempt
+ */
+export const commitTrailSegment = (segment: TrailSegment): void => {
+  const shift = getDutyShift();
+  if (!shift || shift.id !== segment.shiftId || shift.segmentStart >= segment.end) return;
+  saveDutyShift({ ...shift, segmentStart: segment.end });
+};
+
+/* Shifts waiting to upload */
+
+export const getPendingShifts = (): DutyShift[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_SHIFTS_KEY) || "[]");
+  } catch (error) {
+    console.warn("Could not read pending duty shifts:", error);
+    return [];
+  }
+};
+
+export const setPendingShifts = (shifts: DutyShift[]): void => {
+  localStorage.setItem(PENDING_SHIFTS_KEY, JSON.stringify(shifts));
+};
+
+/* Storage format */
+
+/**
+ * Compact form for the database: [latitude, longitude, unix seconds] per point
+ */
+export const encodeTrail = (points: TrailPoint[]): string =>
+  JSON.stringify(points.map(point => [
+    Number(point.latitude.toFixed(5)),
+    Number(point.longitude.toFixed(5)),
+    Math.round(new Date(point.timestamp).getTime() / 1000),
+  ]));
+
+export const decodeTrail = (value: unknown): TrailPoint[] => {
+  if (!value || typeof value !== "string") return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed)
+      ? parsed.map(([latitude, longitude, seconds]: number[]) => ({
+          latitude,
+          longitude,
+          accuracy: 0,
+          timestamp: new Date(seconds * 1000).toISOString(),
+        }))
+      : [];
+  } catch (error) {
+    console.warn("Could not parse trail:", error);
+    return [];
+  }
+};
+
+/* Tracking */
+
+/**
+ * Watches the device position whenever a shift is active. Returns a function
+ * that stops watching.
+ */
+export function startTrailTracking(): () => void {
+  if (!navigator.geolocation) return () => undefined;
+
+  let watchId: number | null = null;
+
+  const update = () => {
+    if (isOnDuty() && watchId === null) {
+      watchId = navigator.geolocation.watchPosition(
+        position => recordTrailPoint(position),
+        error => console.warn("Duty trail location error:", error),
+        { enableHighAccuracy: true, maximumAge: 10000 }
+      );
+    } else if (!isOnDuty() && watchId !== null) {
+      navigator.geolocation.clearWatch(watchId);
+      watchId = null;
+    }
+  };
+
+  // The page may not come back from being hidden, so unsaved points are written out
+  const flushWhenHidden = () => {
+    if (document.visibilityState === "hidden") flushDutyShift();
+  };
+
+  update();
+  window.addEventListener(DUTY_EVENT, update);
+  window.addEventListener("pagehide", flushDutyShift);
+  document.addEventListener("visibilitychange", flushWhenHidden);
+
+  return () => {
+    window.removeEventListener(DUTY_EVENT, update);
+    window.removeEventListener("pagehide", flushDutyShift);
+    document.removeEventListener("visibilitychange", flushWhenHidden);
+    flushDutyShift();
+    if (watchId !== null) navigator.geolocation.clearWatch(watchId);
+  };
+}
@@ -1,5 +1,6 @@
 
 import { ServeAttemptData } from "@/components/ServeAttempt";
+import { GeofenceCheck, describeGeofence } from "@/utils/geofence";
 
 // Base email interface
 export interface EmailData {
@@ -29,7 +30,10 @@ export const createServeEmailBody = (
   coordinates: { latitude: number; longitude: number } | null,
   attemptNumber: number,
   caseNumber: string,
-  caseName?: string
+  caseName?: string,
+  outcomeLabel?: string,
+  recipientDescription?: string,
+  geofence?: GeofenceCheck
 ): string => {
   const googleMapsLink = coordinates
     ? `https://www.google.com/maps?q=${coordinates.latitude},${coordinates.longitude}`
@@ -47,8 +51,15 @@ export const createServeEmailBody = (
       <p><strong>Case:</strong> ${caseDisplay}</p>
       <p><strong>Date/Time:</strong> ${timestamp.toLocaleString()}</p>
       <p><strong>Attempt #:</strong> ${attemptNumber}</p>
+      ${outcomeLabel ? `<p><strong>Outcome:</strong> ${outcomeLabel}</p>` : ''}
+      ${recipientDescription ? `<p><strong>Recipient:</strong> ${recipientDescription}</p>` : ''}
       <p><strong>Location:</strong> ${address}</p>
       ${googleMapsLink ? `<p><a href="${googleMapsLink}" target="_blank">View on Google Maps</a></p>` : ''}
+      ${geofence?.flagged ? `
+      <div style="margin-top: 15px; background-color: #fef3c7; padding: 10px 15px; border-radius: 5px; color: #92400e;">
+        <p style="margin: 0;"><strong>Location flag:</strong> Photo taken ${describeGeofence(geofence)}</p>
+        ${geofence.overrideNote ? `<p style="margin: 5px 0 0 0;"><strong>Server's note:</strong> ${geofence.overrideNote}</p>` : ''}
+      </div>` : ''}
       
       <div style="margin-top: 20px; background-color: #f5f5f5; padding: 15px; border-radius: 5px;">
         <h3 style="margin-top: 0; color: #4f46e5;">Notes:</h3>
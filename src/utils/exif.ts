@@ -0,0 +1,406 @@
+/**
+ * Minimal EXIF support for serve photos: writes GPS position, altitude,
+ * capture time and device make/model into a JPEG's APP1 segment, and reads
+ * them back so a stored photo can be checked against its serve attempt.
+ */
+
+export interface PhotoExifData {
+  latitude: number;
+  longitude: number;
+  altitude?: number | null;
+  accuracy?: number | null;
+  takenAt: Date;
+  make?: string;
+  model?: string;
+  software?: string;
+}
+
+export interface ExifMetadata {
+  latitude?: number;
+  longitude?: number;
+  altitude?: number;
+  accuracy?: number;
+  // As written in the file, e.g. "2024:05:01 14:03:22"
+  dateTimeOriginal?: string;
+  offsetTimeOriginal?: string;
+  takenAt?: Date;
+  make?: string;
+  model?: string;
+}
+
+const TYPE_BYTE = 1;
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+const TYPE_UNDEFINED = 7;
+
+const TAG = {
+  make: 0x010f,
+  model: 0x0110,
+  software: 0x0131,
+  dateTime: 0x0132,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  exifVersion: 0x9000,
+  dateTimeOriginal: 0x9003,
+  offsetTimeOriginal: 0x9011,
+  gpsVersionId: 0x0000,
+  gpsLatitudeRef: 0x0001,
+  gpsLatitude: 0x0002,
+  gpsLongitudeRef: 0x0003,
+  gpsLongitude: 0x0004,
+  gpsAltitudeRef: 0x0005,
+  gpsAltitude: 0x0006,
+  gpsTimeStamp: 0x0007,
+  gpsDateStamp: 0x001d,
+  gpsHPositioningError: 0x001f,
+};
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  bytes: number[];
+}
+
+const uint16 = (value: number) => [(value >> 8) & 0xff, value & 0xff];
+const uint32 = (value: number) => [(value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+
+const ascii = (tag: number, text: string): IfdEntry => {
+  // EXIF ASCII is 7-bit; anything else becomes "?"
+  const bytes = [...Array.from(text, char => char.charCodeAt(0) < 0x80 ? char.charCodeAt(0) : 0x3f), 0];
+  return { tag, type: TYPE_ASCII, count: bytes.length, bytes };
+};
+
+const rationals = (tag: number, values: [number, number][]): IfdEntry => ({
+  tag,
+  type: TYPE_RATIONAL,
+  count: values.length,
+  bytes: values.flatMap(([numerator, denominator]) => [...uint32(numerator), ...uint32(denominator)]),
+});
+
+const long = (tag: number, value: number): IfdEntry => ({ tag, type: TYPE_LONG, count: 1, bytes: uint32(value) });
+
+const byte = (tag: number, values: number[]): IfdEntry => ({ tag, type: TYPE_BYTE, count: values.length, bytes: values });
+
+const ifdSize = (entries: IfdEntry[]) =>
+  2 + entries.length * 12 + 4 + entries.reduce((size, entry) => size + (entry.bytes.length > 4 ? entry.bytes.length + (entry.bytes.length % 2) : 0), 0);
+
+// Serializes one IFD (big-endian) that will sit at `offset` within the TIFF block
+const buildIfd = (entries: IfdEntry[], offset: number): number[] => {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  const head: number[] = [...uint16(sorted.length)];
+  const data: number[] = [];
+  let dataOffset = offset + 2 + sorted.length * 12 + 4;
+
+  for (const entry of sorted) {
+    head.push(...uint16(entry.tag), ...uint16(entry.type), ...uint32(entry.count));
+    if (entry.bytes.length <= 4) {
+      head.push(...entry.bytes, ...new Array(4 - entry.bytes.length).fill(0));
+    } else {
+      head.push(...uint32(dataOffset));
+      data.push(...entry.bytes);
+      if (entry.bytes.length % 2) data.push(0);
+      dataOffset += entry.bytes.length + (entry.bytes.length % 2);
+    }
+  }
+  head.push(...uint32(0));
+  return [...head, ...data];
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const formatExifDate = (date: Date) =>
+  `${date.getFullYear()}:${pad(date.getMonth() + 1)}:${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+
+const formatOffset = (date: Date) => {
+  const minutes = -date.getTimezoneOffset();
+  const sign = minutes >= 0 ? "+" : "-";
+  return `${sign}${pad(Math.floor(Math.abs(minutes) / 60))}:${pad(Math.abs(minutes) % 60)}`;
+};
+
+const toDmsRationals = (decimal: number): [number, number][] => {
+  const abs = Math.abs(decimal);
+  const degrees = Math.floor(abs);
+  const minutes = Math.floor((abs - degrees) * 60);
+  const seconds = Math.round(((abs - degrees) * 60 - minutes) * 60 * 10000);
+  return [[degrees, 1], [minutes, 1], [seconds, 10000]];
+};
+
+/**
+ * Builds the TIFF block of an EXIF segment: IFD0, then the Exif IFD, then the GPS IFD
+ */
+const buildTiff = (data: PhotoExifData): number[] => {
+  const { takenAt } = data;
+
+  const gpsEntries: IfdEntry[] = [
+    byte(TAG.gpsVersionId, [2, 3, 0, 0]),
+    ascii(TAG.gpsLatitudeRef, data.latitude >= 0 ? "N" : "S"),
+    rationals(TAG.gpsLatitude, toDmsRationals(data.latitude)),
+    ascii(TAG.gpsLongitudeRef, data.longitude >= 0 ? "E" : "W"),
+    rationals(TAG.gpsLongitude, toDmsRationals(data.longitude)),
+    rationals(TAG.gpsTimeStamp, [[takenAt.getUTCHours(), 1], [takenAt.getUTCMinutes(), 1], [takenAt.getUTCSeconds(), 1]]),
+    ascii(TAG.gpsDateStamp, `${takenAt.getUTCFullYear()}:${pad(takenAt.getUTCMonth() + 1)}:${pad(takenAt.getUTCDate())}`),
+  ];
+  if (typeof data.altitude === "number" && !isNaN(data.altitude)) {
+    gpsEntries.push(
+      byte(TAG.gpsAltitudeRef, [data.altitude < 0 ? 1 : 0]),
+      rationals(TAG.gpsAltitude, [[Math.round(Math.abs(data.altitude) * 100), 100]])
+    );
+  }
+  if (typeof data.accuracy === "number" && !isNaN(data.accuracy)) {
+    gpsEntries.push(rationals(TAG.gpsHPositioningError, [[Math.round(data.accuracy * 100), 100]]));
+  }
+
+  const exifEntries: IfdEntry[] = [
+    { tag: TAG.exifVersion, type: TYPE_UNDEFINED, count: 4, bytes: Array.from("0231", char => char.charCodeAt(0)) },
+    ascii(TAG.dateTimeOriginal, formatExifDate(takenAt)),
+    ascii(TAG.offsetTimeOriginal, formatOffset(takenAt)),
+  ];
+
+  const ifd0Entries: IfdEntry[] = [
+    ascii(TAG.dateTime, formatExifDate(takenAt)),
+    long(TAG.exifIfd, 0),
+    long(TAG.gpsIfd, 0),
+  ];
+  if (data.make) ifd0Entries.push(ascii(TAG.make, data.make));
+  if (data.model) ifd0Entries.push(ascii(TAG.model, data.model));
+  if (data.software) ifd0Entries.push(ascii(TAG.software, data.software));
+
+  const ifd0Offset = 8;
+  const exifOffset = ifd0Offset + ifdSize(ifd0Entries);
+  const gpsOffset = exifOffset + ifdSize(exifEntries);
+  ifd0Entries[1] = long(TAG.exifIfd, exifOffset);
+  ifd0Entries[2] = long(TAG.gpsIfd, gpsOffset);
+
+  return [
+    0x4d, 0x4d, ...uint16(0x2a), ...uint32(ifd0Offset),
+    ...buildIfd(ifd0Entries, ifd0Offset),
+    ...buildIfd(exifEntries, exifOffset),
+    ...buildIfd(gpsEntries, gpsOffset),
+  ];
+};
+
+const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(",") + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const bytesToDataUrl = (bytes: Uint8Array, mimeType = "image/jpeg"): string => {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+const isJpeg = (bytes: Uint8Array) => bytes.length > 4 && bytes[0] === 0xff && bytes[1] === 0xd8;
+
+const isExifSegment = (bytes: Uint8Array, start: number) =>
+  bytes[start + 1] === 0xe1 && EXIF_HEADER.every((value, i) => bytes[start + 4 + i] === value);
+
+/**
+ * Returns the JPEG with a fresh EXIF segment; any existing EXIF is replaced.
+ * Images that aren't JPEGs are returned unchanged.
+ */
+export const writeExifToJpeg = (imageDataUrl: string, data: PhotoExifData): string => {
+  const bytes = dataUrlToBytes(imageDataUrl);
+  if (!isJpeg(bytes)) {
+    console.warn("Not a JPEG, EXIF metadata was not written");
+    return imageDataUrl;
+  }
+
+  const tiff = buildTiff(data);
+  const app1 = [0xff, 0xe1, ...uint16(2 + EXIF_HEADER.length + tiff.length), ...EXIF_HEADER, ...tiff];
+
+  // Keep JFIF (APP0) first as the spec expects, drop any old EXIF, keep everything else
+  const before: number[] = [0xff, 0xd8];
+  const kept: Uint8Array[] = [];
+  let position = 2;
+  while (position + 4 <= bytes.length && bytes[position] === 0xff && bytes[position + 1] >= 0xe0 && bytes[position + 1] <= 0xef) {
+    const length = (bytes[position + 2] << 8) | bytes[position + 3];
+    const segment = bytes.subarray(position, position + 2 + length);
+    if (bytes[position + 1] === 0xe0 && position === 2) {
+      before.push(...segment);
+    } else if (!isExifSegment(bytes, position)) {
+      kept.push(segment);
+    }
+    position += 2 + length;
+  }
+
+  const rest = bytes.subarray(position);
+  const output = new Uint8Array(before.length + app1.length + kept.reduce((size, s) => size + s.length, 0) + rest.length);
+  let offset = 0;
+  for (const part of [before, app1, ...kept, rest]) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return bytesToDataUrl(output);
+};
+
+const readTiff = (view: DataView, tiffStart: number): ExifMetadata => {
+  const littleEndian = view.getUint16(tiffStart) === 0x4949;
+  const u16 = (offset: number) => view.getUint16(tiffStart + offset, littleEndian);
+  const u32 = (offset: number) => view.getUint32(tiffStart + offset, littleEndian);
+
+  const typeSize: Record<number, number> = { [TYPE_BYTE]: 1, [TYPE_ASCII]: 1, [TYPE_SHORT]: 2, [TYPE_LONG]: 4, [TYPE_RATIONAL]: 8, [TYPE_UNDEFINED]: 1 };
+
+  const readIfd = (ifdOffset: number) => {
+    const values = new Map<number, string | number[]>();
+    const count = u16(ifdOffset);
+    for (let i = 0; i < count; i++) {
+      const entry = ifdOffset + 2 + i * 12;
+      const tag = u16(entry);
+      const type = u16(entry + 2);
+      const length = u32(entry + 4);
+      const size = (typeSize[type] || 1) * length;
+      const valueOffset = size > 4 ? u32(entry + 8) : entry + 8;
+
+      if (type === TYPE_ASCII) {
+        let text = "";
+        for (let j = 0; j < length; j++) {
+          const code = view.getUint8(tiffStart + valueOffset + j);
+          if (code === 0) break;
+          text += String.fromCharCode(code);
+        }
+        values.set(tag, text);
+      } else if (type === TYPE_RATIONAL) {
+        const numbers: number[] = [];
+        for (let j = 0; j < length; j++) {
+          const denominator = u32(valueOffset + j * 8 + 4);
+          numbers.push(denominator ? u32(valueOffset + j * 8) / denominator : 0);
+        }
+        values.set(tag, numbers);
+      } else if (type === TYPE_SHORT) {
+        values.set(tag, Array.from({ length }, (_, j) => u16(valueOffset + j * 2)));
+      } else if (type === TYPE_LONG) {
+        values.set(tag, Array.from({ length }, (_, j) => u32(valueOffset + j * 4)));
+      } else {
+        values.set(tag, Array.from({ length }, (_, j) => view.getUint8(tiffStart + valueOffset + j)));
+      }
+    }
+    return values;
+  };
+
+  const ifd0 = readIfd(u32(4));
+  const exifPointer = ifd0.get(TAG.exifIfd) as number[] | undefined;
+  const gpsPointer = ifd0.get(TAG.gpsIfd) as number[] | undefined;
+  const exif = exifPointer ? readIfd(exifPointer[0]) : new Map<number, string | number[]>();
+  const gps = gpsPointer ? readIfd(gpsPointer[0]) : new Map<number, string | number[]>();
+
+  const toDecimal = (dms?: string | number[], ref?: string | number[]) => {
+    if (!Array.isArray(dms) || dms.length < 3) return undefined;
+    const value = dms[0] + dms[1] / 60 + dms[2] / 3600;
+    return ref === "S" || ref === "W" ? -value : value;
+  };
+
+  const metadata: ExifMetadata = {
+    latitude: toDecimal(gps.get(TAG.gpsLatitude), gps.get(TAG.gpsLatitudeRef)),
+    longitude: toDecimal(gps.get(TAG.gpsLongitude), gps.get(TAG.gpsLongitudeRef)),
+    dateTimeOriginal: exif.get(TAG.dateTimeOriginal) as string | undefined,
+    offsetTimeOriginal: exif.get(TAG.offsetTimeOriginal) as string | undefined,
+    make: ifd0.get(TAG.make) as string | undefined,
+    model: ifd0.get(TAG.model) as string | undefined,
+  };
+
+  const altitude = gps.get(TAG.gpsAltitude);
+  if (Array.isArray(altitude)) {
+    const below = (gps.get(TAG.gpsAltitudeRef) as number[] | undefined)?.[0] === 1;
+    metadata.altitude = below ? -altitude[0] : altitude[0];
+  }
+  const accuracy = gps.get(TAG.gpsHPositioningError);
+  if (Array.isArray(accuracy)) metadata.accuracy = accuracy[0];
+
+  if (metadata.dateTimeOriginal) {
+    const [date, time] = metadata.dateTimeOriginal.split(" ");
+    const parsed = new Date(`${date.replace(/:/g, "-")}T${time}${metadata.offsetTimeOriginal || ""}`);
+    if (!isNaN(parsed.getTime())) metadata.takenAt = parsed;
+  }
+
+  return metadata;
+};
+
+/**
+ * Reads the EXIF segment of a JPEG; returns null when the photo has none
+ */
+export const readExifFromJpeg = (image: string | ArrayBuffer): ExifMetadata | null => {
+  const bytes = typeof image === "string" ? dataUrlToBytes(image) : new Uint8Array(image);
+  if (!isJpeg(bytes)) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let position = 2;
+  while (position + 4 <= bytes.length && bytes[position] === 0xff) {
+    const marker = bytes[position + 1];
+    // Start of scan: no more metadata segments
+    if (marker === 0xda) break;
+    const length = view.getUint16(position + 2);
+    if (isExifSegment(bytes, position)) {
+      try {
+        return readTiff(view, position + 4 + EXIF_HEADER.length);
+      } catch (error) {
+        console.warn("Could not parse EXIF segment:", error);
+        return null;
+      }
+    }
+    position += 2 + length;
+  }
+  return null;
+};
+
+// GPS is written to 1/10000 of an arc second and time to the second
+const MAX_POSITION_DIFFERENCE_METERS = 5;
+const MAX_TIME_DIFFERENCE_SECONDS = 2;
+
+const distanceInMeters = (lat1: number, lon1: number, lat2: number, lon2: number) => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371000 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+export interface ExifCheckResult {
+  matches: boolean;
+  issues: string[];
+  metadata: ExifMetadata | null;
+}
+
+/**
+ * Compares a photo's EXIF against the position and time stored on its attempt
+ */
+export const verifyPhotoExif = (
+  metadata: ExifMetadata | null,
+  expected: { coordinates?: string | null; takenAt?: Date | string | null }
+): ExifCheckResult => {
+  const issues: string[] = [];
+  if (!metadata) {
+    return { matches: false, issues: ["Photo has no EXIF metadata"], metadata };
+  }
+
+  const [latitude, longitude] = (expected.coordinates || "").split(",").map(Number);
+  if (metadata.latitude === undefined || metadata.longitude === undefined) {
+    issues.push("Photo has no EXIF GPS position");
+  } else if (!isNaN(latitude) && !isNaN(longitude)) {
+    const distance = distanceInMeters(latitude, longitude, metadata.latitude, metadata.longitude);
+    if (distance > MAX_POSITION_DIFFERENCE_METERS) {
+      issues.push(`EXIF position is ${Math.round(distance)} m from the recorded position`);
+    }
+  }
+
+  if (!metadata.takenAt) {
+    issues.push("Photo has no EXIF capture time");
+  } else if (expected.takenAt) {
+    const difference = Math.abs(metadata.takenAt.getTime() - new Date(expected.takenAt).getTime()) / 1000;
+    if (difference > MAX_TIME_DIFFERENCE_SECONDS) {
+      issues.push(`EXIF capture time differs from the record by ${Math.round(difference)} s`);
+    }
+  }
+
+  return { matches: issues.length === 0, issues, metadata };
+};
@@ -0,0 +1,14 @@
+/**
+ * Day keys and distances, shared by the route planner, the duty trail and the
+ * mileage report so a day and a mile mean the same thing in each.
+ */
+
+// Local calendar day as YYYY-MM-DD
+export const getTodayKey = (date: Date = new Date()): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+const METERS_PER_MILE = 1609.344;
+
+export const metersToMiles = (meters: number): number => meters / METERS_PER_MILE;
+
+export const formatMiles = (meters: number): string => `${metersToMiles(meters).toFixed(1)} mi`;
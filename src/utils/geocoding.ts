@@ -0,0 +1,292 @@
+import { GEOCODING_CONFIG } from "@/config/backendConfig";
+import { GEOCODING_FIXTURES, GeocodingFixture } from "@/utils/geocodingFixtures";
+
+/**
+ * Address geocoding and reverse geocoding behind a provider interface, so the
+ * service used can be swapped without touching callers. The active provider
+ * is chosen by GEOCODING_CONFIG:
+ * - "nominatim": a Nominatim-compatible HTTP API, behind the local cache
+ * - "local": the local cache only, no network calls
+ * - "static": a fixed set of fixture addresses, for tests and demos
+ */
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeocodeResult extends GeoPoint {
+  provider: string;
+  // The provider's full name for the place, when it gives one
+  displayName?: string;
+}
+
+export interface ReverseGeocodeResult {
+  address: string;
+  provider: string;
+}
+
+export interface GeocodingProvider {
+  name: string;
+  geocode: (address: string) => Promise<GeocodeResult | null>;
+  reverseGeocode: (point: GeoPoint) => Promise<ReverseGeocodeResult | null>;
+}
+
+export const normalizeAddressKey = (address: string): string =>
+  address.trim().toLowerCase().replace(/[.,#]/g, " ").replace(/\s+/g, " ");
+
+// ~1 m at 5 decimal places, close enough to share a street address
+const pointKey = (point: GeoPoint): string =>
+  `${point.latitude.toFixed(5)},${point.longitude.toFixed(5)}`;
+
+/* Nominatim */
+
+interface NominatimOptions {
+  baseUrl: string;
+  // Sent with each request as the Nominatim usage policy asks
+  email?: string;
+  // Minimum gap between requests; the public server allows one per second
+  minIntervalMs?: number;
+  // A request taking longer than this is abandoned
+  timeoutMs?: number;
+}
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  display_name: string;
+}
+
+export const createNominatimProvider = ({ baseUrl, email, minIntervalMs = 1000, timeoutMs = 8000 }: NominatimOptions): GeocodingProvider => {
+  let queue: Promise<unknown> = Promise.resolve();
+  let lastRequestAt = 0;
+
+  // Requests are sent one at a time and spaced out to respect rate limits
+  const request = <T>(path: string, params: Record<string, string>): Promise<T> => {
+    const run = async () => {
+      const wait = lastRequestAt + minIntervalMs - Date.now();
+      if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+      lastRequestAt = Date.now();
+
+      const search = new URLSearchParams({ format: "jsonv2", ...params, ...(email ? { email } : {}) });
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        const response = await fetch(`${baseUrl.replace(/\/$/, "")}/${path}?${search}`, {
+          headers: { Accept: "application/json" },
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          throw new Error(`Geocoding request failed (${response.status})`);
+        }
+        return await (response.json() as Promise<T>);
+      } finally {
+        clearTimeout(timer);
+      }
+    };
+    const result = queue.then(run, run);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  return {
+    name: "nominatim",
+    geocode: async (address) => {
+      const places = await request<NominatimPlace[]>("search", { q: address, limit: "1" });
+      const place = places[0];
+      if (!place) return null;
+      return {
+        latitude: parseFloat(place.lat),
+        longitude: parseFloat(place.lon),
+        displayName: place.display_name,
+        provider: "nominatim",
+      };
+    },
+    reverseGeocode: async (point) => {
+      const place = await request<NominatimPlace & { error?: string }>("reverse", {
+        lat: String(point.latitude),
+        lon: String(point.longitude),
+        zoom: "18",
+      });
+      if (!place || place.error || !place.display_name) return null;
+      return { address: place.display_name, provider: "nominatim" };
+    },
+  };
+};
+
+/* Local cache */
+
+const GEOCODE_CACHE_KEY = "serveGeocodeCache";
+const MAX_CACHE_ENTRIES = 500;
+// Addresses the provider could not find are retried after a day
+const MISS_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface CachedForward {
+  point: GeoPoint | null;
+  provider: string;
+  displayName?: string;
+  cachedAt: number;
+}
+
+interface CachedReverse {
+  address: string | null;
+  provider: string;
+  cachedAt: number;
+}
+
+interface GeocodeCache {
+  forward: Record<string, CachedForward>;
+  reverse: Record<string, CachedReverse>;
+}
+
+const readCache = (): GeocodeCache => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(GEOCODE_CACHE_KEY) || "{}");
+    return { forward: parsed.forward || {}, reverse: parsed.reverse || {} };
+  } catch (error) {
+    console.warn("Could not read geocode cache:", error);
+    return { forward: {}, reverse: {} };
+  }
+};
+
+const trimEntries = <T extends { cachedAt: number }>(entries: Record<string, T>): Record<string, T> => {
+  const keys = Object.keys(entries);
+  if (keys.length <= MAX_CACHE_ENTRIES) return entries;
+  const evictable = keys
+    .sort((a, b) => entries[a].cachedAt - entries[b].cachedAt)
+    .slice(0, keys.length - MAX_CACHE_ENTRIES);
+  const trimmed = { ...entries };
+  evictable.forEach(key => delete trimmed[key]);
+  return trimmed;
+};
+
+const writeCache = (cache: GeocodeCache): void => {
+  try {
+    localStorage.setItem(GEOCODE_CACHE_KEY, JSON.stringify({
+      forward: trimEntries(cache.forward),
+      reverse: trimEntries(cache.reverse),
+    }));
+  } catch (error) {
+    console.warn("Could not write geocode cache:", error);
+  }
+};
+
+const isFresh = (entry: { cachedAt: number }, found: boolean) =>
+  found || Date.now() - entry.cachedAt < MISS_TTL_MS;
+
+export const clearGeocodeCache = (): void => {
+  localStorage.removeItem(GEOCODE_CACHE_KEY);
+};
+
+/**
+ * Answers from the device cache, asking the upstream provider (if any) only
+ * for addresses and points it has not seen. Results are cached per address.
+ */
+export const createCachedProvider = (upstream?: GeocodingProvider): GeocodingProvider => ({
+  name: upstream ? `cached ${upstream.name}` : "local",
+  geocode: async (address) => {
+    const key = normalizeAddressKey(address);
+    const cached = readCache().forward[key];
+    if (cached && isFresh(cached, !!cached.point)) {
+      return cached.point ? { ...cached.point, provider: cached.provider, displayName: cached.displayName } : null;
+    }
+    if (!upstream) return null;
+
+    const result = await upstream.geocode(address);
+    const cache = readCache();
+    cache.forward[key] = {
+      point: result ? { latitude: result.latitude, longitude: result.longitude } : null,
+      provider: upstream.name,
+      displayName: result?.displayName,
+      cachedAt: Date.now(),
+    };
+    writeCache(cache);
+    return result;
+  },
+  reverseGeocode: async (point) => {
+    const key = pointKey(point);
+    const cached = readCache().reverse[key];
+    if (cached && isFresh(cached, !!cached.address)) {
+      return cached.address ? { address: cached.address, provider: cached.provider } : null;
+    }
+    if (!upstream) return null;
+
+    const result = await upstream.reverseGeocode(point);
+    const cache = readCache();
+    cache.reverse[key] = { address: result?.address || null, provider: upstream.name, cachedAt: Date.now() };
+    writeCache(cache);
+    return result;
+  },
+});
+
+/* Static fixtures */
+
+// Reverse lookups match the nearest fixture within this many degrees (~100 m)
+const FIXTURE_MATCH_DEGREES = 0.001;
+
+export const createStaticProvider = (fixtures: GeocodingFixture[] = GEOCODING_FIXTURES): GeocodingProvider => ({
+  name: "static",
+  geocode: async (address) => {
+    const key = normalizeAddressKey(address);
+    const fixture = fixtures.find(entry => normalizeAddressKey(entry.address) === key);
+    return fixture ? { latitude: fixture.latitude, longitude: fixture.longitude, provider: "static" } : null;
+  },
+  reverseGeocode: async (point) => {
+    const nearest = fixtures
+      .map(entry => ({
+        entry,
+        offset: Math.hypot(entry.latitude - point.latitude, entry.longitude - point.longitude),
+      }))
+      .sort((a, b) => a.offset - b.offset)[0];
+    return nearest && nearest.offset <= FIXTURE_MATCH_DEGREES
+      ? { address: nearest.entry.address, provider: "static" }
+      : null;
+  },
+});
+
+/* Active provider */
+
+const createConfiguredProvider = (): GeocodingProvider => {
+  switch (GEOCODING_CONFIG.provider) {
+    case "static":
+      return createStaticProvider();
+    case "local":
+      return createCachedProvider();
+    default:
+      return createCachedProvider(createNominatimProvider({
+        baseUrl: GEOCODING_CONFIG.nominatimUrl,
+        email: GEOCODING_CONFIG.email || undefined,
+      }));
+  }
+};
+
+const activeProvider: GeocodingProvider = createConfiguredProvider();
+
+export const getGeocodingProvider = (): GeocodingProvider => activeProvider;
+
+/**
+ * Looks up an address with the active provider
+ * @returns The coordinates, or null if the address could not be found
+ */
+export const geocodeAddress = async (address: string): Promise<GeocodeResult | null> => {
+  if (!address.trim()) return null;
+  try {
+    return await activeProvider.geocode(address);
+  } catch (error) {
+    console.error(`Geocoding failed for "${address}":`, error);
+    return null;
+  }
+};
+
+/**
+ * Finds the street address at a point with the active provider
+ * @returns The address, or null if none could be found
+ */
+export const reverseGeocode = async (point: GeoPoint): Promise<ReverseGeocodeResult | null> => {
+  try {
+    return await activeProvider.reverseGeocode(point);
+  } catch (error) {
+    console.error(`Reverse geocoding failed for ${pointKey(point)}:`, error);
+    return null;
+  }
+};
@@ -0,0 +1,19 @@
+/**
+ * Known addresses answered by the static geocoding provider. Used for tests
+ * and demos so no geocoding service is called.
+ */
+
+export interface GeocodingFixture {
+  address: string;
+  latitude: number;
+  longitude: number;
+}
+
+export const GEOCODING_FIXTURES: GeocodingFixture[] = [
+  { address: "60 Centre Street, New York, NY 10007", latitude: 40.71426, longitude: -74.00197 },
+  { address: "360 Adams Street, Brooklyn, NY 11201", latitude: 40.69236, longitude: -73.98897 },
+  { address: "851 Grand Concourse, Bronx, NY 10451", latitude: 40.82625, longitude: -73.92269 },
+  { address: "88-11 Sutphin Boulevard, Jamaica, NY 11435", latitude: 40.70217, longitude: -73.80851 },
+  { address: "26 Central Avenue, Staten Island, NY 10301", latitude: 40.64269, longitude: -74.07697 },
+  { address: "1 Court Square, Long Island City, NY 11101", latitude: 40.74714, longitude: -73.94379 },
+];
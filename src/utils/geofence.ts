@@ -0,0 +1,84 @@
+import { GeoPoint } from "@/utils/geocoding";
+
+/**
+ * Compares where a photo was taken with where the case address is. Attempts
+ * captured farther away than the allowed distance are flagged and need an
+ * override note before they can be saved.
+ */
+
+export interface GeofenceCheck {
+  // Meters between the capture fix and the geocoded address
+  distance: number;
+  // Allowed distance in force when the attempt was captured
+  radius: number;
+  flagged: boolean;
+  addressLocation: GeoPoint;
+  overrideNote?: string;
+}
+
+export const DEFAULT_GEOFENCE_RADIUS = 150;
+
+// The radius is set for the whole agency in the team's preferences. The last
+// value read is kept here so attempts captured offline are checked against it.
+const GEOFENCE_RADIUS_CACHE_KEY = "teamGeofenceRadius";
+
+export const resolveGeofenceRadius = (value: unknown): number => {
+  const radius = Number(value);
+  return radius > 0 ? Math.round(radius) : DEFAULT_GEOFENCE_RADIUS;
+};
+
+export const getCachedGeofenceRadius = (): number =>
+  resolveGeofenceRadius(localStorage.getItem(GEOFENCE_RADIUS_CACHE_KEY));
+
+export const cacheGeofenceRadius = (radius: number): void => {
+  localStorage.setItem(GEOFENCE_RADIUS_CACHE_KEY, String(radius));
+};
+
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+/**
+ * Great-circle distance between two points (haversine)
+ */
+export const distanceMeters = (a: GeoPoint, b: GeoPoint): number => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+};
+
+export const checkGeofence = (
+  fix: GeoPoint,
+  addressLocation: GeoPoint,
+  radius: number
+): GeofenceCheck => {
+  const distance = Math.round(distanceMeters(fix, addressLocation));
+  return {
+    distance,
+    radius,
+    flagged: distance > radius,
+    addressLocation: { latitude: addressLocation.latitude, longitude: addressLocation.longitude },
+  };
+};
+
+export const parseGeofence = (value: unknown): GeofenceCheck | undefined => {
+  if (!value) return undefined;
+  if (typeof value === "object") return value as GeofenceCheck;
+  try {
+    const parsed = JSON.parse(value as string);
+    return typeof parsed?.distance === "number" ? parsed : undefined;
+  } catch (error) {
+    console.warn("Could not parse geofence check:", error);
+    return undefined;
+  }
+};
+
+export const formatDistance = (meters: number): string =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`;
+
+export const describeGeofence = (check: GeofenceCheck): string =>
+  check.flagged
+    ? `${formatDistance(check.distance)} from the case address (limit ${formatDistance(check.radius)})`
+    : `Within ${formatDistance(check.distance)} of the case address`;
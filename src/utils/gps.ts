@@ -1,3 +1,4 @@
+import { writeExifToJpeg } from "@/utils/exif";
 
 /**
  * Gets the current GPS position
@@ -28,6 +29,86 @@ export const getGpsPosition = (): Promise<GeolocationPosition> => {
   });
 };
 
+export type GpsSource = "gps" | "network" | "cached";
+
+/**
+ * A position fix as stored with a serve attempt. Unlike the "lat,lng"
+ * coordinates string it keeps the accuracy radius and the rest of the reading.
+ */
+export interface GpsFix {
+  latitude: number;
+  longitude: number;
+  // Radius in meters, 68% confidence
+  accuracy: number;
+  altitude: number | null;
+  altitudeAccuracy: number | null;
+  heading: number | null;
+  speed: number | null;
+  // When the device took the reading, which can be earlier than the photo
+  timestamp: string;
+  source: GpsSource;
+}
+
+// Fixes less precise than this are flagged at capture and in the history
+export const POOR_ACCURACY_METERS = 50;
+
+// A reading older than this was served from the device's location cache
+const CACHED_FIX_AGE_SECONDS = 30;
+
+export const GPS_SOURCE_LABELS: Record<GpsSource, string> = {
+  gps: "Satellite",
+  network: "Wi-Fi / cell network",
+  cached: "Cached reading",
+};
+
+/**
+ * Builds a stored fix from a browser position reading. Browsers do not say
+ * which positioning method produced a reading, so the source is inferred:
+ * an altitude or a tight radius means satellites, anything else the network.
+ * @param position The reading from the Geolocation API
+ * @param capturedAt When the reading is being used
+ */
+export const createGpsFix = (position: GeolocationPosition, capturedAt: Date = new Date()): GpsFix => {
+  const { coords } = position;
+  const ageSeconds = (capturedAt.getTime() - position.timestamp) / 1000;
+  const source: GpsSource = ageSeconds > CACHED_FIX_AGE_SECONDS
+    ? "cached"
+    : coords.altitude !== null || coords.accuracy <= 20 ? "gps" : "network";
+
+  return {
+    latitude: coords.latitude,
+    longitude: coords.longitude,
+    accuracy: coords.accuracy,
+    altitude: coords.altitude,
+    altitudeAccuracy: coords.altitudeAccuracy,
+    heading: coords.heading !== null && !isNaN(coords.heading) ? coords.heading : null,
+    speed: coords.speed,
+    timestamp: new Date(position.timestamp).toISOString(),
+    source,
+  };
+};
+
+export const parseGpsFix = (value: unknown): GpsFix | undefined => {
+  if (!value) return undefined;
+  if (typeof value === "object") return value as GpsFix;
+  try {
+    const parsed = JSON.parse(value as string);
+    return hasValidCoordinates(parsed) ? parsed as GpsFix : undefined;
+  } catch (error) {
+    console.warn("Could not parse GPS fix:", error);
+    return undefined;
+  }
+};
+
+export const isPoorAccuracy = (accuracy: number | null | undefined): boolean =>
+  typeof accuracy === "number" && accuracy > POOR_ACCURACY_METERS;
+
+/**
+ * Seconds between the device's reading and the moment it was used
+ */
+export const getFixAgeSeconds = (fix: GpsFix, at: Date | string): number =>
+  Math.max(0, Math.round((new Date(at).getTime() - new Date(fix.timestamp).getTime()) / 1000));
+
 /**
  * Type guard to check if an object is GeolocationCoordinates
  * @param coordinates The coordinates object to check
@@ -105,10 +186,14 @@ export const getGoogleMapsUrl = (latitude: number, longitude: number): string =>
 
 /**
  * Safely formats coordinates or returns a fallback
- * @param coords The coordinates object or null
+ * @param coords The coordinates object, a stored "lat,lng" string, or null
  * @returns Formatted coordinates string or "No location data"
  */
 export const safeFormatCoordinates = (coords: any): string => {
+  if (typeof coords === "string") {
+    const [latitude, longitude] = coords.split(",").map(parseFloat);
+    return isNaN(latitude) || isNaN(longitude) ? "No location data" : formatCoordinates(latitude, longitude);
+  }
   if (!isGeolocationCoordinates(coords)) {
     return "No location data";
   }
@@ -128,26 +213,39 @@ export const safeGetGoogleMapsUrl = (coords: any): string => {
 };
 
 /**
- * Embeds GPS metadata into an image
+ * Embeds GPS position, altitude, capture time and device make/model into a
+ * JPEG as EXIF, so the photo file itself records when and where it was taken
  * @param imageDataUrl The base64 image data
  * @param coords The GPS coordinates
- * @returns The image with GPS metadata embedded
+ * @param takenAt When the photo was captured
+ * @returns The image with EXIF metadata embedded
  */
 export const embedGpsIntoImage = (
   imageDataUrl: string,
-  coords: any
+  coords: any,
+  takenAt: Date = new Date()
 ): string => {
-  // In a real application, we would use a library like piexifjs to properly 
-  // embed EXIF data. For this demo, we'll include the GPS data in a data attribute
-  // when we create the final serve record.
-  
-  if (isGeolocationCoordinates(coords)) {
-    console.log("Embedding GPS metadata", coords);
-  } else {
+  if (!isGeolocationCoordinates(coords)) {
     console.log("No valid GPS metadata to embed");
+    return imageDataUrl;
+  }
+
+  try {
+    const { make, model } = getDeviceMakeModel();
+    return writeExifToJpeg(imageDataUrl, {
+      latitude: coords.latitude,
+      longitude: coords.longitude,
+      altitude: coords.altitude,
+      accuracy: coords.accuracy,
+      takenAt,
+      make,
+      model,
+      software: "ServeTracker",
+    });
+  } catch (error) {
+    console.error("Error embedding EXIF metadata:", error);
+    return imageDataUrl;
   }
-  
-  return imageDataUrl;
 };
 
 /**
@@ -179,3 +277,32 @@ export const isIOSDevice = (): boolean => {
 export const isAndroidDevice = (): boolean => {
   return /Android/.test(navigator.userAgent);
 };
+
+/**
+ * Best guess at the device make and model from the user agent, for EXIF
+ * @returns e.g. { make: "Apple", model: "iPhone" } or { make: "Android", model: "Pixel 8" }
+ */
+export const getDeviceMakeModel = (): { make: string; model: string } => {
+  const ua = navigator.userAgent;
+  if (isIOSDevice()) {
+    return { make: "Apple", model: /iPad/.test(ua) ? "iPad" : /iPod/.test(ua) ? "iPod" : "iPhone" };
+  }
+  if (isAndroidDevice()) {
+    const match = /Android [\d.]+; ([^;)]+)/.exec(ua);
+    return { make: "Android", model: match ? match[1].trim() : "Android device" };
+  }
+  return { make: "Unknown", model: getDeviceDescription().replace(/ · /g, ", ") };
+};
+
+/**
+ * Builds a short description of the current device for the serve record
+ * @returns A string like "iOS · Safari · 390x844"
+ */
+export const getDeviceDescription = (): string => {
+  const ua = navigator.userAgent;
+  const platform = isIOSDevice() ? "iOS" : isAndroidDevice() ? "Android" :
+    /Windows/.test(ua) ? "Windows" : /Mac OS X/.test(ua) ? "macOS" : /Linux/.test(ua) ? "Linux" : "Unknown OS";
+  const browser = /Edg\//.test(ua) ? "Edge" : /CriOS|Chrome\//.test(ua) ? "Chrome" :
+    /FxiOS|Firefox\//.test(ua) ? "Firefox" : /Safari\//.test(ua) ? "Safari" : "Unknown browser";
+  return `${platform} · ${browser} · ${window.screen.width}x${window.screen.height}`;
+};
@@ -6,9 +6,10 @@ import { extractBase64 } from "./imageUtils";
  * Uploads an image from base64 to Appwrite storage and returns a public URL
  * @param {string} base64Image - Base64 image data (with or without data URL prefix)
  * @param {string} filename - Desired filename
+ * @param {string[]} [permissions] - File permissions; the bucket's defaults apply when omitted
  * @returns {Promise<{fileId: string, fileUrl: string}>} The file ID and public URL
  */
-export const uploadImageAndGetUrl = async (base64Image, filename = "serve_evidence.jpg") => {
+export const uploadImageAndGetUrl = async (base64Image, filename = "serve_evidence.jpg", permissions) => {
   console.log("Starting image upload process");
   
   try {
@@ -50,7 +51,8 @@ export const uploadImageAndGetUrl = async (base64Image, filename = "serve_eviden
     const result = await appwrite.storage.createFile(
       appwrite.STORAGE_BUCKET_ID,
       fileId,
-      file
+      file,
+      permissions
     );
     
     console.log("File uploaded successfully:", result.$id);
@@ -0,0 +1,166 @@
+import { ServeAttemptData } from "@/components/ServeAttempt";
+import { appwrite } from "@/lib/appwrite";
+import { normalizeServeDataArray } from "@/utils/dataNormalization";
+import { ServeOutcome, resolveOutcome } from "@/utils/serveOutcomes";
+
+/**
+ * Substituted (CPLR 308(2)) and affix-and-mail (CPLR 308(4)) service are only
+ * complete once a copy is mailed to the recipient within 20 days.
+ */
+
+export const MAILING_WINDOW_DAYS = 20;
+export const MAILING_DUE_SOON_DAYS = 5;
+
+export const MAILING_REQUIRED_OUTCOMES: ServeOutcome[] = ["substituted", "affix_and_mail"];
+
+export const MAIL_CLASSES = ["First Class", "Certified", "Certified - Return Receipt", "Priority"];
+
+export type MailingStatus = "not_required" | "pending" | "due_soon" | "overdue" | "mailed";
+
+export const MAILING_STATUS_LABELS: Record<MailingStatus, string> = {
+  not_required: "No mailing required",
+  pending: "Mailing pending",
+  due_soon: "Mailing due soon",
+  overdue: "Mailing overdue",
+  mailed: "Mailed",
+};
+
+export interface CaseMailing {
+  mailingDate?: string;
+  mailingClass?: string;
+  trackingNumber?: string;
+  // View URL of the stored receipt, or a data URL for one just captured
+  receiptImage?: string;
+  receiptFileId?: string;
+}
+
+export interface MailingFollowUp {
+  status: MailingStatus;
+  serviceDate?: Date;
+  dueDate?: Date;
+  daysRemaining?: number;
+  mailing: CaseMailing;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Attempts read per request when scanning for outstanding mailings
+const MAILING_SCAN_PAGE_SIZE = 100;
+
+interface CaseMailingDocument {
+  mailing_date?: string | null;
+  mailing_class?: string | null;
+  mailing_tracking_number?: string | null;
+  mailing_receipt_file_id?: string | null;
+  // Inline receipts from before they were stored in the bucket
+  mailing_receipt_image?: string | null;
+}
+
+export const getCaseMailing = (caseDoc?: CaseMailingDocument | null): CaseMailing => ({
+  mailingDate: caseDoc?.mailing_date || undefined,
+  mailingClass: caseDoc?.mailing_class || undefined,
+  trackingNumber: caseDoc?.mailing_tracking_number || undefined,
+  receiptImage: caseDoc?.mailing_receipt_file_id
+    ? appwrite.getImageViewUrl(caseDoc.mailing_receipt_file_id)
+    : caseDoc?.mailing_receipt_image || undefined,
+  receiptFileId: caseDoc?.mailing_receipt_file_id || undefined,
+});
+
+export const getMailingStatusClass = (status: MailingStatus): string =>
+  status === "overdue" ? "bg-red-100 text-red-800" :
+  status === "due_soon" ? "bg-amber-100 text-amber-800" :
+  status === "pending" ? "bg-blue-100 text-blue-800" :
+  "bg-green-100 text-green-800";
+
+export const needsMailingAttention = (status: MailingStatus): boolean =>
+  status === "pending" || status === "due_soon" || status === "overdue";
+
+// Mailing dates are calendar days, so compare against the day of service
+const isMailedOnOrAfter = (mailingDate: string, service: Date): boolean => {
+  const mailed = new Date(mailingDate.includes("T") ? mailingDate : `${mailingDate}T00:00:00`);
+  mailed.setHours(0, 0, 0, 0);
+  const serviceDay = new Date(service.getFullYear(), service.getMonth(), service.getDate());
+  return !isNaN(mailed.getTime()) && mailed.getTime() >= serviceDay.getTime();
+};
+
+/**
+ * Works out whether a case still owes its follow-up mailing, and by when
+ */
+export function getMailingFollowUp(
+  caseServes: ServeAttemptData[],
+  mailing: CaseMailing,
+  now: Date = new Date()
+): MailingFollowUp {
+  const service = caseServes
+    .filter(serve => MAILING_REQUIRED_OUTCOMES.includes(resolveOutcome(serve)))
+    .map(serve => new Date(serve.timestamp))
+    .filter(date => !isNaN(date.getTime()))
+    .sort((a, b) => b.getTime() - a.getTime())[0];
+
+  if (!service) {
+    return { status: "not_required", mailing };
+  }
+
+  const dueDate = new Date(service.getTime() + MAILING_WINDOW_DAYS * DAY_MS);
+
+  // A mailing recorded for an earlier service doesn't cover this one
+  if (mailing.mailingDate && isMailedOnOrAfter(mailing.mailingDate, service)) {
+    return { status: "mailed", serviceDate: service, dueDate, mailing };
+  }
+
+  const daysRemaining = Math.ceil((dueDate.getTime() - now.getTime()) / DAY_MS);
+  const status: MailingStatus =
+    daysRemaining < 0 ? "overdue" :
+    daysRemaining <= MAILING_DUE_SOON_DAYS ? "due_soon" :
+    "pending";
+
+  return { status, serviceDate: service, dueDate, daysRemaining, mailing };
+}
+
+export interface CaseMailingFollowUp extends MailingFollowUp {
+  caseId: string;
+  clientId: string;
+  clientName: string;
+  caseNumber: string;
+  caseName?: string;
+}
+
+/**
+ * Finds every case with an outstanding follow-up mailing, most urgent first
+ */
+export async function getOutstandingMailings(): Promise<CaseMailingFollowUp[]> {
+  const attempts = [];
+  for (let offset = 0; ; offset += MAILING_SCAN_PAGE_SIZE) {
+    const page = await appwrite.getServeAttempts(MAILING_SCAN_PAGE_SIZE, offset, {
+      outcomes: MAILING_REQUIRED_OUTCOMES,
+      includeImages: false,
+    });
+    attempts.push(...page);
+    if (page.length < MAILING_SCAN_PAGE_SIZE) break;
+  }
+  const serves = normalizeServeDataArray(attempts);
+
+  const clientIds = Array.from(new Set(serves.map(serve => serve.clientId)));
+  const results: CaseMailingFollowUp[] = [];
+
+  for (const clientId of clientIds) {
+    const cases = await appwrite.getClientCases(clientId);
+    for (const caseDoc of cases) {
+      const caseServes = serves.filter(serve => serve.clientId === clientId && serve.caseNumber === caseDoc.case_number);
+      if (caseServes.length === 0) continue;
+
+      const followUp = getMailingFollowUp(caseServes, getCaseMailing(caseDoc));
+      if (needsMailingAttention(followUp.status)) {
+        results.push({
+          ...followUp,
+          caseId: caseDoc.$id,
+          clientId,
+          clientName: caseServes[0].clientName || "Unknown Client",
+          caseNumber: caseDoc.case_number,
+          caseName: caseDoc.case_name || undefined,
+        });
+      }
+    }
+  }
+
+  return results.sort((a, b) => (a.daysRemaining ?? 0) - (b.daysRemaining ?? 0));
+}
@@ -0,0 +1,48 @@
+import { ServeAttemptData } from "@/components/ServeAttempt";
+import { GeoPoint } from "@/utils/geocoding";
+import { hasValidCoordinates } from "@/utils/gps";
+import { ServeOutcome, resolveOutcome } from "@/utils/serveOutcomes";
+
+/**
+ * Marker colours and positions for plotting attempts and case addresses
+ */
+
+// Greens for served, warm colours for failed attempts
+export const OUTCOME_COLORS: Record<ServeOutcome, string> = {
+  personal: "#16a34a",
+  substituted: "#059669",
+  affix_and_mail: "#0d9488",
+  corporate: "#0891b2",
+  served_unspecified: "#22c55e",
+  not_home: "#f59e0b",
+  refused: "#dc2626",
+  bad_address: "#7c3aed",
+  moved: "#c026d3",
+  no_access: "#ea580c",
+  other: "#64748b",
+  attempted_unspecified: "#94a3b8",
+};
+
+export const CASE_MARKER_COLOR = "#2563eb";
+
+export const getOutcomeColor = (serve: { outcome?: string | null; status?: string | null }): string =>
+  OUTCOME_COLORS[resolveOutcome(serve)];
+
+/**
+ * Where an attempt was captured: the stored GPS fix, else the coordinates text
+ */
+export const getServeLocation = (serve: ServeAttemptData): GeoPoint | null => {
+  if (serve.gpsFix && hasValidCoordinates(serve.gpsFix)) {
+    return { latitude: serve.gpsFix.latitude, longitude: serve.gpsFix.longitude };
+  }
+  const coordinates = serve.coordinates;
+  if (typeof coordinates === "string") {
+    const [latitude, longitude] = coordinates.split(",").map(Number);
+    const point = { latitude, longitude };
+    // Older attempts stored "0,0" when there was no position
+    return hasValidCoordinates(point) && (latitude !== 0 || longitude !== 0) ? point : null;
+  }
+  return hasValidCoordinates(coordinates)
+    ? { latitude: coordinates.latitude, longitude: coordinates.longitude }
+    : null;
+};
@@ -0,0 +1,113 @@
+import { MAP_CONFIG } from "@/config/backendConfig";
+import { GeoPoint } from "@/utils/geocoding";
+
+/**
+ * Web Mercator maths for the in-app map: projecting points to pixels at a
+ * zoom level, picking the tiles that cover the view and grouping nearby
+ * markers into clusters.
+ */
+
+export const TILE_SIZE = 256;
+export const MIN_ZOOM = 2;
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+export interface MapView {
+  center: GeoPoint;
+  zoom: number;
+}
+
+export interface MapCluster<T extends GeoPoint> extends GeoPoint {
+  key: string;
+  items: T[];
+}
+
+// Mercator is undefined at the poles; tiles stop at about 85°
+const MAX_LATITUDE = 85.05112878;
+
+const worldSize = (zoom: number) => TILE_SIZE * 2 ** zoom;
+
+export const clampZoom = (zoom: number): number =>
+  Math.max(MIN_ZOOM, Math.min(MAP_CONFIG.maxZoom, Math.round(zoom)));
+
+/**
+ * Pixel position of a point in the whole-world image at a zoom level
+ */
+export const projectPoint = (point: GeoPoint, zoom: number): PixelPoint => {
+  const size = worldSize(zoom);
+  const latitude = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, point.latitude));
+  const sin = Math.sin(latitude * Math.PI / 180);
+  return {
+    x: (point.longitude + 180) / 360 * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+  };
+};
+
+export const unprojectPoint = (pixel: PixelPoint, zoom: number): GeoPoint => {
+  const size = worldSize(zoom);
+  const n = Math.PI - 2 * Math.PI * pixel.y / size;
+  return {
+    latitude: 180 / Math.PI * Math.atan(Math.sinh(n)),
+    longitude: pixel.x / size * 360 - 180,
+  };
+};
+
+/**
+ * Center and zoom that fit every point inside a viewport of the given size
+ */
+export const fitPoints = (points: GeoPoint[], width: number, height: number, padding = 40): MapView | null => {
+  if (points.length === 0 || width <= 0 || height <= 0) return null;
+
+  const latitudes = points.map(point => point.latitude);
+  const longitudes = points.map(point => point.longitude);
+  const north = Math.max(...latitudes);
+  const south = Math.min(...latitudes);
+  const east = Math.max(...longitudes);
+  const west = Math.min(...longitudes);
+  const center = { latitude: (north + south) / 2, longitude: (east + west) / 2 };
+
+  // Single point or a tight group: zoom in to street level
+  let zoom = Math.min(MAP_CONFIG.maxZoom, 16);
+  while (zoom > MIN_ZOOM) {
+    const topLeft = projectPoint({ latitude: north, longitude: west }, zoom);
+    const bottomRight = projectPoint({ latitude: south, longitude: east }, zoom);
+    if (bottomRight.x - topLeft.x <= width - padding * 2 && bottomRight.y - topLeft.y <= height - padding * 2) {
+      break;
+    }
+    zoom--;
+  }
+  return { center, zoom };
+};
+
+export const getTileUrl = (x: number, y: number, zoom: number, template: string = MAP_CONFIG.tileUrl): string => {
+  const subdomains = MAP_CONFIG.subdomains || "a";
+  return template
+    .replace("{s}", subdomains[Math.abs(x + y) % subdomains.length])
+    .replace("{z}", String(zoom))
+    .replace("{x}", String(x))
+    .replace("{y}", String(y))
+    .replace("{r}", window.devicePixelRatio > 1 ? "@2x" : "");
+};
+
+/**
+ * Groups points that fall in the same square of the screen at this zoom.
+ * Each cluster sits at the average position of its members.
+ */
+export const clusterPoints = <T extends GeoPoint>(points: T[], zoom: number, cellSize = 48): MapCluster<T>[] => {
+  const cells = new Map<string, T[]>();
+  points.forEach(point => {
+    const pixel = projectPoint(point, zoom);
+    const key = `${Math.floor(pixel.x / cellSize)}:${Math.floor(pixel.y / cellSize)}`;
+    cells.set(key, [...(cells.get(key) || []), point]);
+  });
+
+  return Array.from(cells.entries()).map(([key, items]) => ({
+    key,
+    items,
+    latitude: items.reduce((sum, item) => sum + item.latitude, 0) / items.length,
+    longitude: items.reduce((sum, item) => sum + item.longitude, 0) / items.length,
+  }));
+};
@@ -0,0 +1,121 @@
+import { ServeAttemptData } from "@/components/ServeAttempt";
+import { getTodayKey, metersToMiles } from "@/utils/format";
+import { toCsv } from "@/utils/csv";
+
+/**
+ * Mileage for invoicing. Day totals come from uploaded duty shifts (a shift
+ * counts on the day it started); case totals come from the trail each
+ * attempt carries, i.e. the driving that led up to it.
+ */
+
+export interface DutyShiftRecord {
+  id: string;
+  serverId: string;
+  serverName: string;
+  startedAt: string;
+  endedAt?: string;
+  distance: number;
+  pointCount: number;
+}
+
+export interface ServerDayMileage {
+  serverId: string;
+  serverName: string;
+  date: string;
+  shifts: number;
+  minutesOnDuty: number;
+  distance: number;
+  attempts: number;
+}
+
+export interface CaseMileage {
+  clientId: string;
+  clientName: string;
+  caseNumber: string;
+  caseName: string;
+  attempts: number;
+  distance: number;
+}
+
+export const buildServerDayMileage = (
+  shifts: DutyShiftRecord[],
+  serves: ServeAttemptData[]
+): ServerDayMileage[] => {
+  const rows = new Map<string, ServerDayMileage>();
+  const getRow = (serverId: string, serverName: string, date: string) => {
+    const key = `${serverId}|${date}`;
+    if (!rows.has(key)) {
+      rows.set(key, { serverId, serverName, date, shifts: 0, minutesOnDuty: 0, distance: 0, attempts: 0 });
+    }
+    return rows.get(key)!;
+  };
+
+  shifts.forEach(shift => {
+    const row = getRow(shift.serverId, shift.serverName, getTodayKey(new Date(shift.startedAt)));
+    row.shifts++;
+    row.distance += shift.distance;
+    if (shift.endedAt) {
+      row.minutesOnDuty += (new Date(shift.endedAt).getTime() - new Date(shift.startedAt).getTime()) / 60000;
+    }
+  });
+
+  // Attempts only count towards days the server was on duty
+  serves.forEach(serve => {
+    if (!serve.shiftId || !serve.serverId) return;
+    const row = rows.get(`${serve.serverId}|${getTodayKey(new Date(serve.timestamp))}`);
+    if (row) row.attempts++;
+  });
+
+  return [...rows.values()].sort((a, b) =>
+    a.date.localeCompare(b.date) || a.serverName.localeCompare(b.serverName)
+  );
+};
+
+export const buildCaseMileage = (serves: ServeAttemptData[]): CaseMileage[] => {
+  const rows = new Map<string, CaseMileage>();
+
+  serves.forEach(serve => {
+    if (serve.trailDistance === undefined) return;
+    const key = `${serve.clientId}|${serve.caseNumber}`;
+    if (!rows.has(key)) {
+      rows.set(key, {
+        clientId: serve.clientId,
+        clientName: serve.clientName || "Unknown Client",
+        caseNumber: serve.caseNumber || "Unknown",
+        caseName: serve.caseName || "",
+        attempts: 0,
+        distance: 0,
+      });
+    }
+    const row = rows.get(key)!;
+    row.attempts++;
+    row.distance += serve.trailDistance;
+  });
+
+  return [...rows.values()].sort((a, b) =>
+    a.clientName.localeCompare(b.clientName) || a.caseNumber.localeCompare(b.caseNumber)
+  );
+};
+
+/* CSV */
+
+const formatCsvMiles = (meters: number) => metersToMiles(meters).toFixed(2);
+
+export const serverDayMileageToCsv = (rows: ServerDayMileage[]): string =>
+  toCsv(
+    ["Date", "Server", "Shifts", "Hours on duty", "Attempts", "Miles"],
+    rows.map(row => [
+      row.date,
+      row.serverName,
+      row.shifts,
+      (row.minutesOnDuty / 60).toFixed(2),
+      row.attempts,
+      formatCsvMiles(row.distance),
+    ])
+  );
+
+export const caseMileageToCsv = (rows: CaseMileage[]): string =>
+  toCsv(
+    ["Client", "Case number", "Case name", "Attempts", "Miles"],
+    rows.map(row => [row.clientName, row.caseNumber, row.caseName, row.attempts, formatCsvMiles(row.distance)])
+  );
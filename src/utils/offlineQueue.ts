@@ -0,0 +1,223 @@
+/**
+ * Offline outbox for serve attempts. When Appwrite can't be reached, new
+ * attempts and edits are stored in IndexedDB and replayed in order once the
+ * connection returns. Each queued attempt carries a SHA-256 hash of its
+ * capture data, taken at queue time, so the uploaded record can be checked
+ * against what was captured in the field.
+ */
+
+import { AppwriteException } from "appwrite";
+
+const DB_NAME = "serve-tracker-outbox";
+const DB_VERSION = 1;
+const STORE_NAME = "outbox";
+
+export const OUTBOX_EVENT = "outbox-updated";
+
+export type OutboxItemType = "create_serve" | "update_serve";
+export type OutboxState = "pending" | "syncing" | "synced" | "failed";
+
+export interface OutboxItem {
+  seq?: number;
+  id: string;
+  type: OutboxItemType;
+  // Serve data for creates, changed fields for updates
+  payload: Record<string, unknown>;
+  // Serve the update applies to; may be the local id of a queued create
+  targetId?: string;
+  hash?: string;
+  queuedAt: string;
+  state: OutboxState;
+  attempts: number;
+  lastError?: string;
+  remoteId?: string;
+  syncedAt?: string;
+}
+
+export const OUTBOX_STATE_LABELS: Record<OutboxState, string> = {
+  pending: "Waiting to upload",
+  syncing: "Uploading",
+  synced: "Uploaded",
+  failed: "Upload failed",
+};
+
+export const getOutboxStateClass = (state: OutboxState): string =>
+  state === "failed" ? "bg-red-100 text-red-800" :
+  state === "syncing" ? "bg-blue-100 text-blue-800" :
+  state === "synced" ? "bg-green-100 text-green-800" :
+  "bg-amber-100 text-amber-800";
+
+export const LOCAL_ID_PREFIX = "local-";
+
+export const isLocalServeId = (id?: string): boolean => !!id && id.startsWith(LOCAL_ID_PREFIX);
+
+export const createLocalServeId = (): string => `${LOCAL_ID_PREFIX}${crypto.randomUUID()}`;
+
+/**
+ * Appwrite document ID a queued attempt is uploaded under. Derived from the
+ * outbox ID so every replay of the item targets the same document.
+ */
+export const getServeDocumentId = (localId: string): string =>
+  localId.slice(LOCAL_ID_PREFIX.length).replace(/-/g, "");
+
+// What browsers put in the TypeError fetch rejects with when the request never got a response
+const FETCH_FAILURE_PATTERN = /failed to fetch|networkerror|load failed|network request failed/i;
+
+/**
+ * Whether an error means the backend couldn't be reached, as opposed to
+ * the request being rejected or a bug in the app. Only these are queued.
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  // The SDK rethrows fetch failures as exceptions without an HTTP status
+  if (error instanceof AppwriteException) return error.code === 0;
+  return error instanceof TypeError && FETCH_FAILURE_PATTERN.test(error.message);
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: "seq", autoIncrement: true });
+        store.createIndex("id", "id", { unique: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return requestToPromise(action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+};
+
+const notifyOutboxChanged = () => {
+  window.dispatchEvent(new CustomEvent(OUTBOX_EVENT));
+};
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, "0")).join("");
+
+const toIsoString = (value: unknown): string => {
+  const date = value instanceof Date ? value : new Date(value as string);
+  return isNaN(date.getTime()) ? String(value ?? "") : date.toISOString();
+};
+
+interface CaptureFields {
+  clientId?: string;
+  caseNumber?: string;
+  timestamp?: Date | string;
+  coordinates?: unknown;
+  outcome?: string;
+  notes?: string;
+  imageData?: string | null;
+  photos?: { imageData?: string; caption: string; coordinates?: string; takenAt: string }[];
+}
+
+// Only the image bytes; the data URL prefix can change on a round trip through storage
+const imageBytes = (imageData?: string | null) => (imageData || "").replace(/^data:[^,]*,/, "");
+
+/**
+ * SHA-256 of the fields captured in the field: who, when, where, what
+ * happened and the photos
+ */
+export async function hashCaptureData(serve: CaptureFields): Promise<string> {
+  const canonical = JSON.stringify([
+    serve.clientId || "",
+    serve.caseNumber || "",
+    toIsoString(serve.timestamp),
+    typeof serve.coordinates === "string" ? serve.coordinates : "",
+    serve.outcome || "",
+    serve.notes || "",
+    imageBytes(serve.imageData),
+    // Galleries add every photo with its own caption, GPS and time
+    ...(serve.photos && serve.photos.length > 0
+      ? [serve.photos.map(photo => [imageBytes(photo.imageData), photo.caption, photo.coordinates || "", photo.takenAt])]
+      : []),
+  ]);
+  return toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(canonical)));
+}
+
+export async function getOutboxItems(): Promise<OutboxItem[]> {
+  const items = await withStore<OutboxItem[]>("readonly", store => store.getAll());
+  return items.sort((a, b) => (a.seq || 0) - (b.seq || 0));
+}
+
+export async function saveOutboxItem(item: OutboxItem): Promise<void> {
+  await withStore("readwrite", store => store.put(item));
+  notifyOutboxChanged();
+}
+
+export async function removeOutboxItem(seq: number): Promise<void> {
+  await withStore("readwrite", store => store.delete(seq));
+  notifyOutboxChanged();
+}
+
+export async function clearSyncedItems(): Promise<void> {
+  const items = await getOutboxItems();
+  for (const item of items) {
+    if (item.state === "synced" && item.seq !== undefined) {
+      await withStore("readwrite", store => store.delete(item.seq!));
+    }
+  }
+  notifyOutboxChanged();
+}
+
+/**
+ * Queues a new serve attempt, keeping its original capture time and GPS.
+ * A save that failed part way passes its ID along so the replay reuses it.
+ */
+export async function enqueueServeCreate(serveData: Record<string, unknown>, id = createLocalServeId()): Promise<OutboxItem> {
+  const coordinates = serveData.coordinates as { latitude?: number; longitude?: number } | string | undefined;
+  const payload = {
+    ...serveData,
+    timestamp: toIsoString(serveData.timestamp || new Date()),
+    coordinates: typeof coordinates === "string" || !coordinates
+      ? coordinates || ""
+      : `${coordinates.latitude},${coordinates.longitude}`,
+  };
+
+  const item: OutboxItem = {
+    id,
+    type: "create_serve",
+    payload,
+    hash: await hashCaptureData(payload),
+    queuedAt: new Date().toISOString(),
+    state: "pending",
+    attempts: 0,
+  };
+
+  await withStore("readwrite", store => store.add(item));
+  notifyOutboxChanged();
+  return item;
+}
+
+export async function enqueueServeUpdate(serveId: string, changes: Record<string, unknown>): Promise<OutboxItem> {
+  const item: OutboxItem = {
+    id: createLocalServeId(),
+    type: "update_serve",
+    payload: changes,
+    targetId: serveId,
+    queuedAt: new Date().toISOString(),
+    state: "pending",
+    attempts: 0,
+  };
+
+  await withStore("readwrite", store => store.add(item));
+  notifyOutboxChanged();
+  return item;
+}
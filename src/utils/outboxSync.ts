@@ -0,0 +1,115 @@
+import { appwrite } from "@/lib/appwrite";
+import {
+  OutboxItem,
+  getOutboxItems,
+  hashCaptureData,
+  isLocalServeId,
+  isNetworkError,
+  saveOutboxItem,
+} from "@/utils/offlineQueue";
+
+let isSyncing = false;
+
+const replayItem = async (item: OutboxItem, remoteIds: Map<string, string>): Promise<string | undefined> => {
+  if (item.type === "create_serve") {
+    // Refuse to upload anything that no longer matches what was captured
+    const hash = await hashCaptureData(item.payload);
+    if (hash !== item.hash) {
+      throw new Error("Record changed while queued; capture hash does not match");
+    }
+
+    const response = await appwrite.createServeAttempt(
+      { ...item.payload, captureHash: item.hash, queuedAt: item.queuedAt },
+      {
+        fromOutbox: true,
+        localId: item.id,
+        // Keep the file IDs of photos that made it up before the connection dropped
+        onUploaded: async (uploaded: Record<string, unknown>) => {
+          item.payload = { ...item.payload, ...uploaded };
+          await saveOutboxItem({ ...item, state: "syncing" });
+        },
+      }
+    );
+    return response.$id;
+  }
+
+  const targetId = isLocalServeId(item.targetId) ? remoteIds.get(item.targetId!) : item.targetId;
+  if (!targetId) {
+    throw new Error("The attempt this edit belongs to hasn't uploaded yet");
+  }
+  await appwrite.updateServeAttempt(targetId, item.payload, { fromOutbox: true });
+  return targetId;
+};
+
+/**
+ * Uploads queued attempts and edits in the order they were recorded. Stops
+ * at the first connection failure so later items never overtake earlier ones.
+ */
+export async function syncOutbox(): Promise<{ synced: number; failed: number }> {
+  const result = { synced: 0, failed: 0 };
+  if (isSyncing || !navigator.onLine) return result;
+
+  isSyncing = true;
+  try {
+    const items = await getOutboxItems();
+    const remoteIds = new Map<string, string>();
+    items.forEach(item => {
+      if (item.remoteId) remoteIds.set(item.id, item.remoteId);
+    });
+
+    for (const item of items) {
+      if (item.state === "synced") continue;
+
+      await saveOutboxItem({ ...item, state: "syncing" });
+      try {
+        const remoteId = await replayItem(item, remoteIds);
+        if (remoteId) remoteIds.set(item.id, remoteId);
+        await saveOutboxItem({
+          ...item,
+          state: "synced",
+          attempts: item.attempts + 1,
+          lastError: undefined,
+          remoteId,
+          syncedAt: new Date().toISOString(),
+        });
+        result.synced++;
+      } catch (error) {
+        console.error("Error replaying outbox item:", item.id, error);
+        const offline = isNetworkError(error);
+        await saveOutboxItem({
+          ...item,
+          state: offline ? "pending" : "failed",
+          attempts: item.attempts + 1,
+          lastError: error instanceof Error ? error.message : String(error),
+        });
+        if (offline) break;
+        result.failed++;
+      }
+    }
+  } catch (error) {
+    console.error("Error syncing offline outbox:", error);
+  } finally {
+    isSyncing = false;
+  }
+
+  if (result.synced > 0) {
+    window.dispatchEvent(new CustomEvent("serves-updated"));
+  }
+  return result;
+}
+
+/**
+ * Replays the outbox now and whenever the browser comes back online
+ */
+export function startOutboxSync(): () => void {
+  const handleOnline = () => {
+    syncOutbox();
+  };
+
+  syncOutbox();
+  window.addEventListener("online", handleOnline);
+
+  return () => {
+    window.removeEventListener("online", handleOnline);
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * Role-based permissions for staff and client accounts.
+ * Roles are stored as Appwrite team membership roles on the staff team.
+ */
+
+export type UserRole = "admin" | "dispatcher" | "server" | "client";
+
+export type PermissionAction =
+  | "client:create"
+  | "client:edit"
+  | "client:delete"
+  | "case:create"
+  | "case:edit"
+  | "case:delete"
+  | "case:assign"
+  | "serve:create"
+  | "serve:edit-own"
+  | "serve:edit-any"
+  | "serve:delete"
+  | "document:upload"
+  | "document:delete"
+  | "photo:view-original"
+  | "team:manage"
+  | "data:migrate"
+  | "data:export";
+
+export const USER_ROLES: { value: UserRole; label: string; description: string }[] = [
+  { value: "admin", label: "Agency Admin", description: "Full access, including deleting clients and cases" },
+  { value: "dispatcher", label: "Dispatcher", description: "Manages clients, cases and all serve attempts" },
+  { value: "server", label: "Process Server", description: "Records serves and edits their own attempts" },
+  { value: "client", label: "Client (Read-only)", description: "Can view cases and serve history" },
+];
+
+const ROLE_PERMISSIONS: Record<UserRole, PermissionAction[]> = {
+  admin: [
+    "client:create", "client:edit", "client:delete",
+    "case:create", "case:edit", "case:delete", "case:assign",
+    "serve:create", "serve:edit-own", "serve:edit-any", "serve:delete",
+    "document:upload", "document:delete", "photo:view-original",
+    "team:manage", "data:migrate", "data:export",
+  ],
+  dispatcher: [
+    "client:create", "client:edit",
+    "case:create", "case:edit", "case:assign",
+    "serve:create", "serve:edit-own", "serve:edit-any",
+    "document:upload",
+    "data:export",
+  ],
+  server: [
+    "serve:create", "serve:edit-own",
+    "document:upload",
+  ],
+  client: [],
+};
+
+// Roles that work for the agency, as opposed to client accounts
+export const STAFF_ROLES: UserRole[] = ["admin", "dispatcher", "server"];
+
+/**
+ * Membership role that links a client account to its client record. Records
+ * belonging to that client are readable by this role and no other client.
+ */
+export const getClientAccessRole = (clientId: string): string => `client-${clientId}`;
+
+export const getLinkedClientId = (roles: string[] | undefined | null): string | null => {
+  const linked = (roles || []).find(role => role.startsWith("client-"));
+  return linked ? linked.slice("client-".length) : null;
+};
+
+/**
+ * Membership roles for a role, plus the client link for client accounts
+ */
+export const buildMembershipRoles = (role: UserRole, clientId?: string): string[] =>
+  role === "client" && clientId ? [role, getClientAccessRole(clientId)] : [role];
+
+// Highest privilege first - a member holding several roles gets the strongest one
+const ROLE_PRIORITY: UserRole[] = ["admin", "dispatcher", "server", "client"];
+
+/**
+ * Picks the effective role from an Appwrite membership's role list
+ * @param roles Membership roles as stored on the team
+ * @returns The effective role, or null if none of the roles are recognised
+ */
+export const getEffectiveRole = (roles: string[] | undefined | null): UserRole | null => {
+  if (!roles || roles.length === 0) return null;
+  // Appwrite gives the team creator the "owner" role
+  if (roles.includes("owner")) return "admin";
+  return ROLE_PRIORITY.find(role => roles.includes(role)) || null;
+};
+
+export const hasPermission = (role: UserRole | null, action: PermissionAction): boolean => {
+  if (!role) return false;
+  return ROLE_PERMISSIONS[role].includes(action);
+};
+
+/**
+ * Checks whether the user may edit a specific serve attempt
+ * @param role The user's effective role
+ * @param userId The signed-in user's ID
+ * @param ownerId The ID of the user who recorded the attempt
+ */
+export const canEditServe = (role: UserRole | null, userId: string | undefined, ownerId: string | undefined): boolean => {
+  if (hasPermission(role, "serve:edit-any")) return true;
+  return hasPermission(role, "serve:edit-own") && !!userId && userId === ownerId;
+};
+
+export const getRoleLabel = (role: UserRole | null): string => {
+  return USER_ROLES.find(r => r.value === role)?.label || "No role";
+};
@@ -0,0 +1,99 @@
+import { ServeOutcome } from "@/utils/serveOutcomes";
+
+/**
+ * Physical description of the person served, as required on NY affidavits
+ */
+export interface RecipientDescription {
+  sex: string;
+  skinColor: string;
+  hairColor: string;
+  approximateAge: string;
+  height: string;
+  weight: string;
+  // Only used for substituted service
+  relationship?: string;
+}
+
+export const SEX_OPTIONS = ["Male", "Female", "Other"];
+
+export const SKIN_COLOR_OPTIONS = ["White", "Black", "Brown", "Olive", "Tan", "Yellow", "Other"];
+
+export const HAIR_COLOR_OPTIONS = ["Black", "Brown", "Blond", "Red", "Gray", "White", "Balding", "Bald", "Other"];
+
+export const EMPTY_RECIPIENT_DESCRIPTION: RecipientDescription = {
+  sex: "",
+  skinColor: "",
+  hairColor: "",
+  approximateAge: "",
+  height: "",
+  weight: "",
+  relationship: "",
+};
+
+// Outcomes where the server saw and handed papers to a person
+export const DESCRIPTION_REQUIRED_OUTCOMES: ServeOutcome[] = ["personal", "substituted", "corporate"];
+
+const FIELD_LABELS: Record<keyof RecipientDescription, string> = {
+  sex: "Sex",
+  skinColor: "Skin color",
+  hairColor: "Hair color",
+  approximateAge: "Approximate age",
+  height: "Height",
+  weight: "Weight",
+  relationship: "Relationship to defendant",
+};
+
+export const requiresRecipientDescription = (outcome?: ServeOutcome): boolean =>
+  !!outcome && DESCRIPTION_REQUIRED_OUTCOMES.includes(outcome);
+
+/**
+ * Lists the labels of required fields that are still empty for the given outcome
+ */
+export const getMissingDescriptionFields = (
+  description: RecipientDescription | undefined,
+  outcome?: ServeOutcome
+): string[] => {
+  if (!requiresRecipientDescription(outcome)) return [];
+
+  const required: (keyof RecipientDescription)[] = ["sex", "skinColor", "hairColor", "approximateAge", "height", "weight"];
+  if (outcome === "substituted") required.push("relationship");
+
+  return required
+    .filter(field => !description?.[field]?.trim())
+    .map(field => FIELD_LABELS[field]);
+};
+
+export const hasRecipientDescription = (description?: RecipientDescription | null): boolean =>
+  !!description && Object.values(description).some(value => !!value?.trim());
+
+/**
+ * One-line summary, e.g. "Male, White skin, Brown hair, age 35-45, 5'10", 180 lbs"
+ */
+export const formatRecipientDescription = (description?: RecipientDescription | null): string => {
+  if (!hasRecipientDescription(description)) return "";
+
+  const parts = [
+    description.sex,
+    description.skinColor && `${description.skinColor} skin`,
+    description.hairColor && `${description.hairColor} hair`,
+    description.approximateAge && `age ${description.approximateAge}`,
+    description.height,
+    description.weight && `${description.weight} lbs`,
+    description.relationship && `relationship: ${description.relationship}`,
+  ];
+  return parts.filter(Boolean).join(", ");
+};
+
+/**
+ * Parses the JSON stored on the serve attempt document
+ */
+export const parseRecipientDescription = (value: unknown): RecipientDescription | undefined => {
+  if (!value) return undefined;
+  if (typeof value === "object") return { ...EMPTY_RECIPIENT_DESCRIPTION, ...(value as RecipientDescription) };
+  try {
+    return { ...EMPTY_RECIPIENT_DESCRIPTION, ...JSON.parse(String(value)) };
+  } catch (error) {
+    console.warn("Could not parse recipient description:", value);
+    return undefined;
+  }
+};
@@ -0,0 +1,290 @@
+import { GeoPoint } from "@/utils/geocoding";
+import { distanceMeters } from "@/utils/geofence";
+import { getTodayKey } from "@/utils/format";
+
+/**
+ * Orders a day's stops for one server: nearest neighbour from the start
+ * point, then 2-opt to untangle the route. Pinned stops keep their place in
+ * the order and time windows ("after 6pm") are honoured by waiting or, when
+ * they can't be met, by penalising the lateness.
+ */
+
+// Times are minutes after midnight on the day being planned
+export interface TimeWindow {
+  after?: number;
+  before?: number;
+}
+
+export interface RouteStop {
+  // `${caseId}:${addressId}`
+  id: string;
+  caseId: string;
+  clientId: string;
+  caseNumber: string;
+  caseName?: string;
+  addressId: string;
+  address: string;
+  location: GeoPoint;
+  window?: TimeWindow;
+  // Fixed position in the itinerary, if the server pinned it
+  pinnedIndex?: number;
+}
+
+export interface RouteOptions {
+  start: GeoPoint;
+  startMinutes: number;
+  // Average driving speed, including parking
+  speedKmh?: number;
+  // Time spent at each stop
+  serviceMinutes?: number;
+}
+
+export interface RouteLeg {
+  stop: RouteStop;
+  distance: number;
+  arrival: number;
+  wait: number;
+  // Minutes past the window's "before" time
+  late: number;
+  departure: number;
+}
+
+export interface PlannedRoute {
+  legs: RouteLeg[];
+  totalDistance: number;
+  finish: number;
+}
+
+export const DEFAULT_SPEED_KMH = 30;
+export const DEFAULT_SERVICE_MINUTES = 10;
+
+// Straight-line distance understates driving; streets add roughly a third
+const ROAD_FACTOR = 1.3;
+// A minute late counts as much as this many minutes of driving
+const LATE_PENALTY = 10;
+const MAX_TWO_OPT_PASSES = 50;
+
+const travel = (from: GeoPoint, to: GeoPoint, speedKmh: number) => {
+  const distance = distanceMeters(from, to) * ROAD_FACTOR;
+  return { distance, minutes: distance / 1000 / speedKmh * 60 };
+};
+
+/**
+ * Works out arrival times along a fixed order of stops
+ */
+export const scheduleRoute = (order: RouteStop[], options: RouteOptions): PlannedRoute => {
+  const speed = options.speedKmh || DEFAULT_SPEED_KMH;
+  const service = options.serviceMinutes ?? DEFAULT_SERVICE_MINUTES;
+  let position = options.start;
+  let clock = options.startMinutes;
+  let totalDistance = 0;
+
+  const legs = order.map(stop => {
+    const leg = travel(position, stop.location, speed);
+    const arrival = clock + leg.minutes;
+    const wait = stop.window?.after !== undefined && arrival < stop.window.after ? stop.window.after - arrival : 0;
+    const begin = arrival + wait;
+    const late = stop.window?.before !== undefined && begin > stop.window.before ? begin - stop.window.before : 0;
+    clock = begin + service;
+    position = stop.location;
+    totalDistance += leg.distance;
+    return { stop, distance: leg.distance, arrival, wait, late, departure: clock };
+  });
+
+  return { legs, totalDistance, finish: clock };
+};
+
+const routeCost = (route: PlannedRoute, startMinutes: number) =>
+  route.finish - startMinutes + LATE_PENALTY * route.legs.reduce((sum, leg) => sum + leg.late, 0);
+
+/**
+ * Slot for each pinned stop, moving clashing pins to the next free slot
+ */
+const placePins = (stops: RouteStop[]): (RouteStop | null)[] => {
+  const slots: (RouteStop | null)[] = stops.map(() => null);
+  stops
+    .filter(stop => stop.pinnedIndex !== undefined)
+    .sort((a, b) => a.pinnedIndex! - b.pinnedIndex!)
+    .forEach(stop => {
+      let index = Math.max(0, Math.min(stops.length - 1, stop.pinnedIndex!));
+      while (slots[index] && index < slots.length - 1) index++;
+      while (slots[index] && index > 0) index--;
+      slots[index] = stop;
+    });
+  return slots;
+};
+
+const nearestNeighbour = (stops: RouteStop[], slots: (RouteStop | null)[], options: RouteOptions): RouteStop[] => {
+  const speed = options.speedKmh || DEFAULT_SPEED_KMH;
+  const service = options.serviceMinutes ?? DEFAULT_SERVICE_MINUTES;
+  const remaining = stops.filter(stop => !slots.includes(stop));
+  const order: RouteStop[] = [];
+  let position = options.start;
+  let clock = options.startMinutes;
+
+  slots.forEach(pinned => {
+    let next = pinned;
+    if (!next) {
+      let bestCost = Infinity;
+      remaining.forEach(candidate => {
+        const arrival = clock + travel(position, candidate.location, speed).minutes;
+        const begin = Math.max(arrival, candidate.window?.after ?? arrival);
+        const late = candidate.window?.before !== undefined ? Math.max(0, begin - candidate.window.before) : 0;
+        const cost = begin - clock + LATE_PENALTY * late;
+        if (cost < bestCost) {
+          bestCost = cost;
+          next = candidate;
+        }
+      });
+      remaining.splice(remaining.indexOf(next!), 1);
+    }
+    const arrival = clock + travel(position, next!.location, speed).minutes;
+    clock = Math.max(arrival, next!.window?.after ?? arrival) + service;
+    position = next!.location;
+    order.push(next!);
+  });
+
+  return order;
+};
+
+/**
+ * Orders the stops and schedules the result
+ */
+export const planRoute = (stops: RouteStop[], options: RouteOptions): PlannedRoute => {
+  if (stops.length === 0) return { legs: [], totalDistance: 0, finish: options.startMinutes };
+
+  const slots = placePins(stops);
+  let order = nearestNeighbour(stops, slots, options);
+  let best = scheduleRoute(order, options);
+  let bestCost = routeCost(best, options.startMinutes);
+
+  // 2-opt over the unpinned slots only, so pins never move
+  const free = slots.map((slot, index) => (slot ? -1 : index)).filter(index => index >= 0);
+  for (let pass = 0, improved = true; improved && pass < MAX_TWO_OPT_PASSES; pass++) {
+    improved = false;
+    for (let i = 0; i < free.length - 1; i++) {
+      for (let j = i + 1; j < free.length; j++) {
+        const candidate = [...order];
+        const segment = free.slice(i, j + 1).map(index => order[index]).reverse();
+        free.slice(i, j + 1).forEach((index, k) => { candidate[index] = segment[k]; });
+        const route = scheduleRoute(candidate, options);
+        const cost = routeCost(route, options.startMinutes);
+        if (cost < bestCost - 0.01) {
+          order = candidate;
+          best = route;
+          bestCost = cost;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return best;
+};
+
+/* Saved plan */
+
+// The day's choices, kept on the device so they survive leaving the page to
+// record an attempt
+export interface SavedRoutePlan {
+  date: string;
+  userId: string;
+  start?: GeoPoint & { label: string };
+  startTime: string;
+  windows: Record<string, TimeWindow>;
+  pins: Record<string, number>;
+  excluded: string[];
+}
+
+const ROUTE_PLAN_KEY = "serveRoutePlan";
+
+/**
+ * Today's plan for this user, or a fresh one
+ */
+export const getSavedRoutePlan = (userId: string): SavedRoutePlan => {
+  const fresh: SavedRoutePlan = {
+    date: getTodayKey(),
+    userId,
+    startTime: toTimeInputValue(new Date().getHours() * 60 + new Date().getMinutes()),
+    windows: {},
+    pins: {},
+    excluded: [],
+  };
+  try {
+    const stored = JSON.parse(localStorage.getItem(ROUTE_PLAN_KEY) || "null");
+    return stored && stored.date === fresh.date && stored.userId === userId ? { ...fresh, ...stored } : fresh;
+  } catch (error) {
+    console.warn("Could not read route plan:", error);
+    return fresh;
+  }
+};
+
+export const saveRoutePlan = (plan: SavedRoutePlan): void => {
+  localStorage.setItem(ROUTE_PLAN_KEY, JSON.stringify(plan));
+};
+
+/* Display */
+
+export const parseTimeOfDay = (value: string): number | undefined => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  return match ? Number(match[1]) * 60 + Number(match[2]) : undefined;
+};
+
+export const toTimeInputValue = (minutes?: number): string => {
+  if (minutes === undefined) return "";
+  const rounded = Math.round(minutes);
+  return `${String(Math.floor(rounded / 60) % 24).padStart(2, "0")}:${String(rounded % 60).padStart(2, "0")}`;
+};
+
+export const formatTimeOfDay = (minutes: number): string => {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60) % 24;
+  const suffix = hours >= 12 ? "pm" : "am";
+  return `${hours % 12 || 12}:${String(rounded % 60).padStart(2, "0")}${suffix}`;
+};
+
+export const describeTimeWindow = (window?: TimeWindow): string => {
+  if (!window || (window.after === undefined && window.before === undefined)) return "";
+  if (window.after !== undefined && window.before !== undefined) {
+    return `${formatTimeOfDay(window.after)}–${formatTimeOfDay(window.before)}`;
+  }
+  return window.after !== undefined
+    ? `After ${formatTimeOfDay(window.after)}`
+    : `Before ${formatTimeOfDay(window.before!)}`;
+};
+
+/* GPX */
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const gpxPoint = (tag: string, point: GeoPoint, name: string, description?: string) =>
+  `<${tag} lat="${point.latitude.toFixed(6)}" lon="${point.longitude.toFixed(6)}">` +
+  `<name>${escapeXml(name)}</name>` +
+  (description ? `<desc>${escapeXml(description)}</desc>` : "") +
+  `</${tag}>`;
+
+/**
+ * The itinerary as GPX: a waypoint per stop plus the ordered route, for
+ * loading into a navigation app
+ */
+export const buildRouteGpx = (route: PlannedRoute, start: GeoPoint, name: string): string => {
+  const stops = route.legs.map((leg, index) => ({
+    point: leg.stop.location,
+    name: `${index + 1}. ${leg.stop.caseName || leg.stop.caseNumber}`,
+    description: `${leg.stop.address} · ETA ${formatTimeOfDay(leg.arrival + leg.wait)}`,
+  }));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="ServeTracker" xmlns="http://www.topografix.com/GPX/1/1">',
+    `<metadata><name>${escapeXml(name)}</name><time>${new Date().toISOString()}</time></metadata>`,
+    ...stops.map(stop => gpxPoint("wpt", stop.point, stop.name, stop.description)),
+    "<rte>",
+    `<name>${escapeXml(name)}</name>`,
+    gpxPoint("rtept", start, "Start"),
+    ...stops.map(stop => gpxPoint("rtept", stop.point, stop.name, stop.description)),
+    "</rte>",
+    "</gpx>",
+  ].join("\n");
+};
@@ -0,0 +1,71 @@
+/**
+ * Structured serve outcomes. The coarse `status` (completed/failed) is still
+ * stored on every attempt, but it is derived from the outcome recorded here.
+ */
+
+export type ServeStatus = "completed" | "failed";
+
+export type ServiceMethod = "personal" | "substituted" | "affix_and_mail" | "corporate";
+
+export type ServeOutcome =
+  | ServiceMethod
+  | "served_unspecified"
+  | "refused"
+  | "not_home"
+  | "bad_address"
+  | "moved"
+  | "no_access"
+  | "other"
+  | "attempted_unspecified";
+
+export interface ServeOutcomeDefinition {
+  value: ServeOutcome;
+  label: string;
+  status: ServeStatus;
+  description: string;
+  // Hidden from pickers; only produced when migrating old records
+  legacy?: boolean;
+}
+
+export const SERVE_OUTCOMES: ServeOutcomeDefinition[] = [
+  { value: "personal", label: "Personal Delivery", status: "completed", description: "Delivered to the recipient in hand - CPLR 308(1)" },
+  { value: "substituted", label: "Substituted Service", status: "completed", description: "Left with a person of suitable age and discretion, followed by mailing - CPLR 308(2)" },
+  { value: "affix_and_mail", label: "Affix and Mail", status: "completed", description: "Affixed to the door (conspicuous service), followed by mailing - CPLR 308(4)" },
+  { value: "corporate", label: "Corporate / Agent", status: "completed", description: "Delivered to an officer or authorized agent - CPLR 311" },
+  { value: "served_unspecified", label: "Served (method not recorded)", status: "completed", description: "Successful serve recorded before methods were tracked", legacy: true },
+  { value: "not_home", label: "Not Home", status: "failed", description: "No one answered at the address" },
+  { value: "refused", label: "Refused", status: "failed", description: "Recipient or occupant refused to accept or identify" },
+  { value: "bad_address", label: "Bad Address", status: "failed", description: "Address does not exist or is not the recipient's" },
+  { value: "moved", label: "Moved", status: "failed", description: "Recipient no longer lives or works at the address" },
+  { value: "no_access", label: "No Access", status: "failed", description: "Gated, doorman or locked building prevented access" },
+  { value: "other", label: "Other", status: "failed", description: "Unsuccessful for another reason - see notes" },
+  { value: "attempted_unspecified", label: "Attempted (reason not recorded)", status: "failed", description: "Unsuccessful attempt recorded before reasons were tracked", legacy: true },
+];
+
+export const SERVICE_METHODS: ServiceMethod[] = ["personal", "substituted", "affix_and_mail", "corporate"];
+
+export const SELECTABLE_OUTCOMES = SERVE_OUTCOMES.filter(outcome => !outcome.legacy);
+
+export const getOutcomeDefinition = (outcome?: string | null): ServeOutcomeDefinition | undefined =>
+  SERVE_OUTCOMES.find(definition => definition.value === outcome);
+
+export const getOutcomeLabel = (outcome?: string | null): string =>
+  getOutcomeDefinition(outcome)?.label || "Unknown";
+
+export const getStatusForOutcome = (outcome?: string | null): ServeStatus =>
+  getOutcomeDefinition(outcome)?.status || "failed";
+
+export const isServiceMethod = (outcome?: string | null): outcome is ServiceMethod =>
+  SERVICE_METHODS.includes(outcome as ServiceMethod);
+
+/**
+ * Maps a legacy status value onto the outcome taxonomy
+ */
+export const migrateLegacyStatus = (status?: string | null): ServeOutcome =>
+  status === "completed" ? "served_unspecified" : "attempted_unspecified";
+
+/**
+ * Returns the recorded outcome, falling back to the legacy status mapping
+ */
+export const resolveOutcome = (serve: { outcome?: string | null; status?: string | null }): ServeOutcome =>
+  getOutcomeDefinition(serve.outcome)?.value || migrateLegacyStatus(serve.status);
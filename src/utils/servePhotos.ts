@@ -0,0 +1,106 @@
+import { GpsFix } from "@/utils/gps";
+
+/**
+ * Photo gallery for a serve attempt. Each photo keeps its own caption, GPS
+ * fix and capture time. On the attempt record the gallery is stored as JSON
+ * in the `photos` attribute; the images themselves live in the storage bucket.
+ */
+
+export interface ServePhoto {
+  id: string;
+  caption: string;
+  // Data URL while the attempt is being captured or is queued offline
+  imageData?: string;
+  fileId?: string;
+  // Copy without the burned-in overlay, readable by admins only
+  originalImageData?: string;
+  originalFileId?: string;
+  // SHA-256 of the image bytes, taken before upload
+  sha256?: string;
+  // Filled in when the attempt is read back
+  url?: string;
+  thumbnailUrl?: string;
+  originalUrl?: string;
+  coordinates?: string;
+  accuracy?: number;
+  // Full reading the photo was tagged with
+  fix?: GpsFix;
+  takenAt: string;
+}
+
+export const PHOTO_CAPTION_SUGGESTIONS = [
+  "Front door",
+  "House number",
+  "Recipient",
+  "Posted papers",
+  "Mailbox",
+  "Vehicle",
+];
+
+export const createServePhoto = (imageData: string, fix: GpsFix, takenAt: Date): ServePhoto => ({
+  id: crypto.randomUUID(),
+  caption: "",
+  imageData,
+  coordinates: `${fix.latitude},${fix.longitude}`,
+  accuracy: fix.accuracy,
+  fix,
+  takenAt: takenAt.toISOString(),
+});
+
+export const parseServePhotos = (value?: string | null): ServePhoto[] => {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter(photo => photo && photo.id) : [];
+  } catch (error) {
+    console.warn("Could not parse serve photos:", error);
+    return [];
+  }
+};
+
+// Only metadata and file IDs are stored on the document, never image data
+export const serializeServePhotos = (photos: ServePhoto[]): string =>
+  JSON.stringify(photos.map(({ id, caption, fileId, originalFileId, sha256, coordinates, accuracy, fix, takenAt }) => ({
+    id, caption, fileId, originalFileId, sha256, coordinates, accuracy, fix, takenAt,
+  })));
+
+export const movePhoto = (photos: ServePhoto[], index: number, offset: number): ServePhoto[] => {
+  const target = index + offset;
+  if (target < 0 || target >= photos.length) return photos;
+  const next = [...photos];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+interface GallerySource {
+  photos?: ServePhoto[];
+  gpsFix?: GpsFix;
+  imageData?: string | null;
+  imageFileId?: string;
+  imageUrl?: string;
+  thumbnailUrl?: string;
+  coordinates?: unknown;
+  timestamp?: Date | string;
+}
+
+/**
+ * Photos to show for an attempt. Attempts recorded before galleries existed
+ * have a single photo, which is presented as a one-item gallery.
+ */
+export const getServeGallery = (serve: GallerySource): ServePhoto[] => {
+  if (serve.photos && serve.photos.length > 0) return serve.photos;
+  if (!serve.imageData && !serve.imageFileId) return [];
+
+  return [{
+    id: serve.imageFileId || "legacy",
+    caption: "",
+    imageData: serve.imageData || undefined,
+    fileId: serve.imageFileId,
+    url: serve.imageUrl,
+    thumbnailUrl: serve.thumbnailUrl,
+    coordinates: typeof serve.coordinates === "string" ? serve.coordinates : undefined,
+    accuracy: serve.gpsFix?.accuracy,
+    fix: serve.gpsFix,
+    takenAt: serve.timestamp ? new Date(serve.timestamp).toISOString() : "",
+  }];
+};
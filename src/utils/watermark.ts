@@ -0,0 +1,190 @@
+/**
+ * Visible evidence overlay burned into serve photos at capture time.
+ * The overlay settings are kept per device in localStorage so they are
+ * available while capturing offline.
+ */
+
+import { formatCoordinates } from "@/utils/gps";
+
+export type WatermarkPosition = "top-left" | "top-right" | "bottom-left" | "bottom-right";
+
+export type WatermarkField = "dateTime" | "coordinates" | "caseNumber" | "attemptNumber" | "serverId";
+
+export interface WatermarkSettings {
+  enabled: boolean;
+  position: WatermarkPosition;
+  fields: Record<WatermarkField, boolean>;
+  // Opacity of the backing box, 0.1 - 1
+  opacity: number;
+}
+
+// What a photo's overlay can show; fields the server has hidden are skipped
+export interface WatermarkInfo {
+  takenAt: Date;
+  coordinates?: { latitude: number; longitude: number } | null;
+  caseNumber?: string;
+  attemptNumber?: number;
+  serverId?: string;
+}
+
+export const WATERMARK_POSITIONS: { value: WatermarkPosition; label: string }[] = [
+  { value: "bottom-left", label: "Bottom left" },
+  { value: "bottom-right", label: "Bottom right" },
+  { value: "top-left", label: "Top left" },
+  { value: "top-right", label: "Top right" },
+];
+
+export const WATERMARK_FIELDS: { value: WatermarkField; label: string }[] = [
+  { value: "dateTime", label: "Date and time" },
+  { value: "coordinates", label: "GPS coordinates" },
+  { value: "caseNumber", label: "Case number" },
+  { value: "attemptNumber", label: "Attempt number" },
+  { value: "serverId", label: "Server ID" },
+];
+
+export const DEFAULT_WATERMARK_SETTINGS: WatermarkSettings = {
+  enabled: true,
+  position: "bottom-left",
+  fields: {
+    dateTime: true,
+    coordinates: true,
+    caseNumber: true,
+    attemptNumber: true,
+    serverId: true,
+  },
+  opacity: 0.6,
+};
+
+const WATERMARK_SETTINGS_KEY = "serveWatermarkSettings";
+
+export const getWatermarkSettings = (): WatermarkSettings => {
+  try {
+    const stored = localStorage.getItem(WATERMARK_SETTINGS_KEY);
+    if (!stored) return DEFAULT_WATERMARK_SETTINGS;
+    const parsed = JSON.parse(stored);
+    return {
+      ...DEFAULT_WATERMARK_SETTINGS,
+      ...parsed,
+      fields: { ...DEFAULT_WATERMARK_SETTINGS.fields, ...parsed.fields },
+    };
+  } catch (error) {
+    console.warn("Could not read watermark settings:", error);
+    return DEFAULT_WATERMARK_SETTINGS;
+  }
+};
+
+export const saveWatermarkSettings = (settings: WatermarkSettings): void => {
+  localStorage.setItem(WATERMARK_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Builds the overlay text, one line per enabled field
+ * @param info Values for the photo being captured
+ * @param settings Overlay settings
+ * @returns Lines to draw, empty if nothing should be drawn
+ */
+export const getWatermarkLines = (info: WatermarkInfo, settings: WatermarkSettings): string[] => {
+  if (!settings.enabled) return [];
+  const { fields } = settings;
+  const lines: string[] = [];
+
+  if (fields.dateTime) {
+    lines.push(info.takenAt.toLocaleString());
+  }
+  if (fields.coordinates && info.coordinates) {
+    lines.push(formatCoordinates(info.coordinates.latitude, info.coordinates.longitude));
+  }
+
+  const caseLine: string[] = [];
+  if (fields.caseNumber && info.caseNumber) caseLine.push(`Case ${info.caseNumber}`);
+  if (fields.attemptNumber && info.attemptNumber) caseLine.push(`Attempt #${info.attemptNumber}`);
+  if (caseLine.length > 0) lines.push(caseLine.join("  |  "));
+
+  if (fields.serverId && info.serverId) {
+    lines.push(`Server ${info.serverId}`);
+  }
+
+  return lines;
+};
+
+/**
+ * Draws the overlay onto a canvas that already holds the photo
+ * @param context 2D context of the photo canvas
+ * @param lines Text lines from getWatermarkLines
+ * @param settings Overlay settings
+ */
+export const drawWatermark = (
+  context: CanvasRenderingContext2D,
+  lines: string[],
+  settings: WatermarkSettings
+): void => {
+  if (lines.length === 0) return;
+
+  const { width, height } = context.canvas;
+  // Scale with the photo so the text stays legible on both thumbnails and full-size shots
+  const fontSize = Math.max(12, Math.round(Math.min(width, height) * 0.032));
+  const lineHeight = Math.round(fontSize * 1.3);
+  const padding = Math.round(fontSize * 0.6);
+  const margin = Math.round(fontSize * 0.8);
+
+  context.save();
+  context.font = `600 ${fontSize}px sans-serif`;
+  context.textBaseline = "top";
+
+  const textWidth = Math.max(...lines.map(line => context.measureText(line).width));
+  const boxWidth = Math.ceil(textWidth) + padding * 2;
+  const boxHeight = lines.length * lineHeight + padding * 2 - (lineHeight - fontSize);
+
+  const alignRight = settings.position.endsWith("right");
+  const alignBottom = settings.position.startsWith("bottom");
+  const x = alignRight ? width - boxWidth - margin : margin;
+  const y = alignBottom ? height - boxHeight - margin : margin;
+
+  const opacity = Math.min(1, Math.max(0.1, settings.opacity));
+  context.fillStyle = `rgba(0, 0, 0, ${opacity})`;
+  context.fillRect(x, y, boxWidth, boxHeight);
+
+  context.fillStyle = "#ffffff";
+  context.textAlign = alignRight ? "right" : "left";
+  const textX = alignRight ? x + boxWidth - padding : x + padding;
+  lines.forEach((line, index) => {
+    context.fillText(line, textX, y + padding + index * lineHeight);
+  });
+
+  context.restore();
+};
+
+/**
+ * Burns the overlay into an image that did not come from the in-app camera,
+ * e.g. one picked through the device camera app
+ * @param imageDataUrl Source image as a data URL
+ * @param lines Text lines from getWatermarkLines
+ * @param settings Overlay settings
+ * @returns JPEG data URL with the overlay, or the source if there is nothing to draw
+ */
+export const applyWatermark = (
+  imageDataUrl: string,
+  lines: string[],
+  settings: WatermarkSettings
+): Promise<string> => {
+  if (lines.length === 0) return Promise.resolve(imageDataUrl);
+
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      const context = canvas.getContext("2d");
+      if (!context) {
+        reject(new Error("Canvas is not available"));
+        return;
+      }
+      context.drawImage(image, 0, 0);
+      drawWatermark(context, lines, settings);
+      resolve(canvas.toDataURL("image/jpeg", 0.9));
+    };
+    image.onerror = () => reject(new Error("Could not load image for watermarking"));
+    image.src = imageDataUrl;
+  });
+};
@@ -11,6 +11,15 @@ interface ImportMetaEnv {
   readonly VITE_APPWRITE_CLIENT_DOCUMENTS_COLLECTION_ID: string;
   readonly VITE_APPWRITE_STORAGE_BUCKET_ID: string;
   readonly VITE_APPWRITE_EMAIL_FUNCTION_ID: string;
+  readonly VITE_APPWRITE_TEAM_ID: string;
+  readonly VITE_APPWRITE_CASE_UPDATES_FUNCTION_ID?: string;
+  readonly VITE_GEOCODING_PROVIDER?: string;
+  readonly VITE_NOMINATIM_URL?: string;
+  readonly VITE_NOMINATIM_EMAIL?: string;
+  readonly VITE_MAP_TILE_URL?: string;
+  readonly VITE_MAP_TILE_SUBDOMAINS?: string;
+  readonly VITE_MAP_ATTRIBUTION?: string;
+  readonly VITE_MAP_MAX_ZOOM?: string;
 }
 
 interface ImportMeta {